@@ -21,7 +21,7 @@
  * SOFTWARE.
  */
 
-const { Vec2, Transform, Polygon, Box, FrictionJoint, World, Edge, Testbed } = planck;
+const { Vec2, Transform, Rot, Polygon, Box, FrictionJoint, World, Edge, Testbed } = planck;
 
 
 let world = new World();
@@ -49,9 +49,9 @@ ground.createFixture(new Edge(Vec2.create(-20.0, 20.0), Vec2.create(20.0, 20.0))
 // Bottom horizontal
 ground.createFixture(new Edge(Vec2.create(-20.0, -20.0), Vec2.create(20.0, -20.0)), wallFD);
 
-const xf1 = new Transform();
-xf1.q.set(0.3524 * Math.PI);
-Vec2.copy(xf1.q.getXAxis(), xf1.p)
+const xf1 = Transform.create();
+Rot.setAngle(0.3524 * Math.PI, xf1.q);
+Vec2.copy(Rot.getXAxis(xf1.q), xf1.p)
 
 let poly1 = new Polygon([
   Vec2.create(-1.0, 0.0),
@@ -59,9 +59,9 @@ let poly1 = new Polygon([
   Vec2.create(0.0, 0.5)
 ].map(v => Transform.mul(xf1, v)));
 
-const xf2 = new Transform();
-xf2.q.set(-0.3524 * Math.PI);
-Vec2.copy(Vec2.neg(xf2.q.getXAxis()), xf2.p)
+const xf2 = Transform.create();
+Rot.setAngle(-0.3524 * Math.PI, xf2.q);
+Vec2.copy(Vec2.neg(Rot.getXAxis(xf2.q)), xf2.p)
 
 let poly2 = new Polygon([
   Vec2.create(-1.0, 0.0),
@@ -22,7 +22,7 @@
  */
 
 // TODO_ERIN test joints on compounds.
-const { World, Vec2, Transform, Math, Edge, Circle, Polygon, Box, Testbed } = planck;
+const { World, Vec2, Transform, Rot, Math, Edge, Circle, Polygon, Box, Testbed } = planck;
 
 let world = new World(Vec2.create(0, -10));
 
@@ -55,10 +55,10 @@ for (let i = 0; i < 10; ++i) {
   body.createFixture(polygon2, 2.0);
 }
 
-const xf1 = new Transform();
-xf1.q.set(0.3524 * Math.PI);
+const xf1 = Transform.create();
+Rot.setAngle(0.3524 * Math.PI, xf1.q);
 
-Vec2.copy(xf1.q.getXAxis(), xf1.p);
+Vec2.copy(Rot.getXAxis(xf1.q), xf1.p);
 
 let triangle1 = new Polygon([
   Vec2.create(-1.0, 0.0),
@@ -66,9 +66,9 @@ let triangle1 = new Polygon([
   Vec2.create(0.0, 0.5)
 ].map(v => Transform.mul(xf1, v)));
 
-const xf2 = new Transform();
-xf2.q.set(-0.3524 * Math.PI);
-Vec2.copy(Vec2.neg(xf2.q.getXAxis()), xf2.p);
+const xf2 = Transform.create();
+Rot.setAngle(-0.3524 * Math.PI, xf2.q);
+Vec2.copy(Vec2.neg(Rot.getXAxis(xf2.q)), xf2.p);
 
 let triangle2 = new Polygon([
   Vec2.create(-1.0, 0.0),
@@ -32,13 +32,13 @@ let world = new World();
 const testbed = Testbed.mount();
 testbed.start(world);    
 
-let transformA = new Transform(Vec2.create(0.0, -0.2));
+let transformA = Transform.create(Vec2.create(0.0, -0.2));
 
 let polygonA = new Box(10.0, 0.2);
 
 let positionB = Vec2.create(12.017401, 0.13678508);
 let angleB = -0.0109265;
-let transformB = new Transform(positionB, angleB);
+let transformB = Transform.create(positionB, angleB);
 
 let polygonB = new Box(2.0, 0.1);
 
@@ -52,8 +52,8 @@ testbed.step = function() {
   let input = new DistanceInput();
   input.proxyA.set(polygonA, 0);
   input.proxyB.set(polygonB, 0);
-  input.transformA.set(transformA);
-  input.transformB.set(transformB);
+  Transform.copy(transformA, input.transformA);
+  Transform.copy(transformB, input.transformB);
   input.useRadii = true;
 
   let cache = new SimplexCache();
@@ -100,5 +100,5 @@ testbed.keydown = function() {
     angleB -= 0.1;
   }
 
-  transformB.set(positionB, angleB);
+  Transform.set(positionB, angleB, transformB);
 };
@@ -30,12 +30,12 @@ testbed.info('Use arrow keys to move and Z or X to rotate.');
 testbed.start(world);
 
 let polygonA = new Box(2, 4);
-let transformA = new Transform(Vec2.create(0.0, 0.0), 0.0);
+let transformA = Transform.create(Vec2.create(0.0, 0.0), 0.0);
 
 let polygonB = new Box(5, 5);
 let positionB = Vec2.create(5, 4);
 let angleB = 1.9160721;
-let transformB = new Transform(positionB, angleB);
+let transformB = Transform.create(positionB, angleB);
 
 testbed.step = function() {
   let manifold = new Manifold();
@@ -81,5 +81,5 @@ testbed.keydown = function() {
     angleB -= 0.2;
   }
 
-  transformB.set(positionB, angleB);
+  Transform.set(positionB, angleB, transformB);
 };
@@ -183,7 +183,7 @@ let AABBQueryListener = (function() {
   let def = {};
 
   def.circle = new Circle(Vec2.create(0.0, 1.1), 2.0);
-  def.transform = new Transform();
+  def.transform = Transform.create();
   let count = 0;
 
   let MAX_COUNT = 40;
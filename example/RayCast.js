@@ -332,7 +332,7 @@ testbed.step = function() {
     // input.maxFraction = 0.567623;
     input.maxFraction = 0.56762173;
 
-    let xf = new Transform(Vec2.create(23.0, 5.0));
+    let xf = Transform.create(Vec2.create(23.0, 5.0));
 
     let output = {}; // RayCastOutput
     let hit = shape.rayCast(output, input, xf);
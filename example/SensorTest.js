@@ -62,40 +62,20 @@ for (let i = 0; i < COUNT; ++i) {
   bodies[i].createFixture(circle, 1.0);
 }
 
-// Implement contact listener.
-world.on('begin-contact', function(contact) {
-  let fixtureA = contact.getFixtureA();
-  let fixtureB = contact.getFixtureB();
-
-  if (fixtureA === sensor) {
-    let userData = fixtureB.getBody().getUserData();
-    if (userData) {
-      userData.touching = true;
-    }
-  }
-
-  if (fixtureB === sensor) {
-    let userData = fixtureA.getBody().getUserData();
+// Implement sensor listener.
+world.on('sensor-begin', function(sensorFixture, other) {
+  if (sensorFixture === sensor) {
+    let userData = other.getBody().getUserData();
     if (userData) {
       userData.touching = true;
     }
   }
 });
 
-// Implement contact listener.
-world.on('end-contact', function(contact) {
-  let fixtureA = contact.getFixtureA();
-  let fixtureB = contact.getFixtureB();
-
-  if (fixtureA === sensor) {
-    let userData = fixtureB.getBody().getUserData();
-    if (userData) {
-      userData.touching = false;
-    }
-  }
-
-  if (fixtureB === sensor) {
-    let userData = fixtureA.getBody().getUserData();
+// Implement sensor listener.
+world.on('sensor-end', function(sensorFixture, other) {
+  if (sensorFixture === sensor) {
+    let userData = other.getBody().getUserData();
     if (userData) {
       userData.touching = false;
     }
@@ -103,7 +83,7 @@ world.on('end-contact', function(contact) {
 });
 
 testbed.step = function() {
-  // Traverse the contact results. Apply a force on shapes
+  // Traverse the sensor results. Apply a force on shapes
   // that overlap the sensor.
   for (let i = 0; i < COUNT; ++i) {
     if (!touching[i].touching) {
@@ -21,7 +21,7 @@
  * SOFTWARE.
  */
 
-const { Vec2, Transform, World, Settings, ShapeCastInput, ShapeCastOutput, ShapeCast, DistanceInput, DistanceOutput, Distance, SimplexCache, Testbed } = planck;
+const { Vec2, Transform, Rot, World, Settings, ShapeCastInput, ShapeCastOutput, ShapeCast, DistanceInput, DistanceOutput, Distance, SimplexCache, Testbed } = planck;
 
 let world = new World();
 
@@ -56,8 +56,8 @@ if (true) {
   countB = 4;
   radiusB = Settings.polygonRadius;
 
-  transformA = new Transform(Vec2.create(4, 0.25));
-  transformB = new Transform(Vec2.create(-4, 0));
+  transformA = Transform.create(Vec2.create(4, 0.25));
+  transformB = Transform.create(Vec2.create(-4, 0));
   translationB = Vec2.create(8.0, 0.0);
 } else if (true) {
   Vec2.set(0.0, 0.0, vAs[0]);
@@ -68,8 +68,8 @@ if (true) {
   countB = 1;
   radiusB = 0.5;
 
-  transformA = new Transform(Vec2.create(0, 0.25));
-  transformB = new Transform(Vec2.create(-4, 0));
+  transformA = Transform.create(Vec2.create(0, 0.25));
+  transformB = Transform.create(Vec2.create(-4, 0));
   translationB = Vec2.create(8.0, 0.0);
 } else {
   Vec2.set(0.0, 0.0, vAs[0]);
@@ -82,9 +82,9 @@ if (true) {
   radiusB = 0.25;
 
   // Initial overlap
-  transformA = new Transform(Vec2.create(0, 0));
-  transformB = new Transform(Vec2.create(-0.244360745, 0.05999358));
-  transformB.q.setIdentity();
+  transformA = Transform.create(Vec2.create(0, 0));
+  transformB = Transform.create(Vec2.create(-0.244360745, 0.05999358));
+  Rot.setIdentity(transformB.q);
   translationB = Vec2.create(0.0, 0.0399999991);
 }
 
@@ -94,24 +94,24 @@ testbed.step = function() {
   const input = new ShapeCastInput();
   input.proxyA.setVertices(vAs, countA, radiusA);
   input.proxyB.setVertices(vBs, countB, radiusB);
-  input.transformA.set(transformA);
-  input.transformB.set(transformB);
+  Transform.copy(transformA, input.transformA);
+  Transform.copy(transformB, input.transformB);
   Vec2.copy(translationB, input.translationB);
 
   const output = new ShapeCastOutput();
 
   const hit = ShapeCast(output, input);
 
-  const transformB2 = new Transform(
+  const transformB2 = Transform.create(
     Vec2.combine(1, transformB.p, output.lambda, input.translationB),
-    transformB.q.getAngle()
+    Rot.getAngle(transformB.q)
   );
 
   const distanceInput = new DistanceInput();
   distanceInput.proxyA.setVertices(vAs, countA, radiusA);
   distanceInput.proxyB.setVertices(vBs, countB, radiusB);
-  distanceInput.transformA.set(transformA);
-  distanceInput.transformB.set(transformB2);
+  Transform.copy(transformA, distanceInput.transformA);
+  Transform.copy(transformB2, distanceInput.transformB);
   distanceInput.useRadii = false;
   const simplexCache = new SimplexCache();
   simplexCache.count = 0;
@@ -33,7 +33,7 @@ testbed.y = 0;
 testbed.start(world);
 
 let shapeA = new Box(25.0, 5.0);
-let sweepA = new Sweep();
+let sweepA = Sweep.create();
 Vec2.set(0, 0, sweepA.c0);
 sweepA.a0 = 0.1;
 Vec2.copy(sweepA.c0, sweepA.c);
@@ -41,7 +41,7 @@ sweepA.a = sweepA.a0;
 Vec2.setZero(sweepA.localCenter);
 
 let shapeB = new Box(2.5, 2.5);
-let sweepB = new Sweep();
+let sweepB = Sweep.create();
 Vec2.set(20, 20, sweepB.c0);
 sweepB.a0 = 0.1; // - 162.0 * Math.PI;
 Vec2.set(-20, -20, sweepB.c);
@@ -53,9 +53,9 @@ Vec2.setZero(sweepB.localCenter);
 
 let input = new TOIInput();
 input.proxyA.set(shapeA, 0);
-input.sweepA.set(sweepA);
+Sweep.copy(sweepA, input.sweepA);
 input.proxyB.set(shapeB, 0);
-input.sweepB.set(sweepB);
+Sweep.copy(sweepB, input.sweepB);
 input.tMax = 1.0;
 
 let output = new TOIOutput();
@@ -70,28 +70,28 @@ testbed.step = function() {
 
   let vertices = [];
 
-  let transformB = new Transform();
+  let transformB = Transform.create();
 
   for (let t = 0.1; t < 1.0; t += 0.1) {
-    sweepB.getTransform(transformB, t);
+    Sweep.getTransform(sweepB, t, transformB);
     vertices = shapeB.m_vertices.map(v => Transform.mul(transformB, v));
     testbed.drawPolygon(vertices, testbed.color(0.2, 0.2, 0.2));
   }
 
-  let transformA = new Transform();
-  sweepA.getTransform(transformA, 0.0);
+  let transformA = Transform.create();
+  Sweep.getTransform(sweepA, 0.0, transformA);
   vertices = shapeA.m_vertices.map(v => Transform.mul(transformA, v));
   testbed.drawPolygon(vertices, testbed.color(0.7, 0.7, 0.7));
 
-  sweepB.getTransform(transformB, 0.0);
+  Sweep.getTransform(sweepB, 0.0, transformB);
   vertices = shapeB.m_vertices.map(v => Transform.mul(transformB, v));
   testbed.drawPolygon(vertices, testbed.color(1, 1, 1));
 
-  sweepB.getTransform(transformB, output.t);
+  Sweep.getTransform(sweepB, output.t, transformB);
   vertices = shapeB.m_vertices.map(v => Transform.mul(transformB, v));
   testbed.drawPolygon(vertices, testbed.color(1, 0, 0));
 
-  sweepB.getTransform(transformB, 1.0);
+  Sweep.getTransform(sweepB, 1.0, transformB);
   vertices = shapeB.m_vertices.map(v => Transform.mul(transformB, v));
   testbed.drawPolygon(vertices, testbed.color(1, 1, 1));
 };
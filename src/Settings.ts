@@ -29,6 +29,9 @@
  * Tuning constants based on meters-kilograms-seconds (MKS) units.
  * 
  * Some tolerances are absolute and some are relative. Absolute tolerances use MKS units.
+ *
+ * These are global defaults, use {@link WorldDef.settings} to change them for a
+ * single world.
  */
 export class Settings {
   /**
@@ -112,6 +115,13 @@ export class Settings {
    */
   static velocityThreshold: number = 1.0;
 
+  /**
+   * Minimum relative normal approach speed of two fixtures which start touching
+   * to report a hit event, see {@link ContactEvents.hit}. Fixtures can override
+   * this using {@link FixtureDef.hitEventThreshold}.
+   */
+  static hitEventThreshold: number = 1.0;
+
   /**
    * The maximum linear position correction used when solving constraints. This
    * helps to prevent overshoot.
@@ -162,84 +172,217 @@ export class Settings {
   static angularSleepTolerance: number = (2.0 / 180.0 * math_PI);
 }
 
-/** @internal */
+/**
+ * Tuning constants of a world, see {@link WorldDef.settings}. Values which are
+ * not set are read from the global {@link Settings}.
+ *
+ * The maximum number of manifold points and polygon vertices, and the tolerances
+ * used when shapes are created, are always read from the global {@link Settings}.
+ */
+export interface SettingsDef {
+  lengthUnitsPerMeter?: number;
+  aabbExtension?: number;
+  aabbMultiplier?: number;
+  linearSlop?: number;
+  angularSlop?: number;
+  maxSubSteps?: number;
+  maxTOIContacts?: number;
+  maxTOIIterations?: number;
+  maxDistanceIterations?: number;
+  velocityThreshold?: number;
+  hitEventThreshold?: number;
+  maxLinearCorrection?: number;
+  maxAngularCorrection?: number;
+  maxTranslation?: number;
+  maxRotation?: number;
+  baumgarte?: number;
+  toiBaugarte?: number;
+  timeToSleep?: number;
+  linearSleepTolerance?: number;
+  angularSleepTolerance?: number;
+}
+
+/**
+ * @internal
+ * Settings of a world, with overrides from {@link SettingsDef}. Static getters
+ * return the global settings, for code which does not belong to a world.
+ */
 export class SettingsInternal {
-  static get maxManifoldPoints() {
+  /** Settings without overrides. */
+  static readonly global = new SettingsInternal();
+
+  m_def: SettingsDef;
+
+  constructor(def?: SettingsDef) {
+    this.m_def = { ...def };
+  }
+
+  value(name: keyof SettingsDef): number {
+    const value = this.m_def[name];
+    return typeof value === 'number' ? value : Settings[name];
+  }
+
+  get maxManifoldPoints() {
     return Settings.maxManifoldPoints;
   }
-  static get maxPolygonVertices() {
+  get maxPolygonVertices() {
     return Settings.maxPolygonVertices;
   }
+  get aabbExtension() {
+    return this.value('aabbExtension') * this.value('lengthUnitsPerMeter');
+  }
+  get aabbMultiplier() {
+    return this.value('aabbMultiplier');
+  }
+  get linearSlop() {
+    return this.value('linearSlop') * this.value('lengthUnitsPerMeter');
+  }
+  get linearSlopSquared() {
+    return this.value('linearSlop') * this.value('lengthUnitsPerMeter') * this.value('linearSlop') * this.value('lengthUnitsPerMeter');
+  }
+  get angularSlop() {
+    return this.value('angularSlop');
+  }
+  get polygonRadius() {
+    return 2.0 * this.linearSlop;
+  }
+  get maxSubSteps() {
+    return this.value('maxSubSteps');
+  }
+  get maxTOIContacts() {
+    return this.value('maxTOIContacts');
+  }
+  get maxTOIIterations() {
+    return this.value('maxTOIIterations');
+  }
+  get maxDistanceIterations() {
+    return this.value('maxDistanceIterations');
+  }
+  get velocityThreshold() {
+    return this.value('velocityThreshold') * this.value('lengthUnitsPerMeter');
+  }
+  get hitEventThreshold() {
+    return this.value('hitEventThreshold') * this.value('lengthUnitsPerMeter');
+  }
+  get maxLinearCorrection() {
+    return this.value('maxLinearCorrection') * this.value('lengthUnitsPerMeter');
+  }
+  get maxAngularCorrection() {
+    return this.value('maxAngularCorrection');
+  }
+  get maxTranslation() {
+    return this.value('maxTranslation') * this.value('lengthUnitsPerMeter');
+  }
+  get maxTranslationSquared() {
+    return this.value('maxTranslation') * this.value('lengthUnitsPerMeter') * this.value('maxTranslation') * this.value('lengthUnitsPerMeter');
+  }
+  get maxRotation() {
+    return this.value('maxRotation');
+  }
+  get maxRotationSquared() {
+    return this.value('maxRotation') * this.value('maxRotation');
+  }
+  get baumgarte() {
+    return this.value('baumgarte');
+  }
+  get toiBaugarte() {
+    return this.value('toiBaugarte');
+  }
+  get timeToSleep() {
+    return this.value('timeToSleep');
+  }
+  get linearSleepTolerance() {
+    return this.value('linearSleepTolerance') * this.value('lengthUnitsPerMeter');
+  }
+  get linearSleepToleranceSqr() {
+    return this.value('linearSleepTolerance') * this.value('lengthUnitsPerMeter') * this.value('linearSleepTolerance') * this.value('lengthUnitsPerMeter');
+  }
+  get angularSleepTolerance() {
+    return this.value('angularSleepTolerance');
+  }
+  get angularSleepToleranceSqr() {
+    return this.value('angularSleepTolerance') * this.value('angularSleepTolerance');
+  }
+
+  static get maxManifoldPoints() {
+    return SettingsInternal.global.maxManifoldPoints;
+  }
+  static get maxPolygonVertices() {
+    return SettingsInternal.global.maxPolygonVertices;
+  }
   static get aabbExtension() {
-    return Settings.aabbExtension * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.aabbExtension;
   }
   static get aabbMultiplier() {
-    return Settings.aabbMultiplier;
+    return SettingsInternal.global.aabbMultiplier;
   }
   static get linearSlop() {
-    return Settings.linearSlop * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.linearSlop;
   }
   static get linearSlopSquared() {
-    return Settings.linearSlop * Settings.lengthUnitsPerMeter * Settings.linearSlop * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.linearSlopSquared;
   }
   static get angularSlop() {
-    return Settings.angularSlop;
+    return SettingsInternal.global.angularSlop;
   }
   static get polygonRadius() {
-    return 2.0 * Settings.linearSlop;
+    return SettingsInternal.global.polygonRadius;
   }
   static get maxSubSteps() {
-    return Settings.maxSubSteps;
+    return SettingsInternal.global.maxSubSteps;
   }
   static get maxTOIContacts() {
-    return Settings.maxTOIContacts;
+    return SettingsInternal.global.maxTOIContacts;
   }
   static get maxTOIIterations() {
-    return Settings.maxTOIIterations;
+    return SettingsInternal.global.maxTOIIterations;
   }
   static get maxDistanceIterations() {
-    return Settings.maxDistanceIterations;
+    return SettingsInternal.global.maxDistanceIterations;
   }
   static get velocityThreshold() {
-    return Settings.velocityThreshold * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.velocityThreshold;
+  }
+  static get hitEventThreshold() {
+    return SettingsInternal.global.hitEventThreshold;
   }
   static get maxLinearCorrection() {
-    return Settings.maxLinearCorrection * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.maxLinearCorrection;
   }
   static get maxAngularCorrection() {
-    return Settings.maxAngularCorrection;
+    return SettingsInternal.global.maxAngularCorrection;
   }
   static get maxTranslation() {
-    return Settings.maxTranslation * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.maxTranslation;
   }
   static get maxTranslationSquared() {
-    return Settings.maxTranslation * Settings.lengthUnitsPerMeter * Settings.maxTranslation * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.maxTranslationSquared;
   }
   static get maxRotation() {
-    return Settings.maxRotation;
+    return SettingsInternal.global.maxRotation;
   }
   static get maxRotationSquared() {
-    return Settings.maxRotation * Settings.maxRotation;
+    return SettingsInternal.global.maxRotationSquared;
   }
   static get baumgarte() {
-    return Settings.baumgarte;
+    return SettingsInternal.global.baumgarte;
   }
   static get toiBaugarte() {
-    return Settings.toiBaugarte;
+    return SettingsInternal.global.toiBaugarte;
   }
   static get timeToSleep() {
-    return Settings.timeToSleep;
+    return SettingsInternal.global.timeToSleep;
   }
   static get linearSleepTolerance() {
-    return Settings.linearSleepTolerance * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.linearSleepTolerance;
   }
   static get linearSleepToleranceSqr() {
-    return Settings.linearSleepTolerance * Settings.lengthUnitsPerMeter * Settings.linearSleepTolerance * Settings.lengthUnitsPerMeter;
+    return SettingsInternal.global.linearSleepToleranceSqr;
   }
   static get angularSleepTolerance() {
-    return Settings.angularSleepTolerance;
+    return SettingsInternal.global.angularSleepTolerance;
   }
   static get angularSleepToleranceSqr() {
-    return Settings.angularSleepTolerance * Settings.angularSleepTolerance;
+    return SettingsInternal.global.angularSleepToleranceSqr;
   }
 }
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
 
 import * as Vec2 from '../common/Vec2';
-import { Transform } from '../common/Transform';
+import * as Transform from '../common/Transform';
+import * as Sweep from '../common/Sweep';
 import { CircleShape } from '../collision/shape/CircleShape';
 import { TimeOfImpact, TOIInput, TOIOutput } from '../collision/TimeOfImpact';
 import { Distance, SimplexCache, DistanceOutput, DistanceInput } from '../collision/Distance';
@@ -44,8 +45,8 @@ describe('CCD', function(): void {
     input.proxyA.set(c1, 0);
     input.proxyB.set(c1, 0);
 
-    input.sweepA.setTransform(new Transform(Vec2.create(0, 0), 0));
-    input.sweepB.setTransform(new Transform(Vec2.create(1.9, 0), 0));
+    Sweep.setTransform(Transform.create(Vec2.create(0, 0), 0), input.sweepA);
+    Sweep.setTransform(Transform.create(Vec2.create(1.9, 0), 0), input.sweepB);
 
     input.tMax = 1.0;
 
@@ -54,12 +55,12 @@ describe('CCD', function(): void {
     TimeOfImpact(output, input);
     console.log(output.t, output.state);
 
-    input.sweepB.setTransform(new Transform(Vec2.create(2, 0), 0));
+    Sweep.setTransform(Transform.create(Vec2.create(2, 0), 0), input.sweepB);
 
     TimeOfImpact(output, input);
     console.log(output.t, output.state);
 
-    input.sweepB.setTransform(new Transform(Vec2.create(2.1, 0), 0));
+    Sweep.setTransform(Transform.create(Vec2.create(2.1, 0), 0), input.sweepB);
 
     TimeOfImpact(output, input);
     console.log(output.t, output.state);
@@ -5,6 +5,14 @@ import * as Vec2 from '../common/Vec2';
 import { AABB } from '../collision/AABB';
 import { DynamicTree } from '../collision/DynamicTree';
 import { BroadPhase } from '../collision/BroadPhase';
+import { BoxShape } from '../collision/shape/BoxShape';
+import { CircleShape } from '../collision/shape/CircleShape';
+import * as Transform from '../common/Transform';
+import * as Sweep from '../common/Sweep';
+import { distance, overlaps, castShape, timeOfImpact, collide } from '../collision/Geometry';
+
+// registers Polygon-Circle collision
+import '../collision/shape/CollideCirclePolygon';
 
 
 describe('Collision', function(): void {
@@ -133,4 +141,38 @@ describe('Collision', function(): void {
 
   });
 
+  it('Geometry', function(): void {
+    var box = new BoxShape(1, 1);
+    var circle = new CircleShape(0.5);
+    var xfBox = Transform.create(Vec2.create(0, 0), 0);
+
+    var r = distance(box, xfBox, circle, Transform.create(Vec2.create(3, 0), 0));
+    expect(r.distance).closeTo(1.5, 0.02);
+    expect(r.pointA[0]).closeTo(1, 0.02);
+    expect(r.pointB[0]).closeTo(2.5, 1e-6);
+
+    expect(overlaps(box, xfBox, circle, Transform.create(Vec2.create(1.4, 0), 0))).equal(true);
+    expect(overlaps(box, xfBox, circle, Transform.create(Vec2.create(1.6, 0), 0))).equal(false);
+
+    var cast = castShape(box, xfBox, circle, Transform.create(Vec2.create(5, 0), 0), Vec2.create(-10, 0));
+    expect(cast.lambda).closeTo(0.35, 0.01);
+    expect(cast.normal[0]).closeTo(1, 1e-6);
+    expect(castShape(box, xfBox, circle, Transform.create(Vec2.create(5, 0), 0), Vec2.create(0, 10))).equal(null);
+
+    var sweepA = Sweep.create();
+    var sweepB = Sweep.create();
+    Vec2.set(5, 0, sweepB.c0);
+    Vec2.set(-5, 0, sweepB.c);
+    var toi = timeOfImpact(box, sweepA, circle, sweepB);
+    expect(toi.t).closeTo(0.35, 0.01);
+
+    var m = collide(circle, Transform.create(Vec2.create(1.4, 0), 0), box, xfBox);
+    expect(m.pointCount).equal(1);
+    expect(m.normal[0]).closeTo(-1, 1e-6);
+    expect(m.separations[0]).closeTo(-0.1, 0.02);
+
+    m = collide(circle, Transform.create(Vec2.create(3, 0), 0), box, xfBox);
+    expect(m.pointCount).equal(0);
+  });
+
 });
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+
+import * as Vec2 from '../common/Vec2';
+import { World } from '../dynamics/World';
+import { BoxShape } from '../collision/shape/BoxShape';
+
+// registers Box-Box collision
+import '../collision/shape/CollidePolygon';
+
+describe('ContactEvents', function(): void {
+
+  it('is disabled by default', function(): void {
+    var world = new World();
+    expect(world.getContactEvents()).equal(null);
+
+    world.setContactEvents(true);
+    expect(world.getContactEvents().begin.count).equal(0);
+  });
+
+  it('collects contact events during step', function(): void {
+    var world = new World({ gravity: Vec2.create(0, -10), contactEvents: true });
+
+    var ground = world.createBody();
+    var groundFixture = ground.createFixture(new BoxShape(10.0, 1.0));
+
+    var sensor = world.createBody(Vec2.create(0, 3));
+    var sensorFixture = sensor.createFixture({ shape: new BoxShape(2.0, 0.5), isSensor: true });
+
+    var box = world.createDynamicBody(Vec2.create(0, 5));
+    var boxFixture = box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var events = world.getContactEvents();
+    var sensorBegin = 0;
+    var sensorEnd = 0;
+    var begin = -1;
+    for (var i = 0; i < 120 && begin < 0; ++i) {
+      world.step(1 / 60);
+      sensorBegin += events.sensorBegin.count;
+      sensorEnd += events.sensorEnd.count;
+      if (events.begin.count > 0) {
+        begin = i;
+      }
+    }
+
+    expect(sensorBegin).equal(1);
+    expect(sensorEnd).equal(1);
+    expect(events.sensorBegin.count).equal(0);
+    expect(begin).greaterThan(0);
+
+    var begins = events.begin;
+    expect(begins.count).equal(1);
+    expect([begins.fixtureA[0], begins.fixtureB[0]]).contain(groundFixture);
+    expect([begins.fixtureA[0], begins.fixtureB[0]]).contain(boxFixture);
+    expect(begins.fixtureA[0]).not.equal(sensorFixture);
+    expect(begins.pointCount[0]).equal(2);
+    expect(Math.abs(begins.normal[1])).closeTo(1, 1e-6);
+    expect(begins.points[1]).closeTo(1, 0.1);
+    expect(begins.points[3]).closeTo(1, 0.1);
+
+    // bodies can be changed after the step
+    box.setTransform(Vec2.create(0, 8), 0);
+    world.step(1 / 60);
+
+    expect(events.begin.count).equal(0);
+    expect(events.end.count).equal(1);
+    expect(events.end.pointCount[0]).equal(2);
+
+    world.step(1 / 60);
+    expect(events.end.count).equal(0);
+  });
+
+  it('reports hit events above threshold', function(): void {
+    function drop(worldThreshold: number, fixtureThreshold?: number, lengthUnitsPerMeter?: number): World {
+      var world = new World({
+        gravity: Vec2.create(0, -10),
+        contactEvents: true,
+        settings: { hitEventThreshold: worldThreshold, lengthUnitsPerMeter: lengthUnitsPerMeter },
+      });
+      world.createBody().createFixture(new BoxShape(10.0, 1.0));
+      var box = world.createDynamicBody(Vec2.create(0, 5));
+      box.createFixture({ shape: new BoxShape(0.5, 0.5), density: 1.0, hitEventThreshold: fixtureThreshold });
+      return world;
+    }
+
+    function hits(world: World): number[] {
+      var events = world.getContactEvents();
+      var speeds = [];
+      for (var i = 0; i < 120; ++i) {
+        world.step(1 / 60);
+        for (var j = 0; j < events.hit.count; ++j) {
+          speeds.push(events.hit.approachSpeed[j]);
+          expect(events.hit.point[2 * j + 1]).closeTo(1, 0.1);
+          expect(Math.abs(events.hit.normal[2 * j + 1])).closeTo(1, 1e-6);
+        }
+      }
+      return speeds;
+    }
+
+    // falling 3.5 meters
+    var speeds = hits(drop(1));
+    expect(speeds.length).equal(1);
+    expect(speeds[0]).closeTo(Math.sqrt(2 * 10 * 3.5), 0.5);
+
+    expect(hits(drop(20)).length).equal(0);
+    expect(hits(drop(20, 1)).length).equal(1);
+    expect(hits(drop(1, Infinity)).length).equal(1);
+
+    // both thresholds are scaled by length units
+    expect(hits(drop(1, 1, 100)).length).equal(0);
+    expect(hits(drop(0.01, 0.01, 100)).length).equal(1);
+  });
+
+  it('resets hit flags when events are disabled', function(): void {
+    var world = new World({ gravity: Vec2.create(0, -10) });
+    world.createBody().createFixture(new BoxShape(10.0, 1.0));
+    var box = world.createDynamicBody(Vec2.create(0, 5));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    for (var i = 0; i < 120; ++i) {
+      world.step(1 / 60);
+      for (var c = world.getContactList(); c; c = c.getNext()) {
+        expect(c.m_hitFlag).equal(false);
+      }
+    }
+    expect(world.getContactList().isTouching()).equal(true);
+  });
+
+});
@@ -2,6 +2,10 @@ import { describe, it, expect } from 'vitest';
 
 import * as Vec2 from '../common/Vec2';
 import { Vec3 } from '../common/Vec3';
+import * as Rot from '../common/Rot';
+import * as Transform from '../common/Transform';
+import * as Mat22 from '../common/Mat22';
+import * as Sweep from '../common/Sweep';
 
 describe('Math', function(): void {
   it('Vec2', function(): void {
@@ -59,6 +63,47 @@ describe('Math', function(): void {
 
   });
 
+  it('Transform', function(): void {
+    var xf = Transform.create(Vec2.create(1, 2), Math.PI / 2);
+    expect(Rot.getAngle(xf.q)).closeTo(Math.PI / 2, 1e-12);
+
+    var p = Transform.mulVec2(xf, Vec2.create(1, 0));
+    expect(p[0]).closeTo(1, 1e-12);
+    expect(p[1]).closeTo(3, 1e-12);
+
+    var v = Transform.mulTVec2(xf, p);
+    expect(v[0]).closeTo(1, 1e-12);
+    expect(v[1]).closeTo(0, 1e-12);
+
+    var identity = Transform.mulTXf(xf, xf);
+    expect(identity.p[0]).closeTo(0, 1e-12);
+    expect(identity.p[1]).closeTo(0, 1e-12);
+    expect(identity.q.c).closeTo(1, 1e-12);
+
+    // Transforms are plain data.
+    expect(JSON.parse(JSON.stringify(xf))).deep.equal(xf);
+    expect(Transform.mulVec2(Transform.clone(xf), Vec2.create(1, 0))).deep.equal(p);
+
+    var m = Transform.toMat3(xf);
+    expect(m[3]).closeTo(-1, 1e-12);
+    expect(m[6]).equal(1);
+    expect(m[7]).equal(2);
+    expect(m[8]).equal(1);
+
+    var K = Mat22.create(2, 1, 1, 3);
+    var x = Mat22.solve(K, Vec2.create(3, 4));
+    expect(Mat22.mulVec2(K, x)[0]).closeTo(3, 1e-12);
+    expect(Mat22.mulVec2(K, x)[1]).closeTo(4, 1e-12);
+
+    var sweep = Sweep.create();
+    Sweep.setTransform(Transform.create(Vec2.create(0, 0), 0), sweep);
+    sweep.c = Vec2.create(2, 0);
+    sweep.a = 1;
+    var half = Sweep.getTransform(sweep, 0.5, Transform.identity());
+    expect(half.p[0]).closeTo(1, 1e-12);
+    expect(Rot.getAngle(half.q)).closeTo(0.5, 1e-12);
+  });
+
   it('Vec3', function(): void {
     return;
 
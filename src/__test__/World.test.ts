@@ -1,8 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 
 import * as Vec2 from '../common/Vec2';
-import { World } from '../dynamics/World';
+import { World, WorldJointDef } from '../dynamics/World';
+import { Settings } from '../Settings';
 import { BoxShape } from '../collision/shape/BoxShape';
+import { CircleShape } from '../collision/shape/CircleShape';
+import * as Transform from '../common/Transform';
+import { RevoluteJoint } from '../dynamics/joint/RevoluteJoint';
+import { WeldJoint } from '../dynamics/joint/WeldJoint';
+import { RopeJoint } from '../dynamics/joint/RopeJoint';
+import { ManifoldType } from '../collision/Manifold';
+import { CONTACT_POINT_STRIDE } from '../dynamics/ContactStorage';
+import { IslandWorkerPool } from '../dynamics/IslandWorkerPool';
+// @ts-ignore
+import * as workerThreads from 'worker_threads';
 
 // registers Box-Box collision
 import '../collision/shape/CollidePolygon';
@@ -72,4 +83,1005 @@ describe('World', function(): void {
     expect(angle).closeTo(0.0, 1e-5);
   });
 
+  it('uses per-world settings', function(): void {
+    function createWorld(settings?): World {
+      var world = new World({ gravity: Vec2.create(0, -10), settings: settings });
+      world.createBody().createFixture(new BoxShape(20.0, 1.0));
+      var box = world.createDynamicBody(Vec2.create(0, 1.5));
+      box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+      return world;
+    }
+
+    var fast = createWorld({ timeToSleep: 0.1 });
+    var slow = createWorld();
+
+    for (var i = 0; i < 30; ++i) {
+      fast.step(1 / 60);
+      slow.step(1 / 60);
+    }
+
+    expect(Settings.timeToSleep).equal(0.5);
+    expect(fast.getBodyList().isAwake()).equal(false);
+    expect(slow.getBodyList().isAwake()).equal(true);
+  });
+
+  it('scales collision tolerances by length units', function(): void {
+    function createWorld(settings?): World {
+      var world = new World({ settings: settings });
+      world.createBody().createFixture(new BoxShape(0.5, 0.5));
+      world.createDynamicBody({ position: Vec2.create(0, 1.49), angle: 0.01 }).createFixture(new BoxShape(1, 1), 1.0);
+      return world;
+    }
+
+    var meters = createWorld();
+    var centimeters = createWorld({ lengthUnitsPerMeter: 100 });
+
+    expect(meters.m_settings.linearSlop).closeTo(0.005, 1e-9);
+    expect(centimeters.m_settings.linearSlop).closeTo(0.5, 1e-9);
+    expect(centimeters.m_settings.polygonRadius).closeTo(1, 1e-9);
+
+    meters.step(1 / 60);
+    centimeters.step(1 / 60);
+    // the reference face is picked with a tolerance of a tenth of linear slop
+    expect(meters.getContactList().getManifold().type).equal(ManifoldType.e_faceB);
+    expect(centimeters.getContactList().getManifold().type).equal(ManifoldType.e_faceA);
+
+    var fractions = [];
+    [meters, centimeters].forEach(function(world): void {
+      world.shapeCast(new CircleShape(0.5), Transform.create(Vec2.create(5, 0.5), 0), Vec2.create(-10, 0), function(fixture, point, normal, fraction): number {
+        fractions.push(fraction);
+        return fraction;
+      });
+    });
+    // shape cast stops at a polygon radius from the box
+    expect(fractions[0]).closeTo(0.35, 0.01);
+    expect(fractions[1]).closeTo(0.3, 0.01);
+  });
+
+  it('defers changes made in callbacks', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var box = world.createDynamicBody(Vec2.create(0, 1.4));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var created = null;
+    var destroyed = null;
+    world.on('begin-contact', function(): void {
+      world.createJoint({ type: 'weld-joint', bodyA: ground, bodyB: box, localAnchorA: Vec2.zero(), localAnchorB: Vec2.zero() });
+      destroyed = world.destroyBody(box);
+      created = world.createDynamicBody(Vec2.create(5, 5));
+      expect(world.getBodyCount()).equal(2);
+      expect(world.getJointCount()).equal(0);
+    });
+
+    var bodyCount = -1;
+    world.on('post-step', function(): void {
+      bodyCount = world.getBodyCount();
+    });
+
+    world.step(1 / 60);
+
+    expect(bodyCount).equal(2);
+    expect(destroyed).equal(false);
+    expect(box.m_destroyed).equal(true);
+    expect(world.getBodyList().getPosition()).deep.equal([5, 5]);
+    expect(function(): void {
+      created.getPosition();
+    }).throws('deferred');
+
+    // the joint was created, and then destroyed with the box
+    expect(world.getJointCount()).equal(0);
+
+    var calls = 0;
+    world.defer('fail', function(): void {
+      calls++;
+      throw new Error('fail');
+    });
+    expect(function(): void {
+      world.step(1 / 60);
+    }).throws('fail');
+    world.step(1 / 60);
+    expect(calls).equal(1);
+  });
+
+  it('ignores deferred calls to destroy a destroyed joint', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var box = world.createDynamicBody(Vec2.create(0, 1.4));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var other = world.createDynamicBody(Vec2.create(5, 5));
+    other.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var joint = world.createJoint(new WeldJoint({}, other, box, Vec2.create(0, 1.4)));
+    var kept = world.createJoint(new WeldJoint({}, ground, other, Vec2.create(5, 5)));
+    expect(world.getJointCount()).equal(2);
+
+    world.on('begin-contact', function(): void {
+      world.destroyBody(box);
+      world.destroyJoint(joint);
+      world.destroyJoint(joint);
+    });
+    world.step(1 / 60);
+
+    expect(box.m_destroyed).equal(true);
+    expect(joint.m_destroyed).equal(true);
+    expect(world.getJointCount()).equal(1);
+    expect(world.getJointList()).equal(kept);
+    expect(other.getJointList().joint).equal(kept);
+    expect(other.getJointList().next).equal(null);
+
+    world.destroyJoint(joint);
+    expect(world.getJointCount()).equal(1);
+  });
+
+  it('tracks sensor overlaps', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var sensor = world.createBody(Vec2.create(0, 3));
+    var sensorFixture = sensor.createFixture({ shape: new BoxShape(2.0, 0.5), isSensor: true });
+
+    var box = world.createDynamicBody(Vec2.create(0, 5));
+    var boxFixture = box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var events = [];
+    world.on('sensor-begin', function(sensor, other): void {
+      events.push('begin', sensor, other);
+    });
+    world.on('sensor-end', function(sensor, other): void {
+      events.push('end', sensor, other);
+    });
+
+    var overlapping = false;
+    for (var i = 0; i < 120 && !overlapping; ++i) {
+      world.step(1 / 60);
+      overlapping = sensorFixture.getSensorOverlaps().length > 0;
+    }
+
+    expect(overlapping).equal(true);
+    expect(world.getContactCount()).equal(0);
+    expect(sensorFixture.getSensorOverlaps()).deep.equal([boxFixture]);
+    expect(boxFixture.getSensorOverlaps()).deep.equal([]);
+    expect(events).deep.equal(['begin', sensorFixture, boxFixture]);
+
+    world.destroyBody(box);
+    expect(sensorFixture.getSensorOverlaps()).deep.equal([]);
+    expect(events).deep.equal(['begin', sensorFixture, boxFixture, 'end', sensorFixture, boxFixture]);
+  });
+
+  it('types user data', function(): void {
+    interface Entity { id: number }
+    var world = new World<Entity, string, boolean>(Vec2.create(0, -10));
+
+    var ground = world.createBody({ userData: { id: 1 } });
+    ground.createFixture({ shape: new BoxShape(20.0, 1.0), userData: 'ground' });
+
+    var box = world.createDynamicBody({ position: Vec2.create(0, 1.4), userData: { id: 2 } });
+    box.createFixture({ shape: new BoxShape(0.5, 0.5), density: 1.0, userData: 'box' });
+
+    var ids: number[] = [];
+    world.on('begin-contact', function(contact): void {
+      var entity: Entity = contact.getFixtureA().getBody().getUserData();
+      var name: string = contact.getFixtureB().getUserData();
+      ids.push(entity.id, name.length);
+    });
+    world.step(1 / 60);
+    expect(ids.length).equal(2);
+
+    var names: string[] = [];
+    world.queryAABB({ lowerBound: Vec2.create(-1, 0), upperBound: Vec2.create(1, 2) }, function(fixture): boolean {
+      names.push(fixture.getUserData());
+      return true;
+    });
+    expect(names.sort()).deep.equal(['box', 'ground']);
+
+    var joint = world.createJoint(new RevoluteJoint({ userData: true }, ground, box, Vec2.create(0, 1)));
+    var jointData: boolean = joint.getUserData();
+    expect(jointData).equal(true);
+
+    // @ts-expect-error user data must match the world type
+    world.createBody({ userData: 'body' });
+  });
+
+  it('creates joints from definitions', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    var wheel = world.createDynamicBody(Vec2.create(0, 2));
+    var arm = world.createDynamicBody(Vec2.create(2, 2));
+
+    var revolute = world.createJoint({
+      type: 'revolute-joint',
+      bodyA: ground,
+      bodyB: wheel,
+      localAnchorA: Vec2.create(0, 2),
+      localAnchorB: Vec2.zero(),
+      referenceAngle: 0.0,
+      enableMotor: true,
+      motorSpeed: 2.0,
+    });
+    expect(revolute).instanceOf(RevoluteJoint);
+    expect(revolute.getMotorSpeed()).equal(2.0);
+
+    var defs: WorldJointDef[] = [
+      { type: 'distance-joint', bodyA: wheel, bodyB: arm, localAnchorA: Vec2.zero(), localAnchorB: Vec2.zero(), frequencyHz: 4.0 },
+      { type: 'weld-joint', bodyA: ground, bodyB: arm, localAnchorA: Vec2.create(3, 2), localAnchorB: Vec2.create(1, 0) },
+    ];
+    for (var i = 0; i < defs.length; ++i) {
+      world.createJoint(defs[i]);
+    }
+    expect(world.getJointCount()).equal(3);
+    expect(world.getJointList().getType()).equal('weld-joint');
+
+    expect(function(): void {
+      // @ts-expect-error unknown joint type
+      world.createJoint({ type: 'spring-joint', bodyA: ground, bodyB: arm });
+    }).throws('Unknown joint type');
+
+    // @ts-expect-error options are checked for each joint type
+    world.createJoint({ type: 'weld-joint', bodyA: ground, bodyB: arm, enableLimit: true });
+  });
+
+  it('updates with fixed steps and interpolates transforms', function(): void {
+    var world = new World();
+
+    var body = world.createDynamicBody({ position: Vec2.create(0, 0), linearVelocity: Vec2.create(60, 0) });
+    body.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var steps = 0;
+    world.on('post-step', function(): void {
+      steps++;
+    });
+
+    var alpha = world.update(2.5 / 60, { fixedDt: 1 / 60 });
+    expect(steps).equal(2);
+    expect(alpha).closeTo(0.5, 1e-9);
+    expect(body.getPosition()[0]).closeTo(2, 1e-9);
+
+    var xf = body.getInterpolatedTransform(alpha);
+    expect(xf.p[0]).closeTo(1.5, 1e-9);
+    expect(body.getInterpolatedTransform(0).p[0]).closeTo(1, 1e-9);
+    expect(body.getInterpolatedTransform(1).p[0]).closeTo(2, 1e-9);
+    expect(body.getPosition()[0]).closeTo(2, 1e-9);
+
+    alpha = world.update(0.6 / 60, { fixedDt: 1 / 60 });
+    expect(steps).equal(3);
+    expect(alpha).closeTo(0.1, 1e-9);
+
+    // time beyond max sub-steps is dropped
+    alpha = world.update(1, { fixedDt: 1 / 60, maxSubSteps: 4 });
+    expect(steps).equal(7);
+    expect(alpha).closeTo(0, 1e-9);
+  });
+
+  it('writes transforms of moving bodies', function(): void {
+    var world = new World();
+
+    var ground = world.createBody(Vec2.create(0, -1));
+    ground.createFixture(new BoxShape(10.0, 1.0));
+
+    var moving = world.createDynamicBody({ position: Vec2.create(1, 2), angle: 0.5, linearVelocity: Vec2.create(60, 0) });
+    moving.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var resting = world.createDynamicBody({ position: Vec2.create(-3, 2), awake: false });
+    resting.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    world.step(1 / 60);
+
+    var target = new Float32Array(18);
+    var result = world.writeTransforms(target);
+    expect(result.count).equal(1);
+    expect(result.bodies).deep.equal([moving]);
+    expect(target[0]).closeTo(2, 1e-5);
+    expect(target[1]).closeTo(2, 1e-5);
+    expect(target[2]).closeTo(0.5, 1e-5);
+
+    result = world.writeTransforms(target, { all: true, rotation: 'cos-sin', index: true, stride: 6 });
+    expect(result.count).equal(3);
+    expect(result.bodies).deep.equal([resting, moving, ground]);
+    expect(Array.from(target.subarray(6, 11))).deep.equal(Array.from(new Float32Array([2, 2, Math.cos(0.5), Math.sin(0.5), 1])));
+    expect(target[17]).equal(0);
+    expect(target[4]).equal(resting.getStorageId());
+
+    // storage ids do not change when other bodies are destroyed
+    world.destroyBody(resting);
+    result = world.writeTransforms(target, { all: true, index: true });
+    expect(result.bodies).deep.equal([moving, ground]);
+    expect(target[3]).equal(moving.getStorageId());
+    expect(target[7]).equal(ground.getStorageId());
+
+    // bodies put to sleep after moving in the last step are written
+    moving.setAwake(false);
+    result = world.writeTransforms(target);
+    expect(result.bodies).deep.equal([moving]);
+
+    result = world.writeTransforms(target, { all: true, filter: function(body): boolean { return body.isStatic(); } });
+    expect(result.bodies).deep.equal([ground]);
+
+    expect(function(): void {
+      world.writeTransforms(target, { rotation: 'cos-sin', stride: 3 });
+    }).throws();
+  });
+
+  it('reports bodies moved in each step', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var box = world.createDynamicBody(Vec2.create(0, 1.5));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var sleeping = world.createDynamicBody({ position: Vec2.create(5, 5), awake: false });
+    sleeping.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var events = world.getBodyMoveEvents();
+    world.step(1 / 60);
+    expect(events.count).equal(1);
+    expect(events.bodies).deep.equal([box]);
+    expect(events.fellAsleep).deep.equal([false]);
+
+    var steps = 0;
+    while (box.isAwake() && steps < 600) {
+      world.step(1 / 60);
+      steps++;
+    }
+    expect(box.isAwake()).equal(false);
+    expect(events.bodies).deep.equal([box]);
+    expect(events.fellAsleep).deep.equal([true]);
+
+    world.step(1 / 60);
+    expect(events.count).equal(0);
+
+    // bodies destroyed by calls deferred during the step are removed
+    var destroyed = world.createDynamicBody(Vec2.create(-5, 1.4));
+    destroyed.createFixture(new BoxShape(0.5, 0.5), 1.0);
+    var falling = world.createDynamicBody(Vec2.create(10, 5));
+    falling.createFixture(new BoxShape(0.5, 0.5), 1.0);
+    world.on('begin-contact', function(): void {
+      world.destroyBody(destroyed);
+    });
+    world.step(1 / 60);
+    expect(destroyed.m_destroyed).equal(true);
+    expect(events.count).equal(1);
+    expect(events.bodies).deep.equal([falling]);
+    expect(events.fellAsleep).deep.equal([false]);
+    expect(falling.m_moveEventIndex).equal(0);
+  });
+
+  it('queries fixtures overlapping a shape or point', function(): void {
+    var world = new World();
+
+    var a = world.createBody(Vec2.create(0, 0));
+    var fa = a.createFixture(new BoxShape(1, 1));
+
+    // the AABB of b overlaps the query circle, its box does not
+    var b = world.createBody(Vec2.create(2.9, 2.9));
+    var fb = b.createFixture(new BoxShape(0.1, 0.1));
+
+    var c = world.createBody(Vec2.create(-1, 1));
+    var fc = c.createFixture(new BoxShape(0.5, 0.5));
+    var sensor = c.createFixture({ shape: new CircleShape(2), isSensor: true });
+
+    var found = [];
+    var circle = new CircleShape(2);
+    var xf = Transform.create(Vec2.create(1, 1), 0);
+    world.queryShape(circle, xf, function(fixture): boolean {
+      found.push(fixture);
+      return true;
+    });
+    expect(found.length).equal(2);
+    expect(found.indexOf(fa)).not.equal(-1);
+    expect(found.indexOf(fc)).not.equal(-1);
+    expect(found.indexOf(fb)).equal(-1);
+
+    found = [];
+    world.queryShape(circle, xf, function(fixture): boolean {
+      found.push(fixture);
+      return true;
+    }, { includeSensors: true, ignoreBodies: [a] });
+    expect(found.length).equal(2);
+    expect(found.indexOf(fc)).not.equal(-1);
+    expect(found.indexOf(sensor)).not.equal(-1);
+
+    found = [];
+    world.queryShape(circle, xf, function(fixture): boolean {
+      found.push(fixture);
+      return false;
+    });
+    expect(found.length).equal(1);
+
+    fc.setFilterData({ groupIndex: 0, categoryBits: 0x0002, maskBits: 0xFFFF });
+    found = [];
+    world.queryPoint(Vec2.create(-1.25, 1), function(fixture): boolean {
+      found.push(fixture);
+      return true;
+    }, { maskBits: 0x0002, includeSensors: true });
+    expect(found).deep.equal([fc]);
+
+    found = [];
+    world.queryPoint(Vec2.create(0.5, 0.5), function(fixture): boolean {
+      found.push(fixture);
+      return true;
+    });
+    expect(found).deep.equal([fa]);
+  });
+
+  it('casts shapes', function(): void {
+    var world = new World();
+
+    var ground = world.createBody(Vec2.create(0, 0));
+    var top = ground.createFixture(new BoxShape(5, 1));
+
+    var below = world.createBody(Vec2.create(0, -4));
+    below.createFixture(new BoxShape(5, 1));
+
+    var circle = new CircleShape(0.5);
+    var xf = Transform.create(Vec2.create(0, 5), 0);
+
+    var hits = [];
+    world.shapeCast(circle, xf, Vec2.create(0, -10), function(fixture, point, normal, fraction): number {
+      hits.push({ fixture: fixture, point: point, normal: normal, fraction: fraction });
+      return fraction;
+    });
+    var closest = hits[hits.length - 1];
+    expect(closest.fixture).equal(top);
+    expect(closest.fraction).closeTo(0.35, 0.01);
+    expect(closest.point[0]).closeTo(0, 1e-3);
+    expect(closest.point[1]).closeTo(1, 0.02);
+    expect(closest.normal[0]).closeTo(0, 1e-3);
+    expect(closest.normal[1]).closeTo(1, 1e-3);
+
+    // points are not reused between hits
+    var points = [];
+    world.shapeCast(circle, xf, Vec2.create(0, -10), function(fixture, point, normal, fraction): number {
+      points.push(point);
+      return 1;
+    });
+    expect(points.length).equal(2);
+    points.sort(function(a, b): number { return a[1] - b[1]; });
+    expect(points[0][1]).closeTo(-3, 0.02);
+    expect(points[1][1]).closeTo(1, 0.02);
+
+    hits = [];
+    world.shapeCast(circle, xf, Vec2.create(0, -10), function(fixture, point, normal, fraction): number {
+      hits.push(fixture);
+      return 1;
+    }, { ignoreBodies: [ground] });
+    expect(hits.length).equal(1);
+    expect(hits[0].getBody()).equal(below);
+
+    hits = [];
+    world.shapeCast(circle, xf, Vec2.create(0, -10), function(fixture, point, normal, fraction): number {
+      hits.push(fixture);
+      return 0;
+    });
+    expect(hits.length).equal(1);
+
+    hits = [];
+    world.shapeCast(circle, xf, Vec2.create(10, 0), function(fixture, point, normal, fraction): number {
+      hits.push(fixture);
+      return 1;
+    });
+    expect(hits.length).equal(0);
+  });
+
+  it('ray casts for closest and all hits', function(): void {
+    var world = new World();
+
+    var near = world.createBody(Vec2.create(2, 0));
+    var fnear = near.createFixture(new BoxShape(0.5, 0.5));
+    fnear.setFilterData({ groupIndex: 0, categoryBits: 0x0002, maskBits: 0xFFFF });
+
+    var far = world.createBody(Vec2.create(6, 0));
+    var ffar = far.createFixture(new BoxShape(0.5, 0.5));
+    var fback = far.createFixture(new BoxShape(0.5, 0.5, Vec2.create(2, 0), 0));
+    var sensor = world.createBody(Vec2.create(4, 0)).createFixture({ shape: new CircleShape(0.5), isSensor: true });
+
+    var closest = world.rayCastClosest(Vec2.create(0, 0), Vec2.create(10, 0));
+    expect(closest.fixture).equal(fnear);
+    expect(closest.fraction).closeTo(0.15, 1e-6);
+    expect(closest.point[0]).closeTo(1.5, 1e-6);
+    expect(closest.normal[0]).closeTo(-1, 1e-6);
+
+    var all = world.rayCastAll(Vec2.create(0, 0), Vec2.create(10, 0), { includeSensors: true });
+    expect(all.map(function(hit): unknown {
+      return hit.fixture;
+    })).deep.equal([fnear, sensor, ffar, fback]);
+
+    closest = world.rayCastClosest(Vec2.create(0, 0), Vec2.create(10, 0), { maskBits: 0x0001 });
+    expect(closest.fixture).equal(ffar);
+
+    all = world.rayCastAll(Vec2.create(0, 0), Vec2.create(10, 0), { ignoreBodies: [near] });
+    expect(all.length).equal(2);
+
+    expect(world.rayCastClosest(Vec2.create(0, 5), Vec2.create(10, 5))).equal(null);
+
+    closest = far.rayCastClosest(Vec2.create(10, 0), Vec2.create(0, 0));
+    expect(closest.fixture).equal(fback);
+    expect(closest.fraction).closeTo(0.15, 1e-6);
+
+    all = far.rayCastAll(Vec2.create(0, 0), Vec2.create(10, 0));
+    expect(all.length).equal(2);
+    expect(all[0].fixture).equal(ffar);
+    expect(all[1].fixture).equal(fback);
+  });
+
+  it('queries nearest fixtures', function(): void {
+    var world = new World();
+
+    var a = world.createBody(Vec2.create(3, 0)).createFixture(new BoxShape(1, 1));
+    var b = world.createBody(Vec2.create(0, -5)).createFixture(new BoxShape(1, 1));
+    var c = world.createBody(Vec2.create(-10, 0)).createFixture(new CircleShape(1));
+    world.createBody(Vec2.create(0, 2)).createFixture({ shape: new CircleShape(0.5), isSensor: true });
+
+    var hits = world.queryNearest(Vec2.create(0, 0), 20);
+    expect(hits.length).equal(1);
+    expect(hits[0].fixture).equal(a);
+    expect(hits[0].distance).closeTo(2, 0.02);
+    expect(hits[0].point[0]).closeTo(2, 0.02);
+    expect(hits[0].point[1]).closeTo(0, 1e-6);
+
+    hits = world.queryNearest(Vec2.create(0, 0), 20, null, 5);
+    expect(hits.length).equal(3);
+    expect(hits[0].fixture).equal(a);
+    expect(hits[1].fixture).equal(b);
+    expect(hits[1].distance).closeTo(4, 0.02);
+    expect(hits[2].fixture).equal(c);
+    expect(hits[2].distance).closeTo(9, 1e-6);
+
+    hits = world.queryNearest(Vec2.create(0, 0), 5, { ignoreBodies: [a.getBody()] }, 5);
+    expect(hits.length).equal(1);
+    expect(hits[0].fixture).equal(b);
+
+    hits = world.queryNearest(Vec2.create(3.5, 0), 1);
+    expect(hits[0].fixture).equal(a);
+    expect(hits[0].distance).equal(0);
+
+    hits = world.queryNearest(new CircleShape(1), Transform.create(Vec2.create(-6, 0), 0), 20, null, 2);
+    expect(hits.length).equal(2);
+    expect(hits[0].fixture).equal(c);
+    expect(hits[0].distance).closeTo(2, 1e-6);
+    expect(hits[1].fixture).equal(b);
+
+    expect(world.queryNearest(Vec2.create(0, 0), 1).length).equal(0);
+  });
+
+  it('filters contacts with a world contact filter', function(): void {
+    var world = new World<string>(Vec2.create(0, -10));
+
+    var ground = world.createBody({ userData: 'ground' });
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var box = world.createDynamicBody({ position: Vec2.create(0, 1.5), userData: 'ghost' });
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    var other = world.createDynamicBody({ position: Vec2.create(5, 1.5), userData: 'solid' });
+    other.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    world.step(1 / 60);
+    expect(world.getContactCount()).equal(2);
+
+    var calls = 0;
+    world.setContactFilter(function(fixtureA, fixtureB): boolean {
+      calls++;
+      return fixtureA.getBody().getUserData() !== 'ghost' && fixtureB.getBody().getUserData() !== 'ghost';
+    });
+    expect(world.getContactFilter()).not.equal(null);
+
+    world.step(1 / 60);
+    expect(calls).greaterThan(0);
+    expect(world.getContactCount()).equal(1);
+
+    for (var i = 0; i < 60; ++i) {
+      world.step(1 / 60);
+    }
+    expect(box.getPosition()[1]).lessThan(0);
+    expect(other.getPosition()[1]).closeTo(1.5, 0.05);
+
+    world.setContactFilter(null);
+    expect(world.getContactFilter()).equal(null);
+  });
+
+  it('ignores collision between pairs of bodies', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var box = world.createDynamicBody(Vec2.create(0, 1.5));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    world.step(1 / 60);
+    expect(world.getContactCount()).equal(1);
+
+    world.setCollisionIgnored(box, ground, true);
+    expect(world.isCollisionIgnored(ground, box)).equal(true);
+
+    world.step(1 / 60);
+    expect(world.getContactCount()).equal(0);
+
+    world.setCollisionIgnored(ground, box, false);
+    expect(world.isCollisionIgnored(box, ground)).equal(false);
+
+    world.step(1 / 60);
+    expect(world.getContactCount()).equal(1);
+
+    world.setCollisionIgnored(box, ground, true);
+    world.destroyBody(box);
+    expect(world.isCollisionIgnored(box, ground)).equal(false);
+    expect(world.m_collisionIgnored.size).equal(0);
+  });
+
+  it('keeps sets of awake bodies and contacts', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var box = world.createDynamicBody(Vec2.create(0.0, 1.5));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+    var sleeper = world.createDynamicBody({ position: Vec2.create(5.0, 3.0), awake: false });
+    sleeper.createFixture(new BoxShape(0.5, 0.5), 1.0);
+
+    expect(world.m_awakeBodies).deep.equal([box]);
+
+    world.step(1 / 60);
+    expect(world.getContactCount()).equal(1);
+    expect(world.m_awakeContacts.length).equal(1);
+
+    // The sleeping body does not fall.
+    expect(sleeper.getPosition()[1]).equal(3.0);
+
+    // Per-step loops do not visit the sleeping body.
+    var setTorque = vi.spyOn(sleeper, 'm_torque', 'set');
+    var storeTransform = vi.spyOn(sleeper, 'storePreviousTransform');
+    var synchronize = vi.spyOn(sleeper, 'synchronizeFixtures');
+    world.step(1 / 60);
+    expect(setTorque.mock.calls.length).equal(0);
+    expect(storeTransform.mock.calls.length).equal(0);
+    expect(synchronize.mock.calls.length).equal(0);
+    setTorque.mockRestore();
+    storeTransform.mockRestore();
+    synchronize.mockRestore();
+
+    for (var i = 0; i < 120; ++i) {
+      world.step(1 / 60);
+    }
+    expect(box.isAwake()).equal(false);
+    expect(world.m_awakeBodies.length).equal(0);
+    expect(world.m_awakeContacts.length).equal(0);
+
+    sleeper.setAwake(true);
+    expect(world.m_awakeBodies).deep.equal([sleeper]);
+    for (var i = 0; i < 60; ++i) {
+      world.step(1 / 60);
+    }
+    expect(sleeper.getPosition()[1]).closeTo(1.5, 0.02);
+    expect(world.m_awakeContacts.length).equal(1);
+
+    box.setType('static');
+    box.setAwake(true);
+    expect(world.m_awakeBodies).deep.equal([sleeper]);
+
+    world.destroyBody(sleeper);
+    expect(world.m_awakeBodies.length).equal(0);
+    expect(world.m_awakeContacts.length).equal(0);
+  });
+
+  it('stores body solver state in typed arrays', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var boxes = [];
+    for (var i = 0; i < 20; ++i) {
+      var box = world.createDynamicBody(Vec2.create(-19.0 + 2.0 * i, 3.0));
+      box.createFixture(new BoxShape(0.5, 0.5), 1.0 + i);
+      boxes.push(box);
+    }
+
+    for (var i = 0; i < 10; ++i) {
+      world.step(1 / 60);
+    }
+
+    var storage = world.getBodyStorage();
+    expect(storage.count).equal(21);
+    for (var i = 0; i < boxes.length; ++i) {
+      var id = boxes[i].getStorageId();
+      expect(storage.position[3 * id]).equal(boxes[i].getWorldCenter()[0]);
+      expect(storage.position[3 * id + 1]).equal(boxes[i].getWorldCenter()[1]);
+      expect(storage.velocity[3 * id + 1]).equal(boxes[i].getLinearVelocity()[1]);
+      expect(storage.invMass[id]).closeTo(1 / boxes[i].getMass(), 1e-12);
+    }
+
+    var destroyed = boxes[3];
+    var mass = destroyed.getMass();
+    var destroyedId = destroyed.getStorageId();
+    world.destroyBody(destroyed);
+    var box = world.createDynamicBody(Vec2.create(0.0, 5.0));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+    expect(box.getStorageId()).equal(destroyedId);
+    expect(world.getBodyStorage().invMass[box.getStorageId()]).equal(1.0);
+    expect(destroyed.m_invMass).closeTo(1 / mass, 1e-12);
+  });
+
+  it('writes body changes to the storage before stepping', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var box = world.createDynamicBody({
+      position: Vec2.create(1.0, 2.0),
+      angle: 0.5,
+      linearVelocity: Vec2.create(3.0, 0.0),
+    });
+    box.createFixture(new BoxShape(0.5, 0.5), 2.0);
+
+    var storage = world.getBodyStorage();
+    var id = box.getStorageId();
+    expect(storage.position[3 * id]).equal(1.0);
+    expect(storage.position[3 * id + 1]).equal(2.0);
+    expect(storage.position[3 * id + 2]).equal(0.5);
+    expect(storage.velocity[3 * id]).equal(3.0);
+    expect(storage.invMass[id]).equal(0.5);
+
+    box.setPosition(Vec2.create(-4.0, 6.0));
+    expect(storage.position[3 * id]).equal(-4.0);
+    expect(storage.position[3 * id + 1]).equal(6.0);
+
+    box.setLinearVelocity(Vec2.create(0.0, -7.0));
+    box.setAngularVelocity(2.0);
+    expect(storage.velocity[3 * id]).equal(0.0);
+    expect(storage.velocity[3 * id + 1]).equal(-7.0);
+    expect(storage.velocity[3 * id + 2]).equal(2.0);
+
+    box.setTransform(Vec2.create(5.0, 1.0), 0.25);
+    expect(storage.position[3 * id]).equal(5.0);
+    expect(storage.position[3 * id + 1]).equal(1.0);
+    expect(storage.position[3 * id + 2]).equal(0.25);
+
+    box.setAwake(false);
+    expect(storage.velocity[3 * id + 1]).equal(0.0);
+    expect(storage.velocity[3 * id + 2]).equal(0.0);
+
+    world.destroyBody(box);
+    expect(storage.position[3 * id]).equal(0.0);
+    expect(storage.invMass[id]).equal(0.0);
+  });
+
+  it('stores contact constraints in typed arrays', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var boxes = [];
+    for (var i = 0; i < 20; ++i) {
+      var box = world.createDynamicBody(Vec2.create(-19.0 + 2.0 * i, 1.5));
+      box.createFixture(new BoxShape(0.5, 0.5), { density: 1.0, friction: 0.5 });
+      boxes.push(box);
+    }
+
+    for (var i = 0; i < 10; ++i) {
+      world.step(1 / 60);
+    }
+
+    var storage = world.getContactStorage();
+    expect(storage.count).equal(20);
+    for (var c = world.getContactList(); c; c = c.getNext()) {
+      var id = c.getStorageId();
+      var bodyA = c.getFixtureA().getBody();
+      var bodyB = c.getFixtureB().getBody();
+      expect(storage.bodies[2 * id]).equal(bodyA.getStorageId());
+      expect(storage.bodies[2 * id + 1]).equal(bodyB.getStorageId());
+      expect(storage.pointCount[2 * id]).equal(2);
+      expect(storage.material[3 * id]).closeTo(c.getFriction(), 1e-12);
+      expect(Math.abs(storage.normal[2 * id + 1])).closeTo(1.0, 1e-6);
+
+      var manifold = c.getManifold();
+      for (var j = 0; j < 2; ++j) {
+        var offset = (2 * id + j) * CONTACT_POINT_STRIDE;
+        expect(storage.points[offset + 4]).equal(manifold.points[j].normalImpulse);
+        expect(storage.points[offset + 5]).equal(manifold.points[j].tangentImpulse);
+      }
+    }
+
+    // Ids of destroyed contacts are reused.
+    var contact = boxes[3].getContactList().contact;
+    var destroyedId = contact.getStorageId();
+    world.destroyBody(boxes[3]);
+    var box = world.createDynamicBody(Vec2.create(-13.0, 1.5));
+    box.createFixture(new BoxShape(0.5, 0.5), 1.0);
+    world.step(1 / 60);
+    expect(box.getContactList().contact.getStorageId()).equal(destroyedId);
+    expect(world.getContactStorage().count).equal(20);
+  });
+
+  it('solves large islands on worker threads', function(): void {
+    function createWorld(pool: IslandWorkerPool | null): World {
+      var world = new World({ gravity: Vec2.create(0, -10), workerPool: pool });
+
+      // Two pyramids are large islands, the pendulum is solved on this thread.
+      for (var k = 0; k < 2; ++k) {
+        var ground = world.createBody(Vec2.create(-20.0 + 40.0 * k, 0.0));
+        ground.createFixture(new BoxShape(10.0, 0.5));
+        for (var i = 0; i < 6; ++i) {
+          for (var j = i; j < 6; ++j) {
+            var box = world.createDynamicBody(Vec2.create(-25.0 + 40.0 * k + 1.1 * j - 0.55 * i, 1.0 + 1.05 * i));
+            box.createFixture(new BoxShape(0.5, 0.5), { density: 1.0, friction: 0.6 });
+          }
+        }
+        var ball = world.createDynamicBody(Vec2.create(-20.0 + 40.0 * k, 12.0));
+        ball.createFixture(new CircleShape(0.5), 2.0);
+      }
+
+      var pivot = world.createBody(Vec2.create(0.0, 10.0));
+      var bob = world.createDynamicBody(Vec2.create(3.0, 10.0));
+      bob.createFixture(new BoxShape(0.25, 0.25), 1.0);
+      world.createJoint(new RevoluteJoint({}, pivot, bob, Vec2.create(0.0, 10.0)));
+      return world;
+    }
+
+    var pool = new IslandWorkerPool(workerThreads, { workerCount: 2, minBodyCount: 8 });
+    var expected = createWorld(null);
+    var world = createWorld(pool);
+    expect(world.getBodyStorage().position.buffer).instanceOf(SharedArrayBuffer);
+    expect(world.getContactStorage().points.buffer).instanceOf(SharedArrayBuffer);
+
+    for (var i = 0; i < 120; ++i) {
+      expected.step(1 / 60);
+      world.step(1 / 60);
+    }
+    pool.terminate();
+
+    var count = 0;
+    for (var a = expected.getBodyList(), b = world.getBodyList(); a && b; a = a.getNext(), b = b.getNext()) {
+      expect(b.getPosition()[0]).equal(a.getPosition()[0]);
+      expect(b.getPosition()[1]).equal(a.getPosition()[1]);
+      expect(b.getAngle()).equal(a.getAngle());
+      expect(b.getLinearVelocity()[0]).equal(a.getLinearVelocity()[0]);
+      expect(b.isAwake()).equal(a.isAwake());
+      count++;
+    }
+    expect(count).equal(world.getBodyCount());
+
+    for (var c = world.getContactList(); c; c = c.getNext()) {
+      expect(world.getContactStorage().type[c.getStorageId()]).equal(c.getManifold().type);
+    }
+  });
+
+  it('solves contacts with the soft-step solver', function(): void {
+    var world = new World({ gravity: Vec2.create(0, -10), solver: 'soft-step' });
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var boxes = [];
+    for (var i = 0; i < 10; ++i) {
+      var box = world.createDynamicBody(Vec2.create(0.0, 1.5 + 1.0 * i));
+      box.createFixture(new BoxShape(0.5, 0.5), { density: 1.0, friction: 0.6 });
+      boxes.push(box);
+    }
+
+    // A heavy body resting on a light one.
+    var light = world.createDynamicBody(Vec2.create(5.0, 1.25));
+    light.createFixture(new BoxShape(1.0, 0.25), 1.0);
+    var heavy = world.createDynamicBody(Vec2.create(5.0, 2.0));
+    heavy.createFixture(new BoxShape(0.5, 0.5), 100.0);
+
+    for (var i = 0; i < 300; ++i) {
+      world.step(1 / 60);
+    }
+
+    // The stack stays upright and falls asleep, with the skin of each polygon.
+    for (var i = 0; i < boxes.length; ++i) {
+      expect(boxes[i].isAwake()).equal(false);
+      expect(boxes[i].getPosition()[0]).closeTo(0.0, 0.05);
+      expect(boxes[i].getPosition()[1]).closeTo(1.52 + 1.02 * i, 0.05);
+    }
+
+    expect(light.isAwake()).equal(false);
+    expect(heavy.isAwake()).equal(false);
+    expect(light.getPosition()[1]).closeTo(1.27, 0.05);
+    expect(heavy.getPosition()[1] - light.getPosition()[1]).closeTo(0.77, 0.05);
+  });
+
+  it('solves joints with the soft-step solver', function(): void {
+    var world = new World({ gravity: Vec2.create(0, -10), solver: 'soft-step' });
+
+    var ground = world.createBody();
+
+    // A chain of links with a heavy body at the end, which stretches with
+    // the default solver.
+    var joints = [];
+    var prev = ground;
+    for (var i = 0; i < 10; ++i) {
+      var link = world.createDynamicBody(Vec2.create(0.5 + i, 20.0));
+      link.createFixture(new BoxShape(0.5, 0.125), { density: i == 9 ? 100.0 : 1.0 });
+      joints.push(world.createJoint(new RevoluteJoint({}, prev, link, Vec2.create(i, 20.0))));
+      prev = link;
+    }
+
+    // A welded pair and a rope.
+    var base = world.createDynamicBody(Vec2.create(15.0, 20.0));
+    base.createFixture(new BoxShape(0.5, 0.5), 1.0);
+    var arm = world.createDynamicBody(Vec2.create(16.0, 20.0));
+    arm.createFixture(new BoxShape(0.5, 0.125), 1.0);
+    joints.push(world.createJoint(new RevoluteJoint({}, ground, base, Vec2.create(15.0, 20.0))));
+    joints.push(world.createJoint(new WeldJoint({}, base, arm, Vec2.create(15.5, 20.0))));
+
+    var weight = world.createDynamicBody(Vec2.create(20.0, 20.0));
+    weight.createFixture(new CircleShape(0.25), 1.0);
+    var rope = world.createJoint(new RopeJoint({ maxLength: 3.0 }, ground, weight, Vec2.create(20.0, 20.0)));
+
+    for (var i = 0; i < 120; ++i) {
+      world.step(1 / 60);
+
+      for (var j = 0; j < joints.length; ++j) {
+        var anchorA = joints[j].getAnchorA();
+        var anchorB = joints[j].getAnchorB();
+        expect(Vec2.distance(anchorA, anchorB)).lessThan(0.1);
+      }
+      expect(Vec2.distance(rope.getAnchorA(), rope.getAnchorB())).lessThan(3.05);
+    }
+
+    // The welded arm keeps its angle while swinging.
+    expect(arm.getAngle() - base.getAngle()).closeTo(0.0, 0.01);
+    // The rope is taut.
+    expect(Vec2.distance(rope.getAnchorA(), rope.getAnchorB())).closeTo(3.0, 0.05);
+  });
+
+  it('restores saved state', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new BoxShape(20.0, 1.0));
+
+    var boxes = [];
+    for (var i = 0; i < 5; ++i) {
+      var box = world.createDynamicBody(Vec2.create(0.1 * i, 2.0 + 1.1 * i));
+      box.createFixture(new BoxShape(0.5, 0.5), { density: 1.0, friction: 0.3 });
+      boxes.push(box);
+    }
+
+    var arm = world.createDynamicBody(Vec2.create(6.0, 4.0));
+    arm.createFixture(new BoxShape(2.0, 0.2), 1.0);
+    world.createJoint(new RevoluteJoint({}, ground, arm, Vec2.create(4.0, 4.0)));
+
+    function simulate(steps: number): number[] {
+      var result = [];
+      for (var i = 0; i < steps; ++i) {
+        world.step(1 / 60);
+        for (var b = world.getBodyList(); b; b = b.getNext()) {
+          result.push(b.getPosition()[0], b.getPosition()[1], b.getAngle());
+        }
+      }
+      return result;
+    }
+
+    simulate(40);
+    expect(world.getContactCount()).greaterThan(0);
+
+    var state = JSON.parse(JSON.stringify(world.saveState()));
+    expect(Object.keys(state.joints[0]).sort()).deep.equal(['impulse', 'island', 'limitState', 'motorImpulse']);
+    var expected = simulate(60);
+
+    world.restoreState(state);
+    expect(simulate(60)).deep.equal(expected);
+
+    world.restoreState(state);
+    expect(simulate(60)).deep.equal(expected);
+
+    world.destroyBody(boxes[0]);
+    expect(function(): void {
+      world.restoreState(state);
+    }).throws();
+  });
+
 });
@@ -178,6 +178,15 @@ export class AABB {
     return true;
   }
 
+  /**
+   * Distance between the closest points of two AABBs, zero if they overlap.
+   */
+  static distance(a: AABBValue, b: AABBValue): number {
+    const dx = math_max(0, b.lowerBound[0] - a.upperBound[0], a.lowerBound[0] - b.upperBound[0]);
+    const dy = math_max(0, b.lowerBound[1] - a.upperBound[1], a.lowerBound[1] - b.upperBound[1]);
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
   static areEqual(a: AABBValue, b: AABBValue): boolean {
     return Vec2.areEqual(a.lowerBound, b.lowerBound) && Vec2.areEqual(a.upperBound, b.upperBound);
   }
@@ -24,7 +24,7 @@
 
 import { Vec2Value } from '../common/Vec2';
 import { AABB, AABBValue, RayCastCallback, RayCastInput } from './AABB';
-import { DynamicTree, DynamicTreeQueryCallback } from './DynamicTree';
+import { DynamicTree, DynamicTreeDistanceCallback, DynamicTreeQueryCallback, DynamicTreeState } from './DynamicTree';
 import { FixtureProxy } from "../dynamics/Fixture";
 
 
@@ -33,6 +33,13 @@ import { FixtureProxy } from "../dynamics/Fixture";
 /** @internal */ const math_min = Math.min;
 
 
+/** Saved state of a {@link BroadPhase}, see {@link World.saveState}. */
+export interface BroadPhaseState {
+  tree: DynamicTreeState;
+  /** Proxies to be queried for new pairs, null entries are destroyed proxies. */
+  moveBuffer: (number | null)[];
+}
+
 /**
  * The broad-phase wraps and extends a dynamic-tree to keep track of moved
  * objects and query them on update.
@@ -103,6 +110,14 @@ export class BroadPhase {
     this.m_tree.query(aabb, queryCallback);
   }
 
+  /**
+   * Query proxies within a distance of an AABB, see
+   * {@link DynamicTree.queryDistance}.
+   */
+  queryDistance(aabb: AABBValue, maxDistance: number, distanceCallback: DynamicTreeDistanceCallback): void {
+    this.m_tree.queryDistance(aabb, maxDistance, distanceCallback);
+  }
+
   /**
    * Ray-cast against the proxies in the tree. This relies on the callback to
    * perform a exact ray-cast in the case were the proxy contains a shape. The
@@ -178,6 +193,23 @@ export class BroadPhase {
     }
   }
 
+  /** @internal */
+  _saveState(): BroadPhaseState {
+    return {
+      tree: this.m_tree._saveState(),
+      moveBuffer: this.m_moveBuffer.slice(),
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: BroadPhaseState, getUserData: (proxyId: number) => FixtureProxy): void {
+    this.m_tree._restoreState(state.tree, getUserData);
+    this.m_moveBuffer.length = state.moveBuffer.length;
+    for (let i = 0; i < state.moveBuffer.length; ++i) {
+      this.m_moveBuffer[i] = state.moveBuffer[i];
+    }
+  }
+
   /**
    * Update the pairs. This results in pair callbacks. This can only add pairs.
    */
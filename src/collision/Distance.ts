@@ -29,8 +29,9 @@ import { Shape } from './Shape';
 import { EPSILON } from '../common/Math';
 import { Vec2Value } from '../common/Vec2';
 import * as Vec2 from '../common/Vec2';
-import { Rot } from '../common/Rot';
-import { Transform, TransformValue } from '../common/Transform';
+import * as Rot from '../common/Rot';
+import { TransformValue } from '../common/Transform';
+import * as Transform from '../common/Transform';
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
@@ -63,12 +64,15 @@ export class DistanceInput {
   readonly transformA = Transform.identity();
   readonly transformB = Transform.identity();
   useRadii = false;
+  /** @internal Settings of the world, if any. */
+  settings: Settings = Settings.global;
   recycle() {
     this.proxyA.recycle();
     this.proxyB.recycle();
-    this.transformA.setIdentity();
-    this.transformB.setIdentity();
+    Transform.setIdentity(this.transformA);
+    Transform.setIdentity(this.transformB);
     this.useRadii = false;
+    this.settings = Settings.global;
   }
 }
 
@@ -130,7 +134,7 @@ export const Distance = function (output: DistanceOutput, cache: SimplexCache, i
 
   // Get simplex vertices as an array.
   const vertices = simplex.m_v;
-  const k_maxIters = Settings.maxDistanceIterations;
+  const k_maxIters = input.settings.maxDistanceIterations;
 
   // These store the vertices of the last simplex so that we
   // can check for duplicates and prevent cycling.
@@ -762,12 +766,15 @@ export class ShapeCastInput {
   readonly transformA = Transform.identity();
   readonly transformB = Transform.identity();
   readonly translationB = Vec2.zero();
+  /** @internal Settings of the world, if any. */
+  settings: Settings = Settings.global;
   recycle() {
     this.proxyA.recycle();
     this.proxyB.recycle();
-    this.transformA.setIdentity();
-    this.transformB.setIdentity();
+    Transform.setIdentity(this.transformA);
+    Transform.setIdentity(this.transformB);
     matrix.zeroVec2(this.translationB);
+    this.settings = Settings.global;
   }
 }
 
@@ -799,9 +806,10 @@ export const ShapeCast = function(output: ShapeCastOutput, input: ShapeCastInput
 
   const proxyA = input.proxyA;
   const proxyB = input.proxyB;
+  const settings = input.settings;
 
-  const radiusA = math_max(proxyA.m_radius, Settings.polygonRadius);
-  const radiusB = math_max(proxyB.m_radius, Settings.polygonRadius);
+  const radiusA = math_max(proxyA.m_radius, settings.polygonRadius);
+  const radiusB = math_max(proxyB.m_radius, settings.polygonRadius);
   const radius = radiusA + radiusB;
 
   const xfA = input.transformA;
@@ -826,8 +834,8 @@ export const ShapeCast = function(output: ShapeCastOutput, input: ShapeCastInput
   const v = Vec2.sub(wA, wB);
 
   // Sigma is the target distance between polygons
-  const sigma = math_max(Settings.polygonRadius, radius - Settings.polygonRadius);
-  const tolerance = 0.5 * Settings.linearSlop;
+  const sigma = math_max(settings.polygonRadius, radius - settings.polygonRadius);
+  const tolerance = 0.5 * settings.linearSlop;
 
   // Main iteration loop.
   const k_maxIters = 20;
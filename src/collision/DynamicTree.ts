@@ -36,6 +36,35 @@ import { AABB, AABBValue, RayCastCallback, RayCastInput } from './AABB';
 
 export type DynamicTreeQueryCallback = (nodeId: number) => boolean;
 
+/**
+ * Called for each proxy within the query distance, see
+ * {@link DynamicTree.queryDistance}. Returns the new query distance, or a
+ * negative number to terminate the query.
+ */
+export type DynamicTreeDistanceCallback = (nodeId: number, maxDistance: number) => number;
+
+/** Saved state of a {@link TreeNode}, see {@link World.saveState}. */
+export interface TreeNodeState {
+  id: number;
+  lowerBound: Vec2Value;
+  upperBound: Vec2Value;
+  /** -1 for none */
+  parent: number;
+  /** -1 for none */
+  child1: number;
+  /** -1 for none */
+  child2: number;
+  height: number;
+}
+
+/** Saved state of a {@link DynamicTree}, see {@link World.saveState}. */
+export interface DynamicTreeState {
+  /** -1 for an empty tree */
+  root: number;
+  lastProxyId: number;
+  nodes: TreeNodeState[];
+}
+
 /**
  * A node in the dynamic tree. The client does not interact with this directly.
  */
@@ -95,11 +124,14 @@ export class DynamicTree<T> {
   m_nodes: {
     [id: number]: TreeNode<T>
   };
+  /** @internal Settings of the world which owns this tree, if any. */
+  m_settings: Settings;
 
   constructor() {
     this.m_root = null;
     this.m_nodes = {};
     this.m_lastProxyId = 0;
+    this.m_settings = Settings.global;
   }
 
   /**
@@ -151,7 +183,7 @@ export class DynamicTree<T> {
     node.aabb.set(aabb);
 
     // Fatten the aabb.
-    AABB.extend(node.aabb, Settings.aabbExtension);
+    AABB.extend(node.aabb, this.m_settings.aabbExtension);
 
     node.userData = userData;
     node.height = 0;
@@ -202,21 +234,21 @@ export class DynamicTree<T> {
 
     // Extend AABB.
     aabb = node.aabb;
-    AABB.extend(aabb, Settings.aabbExtension);
+    AABB.extend(aabb, this.m_settings.aabbExtension);
 
     // Predict AABB displacement.
     // const d = Vec2.scale(displacement, Settings.aabbMultiplier);
 
     if (d[0] < 0.0) {
-      aabb.lowerBound[0] += d[0] * Settings.aabbMultiplier;
+      aabb.lowerBound[0] += d[0] * this.m_settings.aabbMultiplier;
     } else {
-      aabb.upperBound[0] += d[0] * Settings.aabbMultiplier;
+      aabb.upperBound[0] += d[0] * this.m_settings.aabbMultiplier;
     }
 
     if (d[1] < 0.0) {
-      aabb.lowerBound[1] += d[1] * Settings.aabbMultiplier;
+      aabb.lowerBound[1] += d[1] * this.m_settings.aabbMultiplier;
     } else {
-      aabb.upperBound[1] += d[1] * Settings.aabbMultiplier;
+      aabb.upperBound[1] += d[1] * this.m_settings.aabbMultiplier;
     }
 
     this.insertLeaf(node);
@@ -730,6 +762,68 @@ export class DynamicTree<T> {
     this.iteratorPool.release(it);
   }
 
+  /**
+   * @internal
+   * Capture the tree structure, node ids and fat AABBs. User data is not
+   * stored, it is provided by the caller of `_restoreState`.
+   */
+  _saveState(): DynamicTreeState {
+    const nodes: TreeNodeState[] = [];
+    // tslint:disable-next-line:no-for-in
+    for (const id in this.m_nodes) {
+      const node = this.m_nodes[id];
+      nodes.push({
+        id: node.id,
+        lowerBound: Vec2.clone(node.aabb.lowerBound),
+        upperBound: Vec2.clone(node.aabb.upperBound),
+        parent: node.parent ? node.parent.id : -1,
+        child1: node.child1 ? node.child1.id : -1,
+        child2: node.child2 ? node.child2.id : -1,
+        height: node.height,
+      });
+    }
+    return {
+      root: this.m_root ? this.m_root.id : -1,
+      lastProxyId: this.m_lastProxyId,
+      nodes,
+    };
+  }
+
+  /**
+   * @internal
+   * Replace all nodes with the ones from a saved state.
+   *
+   * @param getUserData Returns user data of a leaf node by its id.
+   */
+  _restoreState(state: DynamicTreeState, getUserData: (id: number) => T): void {
+    // tslint:disable-next-line:no-for-in
+    for (const id in this.m_nodes) {
+      this.freeNode(this.m_nodes[id]);
+    }
+
+    for (let i = 0; i < state.nodes.length; i++) {
+      const data = state.nodes[i];
+      const node = poolTreeNode.allocate();
+      node.id = data.id;
+      Vec2.copy(data.lowerBound, node.aabb.lowerBound);
+      Vec2.copy(data.upperBound, node.aabb.upperBound);
+      node.height = data.height;
+      this.m_nodes[node.id] = node;
+    }
+
+    for (let i = 0; i < state.nodes.length; i++) {
+      const data = state.nodes[i];
+      const node = this.m_nodes[data.id];
+      node.parent = data.parent === -1 ? null : this.m_nodes[data.parent];
+      node.child1 = data.child1 === -1 ? null : this.m_nodes[data.child1];
+      node.child2 = data.child2 === -1 ? null : this.m_nodes[data.child2];
+      node.userData = node.isLeaf() ? getUserData(node.id) : null;
+    }
+
+    this.m_root = state.root === -1 ? null : this.m_nodes[state.root];
+    this.m_lastProxyId = state.lastProxyId;
+  }
+
   /**
    * Query an AABB for overlapping proxies. The callback class is called for each
    * proxy that overlaps the supplied AABB.
@@ -761,6 +855,48 @@ export class DynamicTree<T> {
     this.stackPool.release(stack);
   }
 
+  /**
+   * Query proxies within a distance of an AABB. Nodes are pruned by the
+   * distance between their AABB and the query AABB, and the nearer child of
+   * each node is visited first, so that the callback can shrink the query
+   * distance to find the nearest proxies.
+   *
+   * @param aabb The query box.
+   * @param maxDistance Proxies farther from the query box are not visited.
+   * @param distanceCallback Called for each proxy whose AABB is within the query distance. Returns the new query distance, or a negative number to terminate the query.
+   */
+  queryDistance(aabb: AABBValue, maxDistance: number, distanceCallback: DynamicTreeDistanceCallback): void {
+    _ASSERT && console.assert(typeof distanceCallback === 'function');
+    const stack = this.stackPool.allocate();
+
+    stack.push(this.m_root);
+    while (stack.length > 0) {
+      const node = stack.pop();
+      if (node == null) {
+        continue;
+      }
+
+      if (AABB.distance(node.aabb, aabb) > maxDistance) {
+        continue;
+      }
+
+      if (node.isLeaf()) {
+        maxDistance = distanceCallback(node.id, maxDistance);
+        if (maxDistance < 0.0) {
+          break;
+        }
+      } else if (AABB.distance(node.child1.aabb, aabb) < AABB.distance(node.child2.aabb, aabb)) {
+        stack.push(node.child2);
+        stack.push(node.child1);
+      } else {
+        stack.push(node.child1);
+        stack.push(node.child2);
+      }
+    }
+
+    this.stackPool.release(stack);
+  }
+
   /**
    * Ray-cast against the proxies in the tree. This relies on the callback to
    * perform a exact ray-cast in the case were the proxy contains a shape. The
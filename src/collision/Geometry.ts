@@ -0,0 +1,201 @@
+/*
+ * Planck.js
+ * The MIT License
+ * Copyright (c) 2021 Erin Catto, Ali Shakiba
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as matrix from '../common/Matrix';
+import type { Vec2Value } from '../common/Vec2';
+import { TransformValue } from '../common/Transform';
+import * as Transform from '../common/Transform';
+import { SweepValue } from '../common/Sweep';
+import * as Sweep from '../common/Sweep';
+import { Shape, ShapeType } from './Shape';
+import { Manifold, WorldManifold } from './Manifold';
+import { Distance, DistanceInput, DistanceOutput, SimplexCache, ShapeCast, ShapeCastInput, ShapeCastOutput, testOverlap } from './Distance';
+import { TimeOfImpact, TOIInput, TOIOutput } from './TimeOfImpact';
+import { Contact } from '../dynamics/Contact';
+import type { Fixture } from '../dynamics/Fixture';
+import { SettingsInternal as Settings } from '../Settings';
+
+
+/** @internal */ const distanceInput = new DistanceInput();
+/** @internal */ const distanceOutput = new DistanceOutput();
+/** @internal */ const simplexCache = new SimplexCache();
+/** @internal */ const shapeCastInput = new ShapeCastInput();
+/** @internal */ const shapeCastOutput = new ShapeCastOutput();
+/** @internal */ const toiInput = new TOIInput();
+/** @internal */ const toiOutput = new TOIOutput();
+/** @internal */ const manifold = new Manifold();
+
+/**
+ * @internal
+ * Stands in for a fixture in contact evaluate functions, which only read the
+ * shape of fixtures.
+ */
+class ShapeFixture {
+  m_shape: Shape;
+  getShape(): Shape {
+    return this.m_shape;
+  }
+  getType(): ShapeType {
+    return this.m_shape.m_type;
+  }
+}
+
+/** @internal */ const fixtureA = new ShapeFixture();
+/** @internal */ const fixtureB = new ShapeFixture();
+
+/**
+ * Compute the distance between two shapes, and their closest points, without a
+ * world. The distance is zero if the shapes overlap. All children of chain
+ * shapes are tested.
+ */
+export function distance(shapeA: Shape, xfA: TransformValue, shapeB: Shape, xfB: TransformValue): DistanceOutput {
+  const result = new DistanceOutput();
+  result.distance = Infinity;
+  const childCountA = shapeA.getChildCount();
+  const childCountB = shapeB.getChildCount();
+  for (let indexA = 0; indexA < childCountA; ++indexA) {
+    for (let indexB = 0; indexB < childCountB; ++indexB) {
+      distanceInput.recycle();
+      distanceInput.proxyA.set(shapeA, indexA);
+      distanceInput.proxyB.set(shapeB, indexB);
+      Transform.copy(xfA, distanceInput.transformA);
+      Transform.copy(xfB, distanceInput.transformB);
+      distanceInput.useRadii = true;
+      simplexCache.recycle();
+      Distance(distanceOutput, simplexCache, distanceInput);
+      if (distanceOutput.distance < result.distance) {
+        result.distance = distanceOutput.distance;
+        result.iterations = distanceOutput.iterations;
+        matrix.copyVec2(result.pointA, distanceOutput.pointA);
+        matrix.copyVec2(result.pointB, distanceOutput.pointB);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Test if two shapes overlap.
+ */
+export function overlaps(shapeA: Shape, xfA: TransformValue, shapeB: Shape, xfB: TransformValue): boolean {
+  const childCountA = shapeA.getChildCount();
+  const childCountB = shapeB.getChildCount();
+  for (let indexA = 0; indexA < childCountA; ++indexA) {
+    for (let indexB = 0; indexB < childCountB; ++indexB) {
+      if (testOverlap(shapeA, indexA, shapeB, indexB, xfA, xfB)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Cast shape B by `translationB` against the fixed shape A. Returns the first
+ * hit, with the hit point and normal on shape A and the fraction of the
+ * translation in `lambda`, or null if the shapes do not hit or overlap at the
+ * start.
+ */
+export function castShape(shapeA: Shape, xfA: TransformValue, shapeB: Shape, xfB: TransformValue, translationB: Vec2Value): ShapeCastOutput | null {
+  let result: ShapeCastOutput | null = null;
+  const childCountA = shapeA.getChildCount();
+  const childCountB = shapeB.getChildCount();
+  for (let indexA = 0; indexA < childCountA; ++indexA) {
+    for (let indexB = 0; indexB < childCountB; ++indexB) {
+      shapeCastInput.recycle();
+      shapeCastInput.proxyA.set(shapeA, indexA);
+      shapeCastInput.proxyB.set(shapeB, indexB);
+      Transform.copy(xfA, shapeCastInput.transformA);
+      Transform.copy(xfB, shapeCastInput.transformB);
+      matrix.copyVec2(shapeCastInput.translationB, translationB);
+      if (ShapeCast(shapeCastOutput, shapeCastInput) && (!result || shapeCastOutput.lambda < result.lambda)) {
+        result = result || new ShapeCastOutput();
+        result.point = matrix.vec2(shapeCastOutput.point[0], shapeCastOutput.point[1]);
+        result.normal = matrix.vec2(shapeCastOutput.normal[0], shapeCastOutput.normal[1]);
+        result.lambda = shapeCastOutput.lambda;
+        result.iterations = shapeCastOutput.iterations;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Compute the time of impact of two shapes moving along sweeps, in the
+ * interval [0, tMax] of the sweeps. See {@link TimeOfImpact}.
+ */
+export function timeOfImpact(shapeA: Shape, sweepA: SweepValue, shapeB: Shape, sweepB: SweepValue, tMax: number = 1.0): TOIOutput {
+  const result = new TOIOutput();
+  const childCountA = shapeA.getChildCount();
+  const childCountB = shapeB.getChildCount();
+  for (let indexA = 0; indexA < childCountA; ++indexA) {
+    for (let indexB = 0; indexB < childCountB; ++indexB) {
+      toiInput.recycle();
+      toiInput.proxyA.set(shapeA, indexA);
+      toiInput.proxyB.set(shapeB, indexB);
+      Sweep.copy(sweepA, toiInput.sweepA);
+      Sweep.copy(sweepB, toiInput.sweepB);
+      toiInput.tMax = tMax;
+      TimeOfImpact(toiOutput, toiInput);
+      if (result.t < 0 || toiOutput.t < result.t) {
+        result.state = toiOutput.state;
+        result.t = toiOutput.t;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Compute the contact manifold of a child of shape A and a child of shape B in
+ * world coordinates. The manifold has no points if the shapes do not touch.
+ * Collision of the shape types must be registered, for example by importing
+ * `CollidePolygon` for polygons.
+ */
+export function collide(shapeA: Shape, xfA: TransformValue, shapeB: Shape, xfB: TransformValue, indexA: number = 0, indexB: number = 0): WorldManifold {
+  const result = new WorldManifold();
+  let evaluateFcn = Contact.getEvaluateFunction(shapeA.m_type, shapeB.m_type);
+  const swapped = !evaluateFcn;
+  if (swapped) {
+    evaluateFcn = Contact.getEvaluateFunction(shapeB.m_type, shapeA.m_type);
+    if (!evaluateFcn) {
+      throw new Error('No collision registered for ' + shapeA.m_type + ' and ' + shapeB.m_type);
+    }
+  }
+
+  manifold.recycle();
+  fixtureA.m_shape = swapped ? shapeB : shapeA;
+  fixtureB.m_shape = swapped ? shapeA : shapeB;
+  if (swapped) {
+    evaluateFcn(manifold, xfB, fixtureA as unknown as Fixture, indexB, xfA, fixtureB as unknown as Fixture, indexA, Settings.global);
+    manifold.getWorldManifold(result, xfB, shapeB.m_radius, xfA, shapeA.m_radius);
+    matrix.scaleVec2(result.normal, -1, result.normal);
+  } else {
+    evaluateFcn(manifold, xfA, fixtureA as unknown as Fixture, indexA, xfB, fixtureB as unknown as Fixture, indexB, Settings.global);
+    manifold.getWorldManifold(result, xfA, shapeA.m_radius, xfB, shapeB.m_radius);
+  }
+  fixtureA.m_shape = null;
+  fixtureB.m_shape = null;
+  return result;
+}
@@ -84,6 +84,23 @@ export enum ContactFeatureType {
   }
 }
 
+/** Saved state of a {@link ManifoldPoint}, `id` is key, indexA, indexB, typeA and typeB. */
+export interface ManifoldPointState {
+  localPoint: Vec2Value;
+  normalImpulse: number;
+  tangentImpulse: number;
+  id: [number, number, number, ContactFeatureType, ContactFeatureType];
+}
+
+/** Saved state of a {@link Manifold}, see {@link World.saveState}. */
+export interface ManifoldState {
+  type: ManifoldType;
+  localNormal: Vec2Value;
+  localPoint: Vec2Value;
+  pointCount: number;
+  points: ManifoldPointState[];
+}
+
 /**
  * A manifold for two touching convex shapes. Manifolds are created in `evaluate`
  * method of Contact subclasses.
@@ -130,6 +147,47 @@ export class Manifold {
     this.points[1].set(that.points[1]);
   }
 
+  /** @internal */
+  _saveState(): ManifoldState {
+    const points: ManifoldPointState[] = [];
+    for (let i = 0; i < this.points.length; ++i) {
+      const mp = this.points[i];
+      points.push({
+        localPoint: Vec2.clone(mp.localPoint),
+        normalImpulse: mp.normalImpulse,
+        tangentImpulse: mp.tangentImpulse,
+        id: [mp.id.key, mp.id.indexA, mp.id.indexB, mp.id.typeA, mp.id.typeB],
+      });
+    }
+    return {
+      type: this.type,
+      localNormal: Vec2.clone(this.localNormal),
+      localPoint: Vec2.clone(this.localPoint),
+      pointCount: this.pointCount,
+      points,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: ManifoldState): void {
+    this.type = state.type;
+    matrix.copyVec2(this.localNormal, state.localNormal);
+    matrix.copyVec2(this.localPoint, state.localPoint);
+    this.pointCount = state.pointCount;
+    for (let i = 0; i < state.points.length; ++i) {
+      const mp = this.points[i];
+      const data = state.points[i];
+      matrix.copyVec2(mp.localPoint, data.localPoint);
+      mp.normalImpulse = data.normalImpulse;
+      mp.tangentImpulse = data.tangentImpulse;
+      mp.id.key = data.id[0];
+      mp.id.indexA = data.id[1];
+      mp.id.indexB = data.id[2];
+      mp.id.typeA = data.id[3];
+      mp.id.typeB = data.id[4];
+    }
+  }
+
   recycle(): void {
     this.type = ManifoldType.e_unset;
     matrix.zeroVec2(this.localNormal)
@@ -26,8 +26,9 @@ import * as matrix from '../common/Matrix';
 import { SettingsInternal as Settings } from '../Settings';
 import { stats } from '../util/stats';
 import Timer from '../util/Timer';
-import { Sweep } from '../common/Sweep';
-import { Transform } from '../common/Transform';
+import { SweepValue } from '../common/Sweep';
+import * as Sweep from '../common/Sweep';
+import * as Transform from '../common/Transform';
 import { Distance, DistanceInput, DistanceOutput, DistanceProxy, SimplexCache } from './Distance';
 
 
@@ -42,16 +43,19 @@ import { Distance, DistanceInput, DistanceOutput, DistanceProxy, SimplexCache }
 export class TOIInput {
   proxyA = new DistanceProxy();
   proxyB = new DistanceProxy();
-  sweepA = new Sweep();
-  sweepB = new Sweep();
+  sweepA = Sweep.create();
+  sweepB = Sweep.create();
   /** defines sweep interval [0, tMax] */
   tMax: number;
+  /** @internal Settings of the world, if any. */
+  settings: Settings = Settings.global;
   recycle() {
     this.proxyA.recycle();
     this.proxyB.recycle();
-    this.sweepA.recycle();
-    this.sweepB.recycle();
+    Sweep.setZero(this.sweepA);
+    Sweep.setZero(this.sweepB);
     this.tMax = -1;
+    this.settings = Settings.global;
   }
 }
 
@@ -129,18 +133,19 @@ export const TimeOfImpact = function (output: TOIOutput, input: TOIInput): void
 
   // Large rotations can make the root finder fail, so we normalize the
   // sweep angles.
-  sweepA.normalize();
-  sweepB.normalize();
+  Sweep.normalize(sweepA);
+  Sweep.normalize(sweepB);
 
   const tMax = input.tMax;
 
   const totalRadius = proxyA.m_radius + proxyB.m_radius;
-  const target = math_max(Settings.linearSlop, totalRadius - 3.0 * Settings.linearSlop);
-  const tolerance = 0.25 * Settings.linearSlop;
+  const settings = input.settings;
+  const target = math_max(settings.linearSlop, totalRadius - 3.0 * settings.linearSlop);
+  const tolerance = 0.25 * settings.linearSlop;
   _ASSERT && console.assert(target > tolerance);
 
   let t1 = 0.0;
-  const k_maxIterations = Settings.maxTOIIterations;
+  const k_maxIterations = settings.maxTOIIterations;
   let iter = 0;
 
   // Prepare input for distance query.
@@ -150,12 +155,13 @@ export const TimeOfImpact = function (output: TOIOutput, input: TOIInput): void
   distanceInput.proxyA.setVertices(proxyA.m_vertices, proxyA.m_count, proxyA.m_radius);
   distanceInput.proxyB.setVertices(proxyB.m_vertices, proxyB.m_count, proxyB.m_radius);
   distanceInput.useRadii = false;
+  distanceInput.settings = settings;
 
   // The outer loop progressively attempts to compute new separating axes.
   // This loop terminates when an axis is repeated (no progress is made).
   while (true) {
-    sweepA.getTransform(xfA, t1);
-    sweepB.getTransform(xfB, t1);
+    Sweep.getTransform(sweepA, t1, xfA);
+    Sweep.getTransform(sweepB, t1, xfB);
 
     // Get the distance between shapes. We can also use the results
     // to get a separating axis.
@@ -331,8 +337,8 @@ class SeparationFunction {
   // todo: maybe assign by copy instead of reference?
   m_proxyA: DistanceProxy = null;
   m_proxyB: DistanceProxy = null;
-  m_sweepA: Sweep = null;
-  m_sweepB: Sweep = null;
+  m_sweepA: SweepValue = null;
+  m_sweepB: SweepValue = null;
 
   // initialize cache
   m_type = SeparationFunctionType.e_unset;
@@ -359,7 +365,7 @@ class SeparationFunction {
 
   // TODO_ERIN might not need to return the separation
 
-  initialize(cache: SimplexCache, proxyA: DistanceProxy, sweepA: Sweep, proxyB: DistanceProxy, sweepB: Sweep, t1: number): number {
+  initialize(cache: SimplexCache, proxyA: DistanceProxy, sweepA: SweepValue, proxyB: DistanceProxy, sweepB: SweepValue, t1: number): number {
     const count = cache.count;
     _ASSERT && console.assert(0 < count && count < 3);
 
@@ -368,8 +374,8 @@ class SeparationFunction {
     this.m_sweepA = sweepA;
     this.m_sweepB = sweepB;
 
-    this.m_sweepA.getTransform(xfA, t1);
-    this.m_sweepB.getTransform(xfB, t1);
+    Sweep.getTransform(this.m_sweepA, t1, xfA);
+    Sweep.getTransform(this.m_sweepB, t1, xfB);
 
     if (count === 1) {
       this.m_type = SeparationFunctionType.e_points;
@@ -431,8 +437,8 @@ class SeparationFunction {
 
   compute(find: boolean, t: number): number {
     // It was findMinSeparation and evaluate
-    this.m_sweepA.getTransform(xfA, t);
-    this.m_sweepB.getTransform(xfB, t);
+    Sweep.getTransform(this.m_sweepA, t, xfA);
+    Sweep.getTransform(this.m_sweepB, t, xfB);
 
     switch (this.m_type) {
       case SeparationFunctionType.e_points: {
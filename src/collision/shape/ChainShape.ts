@@ -26,7 +26,7 @@ import * as matrix from '../../common/Matrix';
 import type { MassData } from '../../dynamics/Body';
 import { AABBValue, RayCastOutput, RayCastInput, AABB } from '../AABB';
 import { DistanceProxy } from '../Distance';
-import { Transform, TransformValue } from '../../common/Transform';
+import { TransformValue } from '../../common/Transform';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
 import { SettingsInternal as Settings } from '../../Settings';
@@ -323,7 +323,7 @@ export class ChainShape extends Shape {
    * @param xf The transform to be applied to the shape.
    * @param childIndex The child shape index
    */
-  rayCast(output: RayCastOutput, input: RayCastInput, xf: Transform, childIndex: number): boolean {
+  rayCast(output: RayCastOutput, input: RayCastInput, xf: TransformValue, childIndex: number): boolean {
     _ASSERT && console.assert(0 <= childIndex && childIndex < this.m_count);
 
     const edgeShape = new EdgeShape(this.getVertex(childIndex), this.getVertex(childIndex + 1));
@@ -24,12 +24,12 @@
 
 import * as matrix from '../../common/Matrix';
 import { EPSILON } from '../../common/Math';
-import { Rot } from '../../common/Rot';
+import * as Rot from '../../common/Rot';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
 import { Shape } from '../Shape';
 import { AABBValue, RayCastInput, RayCastOutput } from '../AABB';
-import { Transform, TransformValue } from '../../common/Transform';
+import { TransformValue } from '../../common/Transform';
 import { MassData } from '../../dynamics/Body';
 import { DistanceProxy } from '../Distance';
 
@@ -140,7 +140,7 @@ export class CircleShape extends Shape {
    * @param xf The transform to be applied to the shape.
    * @param childIndex The child shape index
    */
-  rayCast(output: RayCastOutput, input: RayCastInput, xf: Transform, childIndex: number): boolean {
+  rayCast(output: RayCastOutput, input: RayCastInput, xf: TransformValue, childIndex: number): boolean {
     // Collision Detection in Interactive 3D Environments by Gino van den Bergen
     // From Section 3.1.2
     // x = s + a * r
@@ -41,24 +41,24 @@ import { Fixture } from "../../dynamics/Fixture";
 Contact.addType(EdgeShape.TYPE, PolygonShape.TYPE, EdgePolygonContact);
 Contact.addType(ChainShape.TYPE, PolygonShape.TYPE, ChainPolygonContact);
 
-/** @internal */ function EdgePolygonContact(manifold: Manifold, xfA: TransformValue, fA: Fixture, indexA: number, xfB: TransformValue, fB: Fixture, indexB: number): void {
+/** @internal */ function EdgePolygonContact(manifold: Manifold, xfA: TransformValue, fA: Fixture, indexA: number, xfB: TransformValue, fB: Fixture, indexB: number, settings: Settings): void {
   _ASSERT && console.assert(fA.getType() == EdgeShape.TYPE);
   _ASSERT && console.assert(fB.getType() == PolygonShape.TYPE);
 
-  CollideEdgePolygon(manifold, fA.getShape() as EdgeShape, xfA, fB.getShape() as PolygonShape, xfB);
+  CollideEdgePolygon(manifold, fA.getShape() as EdgeShape, xfA, fB.getShape() as PolygonShape, xfB, settings);
 }
 
 // reused
 /** @internal */ const edge_reuse = new EdgeShape();
 
-/** @internal */ function ChainPolygonContact(manifold: Manifold, xfA: TransformValue, fA: Fixture, indexA: number, xfB: TransformValue, fB: Fixture, indexB: number): void {
+/** @internal */ function ChainPolygonContact(manifold: Manifold, xfA: TransformValue, fA: Fixture, indexA: number, xfB: TransformValue, fB: Fixture, indexB: number, settings: Settings): void {
   _ASSERT && console.assert(fA.getType() == ChainShape.TYPE);
   _ASSERT && console.assert(fB.getType() == PolygonShape.TYPE);
 
   const chain = fA.getShape() as ChainShape;
   chain.getChildEdge(edge_reuse, indexA);
 
-  CollideEdgePolygon(manifold, edge_reuse, xfA, fB.getShape() as PolygonShape, xfB);
+  CollideEdgePolygon(manifold, edge_reuse, xfA, fB.getShape() as PolygonShape, xfB, settings);
 }
 
 /** @internal */ enum EPAxisType {
@@ -145,8 +145,10 @@ Contact.addType(ChainShape.TYPE, PolygonShape.TYPE, ChainPolygonContact);
 /**
  * This function collides and edge and a polygon, taking into account edge
  * adjacency.
+ *
+ * @param settings Settings of the world, global settings by default.
  */
-export const CollideEdgePolygon = function (manifold: Manifold, edgeA: EdgeShape, xfA: TransformValue, polygonB: PolygonShape, xfB: TransformValue): void {
+export const CollideEdgePolygon = function (manifold: Manifold, edgeA: EdgeShape, xfA: TransformValue, polygonB: PolygonShape, xfB: TransformValue, settings: Settings = Settings.global): void {
   // Algorithm:
   // 1. Classify v1 and v2
   // 2. Classify polygon centroid as front or back
@@ -373,11 +375,11 @@ export const CollideEdgePolygon = function (manifold: Manifold, edgeA: EdgeShape
 
       // Adjacency
       if (matrix.dotVec2(n, perp) >= 0.0) {
-        if (matrix.dotVec2(n, normal) - matrix.dotVec2(upperLimit, normal) < -Settings.angularSlop) {
+        if (matrix.dotVec2(n, normal) - matrix.dotVec2(upperLimit, normal) < -settings.angularSlop) {
           continue;
         }
       } else {
-        if (matrix.dotVec2(n, normal) - matrix.dotVec2(lowerLimit, normal) < -Settings.angularSlop) {
+        if (matrix.dotVec2(n, normal) - matrix.dotVec2(lowerLimit, normal) < -settings.angularSlop) {
           continue;
         }
       }
@@ -62,10 +62,11 @@ Contact.addType(PolygonShape.TYPE, PolygonShape.TYPE, PolygonContact);
   xfB: TransformValue,
   fixtureB: Fixture,
   indexB: number,
+  settings: Settings,
 ): void {
   _ASSERT && console.assert(fixtureA.getType() == PolygonShape.TYPE);
   _ASSERT && console.assert(fixtureB.getType() == PolygonShape.TYPE);
-  CollidePolygons(manifold, fixtureA.getShape() as PolygonShape, xfA, fixtureB.getShape() as PolygonShape, xfB);
+  CollidePolygons(manifold, fixtureA.getShape() as PolygonShape, xfA, fixtureB.getShape() as PolygonShape, xfB, settings);
 }
 
 /** @internal */ interface MaxSeparation {
@@ -174,6 +175,8 @@ Contact.addType(PolygonShape.TYPE, PolygonShape.TYPE, PolygonContact);
  * Clip
  *
  * The normal points from 1 to 2
+ *
+ * @param settings Settings of the world, global settings by default.
  */
 export const CollidePolygons = function (
   manifold: Manifold,
@@ -181,6 +184,7 @@ export const CollidePolygons = function (
   xfA: TransformValue,
   polyB: PolygonShape,
   xfB: TransformValue,
+  settings: Settings = Settings.global,
 ): void {
   manifold.pointCount = 0;
   const totalRadius = polyA.m_radius + polyB.m_radius;
@@ -203,7 +207,7 @@ export const CollidePolygons = function (
   let xf2: TransformValue;
   let edge1: number; // reference edge
   let flip: boolean;
-  const k_tol = 0.1 * Settings.linearSlop;
+  const k_tol = 0.1 * settings.linearSlop;
 
   if (separationB > separationA + k_tol) {
     poly1 = polyB;
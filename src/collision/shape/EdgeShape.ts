@@ -25,8 +25,8 @@
 import { SettingsInternal as Settings } from '../../Settings';
 import * as matrix from '../../common/Matrix';
 import { Shape } from '../Shape';
-import { Transform, TransformValue } from '../../common/Transform';
-import { Rot } from '../../common/Rot';
+import { TransformValue } from '../../common/Transform';
+import * as Rot from '../../common/Rot';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
 import { AABB, AABBValue, RayCastInput, RayCastOutput } from '../AABB';
@@ -93,10 +93,10 @@ export class EdgeShape extends Shape {
   /** @internal */
   static _deserialize(data: any): EdgeShape {
     const shape = new EdgeShape(data.vertex1, data.vertex2);
-    if (shape.m_hasVertex0) {
+    if (data.hasVertex0) {
       shape.setPrevVertex(data.vertex0);
     }
-    if (shape.m_hasVertex3) {
+    if (data.hasVertex3) {
       shape.setNextVertex(data.vertex3);
     }
     return shape;
@@ -222,7 +222,7 @@ export class EdgeShape extends Shape {
    * @param xf The transform to be applied to the shape.
    * @param childIndex The child shape index
    */
-  rayCast(output: RayCastOutput, input: RayCastInput, xf: Transform, childIndex: number): boolean {
+  rayCast(output: RayCastOutput, input: RayCastInput, xf: TransformValue, childIndex: number): boolean {
     // p = p1 + t * d
     // v = v1 + s * e
     // p1 + t * d = v1 + s * e
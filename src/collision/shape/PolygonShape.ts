@@ -27,8 +27,9 @@ import type { MassData } from '../../dynamics/Body';
 import { RayCastOutput, RayCastInput, AABBValue } from '../AABB';
 import { DistanceProxy } from '../Distance';
 import { EPSILON } from '../../common/Math';
-import { Transform, TransformValue } from '../../common/Transform';
-import { Rot } from '../../common/Rot';
+import { TransformValue } from '../../common/Transform';
+import * as Transform from '../../common/Transform';
+import * as Rot from '../../common/Rot';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
 import { SettingsInternal as Settings } from '../../Settings';
@@ -286,7 +287,7 @@ export class PolygonShape extends Shape {
 
       const xf = Transform.identity();
       Vec2.copy(center, xf.p);
-      xf.q.setAngle(angle);
+      Rot.setAngle(angle, xf.q);
 
       // Transform vertices and normals.
       for (let i = 0; i < this.m_count; ++i) {
@@ -324,7 +325,7 @@ export class PolygonShape extends Shape {
    * @param xf The transform to be applied to the shape.
    * @param childIndex The child shape index
    */
-  rayCast(output: RayCastOutput, input: RayCastInput, xf: Transform, childIndex: number): boolean {
+  rayCast(output: RayCastOutput, input: RayCastInput, xf: TransformValue, childIndex: number): boolean {
 
     // Put the ray into the polygon's frame of reference.
     const p1 = Rot.mulTVec2(xf.q, Vec2.sub(input.p1, xf.p));
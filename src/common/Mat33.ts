@@ -34,206 +34,184 @@ import { Vec3Value } from './Vec3';
 /**
  * A 3-by-3 matrix. Stored in column-major order.
  */
-export class Mat33 {
+export type Mat33Value = {
   ex: Vec3Value;
   ey: Vec3Value;
   ez: Vec3Value;
+};
 
-  constructor(a: Vec3Value, b: Vec3Value, c: Vec3Value);
-  constructor();
-  constructor(a?: Vec3Value, b?: Vec3Value, c?: Vec3Value) {
-    if (typeof a === 'object' && a !== null) {
-      this.ex = Vec3.clone(a);
-      this.ey = Vec3.clone(b);
-      this.ez = Vec3.clone(c);
-    } else {
-      this.ex = Vec3.zero();
-      this.ey = Vec3.zero();
-      this.ez = Vec3.zero();
-    }
+/**
+ * create a new matrix from its columns, or a zero matrix
+ */
+export function create(a?: Vec3Value, b?: Vec3Value, c?: Vec3Value): Mat33Value {
+  if (typeof a === 'object' && a !== null) {
+    return { ex: Vec3.clone(a), ey: Vec3.clone(b), ez: Vec3.clone(c) };
   }
+  return { ex: Vec3.zero(), ey: Vec3.zero(), ez: Vec3.zero() };
+}
 
-  /** @hidden */
-  toString(): string {
-    return JSON.stringify(this);
-  }
+export function zero(): Mat33Value {
+  return create();
+}
 
-  static isValid(obj: any): boolean {
-    if (obj === null || typeof obj === 'undefined') {
-      return false;
-    }
-    return Vec3.isValid(obj.ex) && Vec3.isValid(obj.ey) && Vec3.isValid(obj.ez);
-  }
+export function clone(mx: Mat33Value): Mat33Value {
+  return create(mx.ex, mx.ey, mx.ez);
+}
 
-  static assert(o: any): void {
-    _ASSERT && console.assert(!Mat33.isValid(o), 'Invalid Mat33!', o);
+export function isValid(obj: any): boolean {
+  if (obj === null || typeof obj === 'undefined') {
+    return false;
   }
+  return Vec3.isValid(obj.ex) && Vec3.isValid(obj.ey) && Vec3.isValid(obj.ez);
+}
 
-  /**
-   * Set this matrix to all zeros.
-   */
-  setZero(): Mat33 {
-    Vec3.setZero(this.ex);
-    Vec3.setZero(this.ey);
-    Vec3.setZero(this.ez);
-    return this;
-  }
+export function assert(o: any): void {
+  _ASSERT && console.assert(!isValid(o), 'Invalid Mat33!', o);
+}
 
-  /**
-   * Solve A * x = b, where b is a column vector. This is more efficient than
-   * computing the inverse in one-shot cases.
-   */
-  solve33(v: Vec3Value): Vec3Value {
-    // let det = matrix.dotVec3(this.ex, matrix.newCrossVec3(this.ey, this.ez));
-    let cross_x = this.ey[1] * this.ez[2] - this.ey[2] * this.ez[1];
-    let cross_y = this.ey[2] * this.ez[0] - this.ey[0] * this.ez[2];
-    let cross_z = this.ey[0] * this.ez[1] - this.ey[1] * this.ez[0];
-    let det = this.ex[0] * cross_x + this.ex[1] * cross_y + this.ex[2] * cross_z;
-    if (det !== 0.0) {
-      det = 1.0 / det;
-    }
-    const r = Vec3.create();
-    // r.x = det * matrix.dotVec3(v, matrix.newCrossVec3(this.ey, this.ez));
-    cross_x = this.ey[1] * this.ez[2] - this.ey[2] * this.ez[1];
-    cross_y = this.ey[2] * this.ez[0] - this.ey[0] * this.ez[2];
-    cross_z = this.ey[0] * this.ez[1] - this.ey[1] * this.ez[0];
-    r[0] = det * (v[0] * cross_x + v[1] * cross_y + v[2] * cross_z);
-
-    // r.y = det * matrix.dotVec3(this.ex, matrix.newCrossVec3(v, this.ez));
-    cross_x = v[1] * this.ez[2] - v[2] * this.ez[1];
-    cross_y = v[2] * this.ez[0] - v[0] * this.ez[2];
-    cross_z = v[0] * this.ez[1] - v[1] * this.ez[0];
-    r[1] = det * (this.ex[0] * cross_x + this.ex[1] * cross_y + this.ex[2] * cross_z);
-
-    // r.z = det * matrix.dotVec3(this.ex, matrix.newCrossVec3(this.ey, v));
-    cross_x = this.ey[1] * v[2] - this.ey[2] * v[1];
-    cross_y = this.ey[2] * v[0] - this.ey[0] * v[2];
-    cross_z = this.ey[0] * v[1] - this.ey[1] * v[0];
-    r[2] = det * (this.ex[0] * cross_x + this.ex[1] * cross_y + this.ex[2] * cross_z);
-    return r;
-  }
+/**
+ * Set a matrix to all zeros.
+ */
+export function setZero(out: Mat33Value): Mat33Value {
+  Vec3.setZero(out.ex);
+  Vec3.setZero(out.ey);
+  Vec3.setZero(out.ez);
+  return out;
+}
 
-  /**
-   * Solve A * x = b, where b is a column vector. This is more efficient than
-   * computing the inverse in one-shot cases. Solve only the upper 2-by-2 matrix
-   * equation.
-   */
-  solve22(v: Vec2Value): Vec2Value {
-    const a11 = this.ex[0];
-    const a12 = this.ey[0];
-    const a21 = this.ex[1];
-    const a22 = this.ey[1];
-    let det = a11 * a22 - a12 * a21;
-    if (det !== 0.0) {
-      det = 1.0 / det;
-    }
-    const r = Vec2.zero();
-    r[0] = det * (a22 * v[0] - a12 * v[1]);
-    r[1] = det * (a11 * v[1] - a21 * v[0]);
-    return r;
+/**
+ * Solve A * x = b, where b is a column vector. This is more efficient than
+ * computing the inverse in one-shot cases.
+ */
+export function solve33(mx: Mat33Value, v: Vec3Value, out: Vec3Value = Vec3.create()): Vec3Value {
+  // let det = matrix.dotVec3(mx.ex, matrix.newCrossVec3(mx.ey, mx.ez));
+  let cross_x = mx.ey[1] * mx.ez[2] - mx.ey[2] * mx.ez[1];
+  let cross_y = mx.ey[2] * mx.ez[0] - mx.ey[0] * mx.ez[2];
+  let cross_z = mx.ey[0] * mx.ez[1] - mx.ey[1] * mx.ez[0];
+  let det = mx.ex[0] * cross_x + mx.ex[1] * cross_y + mx.ex[2] * cross_z;
+  if (det !== 0.0) {
+    det = 1.0 / det;
   }
+  // r.x = det * matrix.dotVec3(v, matrix.newCrossVec3(mx.ey, mx.ez));
+  cross_x = mx.ey[1] * mx.ez[2] - mx.ey[2] * mx.ez[1];
+  cross_y = mx.ey[2] * mx.ez[0] - mx.ey[0] * mx.ez[2];
+  cross_z = mx.ey[0] * mx.ez[1] - mx.ey[1] * mx.ez[0];
+  const x = det * (v[0] * cross_x + v[1] * cross_y + v[2] * cross_z);
+
+  // r.y = det * matrix.dotVec3(mx.ex, matrix.newCrossVec3(v, mx.ez));
+  cross_x = v[1] * mx.ez[2] - v[2] * mx.ez[1];
+  cross_y = v[2] * mx.ez[0] - v[0] * mx.ez[2];
+  cross_z = v[0] * mx.ez[1] - v[1] * mx.ez[0];
+  const y = det * (mx.ex[0] * cross_x + mx.ex[1] * cross_y + mx.ex[2] * cross_z);
+
+  // r.z = det * matrix.dotVec3(mx.ex, matrix.newCrossVec3(mx.ey, v));
+  cross_x = mx.ey[1] * v[2] - mx.ey[2] * v[1];
+  cross_y = mx.ey[2] * v[0] - mx.ey[0] * v[2];
+  cross_z = mx.ey[0] * v[1] - mx.ey[1] * v[0];
+  const z = det * (mx.ex[0] * cross_x + mx.ex[1] * cross_y + mx.ex[2] * cross_z);
+  return Vec3.set(x, y, z, out);
+}
 
-  /**
-   * Get the inverse of this matrix as a 2-by-2. Returns the zero matrix if
-   * singular.
-   */
-  getInverse22(M: Mat33): void {
-    const a = this.ex[0];
-    const b = this.ey[0];
-    const c = this.ex[1];
-    const d = this.ey[1];
-    let det = a * d - b * c;
-    if (det !== 0.0) {
-      det = 1.0 / det;
-    }
-    M.ex[0] = det * d;
-    M.ey[0] = -det * b;
-    M.ex[2] = 0.0;
-    M.ex[1] = -det * c;
-    M.ey[1] = det * a;
-    M.ey[2] = 0.0;
-    M.ez[0] = 0.0;
-    M.ez[1] = 0.0;
-    M.ez[2] = 0.0;
+/**
+ * Solve A * x = b, where b is a column vector. This is more efficient than
+ * computing the inverse in one-shot cases. Solve only the upper 2-by-2 matrix
+ * equation.
+ */
+export function solve22(mx: Mat33Value, v: Vec2Value, out: Vec2Value = Vec2.create()): Vec2Value {
+  const a11 = mx.ex[0];
+  const a12 = mx.ey[0];
+  const a21 = mx.ex[1];
+  const a22 = mx.ey[1];
+  let det = a11 * a22 - a12 * a21;
+  if (det !== 0.0) {
+    det = 1.0 / det;
   }
+  return Vec2.set(det * (a22 * v[0] - a12 * v[1]), det * (a11 * v[1] - a21 * v[0]), out);
+}
 
-  /**
-   * Get the symmetric inverse of this matrix as a 3-by-3. Returns the zero matrix
-   * if singular.
-   */
-  getSymInverse33(M: Mat33): void {
-    let det = Vec3.dot(this.ex, Vec3.cross(this.ey, this.ez));
-    if (det !== 0.0) {
-      det = 1.0 / det;
-    }
-    const a11 = this.ex[0];
-    const a12 = this.ey[0];
-    const a13 = this.ez[0];
-    const a22 = this.ey[1];
-    const a23 = this.ez[1];
-    const a33 = this.ez[2];
-
-    M.ex[0] = det * (a22 * a33 - a23 * a23);
-    M.ex[1] = det * (a13 * a23 - a12 * a33);
-    M.ex[2] = det * (a12 * a23 - a13 * a22);
-
-    M.ey[0] = M.ex[1];
-    M.ey[1] = det * (a11 * a33 - a13 * a13);
-    M.ey[2] = det * (a13 * a12 - a11 * a23);
-
-    M.ez[0] = M.ex[2];
-    M.ez[1] = M.ey[2];
-    M.ez[2] = det * (a11 * a22 - a12 * a12);
+/**
+ * Get the inverse of a matrix as a 2-by-2. Returns the zero matrix if
+ * singular.
+ */
+export function getInverse22(mx: Mat33Value, out: Mat33Value): Mat33Value {
+  const a = mx.ex[0];
+  const b = mx.ey[0];
+  const c = mx.ex[1];
+  const d = mx.ey[1];
+  let det = a * d - b * c;
+  if (det !== 0.0) {
+    det = 1.0 / det;
   }
+  out.ex[0] = det * d;
+  out.ey[0] = -det * b;
+  out.ex[2] = 0.0;
+  out.ex[1] = -det * c;
+  out.ey[1] = det * a;
+  out.ey[2] = 0.0;
+  out.ez[0] = 0.0;
+  out.ez[1] = 0.0;
+  out.ez[2] = 0.0;
+  return out;
+}
 
-  /**
-   * Multiply a matrix times a vector.
-   */
-  static mul(a: Mat33, b: Vec2Value): Vec2Value;
-  static mul(a: Mat33, b: Vec3Value): Vec3Value;
-  static mul(a, b) {
-    _ASSERT && Mat33.assert(a);
-    if (b && 'z' in b && 'y' in b && 'x' in b) {
-      _ASSERT && Vec3.assert(b);
-      const x = a.ex.x * b.x + a.ey.x * b.y + a.ez.x * b.z;
-      const y = a.ex.y * b.x + a.ey.y * b.y + a.ez.y * b.z;
-      const z = a.ex.z * b.x + a.ey.z * b.y + a.ez.z * b.z;
-      return Vec3.create(x, y, z);
-
-    } else if (b && 'y' in b && 'x' in b) {
-      _ASSERT && Vec2.assert(b);
-      const x = a.ex.x * b.x + a.ey.x * b.y;
-      const y = a.ex.y * b.x + a.ey.y * b.y;
-      return Vec2.create(x, y);
-    }
-
-    _ASSERT && console.assert(false);
+/**
+ * Get the symmetric inverse of a matrix as a 3-by-3. Returns the zero matrix
+ * if singular.
+ */
+export function getSymInverse33(mx: Mat33Value, out: Mat33Value): Mat33Value {
+  let det = Vec3.dot(mx.ex, Vec3.cross(mx.ey, mx.ez));
+  if (det !== 0.0) {
+    det = 1.0 / det;
   }
+  const a11 = mx.ex[0];
+  const a12 = mx.ey[0];
+  const a13 = mx.ez[0];
+  const a22 = mx.ey[1];
+  const a23 = mx.ez[1];
+  const a33 = mx.ez[2];
+
+  out.ex[0] = det * (a22 * a33 - a23 * a23);
+  out.ex[1] = det * (a13 * a23 - a12 * a33);
+  out.ex[2] = det * (a12 * a23 - a13 * a22);
+
+  out.ey[0] = out.ex[1];
+  out.ey[1] = det * (a11 * a33 - a13 * a13);
+  out.ey[2] = det * (a13 * a12 - a11 * a23);
+
+  out.ez[0] = out.ex[2];
+  out.ez[1] = out.ey[2];
+  out.ez[2] = det * (a11 * a22 - a12 * a12);
+  return out;
+}
 
-  static mulVec3(a: Mat33, b: Vec3Value): Vec3Value {
-    _ASSERT && Mat33.assert(a);
-    _ASSERT && Vec3.assert(b);
-    const x = a.ex[0] * b[0] + a.ey[0] * b[1] + a.ez[0] * b[2];
-    const y = a.ex[1] * b[0] + a.ey[1] * b[1] + a.ez[1] * b[2];
-    const z = a.ex[2] * b[0] + a.ey[2] * b[1] + a.ez[2] * b[2];
-    return Vec3.create(x, y, z);
-  }
+/**
+ * Multiply a matrix times a vector.
+ */
+export function mulVec3(a: Mat33Value, b: Vec3Value, out: Vec3Value = Vec3.create()): Vec3Value {
+  _ASSERT && assert(a);
+  _ASSERT && Vec3.assert(b);
+  const x = a.ex[0] * b[0] + a.ey[0] * b[1] + a.ez[0] * b[2];
+  const y = a.ex[1] * b[0] + a.ey[1] * b[1] + a.ez[1] * b[2];
+  const z = a.ex[2] * b[0] + a.ey[2] * b[1] + a.ez[2] * b[2];
+  return Vec3.set(x, y, z, out);
+}
 
-  static mulVec2(a: Mat33, b: Vec2Value): Vec2Value {
-    _ASSERT && Mat33.assert(a);
-    _ASSERT && Vec2.assert(b);
-    const x = a.ex[0] * b[0] + a.ey[0] * b[1];
-    const y = a.ex[1] * b[0] + a.ey[1] * b[1];
-    return Vec2.create(x, y);
-  }
+/**
+ * Multiply the upper 2-by-2 matrix times a vector.
+ */
+export function mulVec2(a: Mat33Value, b: Vec2Value, out: Vec2Value = Vec2.create()): Vec2Value {
+  _ASSERT && assert(a);
+  _ASSERT && Vec2.assert(b);
+  const x = a.ex[0] * b[0] + a.ey[0] * b[1];
+  const y = a.ex[1] * b[0] + a.ey[1] * b[1];
+  return Vec2.set(x, y, out);
+}
 
-  static add(a: Mat33, b: Mat33): Mat33 {
-    _ASSERT && Mat33.assert(a);
-    _ASSERT && Mat33.assert(b);
-    return new Mat33(
-      Vec3.add(a.ex, b.ex),
-      Vec3.add(a.ey, b.ey),
-      Vec3.add(a.ez, b.ez)
-    );
-  }
+export function add(a: Mat33Value, b: Mat33Value, out: Mat33Value = create()): Mat33Value {
+  _ASSERT && assert(a);
+  _ASSERT && assert(b);
+  Vec3.add(a.ex, b.ex, out.ex);
+  Vec3.add(a.ey, b.ey, out.ey);
+  Vec3.add(a.ez, b.ez, out.ez);
+  return out;
 }
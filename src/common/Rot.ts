@@ -30,6 +30,7 @@ import * as Vec2 from './Vec2';
 /** @internal */ const math_cos = Math.cos;
 /** @internal */ const math_atan2 = Math.atan2;
 
+/** A rotation, sine and cosine of an angle. */
 export interface RotValue {
   /** sin(angle) */
   s: number;
@@ -37,193 +38,118 @@ export interface RotValue {
   c: number;
 }
 
-export class Rot {
-  /** sin(angle) */
-  s: number;
-  /** cos(angle) */
-  c: number;
-
-  /** Initialize from an angle in radians. */
-  constructor(angle?: number | RotValue) {
-    if (typeof angle === 'number') {
-      this.setAngle(angle);
-    } else if (typeof angle === 'object') {
-      this.setRot(angle);
-    } else {
-      this.setIdentity();
-    }
-  }
-
-  /** @hidden */
-  static neo(angle: number): Rot {
-    const obj = Object.create(Rot.prototype);
-    obj.setAngle(angle);
-    return obj;
-  }
-
-  static clone(rot: RotValue): Rot {
-    _ASSERT && Rot.assert(rot);
-    const obj = Object.create(Rot.prototype);
-    obj.s = rot.s;
-    obj.c = rot.c;
-    return obj;
-  }
-
-  static identity(): Rot {
-    const obj = Object.create(Rot.prototype);
-    obj.s = 0.0;
-    obj.c = 1.0;
-    return obj;
-  }
-
-  static isValid(obj: any): boolean {
-    if (obj === null || typeof obj === 'undefined') {
-      return false;
-    }
-    return Number.isFinite(obj.s) && Number.isFinite(obj.c);
-  }
+/**
+ * create a new rotation from an angle in radians
+ */
+export function create(angle: number = 0): RotValue {
+  _ASSERT && console.assert(Number.isFinite(angle));
+  // TODO_ERIN optimize
+  return { s: math_sin(angle), c: math_cos(angle) };
+}
 
-  static assert(o: any): void {
-    _ASSERT && console.assert(!Rot.isValid(o), 'Invalid Rot!', o);
-  }
+export function identity(): RotValue {
+  return { s: 0.0, c: 1.0 };
+}
 
-  /** Set to the identity rotation. */
-  setIdentity(): void {
-    this.s = 0.0;
-    this.c = 1.0;
-  }
+export function clone(rot: RotValue): RotValue {
+  _ASSERT && assert(rot);
+  return { s: rot.s, c: rot.c };
+}
 
-  set(angle: number | RotValue): void {
-    if (typeof angle === 'object') {
-      _ASSERT && Rot.assert(angle);
-      this.s = angle.s;
-      this.c = angle.c;
-
-    } else {
-      _ASSERT && console.assert(Number.isFinite(angle));
-      // TODO_ERIN optimize
-      this.s = math_sin(angle);
-      this.c = math_cos(angle);
-    }
-  }
+export function copy(rot: RotValue, out: RotValue): RotValue {
+  _ASSERT && assert(rot);
+  out.s = rot.s;
+  out.c = rot.c;
+  return out;
+}
 
-  setRot(angle: RotValue): void {
-    _ASSERT && Rot.assert(angle);
-    this.s = angle.s;
-    this.c = angle.c;
+export function isValid(obj: any): boolean {
+  if (obj === null || typeof obj === 'undefined') {
+    return false;
   }
+  return Number.isFinite(obj.s) && Number.isFinite(obj.c);
+}
 
-  /** Set using an angle in radians. */
-  setAngle(angle: number): void {
-    _ASSERT && console.assert(Number.isFinite(angle));
-    // TODO_ERIN optimize
-    this.s = math_sin(angle);
-    this.c = math_cos(angle);
-  }
+export function assert(o: any): void {
+  _ASSERT && console.assert(!isValid(o), 'Invalid Rot!', o);
+}
 
-  /** Get the angle in radians. */
-  getAngle(): number {
-    return math_atan2(this.s, this.c);
-  }
+/** Set to the identity rotation. */
+export function setIdentity(out: RotValue): RotValue {
+  out.s = 0.0;
+  out.c = 1.0;
+  return out;
+}
 
-  /** Get the x-axis. */
-  getXAxis(): Vec2Value {
-    return Vec2.create(this.c, this.s);
-  }
+/** Set using an angle in radians. */
+export function setAngle(angle: number, out: RotValue): RotValue {
+  _ASSERT && console.assert(Number.isFinite(angle));
+  // TODO_ERIN optimize
+  out.s = math_sin(angle);
+  out.c = math_cos(angle);
+  return out;
+}
 
-  /** Get the y-axis. */
-  getYAxis(): Vec2Value {
-    return Vec2.create(-this.s, this.c);
-  }
+/** Get the angle in radians. */
+export function getAngle(rot: RotValue): number {
+  return math_atan2(rot.s, rot.c);
+}
 
-  /** Multiply two rotations: q * r */
-  static mul(rot: RotValue, m: RotValue): Rot;
-  /** Rotate a vector */
-  static mul(rot: RotValue, m: Vec2Value): Vec2Value;
-  static mul(rot, m) {
-    _ASSERT && Rot.assert(rot);
-    if ('c' in m && 's' in m) {
-      _ASSERT && Rot.assert(m);
-      // [qc -qs] * [rc -rs] = [qc*rc-qs*rs -qc*rs-qs*rc]
-      // [qs qc] [rs rc] [qs*rc+qc*rs -qs*rs+qc*rc]
-      // s = qs * rc + qc * rs
-      // c = qc * rc - qs * rs
-      const qr = Rot.identity();
-      qr.s = rot.s * m.c + rot.c * m.s;
-      qr.c = rot.c * m.c - rot.s * m.s;
-      return qr;
-
-    } else if ('x' in m && 'y' in m) {
-      _ASSERT && Vec2.assert(m);
-      return Vec2.create(rot.c * m.x - rot.s * m.y, rot.s * m.x + rot.c * m.y);
-    }
-  }
+/** Get the x-axis. */
+export function getXAxis(rot: RotValue): Vec2Value {
+  return Vec2.create(rot.c, rot.s);
+}
 
-  /** Multiply two rotations: q * r */
-  static mulRot(rot: RotValue, m: RotValue): Rot {
-    _ASSERT && Rot.assert(rot);
-    _ASSERT && Rot.assert(m);
-    // [qc -qs] * [rc -rs] = [qc*rc-qs*rs -qc*rs-qs*rc]
-    // [qs qc] [rs rc] [qs*rc+qc*rs -qs*rs+qc*rc]
-    // s = qs * rc + qc * rs
-    // c = qc * rc - qs * rs
-    const qr = Rot.identity();
-    qr.s = rot.s * m.c + rot.c * m.s;
-    qr.c = rot.c * m.c - rot.s * m.s;
-    return qr;
-  }
+/** Get the y-axis. */
+export function getYAxis(rot: RotValue): Vec2Value {
+  return Vec2.create(-rot.s, rot.c);
+}
 
-  /** Rotate a vector */
-  static mulVec2(rot: RotValue, m: Vec2Value): Vec2Value {
-    _ASSERT && Rot.assert(rot);
-    _ASSERT && Vec2.assert(m);
-    return Vec2.create(rot.c * m[0] - rot.s * m[1], rot.s * m[0] + rot.c * m[1]);
-  }
+/** Multiply two rotations: q * r */
+export function mulRot(rot: RotValue, m: RotValue, out: RotValue = identity()): RotValue {
+  _ASSERT && assert(rot);
+  _ASSERT && assert(m);
+  // [qc -qs] * [rc -rs] = [qc*rc-qs*rs -qc*rs-qs*rc]
+  // [qs qc] [rs rc] [qs*rc+qc*rs -qs*rs+qc*rc]
+  // s = qs * rc + qc * rs
+  // c = qc * rc - qs * rs
+  const s = rot.s * m.c + rot.c * m.s;
+  const c = rot.c * m.c - rot.s * m.s;
+  out.s = s;
+  out.c = c;
+  return out;
+}
 
-  static mulSub(rot: RotValue, v: Vec2Value, w: Vec2Value): Vec2Value {
-    const x = rot.c * (v[0] - w[0]) - rot.s * (v[1] - w[1]);
-    const y = rot.s * (v[0] - w[0]) + rot.c * (v[1] - w[1]);
-    return Vec2.create(x, y);
-  }
+/** Rotate a vector */
+export function mulVec2(rot: RotValue, m: Vec2Value, out: Vec2Value = Vec2.create()): Vec2Value {
+  _ASSERT && assert(rot);
+  _ASSERT && Vec2.assert(m);
+  return Vec2.set(rot.c * m[0] - rot.s * m[1], rot.s * m[0] + rot.c * m[1], out);
+}
 
-  /** Transpose multiply two rotations: qT * r */
-  static mulT(rot: RotValue, m: RotValue): Rot;
-  /** Inverse rotate a vector */
-  static mulT(rot: RotValue, m: Vec2Value): Vec2Value;
-  static mulT(rot, m) {
-    if ('c' in m && 's' in m) {
-      _ASSERT && Rot.assert(m);
-      // [ qc qs] * [rc -rs] = [qc*rc+qs*rs -qc*rs+qs*rc]
-      // [-qs qc] [rs rc] [-qs*rc+qc*rs qs*rs+qc*rc]
-      // s = qc * rs - qs * rc
-      // c = qc * rc + qs * rs
-      const qr = Rot.identity();
-      qr.s = rot.c * m.s - rot.s * m.c;
-      qr.c = rot.c * m.c + rot.s * m.s;
-      return qr;
-
-    } else if ('x' in m && 'y' in m) {
-      _ASSERT && Vec2.assert(m);
-      return Vec2.create(rot.c * m.x + rot.s * m.y, -rot.s * m.x + rot.c * m.y);
-    }
-  }
+/** Rotate the difference of two vectors: q * (v - w) */
+export function mulSub(rot: RotValue, v: Vec2Value, w: Vec2Value, out: Vec2Value = Vec2.create()): Vec2Value {
+  const x = rot.c * (v[0] - w[0]) - rot.s * (v[1] - w[1]);
+  const y = rot.s * (v[0] - w[0]) + rot.c * (v[1] - w[1]);
+  return Vec2.set(x, y, out);
+}
 
-  /** Transpose multiply two rotations: qT * r */
-  static mulTRot(rot: RotValue, m: RotValue): Rot {
-    _ASSERT && Rot.assert(m);
-    // [ qc qs] * [rc -rs] = [qc*rc+qs*rs -qc*rs+qs*rc]
-    // [-qs qc] [rs rc] [-qs*rc+qc*rs qs*rs+qc*rc]
-    // s = qc * rs - qs * rc
-    // c = qc * rc + qs * rs
-    const qr = Rot.identity();
-    qr.s = rot.c * m.s - rot.s * m.c;
-    qr.c = rot.c * m.c + rot.s * m.s;
-    return qr;
-  }
+/** Transpose multiply two rotations: qT * r */
+export function mulTRot(rot: RotValue, m: RotValue, out: RotValue = identity()): RotValue {
+  _ASSERT && assert(m);
+  // [ qc qs] * [rc -rs] = [qc*rc+qs*rs -qc*rs+qs*rc]
+  // [-qs qc] [rs rc] [-qs*rc+qc*rs qs*rs+qc*rc]
+  // s = qc * rs - qs * rc
+  // c = qc * rc + qs * rs
+  const s = rot.c * m.s - rot.s * m.c;
+  const c = rot.c * m.c + rot.s * m.s;
+  out.s = s;
+  out.c = c;
+  return out;
+}
 
-  /** Inverse rotate a vector */
-  static mulTVec2(rot: RotValue, m: Vec2Value): Vec2Value {
-    _ASSERT && Vec2.assert(m);
-    return Vec2.create(rot.c * m[0] + rot.s * m[1], -rot.s * m[0] + rot.c * m[1]);
-  }
+/** Inverse rotate a vector */
+export function mulTVec2(rot: RotValue, m: Vec2Value, out: Vec2Value = Vec2.create()): Vec2Value {
+  _ASSERT && Vec2.assert(m);
+  return Vec2.set(rot.c * m[0] + rot.s * m[1], -rot.s * m[0] + rot.c * m[1], out);
 }
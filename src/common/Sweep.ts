@@ -42,95 +42,116 @@ import { TransformValue } from './Transform';
  * center of mass. However, to support dynamics we must interpolate the center
  * of mass position.
  */
-export class Sweep {
+export type SweepValue = {
   /** Local center of mass position */
-  localCenter = Vec2.zero();
+  localCenter: Vec2Value;
 
   /** World center position */
-  c = Vec2.zero();
+  c: Vec2Value;
 
   /** World angle */
-  a = 0;
+  a: number;
 
   /** Fraction of the current time step in the range [0,1], c0 and a0 are c and a at alpha0. */
-  alpha0 = 0;
-
-  c0 = Vec2.zero();
-  a0 = 0;
-
-  /** @internal */
-  recycle() {
-    matrix.zeroVec2(this.localCenter)
-    matrix.zeroVec2(this.c)
-    this.a = 0;
-    this.alpha0 = 0;
-    matrix.zeroVec2(this.c0)
-    this.a0 = 0;
-  }
-
-  setTransform(xf: TransformValue): void {
-    matrix.transformVec2(temp, xf, this.localCenter);
-    matrix.copyVec2(this.c, temp);
-    matrix.copyVec2(this.c0, temp);
-
-    this.a = this.a0 = math_atan2(xf.q.s, xf.q.c);
-  }
-
-  setLocalCenter(localCenter: Vec2Value, xf: TransformValue): void {
-    matrix.copyVec2(this.localCenter, localCenter);
-
-    matrix.transformVec2(temp, xf, this.localCenter);
-    matrix.copyVec2(this.c, temp);
-    matrix.copyVec2(this.c0, temp);
-  }
-
-  /**
-   * Get the interpolated transform at a specific time.
-   *
-   * @param xf
-   * @param beta A factor in [0,1], where 0 indicates alpha0
-   */
-  getTransform(xf: TransformValue, beta: number = 0): void {
-    matrix.setRotAngle(xf.q, (1.0 - beta) * this.a0 + beta * this.a);
-    matrix.combine2Vec2(xf.p, (1.0 - beta), this.c0, beta, this.c);
-
-    // shift to origin
-    matrix.minusVec2(xf.p, matrix.rotVec2(temp, xf.q, this.localCenter));
-  }
-
-  /**
-   * Advance the sweep forward, yielding a new initial state.
-   *
-   * @param alpha The new initial time
-   */
-  advance(alpha: number): void {
-    _ASSERT && console.assert(this.alpha0 < 1.0);
-    const beta = (alpha - this.alpha0) / (1.0 - this.alpha0);
-    matrix.combine2Vec2(this.c0, beta, this.c, 1 - beta, this.c0);
-    this.a0 = beta * this.a + (1 - beta) * this.a0;
-    this.alpha0 = alpha;
-  }
-
-  forward(): void {
-    this.a0 = this.a;
-    matrix.copyVec2(this.c0, this.c);
-  }
-
-  /**
-   * normalize the angles in radians to be between -pi and pi.
-   */
-  normalize(): void {
-    const a0 = mod(this.a0, -math_PI, +math_PI);
-    this.a -= this.a0 - a0;
-    this.a0 = a0;
-  }
-
-  set(that: Sweep): void {
-    matrix.copyVec2(this.localCenter, that.localCenter);
-    matrix.copyVec2(this.c, that.c);
-    this.a = that.a;
-    this.alpha0 = that.alpha0;
-    matrix.copyVec2(this.c0, that.c0);
-    this.a0 = that.a0;
-  }
+  alpha0: number;
+
+  c0: Vec2Value;
+  a0: number;
+};
+
+export function create(): SweepValue {
+  return {
+    localCenter: Vec2.zero(),
+    c: Vec2.zero(),
+    a: 0,
+    alpha0: 0,
+    c0: Vec2.zero(),
+    a0: 0,
+  };
+}
+
+export function clone(sweep: SweepValue): SweepValue {
+  return copy(sweep, create());
+}
+
+export function copy(sweep: SweepValue, out: SweepValue): SweepValue {
+  matrix.copyVec2(out.localCenter, sweep.localCenter);
+  matrix.copyVec2(out.c, sweep.c);
+  out.a = sweep.a;
+  out.alpha0 = sweep.alpha0;
+  matrix.copyVec2(out.c0, sweep.c0);
+  out.a0 = sweep.a0;
+  return out;
+}
+
+export function setZero(out: SweepValue): SweepValue {
+  matrix.zeroVec2(out.localCenter);
+  matrix.zeroVec2(out.c);
+  out.a = 0;
+  out.alpha0 = 0;
+  matrix.zeroVec2(out.c0);
+  out.a0 = 0;
+  return out;
+}
+
+export function setTransform(xf: TransformValue, out: SweepValue): SweepValue {
+  matrix.transformVec2(temp, xf, out.localCenter);
+  matrix.copyVec2(out.c, temp);
+  matrix.copyVec2(out.c0, temp);
+
+  out.a = out.a0 = math_atan2(xf.q.s, xf.q.c);
+  return out;
+}
+
+export function setLocalCenter(localCenter: Vec2Value, xf: TransformValue, out: SweepValue): SweepValue {
+  matrix.copyVec2(out.localCenter, localCenter);
+
+  matrix.transformVec2(temp, xf, out.localCenter);
+  matrix.copyVec2(out.c, temp);
+  matrix.copyVec2(out.c0, temp);
+  return out;
+}
+
+/**
+ * Get the interpolated transform at a specific time.
+ *
+ * @param beta A factor in [0,1], where 0 indicates alpha0
+ */
+export function getTransform(sweep: SweepValue, beta: number, out: TransformValue): TransformValue {
+  matrix.setRotAngle(out.q, (1.0 - beta) * sweep.a0 + beta * sweep.a);
+  matrix.combine2Vec2(out.p, (1.0 - beta), sweep.c0, beta, sweep.c);
+
+  // shift to origin
+  matrix.minusVec2(out.p, matrix.rotVec2(temp, out.q, sweep.localCenter));
+  return out;
+}
+
+/**
+ * Advance the sweep forward, yielding a new initial state.
+ *
+ * @param alpha The new initial time
+ */
+export function advance(alpha: number, out: SweepValue): SweepValue {
+  _ASSERT && console.assert(out.alpha0 < 1.0);
+  const beta = (alpha - out.alpha0) / (1.0 - out.alpha0);
+  matrix.combine2Vec2(out.c0, beta, out.c, 1 - beta, out.c0);
+  out.a0 = beta * out.a + (1 - beta) * out.a0;
+  out.alpha0 = alpha;
+  return out;
+}
+
+export function forward(out: SweepValue): SweepValue {
+  out.a0 = out.a;
+  matrix.copyVec2(out.c0, out.c);
+  return out;
+}
+
+/**
+ * normalize the angles in radians to be between -pi and pi.
+ */
+export function normalize(out: SweepValue): SweepValue {
+  const a0 = mod(out.a0, -math_PI, +math_PI);
+  out.a -= out.a0 - a0;
+  out.a0 = a0;
+  return out;
 }
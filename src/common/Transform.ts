@@ -24,202 +24,146 @@
 
 import { Vec2Value } from './Vec2';
 import * as Vec2 from './Vec2';
-import { Rot, RotValue } from './Rot';
+import { RotValue } from './Rot';
+import * as Rot from './Rot';
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
 
 
-export type TransformValue = {
-  p: Vec2Value;
-  q: RotValue;
-};
-
 /**
  * A transform contains translation and rotation. It is used to represent the
- * position and orientation of rigid frames. Initialize using a position vector
- * and a rotation.
+ * position and orientation of rigid frames. Transforms are plain data and not
+ * gl-matrix `mat3` arrays, use {@link toMat3} to get a 3-by-3 matrix.
  */
-export class Transform {
+export type TransformValue = {
   /** position */
   p: Vec2Value;
-
   /** rotation */
-  q: Rot;
-
-  constructor(position?: Vec2Value, rotation?: number) {
-    this.p = Vec2.zero();
-    this.q = Rot.identity();
-    if (typeof position !== 'undefined') {
-      Vec2.copy(position, this.p);
-    }
-    if (typeof rotation !== 'undefined') {
-      this.q.setAngle(rotation);
-    }
-  }
-
-  static clone(xf: Transform): Transform {
-    const obj = Object.create(Transform.prototype);
-    obj.p = Vec2.clone(xf.p);
-    obj.q = Rot.clone(xf.q);
-    return obj;
-  }
+  q: RotValue;
+};
 
-  /** @hidden */
-  static neo(position: Vec2Value, rotation: Rot): Transform {
-    const obj = Object.create(Transform.prototype);
-    obj.p = Vec2.clone(position);
-    obj.q = Rot.clone(rotation);
-    return obj;
+/**
+ * create a new transform from a position vector and an angle in radians
+ */
+export function create(position?: Vec2Value, angle?: number): TransformValue {
+  const xf = identity();
+  if (typeof position !== 'undefined') {
+    Vec2.copy(position, xf.p);
   }
-
-  static identity(): Transform {
-    const obj = Object.create(Transform.prototype);
-    obj.p = Vec2.zero();
-    obj.q = Rot.identity();
-    return obj;
+  if (typeof angle !== 'undefined') {
+    Rot.setAngle(angle, xf.q);
   }
+  return xf;
+}
 
-  /** Set this to the identity transform */
-  setIdentity(): void {
-    Vec2.setZero(this.p);
-    this.q.setIdentity();
-  }
+export function identity(): TransformValue {
+  return { p: Vec2.zero(), q: Rot.identity() };
+}
 
-  /** Set position and angle */
-  set(position: Vec2Value, rotation: number): void;
-  /** Copy from another transform */
-  set(xf: TransformValue): void;
-  set(a: any, b?: any) {
-    if (typeof b === 'undefined') {
-      Vec2.copy(a.p, this.p);
-      this.q.set(a.q);
-    } else {
-      Vec2.copy(a, this.p);
-      this.q.set(b);
-    }
-  }
+export function clone(xf: TransformValue): TransformValue {
+  return { p: Vec2.clone(xf.p), q: Rot.clone(xf.q) };
+}
 
-  /** Set position and angle */
-  setNum(position: Vec2Value, rotation: number) {
-    Vec2.copy(position, this.p);
-    this.q.setAngle(rotation);
-  }
+/** Copy from another transform */
+export function copy(xf: TransformValue, out: TransformValue): TransformValue {
+  Vec2.copy(xf.p, out.p);
+  Rot.copy(xf.q, out.q);
+  return out;
+}
 
-  setTransform(xf: TransformValue): void {
-    Vec2.copy(xf.p, this.p);
-    this.q.setRot(xf.q);
-  }
+/** Set position and angle */
+export function set(position: Vec2Value, angle: number, out: TransformValue): TransformValue {
+  Vec2.copy(position, out.p);
+  Rot.setAngle(angle, out.q);
+  return out;
+}
 
-  static isValid(obj: any): boolean {
-    if (obj === null || typeof obj === 'undefined') {
-      return false;
-    }
-    return Vec2.isValid(obj.p) && Rot.isValid(obj.q);
-  }
+/** Set to the identity transform */
+export function setIdentity(out: TransformValue): TransformValue {
+  Vec2.setZero(out.p);
+  Rot.setIdentity(out.q);
+  return out;
+}
 
-  static assert(o: any): void {
-    _ASSERT && console.assert(!Transform.isValid(o), 'Invalid Transform!', o);
+export function isValid(obj: any): boolean {
+  if (obj === null || typeof obj === 'undefined') {
+    return false;
   }
+  return Vec2.isValid(obj.p) && Rot.isValid(obj.q);
+}
 
-  static mul(a: TransformValue, b: Vec2Value): Vec2Value;
-  //static mul(a: TransformValue, b: TransformValue): Transform;
-  // static mul(a: Transform, b: Vec2Value[]): Vec2Value[];
-  // static mul(a: Transform, b: Transform[]): Transform[];
-  static mul(a, b) {
-    /*
-    if (Array.isArray(b)) {
-        // todo: this was used in examples, remove in the future
-      _ASSERT && Transform.assert(a);
-      const arr = [];
-      for (let i = 0; i < b.length; i++) {
-        arr[i] = Transform.mul(a, b[i]);
-      }
-      return arr;
-
-    } 
-    else if ('x' in b && 'y' in b) {
-      */
-      return Transform.mulVec2(a, b);
-      /*
-    }
-    else if ('p' in b && 'q' in b) {
-      return Transform.mulXf(a, b);
-    }
-    */
-  }
+export function assert(o: any): void {
+  _ASSERT && console.assert(!isValid(o), 'Invalid Transform!', o);
+}
 
-  // MR: seems to be totally unused
-  /*
-  static mulAll(a: Transform, b: Vec2Value[]): Vec2Value[];
-  static mulAll(a: Transform, b: Transform[]): Transform[];
-  static mulAll(a: TransformValue, b) {
-    _ASSERT && Transform.assert(a);
-    const arr = [];
-    for (let i = 0; i < b.length; i++) {
-      arr[i] = Transform.mul(a, b[i]);
-    }
-    return arr;
-  }
-  */
-
-  /** @hidden @deprecated */
-  static mulFn(a: TransformValue) {
-    // todo: this was used in examples, remove in the future
-    _ASSERT && Transform.assert(a);
-    return function(b: Vec2Value): Vec2Value {
-      return Transform.mul(a, b);
-    };
-  }
+/**
+ * Write the transform as a column-major 3-by-3 matrix, the layout of `mat3` in
+ * gl-matrix.
+ */
+export function toMat3(xf: TransformValue, out: number[] | Float32Array | Float64Array = new Float32Array(9)): number[] | Float32Array | Float64Array {
+  out[0] = xf.q.c;
+  out[1] = xf.q.s;
+  out[2] = 0;
+  out[3] = -xf.q.s;
+  out[4] = xf.q.c;
+  out[5] = 0;
+  out[6] = xf.p[0];
+  out[7] = xf.p[1];
+  out[8] = 1;
+  return out;
+}
 
-  static mulVec2(a: TransformValue, b: Vec2Value): Vec2Value {
-    _ASSERT && Transform.assert(a);
-    _ASSERT && Vec2.assert(b);
-    const x = (a.q.c * b[0] - a.q.s * b[1]) + a.p[0];
-    const y = (a.q.s * b[0] + a.q.c * b[1]) + a.p[1];
-    return Vec2.create(x, y);
-  }
+/** Transform a vector, same as {@link mulVec2} */
+export function mul(a: TransformValue, b: Vec2Value): Vec2Value {
+  return mulVec2(a, b);
+}
 
-  static mulXf(a: TransformValue, b: TransformValue): Transform {
-    _ASSERT && Transform.assert(a);
-    _ASSERT && Transform.assert(b);
-    // v2 = A.q.Rot(B.q.Rot(v1) + B.p) + A.p
-    // = (A.q * B.q).Rot(v1) + A.q.Rot(B.p) + A.p
-    const xf = Transform.identity();
-    xf.q = Rot.mulRot(a.q, b.q);
-    xf.p = Vec2.add(Rot.mulVec2(a.q, b.p), a.p);
-    return xf;
-  }
+export function mulVec2(a: TransformValue, b: Vec2Value, out: Vec2Value = Vec2.create()): Vec2Value {
+  _ASSERT && assert(a);
+  _ASSERT && Vec2.assert(b);
+  const x = (a.q.c * b[0] - a.q.s * b[1]) + a.p[0];
+  const y = (a.q.s * b[0] + a.q.c * b[1]) + a.p[1];
+  return Vec2.set(x, y, out);
+}
 
-  static mulT(a: TransformValue, b: Vec2Value): Vec2Value;
-  static mulT(a: TransformValue, b: TransformValue): Transform;
-  static mulT(a, b) {
-    if ('x' in b && 'y' in b) {
-      return Transform.mulTVec2(a, b);
+export function mulXf(a: TransformValue, b: TransformValue, out: TransformValue = identity()): TransformValue {
+  _ASSERT && assert(a);
+  _ASSERT && assert(b);
+  // v2 = A.q.Rot(B.q.Rot(v1) + B.p) + A.p
+  // = (A.q * B.q).Rot(v1) + A.q.Rot(B.p) + A.p
+  const x = (a.q.c * b.p[0] - a.q.s * b.p[1]) + a.p[0];
+  const y = (a.q.s * b.p[0] + a.q.c * b.p[1]) + a.p[1];
+  Rot.mulRot(a.q, b.q, out.q);
+  Vec2.set(x, y, out.p);
+  return out;
+}
 
-    } else if ('p' in b && 'q' in b) {
-      return Transform.mulTXf(a, b);
-    }
-  }
+/** Inverse transform a vector, same as {@link mulTVec2} */
+export function mulT(a: TransformValue, b: Vec2Value): Vec2Value {
+  return mulTVec2(a, b);
+}
 
-  static mulTVec2(a: TransformValue, b: Vec2Value): Vec2Value {
-    _ASSERT && Transform.assert(a);
-    _ASSERT && Vec2.assert(b);
-    const px = b[0] - a.p[0];
-    const py = b[1] - a.p[1];
-    const x = (a.q.c * px + a.q.s * py);
-    const y = (-a.q.s * px + a.q.c * py);
-    return Vec2.create(x, y);
-  }
+export function mulTVec2(a: TransformValue, b: Vec2Value, out: Vec2Value = Vec2.create()): Vec2Value {
+  _ASSERT && assert(a);
+  _ASSERT && Vec2.assert(b);
+  const px = b[0] - a.p[0];
+  const py = b[1] - a.p[1];
+  const x = (a.q.c * px + a.q.s * py);
+  const y = (-a.q.s * px + a.q.c * py);
+  return Vec2.set(x, y, out);
+}
 
-  static mulTXf(a: TransformValue, b: TransformValue): Transform {
-    _ASSERT && Transform.assert(a);
-    _ASSERT && Transform.assert(b);
-    // v2 = A.q' * (B.q * v1 + B.p - A.p)
-    // = A.q' * B.q * v1 + A.q' * (B.p - A.p)
-    const xf = Transform.identity();
-    xf.q.setRot(Rot.mulTRot(a.q, b.q));
-    Vec2.copy(Rot.mulTVec2(a.q, Vec2.sub(b.p, a.p)), xf.p);
-    return xf;
-  }
+export function mulTXf(a: TransformValue, b: TransformValue, out: TransformValue = identity()): TransformValue {
+  _ASSERT && assert(a);
+  _ASSERT && assert(b);
+  // v2 = A.q' * (B.q * v1 + B.p - A.p)
+  // = A.q' * B.q * v1 + A.q' * (B.p - A.p)
+  const px = b.p[0] - a.p[0];
+  const py = b.p[1] - a.p[1];
+  const x = (a.q.c * px + a.q.s * py);
+  const y = (-a.q.s * px + a.q.c * py);
+  Rot.mulTRot(a.q, b.q, out.q);
+  Vec2.set(x, y, out.p);
+  return out;
 }
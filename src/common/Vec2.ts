@@ -35,24 +35,6 @@ import { EPSILON } from "./Math";
 
 export type Vec2Value = [ number, number ];
 
-/*
-  _serialize(): object {
-    return {
-      x: this[0],
-      y: this[1]
-    };
-  }
-
-  toString(): string {
-    return JSON.stringify(this);
-  }
-
-  _deserialize(data: any): Vec2Value {
-    return { x: data[0], y: data[1] };
-  }
-*/
-
-
 /**
  * create a new Vec2
  */
@@ -83,6 +65,18 @@ export function clone (v: Vec2Value): Vec2Value {
   return create(v[0], v[1]);
 }
 
+/**
+ * @internal
+ * Used by the serializer. Accepts `[x, y]` tuples as well as `{ x, y }`
+ * objects written by upstream planck.js.
+ */
+export function _deserialize (data: any): Vec2Value {
+  if (Array.isArray(data) || ArrayBuffer.isView(data)) {
+    return create(data[0], data[1]);
+  }
+  return create(data.x, data.y);
+}
+
 /**
  * Does this vector contain finite coordinates?
  */
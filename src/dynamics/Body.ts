@@ -26,17 +26,21 @@ import * as matrix from '../common/Matrix';
 import { options } from '../util/options';
 import { Vec2Value } from '../common/Vec2';
 import * as Vec2 from '../common/Vec2';
-import { Rot } from '../common/Rot';
-import { Sweep } from '../common/Sweep';
-import { Transform } from '../common/Transform';
+import * as Rot from '../common/Rot';
+import { SweepValue } from '../common/Sweep';
+import * as Sweep from '../common/Sweep';
+import { TransformValue } from '../common/Transform';
+import * as Transform from '../common/Transform';
 import { Velocity } from './Velocity';
 import { Position } from './Position';
-import { Fixture, FixtureDef, FixtureOpt } from './Fixture';
+import type { BodyStorage } from './BodyStorage';
+import { Fixture, FixtureDef, FixtureOpt, FixtureState } from './Fixture';
 import { Shape } from '../collision/Shape';
 import { JointEdge } from "./Joint";
-import { World } from "./World";
+import { World, QueryFilter, RayCastHit } from "./World";
 import { ContactEdge } from "./Contact";
 import { Style } from '../util/Testbed';
+import { RayCastInput, RayCastOutput } from '../collision/AABB';
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
@@ -54,7 +58,7 @@ export type BodyType = 'static' | 'kinematic' | 'dynamic';
 /** @internal */ const temp = matrix.vec2(0, 0);
 /** @internal */ const xf = matrix.transform(0, 0, 0)
 
-export interface BodyDef {
+export interface BodyDef<BodyData = any> {
   /**
    * Body types are static, kinematic, or dynamic. Note: if a dynamic
    * body would have zero mass, the mass is set to one.
@@ -113,7 +117,7 @@ export interface BodyDef {
    * Does this body start out active?
    */
   active?: boolean;
-  userData?: any;
+  userData?: BodyData;
 }
 
 /** @internal */ const BodyDefDefault: BodyDef = {
@@ -150,12 +154,37 @@ export interface MassData {
   I: number;
 }
 
+/**
+ * Simulation state of a body, see {@link World.saveState}.
+ */
+export interface BodyState {
+  /** Position of the body origin */
+  p: Vec2Value;
+  /** Rotation of the body, cosine and sine of the angle */
+  q: [number, number];
+  localCenter: Vec2Value;
+  c0: Vec2Value;
+  a0: number;
+  c: Vec2Value;
+  a: number;
+  alpha0: number;
+  linearVelocity: Vec2Value;
+  angularVelocity: number;
+  force: Vec2Value;
+  torque: number;
+  sleepTime: number;
+  awake: boolean;
+  island: boolean;
+  toi: boolean;
+  fixtures: FixtureState[];
+}
+
 /**
  * A rigid body composed of one or more fixtures.
  *
  * To create a new Body use {@link World.createBody}.
  */
-export class Body {
+export class Body<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
   /**
    * A static body does not move under simulation and behaves as if it has infinite mass.
    * Internally, zero is stored for the mass and the inverse mass.
@@ -182,7 +211,7 @@ export class Body {
    */
   static readonly DYNAMIC: BodyType = 'dynamic';
 
-  /** @internal */ m_world: World;
+  /** @internal */ m_world: World<BodyData, FixtureData, JointData>;
   /** @internal */ m_awakeFlag: boolean;
   /** @internal */ m_autoSleepFlag: boolean;
   /** @internal */ m_bulletFlag: boolean;
@@ -190,7 +219,7 @@ export class Body {
   /** @internal */ m_activeFlag: boolean;
   /** @internal */ m_islandFlag: boolean;
   /** @internal */ m_toiFlag: boolean;
-  /** @internal */ m_userData: unknown;
+  /** @internal */ m_userData: BodyData;
   /** @internal */ m_type: BodyType;
   /** @internal */ m_mass: number;
   /** @internal */ m_invMass: number;
@@ -198,26 +227,37 @@ export class Body {
   m_I: number;
   /** @internal */ m_invI: number;
   /** @internal the body origin transform */
-  m_xf: Transform;
+  m_xf: TransformValue;
   /** @internal the swept motion for CCD */
-  m_sweep: Sweep;
+  m_sweep: SweepValue;
+  /** @internal Center of mass before the last step, for interpolation. */
+  m_prevCenter: Vec2Value;
+  /** @internal Angle before the last step, for interpolation. */
+  m_prevAngle: number;
   // position and velocity correction
   /** @internal */ c_velocity: Velocity;
   /** @internal */ c_position: Position;
-  /** @internal */ m_force: Vec2Value;
-  /** @internal */ m_torque: number;
+  /** @internal View of the force entries in the storage. */
+  m_force: Vec2Value;
+  /** @internal Storage of solver state, see World.getBodyStorage. */
+  m_storage: BodyStorage;
+  /** @internal */ m_storageId: number;
   /** @internal */ m_linearVelocity: Vec2Value;
   /** @internal */ m_angularVelocity: number;
   /** @internal */ m_linearDamping: number;
   /** @internal */ m_angularDamping: number;
   /** @internal */ m_gravityScale: number;
   /** @internal */ m_sleepTime: number;
-  /** @internal */ m_jointList: JointEdge | null;
-  /** @internal */ m_contactList: ContactEdge | null;
-  /** @internal */ m_fixtureList: Fixture | null;
-  /** @internal */ m_prev: Body | null;
-  /** @internal */ m_next: Body | null;
+  /** @internal */ m_jointList: JointEdge<BodyData, FixtureData, JointData> | null;
+  /** @internal */ m_contactList: ContactEdge<BodyData, FixtureData, JointData> | null;
+  /** @internal */ m_fixtureList: Fixture<BodyData, FixtureData, JointData> | null;
+  /** @internal */ m_prev: Body<BodyData, FixtureData, JointData> | null;
+  /** @internal */ m_next: Body<BodyData, FixtureData, JointData> | null;
   /** @internal */ m_destroyed: boolean;
+  /** @internal Index in the move events of the current step, or -1. */
+  m_moveEventIndex: number;
+  /** @internal Index in the awake bodies of the world, or -1. */
+  m_awakeIndex: number;
 
   /** Styling for dev-tools. */
   style: Style = {};
@@ -226,7 +266,7 @@ export class Body {
   appData: Record<string, any> = {};
 
   /** @internal */
-  constructor(world: World, def: BodyDef) {
+  constructor(world: World<BodyData, FixtureData, JointData>, def: BodyDef<BodyData>) {
     def = options(def, BodyDefDefault);
 
     _ASSERT && console.assert(Vec2.isValid(def.position));
@@ -238,6 +278,11 @@ export class Body {
 
     this.m_world = world;
 
+    // position and velocity correction, force and inverse mass
+    this.c_velocity = new Velocity();
+    this.c_position = new Position();
+    world.m_bodyStorage.allocate(this);
+
     this.m_awakeFlag = def.awake;
     this.m_autoSleepFlag = def.allowSleep;
     this.m_bulletFlag = def.bullet;
@@ -265,21 +310,19 @@ export class Body {
     // the body origin transform
     this.m_xf = Transform.identity();
     Vec2.copy(def.position, this.m_xf.p);
-    this.m_xf.q.setAngle(def.angle);
+    Rot.setAngle(def.angle, this.m_xf.q);
 
     // the swept motion for CCD
-    this.m_sweep = new Sweep();
-    this.m_sweep.setTransform(this.m_xf);
-
-    // position and velocity correction
-    this.c_velocity = new Velocity();
-    this.c_position = new Position();
+    this.m_sweep = Sweep.create();
+    Sweep.setTransform(this.m_xf, this.m_sweep);
 
-    this.m_force = Vec2.zero();
-    this.m_torque = 0.0;
+    this.m_prevCenter = matrix.vec2(0, 0);
+    this.m_prevAngle = 0;
+    this.storePreviousTransform();
 
     this.m_linearVelocity = Vec2.clone(def.linearVelocity);
     this.m_angularVelocity = def.angularVelocity;
+    this.synchronizeStorage();
 
     this.m_linearDamping = def.linearDamping;
     this.m_angularDamping = def.angularDamping;
@@ -295,6 +338,8 @@ export class Body {
     this.m_next = null;
 
     this.m_destroyed = false;
+    this.m_moveEventIndex = -1;
+    this.m_awakeIndex = -1;
   }
 
   /** @internal */
@@ -307,7 +352,7 @@ export class Body {
       type: this.m_type,
       bullet: this.m_bulletFlag,
       position: this.m_xf.p,
-      angle: this.m_xf.q.getAngle(),
+      angle: Rot.getAngle(this.m_xf.q),
       linearVelocity: this.m_linearVelocity,
       angularVelocity: this.m_angularVelocity,
       fixtures,
@@ -327,31 +372,103 @@ export class Body {
     return body;
   }
 
+  /** @internal */
+  _saveState(): BodyState {
+    const fixtures: FixtureState[] = [];
+    for (let f = this.m_fixtureList; f; f = f.m_next) {
+      fixtures.push(f._saveState());
+    }
+    return {
+      p: Vec2.clone(this.m_xf.p),
+      q: [this.m_xf.q.c, this.m_xf.q.s],
+      localCenter: Vec2.clone(this.m_sweep.localCenter),
+      c0: Vec2.clone(this.m_sweep.c0),
+      a0: this.m_sweep.a0,
+      c: Vec2.clone(this.m_sweep.c),
+      a: this.m_sweep.a,
+      alpha0: this.m_sweep.alpha0,
+      linearVelocity: Vec2.clone(this.m_linearVelocity),
+      angularVelocity: this.m_angularVelocity,
+      force: Vec2.clone(this.m_force),
+      torque: this.m_torque,
+      sleepTime: this.m_sleepTime,
+      awake: this.m_awakeFlag,
+      island: this.m_islandFlag,
+      toi: this.m_toiFlag,
+      fixtures,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: BodyState): void {
+    Vec2.copy(state.p, this.m_xf.p);
+    this.m_xf.q.c = state.q[0];
+    this.m_xf.q.s = state.q[1];
+    Vec2.copy(state.localCenter, this.m_sweep.localCenter);
+    Vec2.copy(state.c0, this.m_sweep.c0);
+    this.m_sweep.a0 = state.a0;
+    Vec2.copy(state.c, this.m_sweep.c);
+    this.m_sweep.a = state.a;
+    this.m_sweep.alpha0 = state.alpha0;
+    Vec2.copy(state.linearVelocity, this.m_linearVelocity);
+    this.m_angularVelocity = state.angularVelocity;
+    this.synchronizeStorage();
+    Vec2.copy(state.force, this.m_force);
+    this.m_torque = state.torque;
+    this.m_sleepTime = state.sleepTime;
+    this.m_awakeFlag = state.awake;
+    this.m_islandFlag = state.island;
+    this.m_toiFlag = state.toi;
+
+    let i = 0;
+    for (let f = this.m_fixtureList; f; f = f.m_next) {
+      f._restoreState(state.fixtures[i++]);
+    }
+  }
+
   isWorldLocked(): boolean {
     return this.m_world && this.m_world.isLocked() ? true : false;
   }
 
-  getWorld(): World {
+  getWorld(): World<BodyData, FixtureData, JointData> {
     return this.m_world;
   }
 
-  getNext(): Body | null {
+  getNext(): Body<BodyData, FixtureData, JointData> | null {
     return this.m_next;
   }
 
-  setUserData(data: any): void {
+  /**
+   * Get the index of this body in the solver state arrays of the world, see
+   * {@link World.getBodyStorage}. Ids of destroyed bodies are reused.
+   */
+  getStorageId(): number {
+    return this.m_storageId;
+  }
+
+  /** @internal */
+  get m_torque(): number {
+    return this.m_storage.force[3 * this.m_storageId + 2];
+  }
+
+  /** @internal */
+  set m_torque(torque: number) {
+    this.m_storage.force[3 * this.m_storageId + 2] = torque;
+  }
+
+  setUserData(data: BodyData): void {
     this.m_userData = data;
   }
 
-  getUserData(): unknown {
+  getUserData(): BodyData {
     return this.m_userData;
   }
 
-  getFixtureList(): Fixture | null {
+  getFixtureList(): Fixture<BodyData, FixtureData, JointData> | null {
     return this.m_fixtureList;
   }
 
-  getJointList(): JointEdge | null {
+  getJointList(): JointEdge<BodyData, FixtureData, JointData> | null {
     return this.m_jointList;
   }
 
@@ -359,7 +476,7 @@ export class Body {
    * Warning: this list changes during the time step and you may miss some
    * collisions if you don't use ContactListener.
    */
-  getContactList(): ContactEdge | null {
+  getContactList(): ContactEdge<BodyData, FixtureData, JointData> | null {
     return this.m_contactList;
   }
 
@@ -423,7 +540,8 @@ export class Body {
     if (this.m_type == STATIC) {
       Vec2.setZero(this.m_linearVelocity);
       this.m_angularVelocity = 0.0;
-      this.m_sweep.forward();
+      Sweep.forward(this.m_sweep);
+      this.synchronizeStorage();
       this.synchronizeFixtures();
     }
 
@@ -490,9 +608,11 @@ export class Body {
       this.m_sleepTime = 0.0;
       Vec2.setZero(this.m_linearVelocity);
       this.m_angularVelocity = 0.0;
+      this.synchronizeStorage();
       Vec2.setZero(this.m_force);
       this.m_torque = 0.0;
     }
+    this.m_world.updateAwakeBody(this);
   }
 
   isActive(): boolean {
@@ -545,6 +665,8 @@ export class Body {
       }
       this.m_contactList = null;
     }
+
+    this.m_world.updateAwakeBody(this);
   }
 
   isFixedRotation(): boolean {
@@ -569,7 +691,7 @@ export class Body {
   /**
    * Get the world transform for the body's origin.
    */
-  getTransform(): Transform {
+  getTransform(): TransformValue {
     return this.m_xf;
   }
 
@@ -587,8 +709,10 @@ export class Body {
       return;
     }
 
-    this.m_xf.setNum(position, angle);
-    this.m_sweep.setTransform(this.m_xf);
+    Transform.set(position, angle, this.m_xf);
+    Sweep.setTransform(this.m_xf, this.m_sweep);
+    this.storePreviousTransform();
+    this.synchronizeStorage();
 
     const broadPhase = this.m_world.m_broadPhase;
     for (let f = this.m_fixtureList; f; f = f.m_next) {
@@ -597,15 +721,62 @@ export class Body {
     this.setAwake(true);
   }
 
+  /**
+   * Get the transform of the body's origin interpolated between the start and
+   * the end of the last step, with `alpha` from 0 to 1. Use this with the value
+   * returned by {@link World.update} to render bodies smoothly. The body is not
+   * changed.
+   *
+   * @param out Optional transform to write to, a new transform is returned otherwise.
+   */
+  getInterpolatedTransform(alpha: number, out?: TransformValue): TransformValue {
+    out = out || matrix.transform(0, 0, 0);
+    matrix.setRotAngle(out.q, (1.0 - alpha) * this.m_prevAngle + alpha * this.m_sweep.a);
+    matrix.combine2Vec2(out.p, (1.0 - alpha), this.m_prevCenter, alpha, this.m_sweep.c);
+
+    // shift to origin
+    matrix.minusVec2(out.p, matrix.rotVec2(temp, out.q, this.m_sweep.localCenter));
+    return out;
+  }
+
+  /** @internal True if the transform changed in the last step. */
+  hasMoved(): boolean {
+    return this.m_prevAngle !== this.m_sweep.a
+      || this.m_prevCenter[0] !== this.m_sweep.c[0]
+      || this.m_prevCenter[1] !== this.m_sweep.c[1];
+  }
+
+  /** @internal Keep the current transform for interpolation. */
+  storePreviousTransform(): void {
+    matrix.copyVec2(this.m_prevCenter, this.m_sweep.c);
+    this.m_prevAngle = this.m_sweep.a;
+  }
+
   synchronizeTransform(): void {
-    this.m_sweep.getTransform(this.m_xf, 1);
+    Sweep.getTransform(this.m_sweep, 1, this.m_xf);
+    this.synchronizeStorage();
+  }
+
+  /**
+   * @internal
+   * Write the position, velocity and inverse mass to the storage, see
+   * World.getBodyStorage. The body is the source of truth, this is called
+   * whenever they change outside of the solver.
+   */
+  synchronizeStorage(): void {
+    matrix.copyVec2(this.c_position.c, this.m_sweep.c);
+    this.c_position.a = this.m_sweep.a;
+    matrix.copyVec2(this.c_velocity.v, this.m_linearVelocity);
+    this.c_velocity.w = this.m_angularVelocity;
+    this.m_storage.invMass[this.m_storageId] = this.m_invMass;
+    this.m_storage.invI[this.m_storageId] = this.m_invI;
   }
 
   /**
    * Update fixtures in broad-phase.
    */
   synchronizeFixtures(): void {
-    this.m_sweep.getTransform(xf, 0);
+    Sweep.getTransform(this.m_sweep, 0, xf);
 
     const broadPhase = this.m_world.m_broadPhase;
     for (let f = this.m_fixtureList; f; f = f.m_next) {
@@ -618,10 +789,10 @@ export class Body {
    */
   advance(alpha: number): void {
     // Advance to the new safe time. This doesn't sync the broad-phase.
-    this.m_sweep.advance(alpha);
+    Sweep.advance(alpha, this.m_sweep);
     matrix.copyVec2(this.m_sweep.c, this.m_sweep.c0);
     this.m_sweep.a = this.m_sweep.a0;
-    this.m_sweep.getTransform(this.m_xf, 1);
+    this.synchronizeTransform();
   }
 
   /**
@@ -702,6 +873,7 @@ export class Body {
       this.setAwake(true);
     }
     Vec2.copy(v, this.m_linearVelocity);
+    this.synchronizeStorage();
   }
 
   /**
@@ -726,6 +898,7 @@ export class Body {
       this.setAwake(true);
     }
     this.m_angularVelocity = w;
+    this.synchronizeStorage();
   }
 
   getLinearDamping(): number {
@@ -801,6 +974,7 @@ export class Body {
       matrix.copyVec2(this.m_sweep.c0, this.m_xf.p);
       matrix.copyVec2(this.m_sweep.c, this.m_xf.p);
       this.m_sweep.a0 = this.m_sweep.a;
+      this.synchronizeStorage();
       return;
     }
 
@@ -848,12 +1022,13 @@ export class Body {
 
     // Move center of mass.
     matrix.copyVec2(oldCenter, this.m_sweep.c);
-    this.m_sweep.setLocalCenter(localCenter, this.m_xf);
+    Sweep.setLocalCenter(localCenter, this.m_xf, this.m_sweep);
 
     // Update center of mass velocity.
     matrix.subVec2(shift, this.m_sweep.c, oldCenter);
     matrix.crossNumVec2(temp, this.m_angularVelocity, shift);
     matrix.plusVec2(this.m_linearVelocity, temp);
+    this.synchronizeStorage();
   }
 
   /**
@@ -893,12 +1068,13 @@ export class Body {
 
     // Move center of mass.
     matrix.copyVec2(oldCenter, this.m_sweep.c);
-    this.m_sweep.setLocalCenter(massData.center, this.m_xf);
+    Sweep.setLocalCenter(massData.center, this.m_xf, this.m_sweep);
 
     // Update center of mass velocity.
     matrix.subVec2(shift, this.m_sweep.c, oldCenter);
     matrix.crossNumVec2(temp, this.m_angularVelocity, shift);
     matrix.plusVec2(this.m_linearVelocity, temp);
+    this.synchronizeStorage();
   }
 
   /**
@@ -984,6 +1160,7 @@ export class Body {
     if (this.m_awakeFlag) {
       Vec2.addMul(this.m_linearVelocity, this.m_invMass, impulse, this.m_linearVelocity);
       this.m_angularVelocity += this.m_invI * Vec2.crossVec2Vec2(Vec2.sub(point, this.m_sweep.c), impulse);
+      this.synchronizeStorage();
     }
   }
 
@@ -1004,6 +1181,7 @@ export class Body {
     // Don't accumulate velocity if the body is sleeping
     if (this.m_awakeFlag) {
       this.m_angularVelocity += this.m_invI * impulse;
+      this.synchronizeStorage();
     }
   }
 
@@ -1031,7 +1209,7 @@ export class Body {
   }
 
   /** @internal Used for deserialize. */
-  _addFixture(fixture: Fixture): Fixture {
+  _addFixture(fixture: Fixture<BodyData, FixtureData, JointData>): Fixture<BodyData, FixtureData, JointData> {
     _ASSERT && console.assert(this.isWorldLocked() == false);
 
     if (this.isWorldLocked() == true) {
@@ -1046,6 +1224,10 @@ export class Body {
     fixture.m_next = this.m_fixtureList;
     this.m_fixtureList = fixture;
 
+    if (fixture.m_isSensor) {
+      this.m_world.addSensorFixture(fixture);
+    }
+
     // Adjust mass properties if needed.
     if (fixture.m_density > 0.0) {
       this.resetMassData();
@@ -1066,17 +1248,16 @@ export class Body {
    *
    * Contacts are not created until the next time step.
    *
-   * Warning: This function is locked during callbacks.
+   * Calls made during world callbacks are deferred until the end of the step,
+   * and return a placeholder which throws an error when used.
    */
-  createFixture(def: FixtureDef): Fixture;
-  createFixture(shape: Shape, opt?: FixtureOpt): Fixture;
-  createFixture(shape: Shape, density?: number): Fixture;
+  createFixture(def: FixtureDef<FixtureData>): Fixture<BodyData, FixtureData, JointData>;
+  createFixture(shape: Shape, opt?: FixtureOpt<FixtureData>): Fixture<BodyData, FixtureData, JointData>;
+  createFixture(shape: Shape, density?: number): Fixture<BodyData, FixtureData, JointData>;
   // tslint:disable-next-line:typedef
   createFixture(shape, fixdef?) {
-    _ASSERT && console.assert(this.isWorldLocked() == false);
-
     if (this.isWorldLocked() == true) {
-      return null;
+      return this.m_world.defer('createFixture', () => this.createFixture(shape, fixdef));
     }
 
     const fixture = new Fixture(this, shape, fixdef);
@@ -1091,14 +1272,13 @@ export class Body {
    * All fixtures attached to a body are implicitly destroyed when the body is
    * destroyed.
    *
-   * Warning: This function is locked during callbacks.
+   * Calls made during world callbacks are deferred until the end of the step.
    *
    * @param fixture The fixture to be removed.
    */
-  destroyFixture(fixture: Fixture): void {
-    _ASSERT && console.assert(this.isWorldLocked() == false);
-
+  destroyFixture(fixture: Fixture<BodyData, FixtureData, JointData>): void {
     if (this.isWorldLocked() == true) {
+      this.m_world.defer('destroyFixture', () => this.destroyFixture(fixture));
       return;
     }
 
@@ -1146,6 +1326,8 @@ export class Body {
       fixture.destroyProxies(broadPhase);
     }
 
+    this.m_world.removeSensorOverlaps(fixture);
+
     fixture.m_body = null;
     fixture.m_next = null;
 
@@ -1182,4 +1364,64 @@ export class Body {
   getLocalVector(worldVector: Vec2Value): Vec2Value {
     return Rot.mulTVec2(this.m_xf.q, worldVector);
   }
+
+  /**
+   * Ray-cast the fixtures of this body and return the closest fixture hit by
+   * the ray, or null if no fixture is hit.
+   *
+   * @param point1 The ray starting point
+   * @param point2 The ray ending point
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   */
+  rayCastClosest(point1: Vec2Value, point2: Vec2Value, filter?: QueryFilter<BodyData, FixtureData, JointData>): RayCastHit<BodyData, FixtureData, JointData> | null {
+    const input: RayCastInput = { p1: point1, p2: point2, maxFraction: 1.0 };
+    const output: RayCastOutput = { normal: Vec2.zero(), fraction: 0 };
+    let closest: RayCastHit<BodyData, FixtureData, JointData> | null = null;
+    for (let f = this.m_fixtureList; f; f = f.m_next) {
+      if (!f.testQueryFilter(filter)) {
+        continue;
+      }
+      const childCount = f.m_shape.getChildCount();
+      for (let i = 0; i < childCount; ++i) {
+        if (f.rayCast(output, input, i)) {
+          const fraction = output.fraction;
+          const point = Vec2.combine(1.0 - fraction, point1, fraction, point2);
+          closest = { fixture: f, point, normal: Vec2.clone(output.normal), fraction };
+          input.maxFraction = fraction;
+        }
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Ray-cast the fixtures of this body and return all fixtures hit by the ray,
+   * sorted by fraction along the ray.
+   *
+   * @param point1 The ray starting point
+   * @param point2 The ray ending point
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   */
+  rayCastAll(point1: Vec2Value, point2: Vec2Value, filter?: QueryFilter<BodyData, FixtureData, JointData>): RayCastHit<BodyData, FixtureData, JointData>[] {
+    const input: RayCastInput = { p1: point1, p2: point2, maxFraction: 1.0 };
+    const output: RayCastOutput = { normal: Vec2.zero(), fraction: 0 };
+    const hits: RayCastHit<BodyData, FixtureData, JointData>[] = [];
+    for (let f = this.m_fixtureList; f; f = f.m_next) {
+      if (!f.testQueryFilter(filter)) {
+        continue;
+      }
+      const childCount = f.m_shape.getChildCount();
+      for (let i = 0; i < childCount; ++i) {
+        if (f.rayCast(output, input, i)) {
+          const fraction = output.fraction;
+          const point = Vec2.combine(1.0 - fraction, point1, fraction, point2);
+          hits.push({ fixture: f, point, normal: Vec2.clone(output.normal), fraction });
+        }
+      }
+    }
+    hits.sort(function(a: RayCastHit<BodyData, FixtureData, JointData>, b: RayCastHit<BodyData, FixtureData, JointData>): number {
+      return a.fraction - b.fraction;
+    });
+    return hits;
+  }
 }
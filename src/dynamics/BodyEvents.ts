@@ -0,0 +1,81 @@
+/*
+ * Planck.js
+ * The MIT License
+ * Copyright (c) 2021 Erin Catto, Ali Shakiba
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+
+import type { Body } from './Body';
+
+
+/**
+ * Bodies moved by the solver during the last time step, see
+ * {@link World.getBodyMoveEvents}. Each body is listed once.
+ *
+ * Event `i` is for `bodies[i]`, and `fellAsleep[i]` is true if the body fell
+ * asleep at the end of the step. Bodies moved with {@link Body.setTransform}
+ * are not included, and bodies destroyed after the step, for example by calls
+ * deferred during the step, are removed.
+ */
+export class BodyMoveEvents<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** Number of events */
+  count: number = 0;
+  bodies: Body<BodyData, FixtureData, JointData>[] = [];
+  fellAsleep: boolean[] = [];
+
+  /** @internal */
+  push(body: Body<BodyData, FixtureData, JointData>, fellAsleep: boolean): void {
+    // Bodies moved again by TOI sub-steps keep their first event.
+    if (body.m_moveEventIndex >= 0) {
+      this.fellAsleep[body.m_moveEventIndex] = fellAsleep;
+      return;
+    }
+    body.m_moveEventIndex = this.count;
+    this.bodies[this.count] = body;
+    this.fellAsleep[this.count] = fellAsleep;
+    this.count++;
+  }
+
+  /** @internal Remove the event of a destroyed body, events keep their order. */
+  remove(body: Body<BodyData, FixtureData, JointData>): void {
+    const index = body.m_moveEventIndex;
+    if (index < 0) {
+      return;
+    }
+    this.bodies.splice(index, 1);
+    this.fellAsleep.splice(index, 1);
+    this.count--;
+    for (let i = index; i < this.count; ++i) {
+      this.bodies[i].m_moveEventIndex = i;
+    }
+    body.m_moveEventIndex = -1;
+  }
+
+  /** @internal */
+  clear(): void {
+    for (let i = 0; i < this.count; ++i) {
+      this.bodies[i].m_moveEventIndex = -1;
+    }
+    this.count = 0;
+    this.bodies.length = 0;
+    this.fellAsleep.length = 0;
+  }
+}
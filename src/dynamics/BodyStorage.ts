@@ -0,0 +1,180 @@
+/*
+ * Planck.js
+ * The MIT License
+ * Copyright (c) 2021 Erin Catto, Ali Shakiba
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+
+import * as Vec2 from '../common/Vec2';
+import type { Body } from './Body';
+
+
+/**
+ * Solver state of the bodies of a world in typed arrays, see
+ * {@link World.getBodyStorage}. Each body has a storage id, see
+ * {@link Body.getStorageId}, and reads and writes its solver position,
+ * solver velocity and force through handles into these arrays. Solver loops
+ * read contiguous memory, and the state can be read without copying.
+ *
+ * Between steps, positions, velocities and inverse masses are those of the
+ * bodies, which write them when they are changed, for example by
+ * {@link Body.setPosition} or {@link Body.setLinearVelocity}.
+ *
+ * Arrays are replaced when the storage grows, and when a worker pool is set,
+ * see {@link World.setWorkerPool}. Entries of destroyed bodies are cleared,
+ * and their ids are reused.
+ */
+export class BodyStorage {
+  /** Number of ids in use or free, entries at larger ids are unused. */
+  count: number = 0;
+  /** Solver position of the center of mass x, y and angle, `3 * id` to `3 * id + 2` */
+  position: Float64Array;
+  /** Solver linear velocity x, y and angular velocity, `3 * id` to `3 * id + 2` */
+  velocity: Float64Array;
+  /** Applied force x, y and torque, `3 * id` to `3 * id + 2` */
+  force: Float64Array;
+  /** Inverse mass, `id` */
+  invMass: Float64Array;
+  /** Inverse rotational inertia about the center of mass, `id` */
+  invI: Float64Array;
+
+  /** @internal Bodies by id, null for free ids. */
+  m_bodies: (Body | null)[] = [];
+  /** @internal */ m_free: number[] = [];
+  /** @internal */ m_shared: boolean = false;
+
+  constructor(capacity: number = 16) {
+    this.position = new Float64Array(3 * capacity);
+    this.velocity = new Float64Array(3 * capacity);
+    this.force = new Float64Array(3 * capacity);
+    this.invMass = new Float64Array(capacity);
+    this.invI = new Float64Array(capacity);
+  }
+
+  /** @internal Give a body an id and bind its handles to it, the entries are cleared. */
+  allocate(body: Body): void {
+    let id: number;
+    if (this.m_free.length) {
+      id = this.m_free.pop();
+    } else {
+      if (this.count == this.invMass.length) {
+        this.grow(2 * this.invMass.length);
+      }
+      id = this.count++;
+    }
+
+    this.position.fill(0, 3 * id, 3 * id + 3);
+    this.velocity.fill(0, 3 * id, 3 * id + 3);
+    this.force.fill(0, 3 * id, 3 * id + 3);
+    this.invMass[id] = 0;
+    this.invI[id] = 0;
+
+    this.m_bodies[id] = body;
+    body.m_storage = this;
+    body.m_storageId = id;
+    this.bind(body);
+  }
+
+  /**
+   * @internal
+   * Clear the entries of a destroyed body so that its id can be reused. The
+   * body is bound to a detached storage, which is shared by destroyed bodies.
+   */
+  release(body: Body): void {
+    const id = body.m_storageId;
+    this.position.fill(0, 3 * id, 3 * id + 3);
+    this.velocity.fill(0, 3 * id, 3 * id + 3);
+    this.force.fill(0, 3 * id, 3 * id + 3);
+    this.invMass[id] = 0;
+    this.invI[id] = 0;
+
+    this.m_bodies[id] = null;
+    this.m_free.push(id);
+
+    body.m_storage = detached;
+    body.m_storageId = 0;
+    detached.bind(body);
+  }
+
+  /** @internal */
+  grow(capacity: number): void {
+    this.position = growFloat64(this.position, 3 * capacity, this.m_shared);
+    this.velocity = growFloat64(this.velocity, 3 * capacity, this.m_shared);
+    this.force = growFloat64(this.force, 3 * capacity, this.m_shared);
+    this.invMass = growFloat64(this.invMass, capacity, this.m_shared);
+    this.invI = growFloat64(this.invI, capacity, this.m_shared);
+
+    for (let i = 0; i < this.count; ++i) {
+      const body = this.m_bodies[i];
+      if (body) {
+        this.bind(body);
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Move the arrays to SharedArrayBuffers, or back, so that they can be read
+   * and written by worker threads, see {@link IslandWorkerPool}.
+   */
+  setShared(shared: boolean): void {
+    if (this.m_shared == shared) {
+      return;
+    }
+    this.m_shared = shared;
+    this.grow(this.invMass.length);
+  }
+
+  /** @internal */
+  bind(body: Body): void {
+    const id = body.m_storageId;
+    body.c_position.bind(this.position, 3 * id);
+    body.c_velocity.bind(this.velocity, 3 * id);
+    body.m_force = this.force.subarray(3 * id, 3 * id + 2) as unknown as Vec2.Vec2Value;
+  }
+}
+
+// Destroyed bodies write here, the entries are not read.
+/** @internal */ const detached = new BodyStorage(1);
+
+/**
+ * @internal
+ * Copy of an array with a new length, in a SharedArrayBuffer if shared.
+ */
+export function growFloat64(array: Float64Array, length: number, shared: boolean): Float64Array {
+  const grown = shared
+    ? new Float64Array(new SharedArrayBuffer(length * Float64Array.BYTES_PER_ELEMENT))
+    : new Float64Array(length);
+  grown.set(array.subarray(0, length));
+  return grown;
+}
+
+/**
+ * @internal
+ * Copy of an array with a new length, in a SharedArrayBuffer if shared.
+ */
+export function growInt32(array: Int32Array, length: number, shared: boolean): Int32Array {
+  const grown = shared
+    ? new Int32Array(new SharedArrayBuffer(length * Int32Array.BYTES_PER_ELEMENT))
+    : new Int32Array(length);
+  grown.set(array.subarray(0, length));
+  return grown;
+}
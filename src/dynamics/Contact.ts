@@ -26,28 +26,27 @@ import * as matrix from '../common/Matrix';
 import { ShapeType } from "../collision/Shape";
 import { clamp } from '../common/Math';
 import { TransformValue } from '../common/Transform';
-import { Mat22 } from '../common/Mat22';
+import { Mat22Value } from '../common/Mat22';
+import * as Mat22 from '../common/Mat22';
+import { Vec2Value } from '../common/Vec2';
 import * as Vec2 from '../common/Vec2';
 import { SettingsInternal as Settings } from '../Settings';
-import { Manifold, ManifoldType, WorldManifold } from '../collision/Manifold';
+import { Manifold, ManifoldState, ManifoldType, WorldManifold } from '../collision/Manifold';
 import { testOverlap } from '../collision/Distance';
 import { Fixture } from "./Fixture";
 import { Body } from "./Body";
-import { ContactImpulse, TimeStep } from "./Solver";
+import { ContactImpulse, Softness, TimeStep } from "./Solver";
 import { Pool } from "../util/Pool";
 import { getTransform } from "./Position";
+import { ContactStorage, CONTACT_MANIFOLD_STRIDE, CONTACT_POINT_STRIDE } from "./ContactStorage";
+import { solveContactPosition, solveContactVelocity, warmStartContact } from "./ContactSolver";
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
-/** @internal */ const math_abs = Math.abs;
 /** @internal */ const math_sqrt = Math.sqrt;
 /** @internal */ const math_max = Math.max;
-/** @internal */ const math_min = Math.min;
 
 
-// Solver debugging is normally disabled because the block solver sometimes has to deal with a poorly conditioned effective mass matrix.
-/** @internal */ const DEBUG_SOLVER = false;
-
 /** @internal */ const contactPool = new Pool<Contact>({
   create() {
     return new Contact();
@@ -67,12 +66,12 @@ import { getTransform } from "./Position";
  * belongs to a doubly linked list maintained in each attached body. Each
  * contact has two contact nodes, one for each attached body.
  */
-export class ContactEdge {
-  contact: Contact;
-  prev: ContactEdge | null = null;
-  next: ContactEdge | null = null;
-  other: Body | null = null;
-  constructor(contact: Contact) {
+export class ContactEdge<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  contact: Contact<BodyData, FixtureData, JointData>;
+  prev: ContactEdge<BodyData, FixtureData, JointData> | null = null;
+  next: ContactEdge<BodyData, FixtureData, JointData> | null = null;
+  other: Body<BodyData, FixtureData, JointData> | null = null;
+  constructor(contact: Contact<BodyData, FixtureData, JointData>) {
     this.contact = contact;
   }
 
@@ -91,7 +90,8 @@ export type EvaluateFunction = (
   indexA: number,
   xfB: TransformValue,
   fixtureB: Fixture,
-  indexB: number
+  indexB: number,
+  settings: Settings,
 ) => void;
 
 /**
@@ -114,23 +114,97 @@ export function mixRestitution(restitution1: number, restitution2: number): numb
 /** @internal */ const s_registers = [];
 
 // TODO: merge with ManifoldPoint?
+/**
+ * Velocity constraint of a contact point, a handle into the points of a
+ * {@link ContactStorage}.
+ */
 export class VelocityConstraintPoint {
-  rA = matrix.vec2(0, 0);
-  rB = matrix.vec2(0, 0);
-  normalImpulse = 0;
-  tangentImpulse = 0;
-  normalMass = 0;
-  tangentMass = 0;
-  velocityBias = 0;
+  /** @internal */ m_data: Float64Array;
+  /** @internal */ m_offset: number;
+  rA: Vec2Value;
+  rB: Vec2Value;
+
+  constructor(data: Float64Array = new Float64Array(CONTACT_POINT_STRIDE), offset: number = 0) {
+    this.bind(data, offset);
+  }
+
+  /** @internal */
+  bind(data: Float64Array, offset: number): void {
+    this.m_data = data;
+    this.m_offset = offset;
+    this.rA = data.subarray(offset, offset + 2) as unknown as Vec2Value;
+    this.rB = data.subarray(offset + 2, offset + 4) as unknown as Vec2Value;
+  }
+
+  get normalImpulse(): number {
+    return this.m_data[this.m_offset + 4];
+  }
+
+  set normalImpulse(impulse: number) {
+    this.m_data[this.m_offset + 4] = impulse;
+  }
+
+  get tangentImpulse(): number {
+    return this.m_data[this.m_offset + 5];
+  }
+
+  set tangentImpulse(impulse: number) {
+    this.m_data[this.m_offset + 5] = impulse;
+  }
+
+  get normalMass(): number {
+    return this.m_data[this.m_offset + 6];
+  }
+
+  set normalMass(mass: number) {
+    this.m_data[this.m_offset + 6] = mass;
+  }
+
+  get tangentMass(): number {
+    return this.m_data[this.m_offset + 7];
+  }
+
+  set tangentMass(mass: number) {
+    this.m_data[this.m_offset + 7] = mass;
+  }
+
+  get velocityBias(): number {
+    return this.m_data[this.m_offset + 8];
+  }
+
+  set velocityBias(bias: number) {
+    this.m_data[this.m_offset + 8] = bias;
+  }
+
+  /** Relative normal velocity before solving, negative when approaching */
+  get relativeVelocity(): number {
+    return this.m_data[this.m_offset + 9];
+  }
+
+  set relativeVelocity(velocity: number) {
+    this.m_data[this.m_offset + 9] = velocity;
+  }
+
+  /** Separation before solving, used by the soft-step solver */
+  get separation(): number {
+    return this.m_data[this.m_offset + 10];
+  }
+
+  set separation(separation: number) {
+    this.m_data[this.m_offset + 10] = separation;
+  }
+
+  /** Largest normal impulse applied by the soft-step solver in the step */
+  get maxNormalImpulse(): number {
+    return this.m_data[this.m_offset + 11];
+  }
+
+  set maxNormalImpulse(impulse: number) {
+    this.m_data[this.m_offset + 11] = impulse;
+  }
 
   recycle() {
-    matrix.zeroVec2(this.rA)
-    matrix.zeroVec2(this.rB)
-    this.normalImpulse = 0;
-    this.tangentImpulse = 0;
-    this.normalMass = 0;
-    this.tangentMass = 0;
-    this.velocityBias = 0;
+    this.m_data.fill(0, this.m_offset, this.m_offset + CONTACT_POINT_STRIDE);
   }
 }
 
@@ -141,43 +215,54 @@ export class VelocityConstraintPoint {
 /** @internal */ const tangent = matrix.vec2(0, 0);
 /** @internal */ const xfA = matrix.transform(0, 0, 0);
 /** @internal */ const xfB = matrix.transform(0, 0, 0);
-/** @internal */ const pointA = matrix.vec2(0, 0);
-/** @internal */ const pointB = matrix.vec2(0, 0);
-/** @internal */ const clipPoint = matrix.vec2(0, 0);
-/** @internal */ const planePoint = matrix.vec2(0, 0);
-/** @internal */ const rA = matrix.vec2(0, 0);
-/** @internal */ const rB = matrix.vec2(0, 0);
 /** @internal */ const P = matrix.vec2(0, 0);
 /** @internal */ const normal = matrix.vec2(0, 0);
-/** @internal */ const point = matrix.vec2(0, 0);
 /** @internal */ const dv = matrix.vec2(0, 0);
-/** @internal */ const dv1 = matrix.vec2(0, 0);
-/** @internal */ const dv2 = matrix.vec2(0, 0);
-/** @internal */ const b = matrix.vec2(0, 0);
-/** @internal */ const a = matrix.vec2(0, 0);
-/** @internal */ const x = matrix.vec2(0, 0);
 /** @internal */ const d = matrix.vec2(0, 0);
-/** @internal */ const P1 = matrix.vec2(0, 0);
-/** @internal */ const P2 = matrix.vec2(0, 0);
 /** @internal */ const temp = matrix.vec2(0, 0);
+/** @internal */ const qA = matrix.rotation(0);
+/** @internal */ const qB = matrix.rotation(0);
+
+/**
+ * Simulation state of a contact, see {@link World.saveState}. Fixtures are
+ * referenced by their index in the world.
+ */
+export interface ContactState {
+  fixtureA: number;
+  indexA: number;
+  fixtureB: number;
+  indexB: number;
+  manifold: ManifoldState;
+  toi: number;
+  toiCount: number;
+  toiFlag: boolean;
+  friction: number;
+  restitution: number;
+  tangentSpeed: number;
+  enabled: boolean;
+  island: boolean;
+  touching: boolean;
+  filter: boolean;
+  bulletHit: boolean;
+}
 
 /**
  * The class manages contact between two shapes. A contact exists for each
  * overlapping AABB in the broad-phase (except if filtered). Therefore a contact
  * object may exist that has no contact points.
  */
-export class Contact {
+export class Contact<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
   // Nodes for connecting bodies.
-  /** @internal */ m_nodeA = new ContactEdge(this);
-  /** @internal */ m_nodeB = new ContactEdge(this);
-  /** @internal */ m_fixtureA: Fixture | null = null;
-  /** @internal */ m_fixtureB: Fixture | null = null;
+  /** @internal */ m_nodeA = new ContactEdge<BodyData, FixtureData, JointData>(this);
+  /** @internal */ m_nodeB = new ContactEdge<BodyData, FixtureData, JointData>(this);
+  /** @internal */ m_fixtureA: Fixture<BodyData, FixtureData, JointData> | null = null;
+  /** @internal */ m_fixtureB: Fixture<BodyData, FixtureData, JointData> | null = null;
   /** @internal */ m_indexA = -1;
   /** @internal */ m_indexB = -1;
   /** @internal */ m_evaluateFcn: EvaluateFunction | null = null;
   /** @internal */ m_manifold: Manifold = new Manifold();
-  /** @internal */ m_prev: Contact | null = null;
-  /** @internal */ m_next: Contact | null = null;
+  /** @internal */ m_prev: Contact<BodyData, FixtureData, JointData> | null = null;
+  /** @internal */ m_next: Contact<BodyData, FixtureData, JointData> | null = null;
   /** @internal */ m_toi = 1.0;
   /** @internal */ m_toiCount = 0;
   // This contact has a valid TOI in m_toi
@@ -195,41 +280,200 @@ export class Contact {
   m_filterFlag = false;
   /** @internal This bullet contact had a TOI event */
   m_bulletHitFlag = false;
+  /** @internal Set when the shapes started touching, cleared when the hit event is checked. */
+  m_hitFlag = false;
+  /** @internal Index in the awake contacts of the world, or -1. */
+  m_awakeIndex = -1;
 
   /** @internal Contact reporting impulse object cache */
   m_impulse: ContactImpulse = new ContactImpulse(this);
 
-  // VelocityConstraint
+  /** @internal Storage of constraint data, see World.getContactStorage. */
+  m_storage: ContactStorage;
+  /** @internal */ m_storageId = 0;
+  /** @internal Storage of this contact while it is not in a world. */
+  m_ownStorage: ContactStorage;
+
+  // VelocityConstraint, handles into the storage
   /** @internal */ v_points = [new VelocityConstraintPoint(), new VelocityConstraintPoint()]; // [maxManifoldPoints];
-  /** @internal */ v_normal = matrix.vec2(0, 0);
-  /** @internal */ v_normalMass: Mat22 = new Mat22();
-  /** @internal */ v_K: Mat22 = new Mat22();
-  /** @internal */ v_pointCount = 0;
-  /** @internal */ v_tangentSpeed = 0;
-  /** @internal */ v_friction = 0;
-  /** @internal */ v_restitution = 0;
-  /** @internal */ v_invMassA = 0;
-  /** @internal */ v_invMassB = 0;
-  /** @internal */ v_invIA = 0;
-  /** @internal */ v_invIB = 0;
-
-  // PositionConstraint
-  /** @internal */ p_localPoints = [matrix.vec2(0, 0), matrix.vec2(0, 0)]; // [maxManifoldPoints];
-  /** @internal */ p_localNormal = matrix.vec2(0, 0);
-  /** @internal */ p_localPoint = matrix.vec2(0, 0);
-  /** @internal */ p_localCenterA = matrix.vec2(0, 0);
-  /** @internal */ p_localCenterB = matrix.vec2(0, 0);
-  /** @internal */ p_type = ManifoldType.e_unset;
-  /** @internal */ p_radiusA = 0;
-  /** @internal */ p_radiusB = 0;
-  /** @internal */ p_pointCount = 0;
-  /** @internal */ p_invMassA = 0;
-  /** @internal */ p_invMassB = 0;
-  /** @internal */ p_invIA = 0;
-  /** @internal */ p_invIB = 0;
+  /** @internal */ v_normal: Vec2Value;
+  /** @internal */ v_normalMass: Mat22Value = Mat22.create();
+  /** @internal */ v_K: Mat22Value = Mat22.create();
+
+  // PositionConstraint, handles into the storage
+  /** @internal */ p_localPoints: Vec2Value[] = [null, null]; // [maxManifoldPoints];
+  /** @internal */ p_localNormal: Vec2Value;
+  /** @internal */ p_localPoint: Vec2Value;
+  /** @internal */ p_localCenterA: Vec2Value;
+  /** @internal */ p_localCenterB: Vec2Value;
+
+  constructor() {
+    this.m_ownStorage = new ContactStorage(1);
+    this.m_ownStorage.allocate(this);
+  }
+
+  /** @internal */
+  get v_pointCount(): number {
+    return this.m_storage.pointCount[2 * this.m_storageId];
+  }
+
+  /** @internal */
+  set v_pointCount(count: number) {
+    this.m_storage.pointCount[2 * this.m_storageId] = count;
+  }
+
+  /** @internal */
+  get p_pointCount(): number {
+    return this.m_storage.pointCount[2 * this.m_storageId + 1];
+  }
+
+  /** @internal */
+  set p_pointCount(count: number) {
+    this.m_storage.pointCount[2 * this.m_storageId + 1] = count;
+  }
+
+  /** @internal */
+  get v_invMassA(): number {
+    return this.m_storage.mass[4 * this.m_storageId];
+  }
+
+  /** @internal */
+  set v_invMassA(invMass: number) {
+    this.m_storage.mass[4 * this.m_storageId] = invMass;
+  }
+
+  /** @internal */
+  get v_invIA(): number {
+    return this.m_storage.mass[4 * this.m_storageId + 1];
+  }
+
+  /** @internal */
+  set v_invIA(invI: number) {
+    this.m_storage.mass[4 * this.m_storageId + 1] = invI;
+  }
+
+  /** @internal */
+  get v_invMassB(): number {
+    return this.m_storage.mass[4 * this.m_storageId + 2];
+  }
+
+  /** @internal */
+  set v_invMassB(invMass: number) {
+    this.m_storage.mass[4 * this.m_storageId + 2] = invMass;
+  }
+
+  /** @internal */
+  get v_invIB(): number {
+    return this.m_storage.mass[4 * this.m_storageId + 3];
+  }
+
+  /** @internal */
+  set v_invIB(invI: number) {
+    this.m_storage.mass[4 * this.m_storageId + 3] = invI;
+  }
+
+  /** @internal */
+  get v_friction(): number {
+    return this.m_storage.material[3 * this.m_storageId];
+  }
+
+  /** @internal */
+  set v_friction(friction: number) {
+    this.m_storage.material[3 * this.m_storageId] = friction;
+  }
+
+  /** @internal */
+  get v_restitution(): number {
+    return this.m_storage.material[3 * this.m_storageId + 1];
+  }
+
+  /** @internal */
+  set v_restitution(restitution: number) {
+    this.m_storage.material[3 * this.m_storageId + 1] = restitution;
+  }
+
+  /** @internal */
+  get v_tangentSpeed(): number {
+    return this.m_storage.material[3 * this.m_storageId + 2];
+  }
+
+  /** @internal */
+  set v_tangentSpeed(speed: number) {
+    this.m_storage.material[3 * this.m_storageId + 2] = speed;
+  }
+
+  /** @internal */
+  get v_biasRate(): number {
+    return this.m_storage.softness[4 * this.m_storageId];
+  }
+
+  /** @internal */
+  set v_biasRate(biasRate: number) {
+    this.m_storage.softness[4 * this.m_storageId] = biasRate;
+  }
+
+  /** @internal */
+  get v_massScale(): number {
+    return this.m_storage.softness[4 * this.m_storageId + 1];
+  }
+
+  /** @internal */
+  set v_massScale(massScale: number) {
+    this.m_storage.softness[4 * this.m_storageId + 1] = massScale;
+  }
+
+  /** @internal */
+  get v_impulseScale(): number {
+    return this.m_storage.softness[4 * this.m_storageId + 2];
+  }
+
+  /** @internal */
+  set v_impulseScale(impulseScale: number) {
+    this.m_storage.softness[4 * this.m_storageId + 2] = impulseScale;
+  }
+
+  /** @internal */
+  get v_maxPushVelocity(): number {
+    return this.m_storage.softness[4 * this.m_storageId + 3];
+  }
+
+  /** @internal */
+  set v_maxPushVelocity(velocity: number) {
+    this.m_storage.softness[4 * this.m_storageId + 3] = velocity;
+  }
+
+  /** @internal */
+  get p_type(): ManifoldType {
+    return this.m_storage.type[this.m_storageId];
+  }
+
+  /** @internal */
+  set p_type(type: ManifoldType) {
+    this.m_storage.type[this.m_storageId] = type;
+  }
+
+  /** @internal */
+  get p_radiusA(): number {
+    return this.m_storage.manifold[this.m_storageId * CONTACT_MANIFOLD_STRIDE + 12];
+  }
+
+  /** @internal */
+  set p_radiusA(radius: number) {
+    this.m_storage.manifold[this.m_storageId * CONTACT_MANIFOLD_STRIDE + 12] = radius;
+  }
+
+  /** @internal */
+  get p_radiusB(): number {
+    return this.m_storage.manifold[this.m_storageId * CONTACT_MANIFOLD_STRIDE + 13];
+  }
+
+  /** @internal */
+  set p_radiusB(radius: number) {
+    this.m_storage.manifold[this.m_storageId * CONTACT_MANIFOLD_STRIDE + 13] = radius;
+  }
 
   /** @internal */ 
-  initialize(fA: Fixture, indexA: number, fB: Fixture, indexB: number, evaluateFcn: EvaluateFunction) {
+  initialize(fA: Fixture<BodyData, FixtureData, JointData>, indexA: number, fB: Fixture<BodyData, FixtureData, JointData>, indexB: number, evaluateFcn: EvaluateFunction) {
     this.m_fixtureA = fA;
     this.m_fixtureB = fB;
 
@@ -240,6 +484,8 @@ export class Contact {
 
     this.m_friction = mixFriction(this.m_fixtureA.m_friction, this.m_fixtureB.m_friction);
     this.m_restitution = mixRestitution(this.m_fixtureA.m_restitution, this.m_fixtureB.m_restitution);
+
+    fA.m_body.m_world.m_contactStorage.allocate(this);
   }
 
   /** @internal */ 
@@ -265,16 +511,22 @@ export class Contact {
     this.m_touchingFlag = false;
     this.m_filterFlag = false;
     this.m_bulletHitFlag = false;
+    this.m_hitFlag = false;
+    this.m_awakeIndex = -1;
 
     this.m_impulse.recycle();
 
+    if (this.m_storage !== this.m_ownStorage) {
+      this.m_storage.release(this);
+    }
+
     // VelocityConstraint
     for(const point of this.v_points) {
       point.recycle();
     }
     matrix.zeroVec2(this.v_normal)
-    this.v_normalMass.setZero();
-    this.v_K.setZero();
+    Mat22.setZero(this.v_normalMass);
+    Mat22.setZero(this.v_K);
     this.v_pointCount = 0;
     this.v_tangentSpeed = 0;
     this.v_friction = 0;
@@ -283,6 +535,10 @@ export class Contact {
     this.v_invMassB = 0;
     this.v_invIA = 0;
     this.v_invIB = 0;
+    this.v_biasRate = 0;
+    this.v_massScale = 1;
+    this.v_impulseScale = 0;
+    this.v_maxPushVelocity = 0;
 
     // PositionConstraint
     for(const point of this.p_localPoints) {
@@ -296,10 +552,6 @@ export class Contact {
     this.p_radiusA = 0;
     this.p_radiusB = 0;
     this.p_pointCount = 0;
-    this.p_invMassA = 0;
-    this.p_invMassB = 0;
-    this.p_invIA = 0;
-    this.p_invIB = 0;
   }
 
   initConstraint(step: TimeStep): void {
@@ -318,6 +570,9 @@ export class Contact {
     const pointCount = manifold.pointCount;
     _ASSERT && console.assert(pointCount > 0);
 
+    this.m_storage.bodies[2 * this.m_storageId] = bodyA.m_storageId;
+    this.m_storage.bodies[2 * this.m_storageId + 1] = bodyB.m_storageId;
+
     this.v_invMassA = bodyA.m_invMass;
     this.v_invMassB = bodyB.m_invMass;
     this.v_invIA = bodyA.m_invI;
@@ -329,13 +584,9 @@ export class Contact {
 
     this.v_pointCount = pointCount;
 
-    this.v_K.setZero();
-    this.v_normalMass.setZero();
+    Mat22.setZero(this.v_K);
+    Mat22.setZero(this.v_normalMass);
 
-    this.p_invMassA = bodyA.m_invMass;
-    this.p_invMassB = bodyB.m_invMass;
-    this.p_invIA = bodyA.m_invI;
-    this.p_invIB = bodyB.m_invI;
     matrix.copyVec2(this.p_localCenterA, bodyA.m_sweep.localCenter);
     matrix.copyVec2(this.p_localCenterB, bodyB.m_sweep.localCenter);
 
@@ -418,21 +669,29 @@ export class Contact {
   /**
    * Get the next contact in the world's contact list.
    */
-  getNext(): Contact | null {
+  getNext(): Contact<BodyData, FixtureData, JointData> | null {
     return this.m_next;
   }
 
+  /**
+   * Get the index of this contact in the constraint arrays of the world, see
+   * {@link World.getContactStorage}. Ids of destroyed contacts are reused.
+   */
+  getStorageId(): number {
+    return this.m_storageId;
+  }
+
   /**
    * Get fixture A in this contact.
    */
-  getFixtureA(): Fixture {
+  getFixtureA(): Fixture<BodyData, FixtureData, JointData> {
     return this.m_fixtureA;
   }
 
   /**
    * Get fixture B in this contact.
    */
-  getFixtureB(): Fixture {
+  getFixtureB(): Fixture<BodyData, FixtureData, JointData> {
     return this.m_fixtureB;
   }
 
@@ -455,6 +714,8 @@ export class Contact {
    */
   flagForFiltering(): void {
     this.m_filterFlag = true;
+    // Contacts of sleeping bodies are not updated, so check all contacts.
+    this.m_fixtureA.m_body.m_world.m_filterPending = true;
   }
 
   /**
@@ -524,12 +785,14 @@ export class Contact {
 
   /**
    * Called by Update method, and implemented by subclasses.
+   *
+   * @param settings Settings of the world, global settings by default.
    */
-  evaluate(manifold: Manifold, xfA: TransformValue, xfB: TransformValue): void {
+  evaluate(manifold: Manifold, xfA: TransformValue, xfB: TransformValue, settings: Settings = Settings.global): void {
     const fixtureA = this.m_fixtureA;
     const fixtureB = this.m_fixtureB;
     if (fixtureA === null || fixtureB === null) return;
-    this.m_evaluateFcn(manifold, xfA, fixtureA, this.m_indexA, xfB, fixtureB, this.m_indexB);
+    this.m_evaluateFcn(manifold, xfA, fixtureA, this.m_indexA, xfB, fixtureB, this.m_indexB, settings);
   }
 
   /**
@@ -540,12 +803,13 @@ export class Contact {
    * @param listener.beginContact
    * @param listener.endContact
    * @param listener.preSolve
+   * @param settings Settings of the world, global settings by default.
    */
   update(listener?: {
     beginContact(contact: Contact): void,
-    endContact(contact: Contact): void,
+    endContact(contact: Contact, manifold?: Manifold | null): void,
     preSolve(contact: Contact, oldManifold: Manifold): void
-  }): void {
+  }, settings: Settings = Settings.global): void {
     const fixtureA = this.m_fixtureA;
     const fixtureB = this.m_fixtureB;
     if (fixtureA === null || fixtureB === null) return;
@@ -581,7 +845,7 @@ export class Contact {
       oldManifold.set(this.m_manifold);
       this.m_manifold.recycle();
 
-      this.evaluate(this.m_manifold, xfA, xfB);
+      this.evaluate(this.m_manifold, xfA, xfB, settings);
       touching = this.m_manifold.pointCount > 0;
 
       // Match old contact ids to new contact ids and copy the
@@ -608,6 +872,7 @@ export class Contact {
     }
 
     this.m_touchingFlag = touching;
+    this.m_hitFlag = !sensor && !wasTouching && touching;
 
     const hasListener = typeof listener === 'object' && listener !== null;
 
@@ -616,7 +881,8 @@ export class Contact {
     }
 
     if (wasTouching && !touching && hasListener) {
-      listener.endContact(this);
+      // Pass the last touching manifold, sensors don't have manifolds.
+      listener.endContact(this, sensor ? null : oldManifold);
     }
 
     if (!sensor && touching && hasListener && oldManifold) {
@@ -634,125 +900,19 @@ export class Contact {
 
   private _solvePositionConstraint(step: TimeStep, toiA: Body | null, toiB: Body | null): number {
     const toi = toiA !== null && toiB !== null ? true : false;
-    let minSeparation = 0.0;
 
     const fixtureA = this.m_fixtureA;
     const fixtureB = this.m_fixtureB;
-    if (fixtureA === null || fixtureB === null) return minSeparation;
+    if (fixtureA === null || fixtureB === null) return 0.0;
     const bodyA = fixtureA.m_body;
     const bodyB = fixtureB.m_body;
-    if (bodyA === null || bodyB === null) return minSeparation;
-
-    const velocityA = bodyA.c_velocity;
-    const velocityB = bodyB.c_velocity;
-    const positionA = bodyA.c_position;
-    const positionB = bodyB.c_position;
-
-    const localCenterA = this.p_localCenterA;
-    const localCenterB = this.p_localCenterB;
-
-    let mA = 0.0;
-    let iA = 0.0;
-    if (!toi || (bodyA === toiA || bodyA === toiB)) {
-      mA = this.p_invMassA;
-      iA = this.p_invIA;
-    }
-
-    let mB = 0.0;
-    let iB = 0.0;
-    if (!toi || (bodyB === toiA || bodyB === toiB)) {
-      mB = this.p_invMassB;
-      iB = this.p_invIB;
-    }
-
-    matrix.copyVec2(cA, positionA.c);
-    let aA = positionA.a;
-
-    matrix.copyVec2(cB, positionB.c);
-    let aB = positionB.a;
-
-    // Solve normal constraints
-    for (let j = 0; j < this.p_pointCount; ++j) {
-      getTransform(xfA, localCenterA, cA, aA);
-      getTransform(xfB, localCenterB, cB, aB);
-
-      // PositionSolverManifold
-      let separation: number;
-      switch (this.p_type) {
-        case ManifoldType.e_circles: {
-          matrix.transformVec2(pointA, xfA, this.p_localPoint);
-          matrix.transformVec2(pointB, xfB, this.p_localPoints[0]);
-          matrix.subVec2(normal, pointB, pointA);
-          matrix.normalizeVec2(normal);
-
-          matrix.combine2Vec2(point, 0.5, pointA, 0.5, pointB);
-          separation = matrix.dotVec2(pointB, normal) - matrix.dotVec2(pointA, normal) - this.p_radiusA - this.p_radiusB;
-          break;
-        }
-
-        case ManifoldType.e_faceA: {
-          matrix.rotVec2(normal, xfA.q, this.p_localNormal);
-          matrix.transformVec2(planePoint, xfA, this.p_localPoint);
-          matrix.transformVec2(clipPoint, xfB, this.p_localPoints[j]);
-          separation = matrix.dotVec2(clipPoint, normal) - matrix.dotVec2(planePoint, normal) - this.p_radiusA - this.p_radiusB;
-          matrix.copyVec2(point, clipPoint);
-          break;
-        }
-
-        case ManifoldType.e_faceB: {
-          matrix.rotVec2(normal, xfB.q, this.p_localNormal);
-          matrix.transformVec2(planePoint, xfB, this.p_localPoint);
-          matrix.transformVec2(clipPoint, xfA, this.p_localPoints[j]);
-          separation = matrix.dotVec2(clipPoint, normal) - matrix.dotVec2(planePoint, normal) - this.p_radiusA - this.p_radiusB;
-          matrix.copyVec2(point, clipPoint);
-
-          // Ensure normal points from A to B
-          matrix.negVec2(normal);
-          break;
-        }
-        // todo: what should we do here?
-        default: {
-          return minSeparation;
-        }
-      }
+    if (bodyA === null || bodyB === null) return 0.0;
 
-      matrix.subVec2(rA, point, cA);
-      matrix.subVec2(rB, point, cB);
+    const movableA = !toi || bodyA === toiA || bodyA === toiB;
+    const movableB = !toi || bodyB === toiA || bodyB === toiB;
+    const baumgarte = toi ? step.settings.toiBaugarte : step.settings.baumgarte;
 
-      // Track max constraint error.
-      minSeparation = math_min(minSeparation, separation);
-
-      const baumgarte = toi ? Settings.toiBaugarte : Settings.baumgarte;
-      const linearSlop = Settings.linearSlop;
-      const maxLinearCorrection = Settings.maxLinearCorrection;
-
-      // Prevent large corrections and allow slop.
-      const C = clamp(baumgarte * (separation + linearSlop), -maxLinearCorrection, 0.0);
-
-      // Compute the effective mass.
-      const rnA = matrix.crossVec2Vec2(rA, normal);
-      const rnB = matrix.crossVec2Vec2(rB, normal);
-      const K = mA + mB + iA * rnA * rnA + iB * rnB * rnB;
-
-      // Compute normal impulse
-      const impulse = K > 0.0 ? -C / K : 0.0;
-
-      matrix.scaleVec2(P, impulse, normal);
-
-      matrix.minusScaleVec2(cA, mA, P);
-      aA -= iA * matrix.crossVec2Vec2(rA, P);
-
-      matrix.plusScaleVec2(cB, mB, P);
-      aB += iB * matrix.crossVec2Vec2(rB, P);
-    }
-
-    matrix.copyVec2(positionA.c, cA);
-    positionA.a = aA;
-
-    matrix.copyVec2(positionB.c, cB);
-    positionB.a = aB;
-
-    return minSeparation;
+    return solveContactPosition(this.m_storage, bodyA.m_storage, this.m_storageId, baumgarte, step.settings.linearSlop, step.settings.maxLinearCorrection, movableA, movableB);
   }
 
   initVelocityConstraint(step: TimeStep): void {
@@ -806,6 +966,7 @@ export class Contact {
 
       matrix.subVec2(vcp.rA, wmp, cA);
       matrix.subVec2(vcp.rB, wmp, cB);
+      vcp.separation = worldManifold.separations[j];
 
       const rnA = matrix.crossVec2Vec2(vcp.rA, this.v_normal);
       const rnB = matrix.crossVec2Vec2(vcp.rB, this.v_normal);
@@ -830,7 +991,8 @@ export class Contact {
       vRel += matrix.dotVec2(this.v_normal, matrix.crossNumVec2(temp, wB, vcp.rB))
       vRel -= matrix.dotVec2(this.v_normal, vA)
       vRel -= matrix.dotVec2(this.v_normal, matrix.crossNumVec2(temp, wA, vcp.rA));
-      if (vRel < -Settings.velocityThreshold) {
+      vcp.relativeVelocity = vRel;
+      if (vRel < -step.settings.velocityThreshold) {
         vcp.velocityBias = -this.v_restitution * vRel;
       }
     }
@@ -895,39 +1057,7 @@ export class Contact {
     const bodyB = fixtureB.m_body;
     if (bodyA === null || bodyB === null) return;
 
-    const velocityA = bodyA.c_velocity;
-    const velocityB = bodyB.c_velocity;
-    const positionA = bodyA.c_position;
-    const positionB = bodyB.c_position;
-
-    const mA = this.v_invMassA;
-    const iA = this.v_invIA;
-    const mB = this.v_invMassB;
-    const iB = this.v_invIB;
-
-    matrix.copyVec2(vA, velocityA.v);
-    let wA = velocityA.w;
-    matrix.copyVec2(vB, velocityB.v);
-    let wB = velocityB.w;
-
-    matrix.copyVec2(normal, this.v_normal);
-    matrix.crossVec2Num(tangent, normal, 1.0);
-
-    for (let j = 0; j < this.v_pointCount; ++j) {
-      const vcp = this.v_points[j]; // VelocityConstraintPoint
-
-      matrix.combine2Vec2(P, vcp.normalImpulse, normal, vcp.tangentImpulse, tangent);
-
-      wA -= iA * matrix.crossVec2Vec2(vcp.rA, P);
-      matrix.minusScaleVec2(vA, mA, P);
-      wB += iB * matrix.crossVec2Vec2(vcp.rB, P);
-      matrix.plusScaleVec2(vB, mB, P);
-    }
-
-    matrix.copyVec2(velocityA.v, vA);
-    velocityA.w = wA;
-    matrix.copyVec2(velocityB.v, vB);
-    velocityB.w = wB;
+    warmStartContact(this.m_storage, bodyA.m_storage, this.m_storageId);
   }
 
   storeConstraintImpulses(step: TimeStep): void {
@@ -938,7 +1068,29 @@ export class Contact {
     }
   }
 
-  solveVelocityConstraint(step: TimeStep): void {
+  /**
+   * Set up the soft constraint of the soft-step solver, after
+   * initVelocityConstraint. Contacts with a static or kinematic body use the
+   * stiffer `staticSoftness`.
+   */
+  initSoftConstraint(softness: Softness, staticSoftness: Softness, maxPushVelocity: number): void {
+    const soft = this.v_invMassA == 0.0 || this.v_invMassB == 0.0 ? staticSoftness : softness;
+    this.v_biasRate = soft.biasRate;
+    this.v_massScale = soft.massScale;
+    this.v_impulseScale = soft.impulseScale;
+    this.v_maxPushVelocity = maxPushVelocity;
+    for (let j = 0; j < this.v_pointCount; ++j) {
+      this.v_points[j].maxNormalImpulse = 0.0;
+    }
+  }
+
+  /**
+   * Solve the velocity constraint of the soft-step solver in a sub-step. The
+   * separation of each point is updated from the body positions. With bias,
+   * overlapping bodies are pushed apart by a soft spring, without bias (relax)
+   * the velocity added by pushing is removed.
+   */
+  solveSoftVelocityConstraint(step: TimeStep, useBias: boolean): void {
     const fixtureA = this.m_fixtureA;
     const fixtureB = this.m_fixtureB;
     if (fixtureA === null || fixtureB === null) return;
@@ -962,14 +1114,63 @@ export class Contact {
     matrix.copyVec2(vB, velocityB.v);
     let wB = velocityB.w;
 
+    // Rotation of the bodies since the start of the step.
+    matrix.setRotAngle(qA, positionA.a - bodyA.m_sweep.a0);
+    matrix.setRotAngle(qB, positionB.a - bodyB.m_sweep.a0);
+
     matrix.copyVec2(normal, this.v_normal);
     matrix.crossVec2Num(tangent, normal, 1.0);
     const friction = this.v_friction;
 
-    _ASSERT && console.assert(this.v_pointCount == 1 || this.v_pointCount == 2);
+    // Solve normal constraints first, friction is limited by the normal impulse.
+    for (let j = 0; j < this.v_pointCount; ++j) {
+      const vcp = this.v_points[j]; // VelocityConstraintPoint
+
+      // Current separation
+      matrix.subVec2(d, positionB.c, positionA.c);
+      matrix.plusVec2(d, matrix.rotVec2(temp, qB, vcp.rB));
+      matrix.minusVec2(d, matrix.rotVec2(temp, qA, vcp.rA));
+      const separation = matrix.dotVec2(d, normal) + vcp.separation;
+
+      let bias = 0.0;
+      let massScale = 1.0;
+      let impulseScale = 0.0;
+      if (separation > 0.0) {
+        // Speculative, allow approaching until touching.
+        bias = separation * step.inv_dt;
+      } else if (useBias) {
+        bias = math_max(this.v_biasRate * separation, -this.v_maxPushVelocity);
+        massScale = this.v_massScale;
+        impulseScale = this.v_impulseScale;
+      }
+
+      // Relative velocity at contact
+      matrix.zeroVec2(dv);
+      matrix.plusVec2(dv, vB);
+      matrix.plusVec2(dv, matrix.crossNumVec2(temp, wB, vcp.rB));
+      matrix.minusVec2(dv, vA);
+      matrix.minusVec2(dv, matrix.crossNumVec2(temp, wA, vcp.rA));
+
+      // Compute normal impulse
+      const vn = matrix.dotVec2(dv, normal);
+      let lambda = -vcp.normalMass * massScale * (vn + bias) - impulseScale * vcp.normalImpulse;
+
+      // Clamp the accumulated impulse
+      const newImpulse = math_max(vcp.normalImpulse + lambda, 0.0);
+      lambda = newImpulse - vcp.normalImpulse;
+      vcp.normalImpulse = newImpulse;
+      vcp.maxNormalImpulse = math_max(vcp.maxNormalImpulse, lambda);
+
+      // Apply contact impulse
+      matrix.scaleVec2(P, lambda, normal);
+
+      matrix.minusScaleVec2(vA, mA, P);
+      wA -= iA * matrix.crossVec2Vec2(vcp.rA, P);
+
+      matrix.plusScaleVec2(vB, mB, P);
+      wB += iB * matrix.crossVec2Vec2(vcp.rB, P);
+    }
 
-    // Solve tangent constraints first because non-penetration is more important
-    // than friction.
     for (let j = 0; j < this.v_pointCount; ++j) {
       const vcp = this.v_points[j]; // VelocityConstraintPoint
 
@@ -1000,312 +1201,94 @@ export class Contact {
       wB += iB * matrix.crossVec2Vec2(vcp.rB, P);
     }
 
-    // Solve normal constraints
-    if (this.v_pointCount == 1 || step.blockSolve == false) {
-      for (let i = 0; i < this.v_pointCount; ++i) {
-        const vcp = this.v_points[i]; // VelocityConstraintPoint
+    matrix.copyVec2(velocityA.v, vA);
+    velocityA.w = wA;
+    matrix.copyVec2(velocityB.v, vB);
+    velocityB.w = wB;
+  }
 
-        // Relative velocity at contact
-        matrix.zeroVec2(dv);
-        matrix.plusVec2(dv, vB);
-        matrix.plusVec2(dv, matrix.crossNumVec2(temp, wB, vcp.rB));
-        matrix.minusVec2(dv, vA);
-        matrix.minusVec2(dv, matrix.crossNumVec2(temp, wA, vcp.rA));
+  /**
+   * Apply restitution after the sub-steps of the soft-step solver, to points
+   * which were approaching faster than the velocity threshold and were pushed
+   * apart.
+   */
+  applySoftRestitution(step: TimeStep): void {
+    if (this.v_restitution == 0.0) {
+      return;
+    }
+    const fixtureA = this.m_fixtureA;
+    const fixtureB = this.m_fixtureB;
+    if (fixtureA === null || fixtureB === null) return;
+    const bodyA = fixtureA.m_body;
+    const bodyB = fixtureB.m_body;
+    if (bodyA === null || bodyB === null) return;
 
-        // Compute normal impulse
-        const vn = matrix.dotVec2(dv, normal);
-        let lambda = -vcp.normalMass * (vn - vcp.velocityBias);
+    const velocityA = bodyA.c_velocity;
+    const velocityB = bodyB.c_velocity;
 
-        // Clamp the accumulated impulse
-        const newImpulse = math_max(vcp.normalImpulse + lambda, 0.0);
-        lambda = newImpulse - vcp.normalImpulse;
-        vcp.normalImpulse = newImpulse;
+    const mA = this.v_invMassA;
+    const iA = this.v_invIA;
+    const mB = this.v_invMassB;
+    const iB = this.v_invIB;
 
-        // Apply contact impulse
-        matrix.scaleVec2(P, lambda, normal);
+    matrix.copyVec2(vA, velocityA.v);
+    let wA = velocityA.w;
+    matrix.copyVec2(vB, velocityB.v);
+    let wB = velocityB.w;
 
-        matrix.minusScaleVec2(vA, mA, P);
-        wA -= iA * matrix.crossVec2Vec2(vcp.rA, P);
+    matrix.copyVec2(normal, this.v_normal);
+    const threshold = step.settings.velocityThreshold;
 
-        matrix.plusScaleVec2(vB, mB, P);
-        wB += iB * matrix.crossVec2Vec2(vcp.rB, P);
+    for (let j = 0; j < this.v_pointCount; ++j) {
+      const vcp = this.v_points[j]; // VelocityConstraintPoint
+      if (vcp.relativeVelocity > -threshold || vcp.maxNormalImpulse == 0.0) {
+        continue;
       }
-    } else {
-      // Block solver developed in collaboration with Dirk Gregorius (back in
-      // 01/07 on Box2D_Lite).
-      // Build the mini LCP for this contact patch
-      //
-      // vn = A * x + b, vn >= 0, x >= 0 and vn_i * x_i = 0 with i = 1..2
-      //
-      // A = J * W * JT and J = ( -n, -r1 x n, n, r2 x n )
-      // b = vn0 - velocityBias
-      //
-      // The system is solved using the "Total enumeration method" (s. Murty).
-      // The complementary constraint vn_i * x_i
-      // implies that we must have in any solution either vn_i = 0 or x_i = 0.
-      // So for the 2D contact problem the cases
-      // vn1 = 0 and vn2 = 0, x1 = 0 and x2 = 0, x1 = 0 and vn2 = 0, x2 = 0 and
-      // vn1 = 0 need to be tested. The first valid
-      // solution that satisfies the problem is chosen.
-      //
-      // In order to account of the accumulated impulse 'a' (because of the
-      // iterative nature of the solver which only requires
-      // that the accumulated impulse is clamped and not the incremental
-      // impulse) we change the impulse variable (x_i).
-      //
-      // Substitute:
-      //
-      // x = a + d
-      //
-      // a := old total impulse
-      // x := new total impulse
-      // d := incremental impulse
-      //
-      // For the current iteration we extend the formula for the incremental
-      // impulse
-      // to compute the new total impulse:
-      //
-      // vn = A * d + b
-      // = A * (x - a) + b
-      // = A * x + b - A * a
-      // = A * x + b'
-      // b' = b - A * a;
-
-      const vcp1 = this.v_points[0]; // VelocityConstraintPoint
-      const vcp2 = this.v_points[1]; // VelocityConstraintPoint
-
-      Vec2.set(vcp1.normalImpulse, vcp2.normalImpulse, a);
-      _ASSERT && console.assert(a[0] >= 0.0 && a[1] >= 0.0);
 
       // Relative velocity at contact
-      // let dv1 = Vec2.zero().add(vB).add(Vec2.crossNumVec2(wB, vcp1.rB)).sub(vA).sub(Vec2.crossNumVec2(wA, vcp1.rA));
-      matrix.zeroVec2(dv1);
-      matrix.plusVec2(dv1, vB);
-      matrix.plusVec2(dv1, matrix.crossNumVec2(temp, wB, vcp1.rB));
-      matrix.minusVec2(dv1, vA);
-      matrix.minusVec2(dv1, matrix.crossNumVec2(temp, wA, vcp1.rA));
-
-      // let dv2 = Vec2.zero().add(vB).add(Vec2.crossNumVec2(wB, vcp2.rB)).sub(vA).sub(Vec2.crossNumVec2(wA, vcp2.rA));
-      matrix.zeroVec2(dv2);
-      matrix.plusVec2(dv2, vB);
-      matrix.plusVec2(dv2, matrix.crossNumVec2(temp, wB, vcp2.rB));
-      matrix.minusVec2(dv2, vA);
-      matrix.minusVec2(dv2, matrix.crossNumVec2(temp, wA, vcp2.rA));
-
-      // Compute normal velocity
-      let vn1 = matrix.dotVec2(dv1, normal);
-      let vn2 = matrix.dotVec2(dv2, normal);
-
-      Vec2.set(vn1 - vcp1.velocityBias, vn2 - vcp2.velocityBias, b);
-
-      // Compute b'
-      // b.sub(Mat22.mulVec2(this.v_K, a));
-      b[0] -= this.v_K.ex[0] * a[0] + this.v_K.ey[0] * a[1];
-      b[1] -= this.v_K.ex[1] * a[0] + this.v_K.ey[1] * a[1];
-
-      const k_errorTol = 1e-3;
-      // NOT_USED(k_errorTol);
-
-      while (true) {
-        //
-        // Case 1: vn = 0
-        //
-        // 0 = A * x + b'
-        //
-        // Solve for x:
-        //
-        // x = - inv(A) * b'
-        //
-        // const x = Mat22.mulVec2(this.v_normalMass, b).neg();
-        matrix.zeroVec2(x);
-        x[0] = -(this.v_normalMass.ex[0] * b[0] + this.v_normalMass.ey[0] * b[1]);
-        x[1] = -(this.v_normalMass.ex[1] * b[0] + this.v_normalMass.ey[1] * b[1]);
-
-        if (x[0] >= 0.0 && x[1] >= 0.0) {
-          // Get the incremental impulse
-          matrix.subVec2(d, x, a)
-
-          // Apply incremental impulse
-          matrix.scaleVec2(P1, d[0], normal);
-          matrix.scaleVec2(P2, d[1], normal);
-
-          // vA.subCombine(mA, P1, mA, P2);
-          matrix.combine3Vec2(vA, -mA, P1, -mA, P2, 1, vA);
-          wA -= iA * (matrix.crossVec2Vec2(vcp1.rA, P1) + matrix.crossVec2Vec2(vcp2.rA, P2));
-
-          // vB.addCombine(mB, P1, mB, P2);
-          matrix.combine3Vec2(vB, mB, P1, mB, P2, 1, vB);
-          wB += iB * (matrix.crossVec2Vec2(vcp1.rB, P1) + matrix.crossVec2Vec2(vcp2.rB, P2));
-
-          // Accumulate
-          vcp1.normalImpulse = x[0];
-          vcp2.normalImpulse = x[1];
-
-          if (DEBUG_SOLVER) {
-            // Postconditions
-            matrix.zeroVec2(dv1);
-            matrix.plusVec2(dv1, vB);
-            matrix.plusVec2(dv1, matrix.crossNumVec2(temp, wB, vcp1.rB));
-            matrix.minusVec2(dv1, vA);
-            matrix.minusVec2(dv1, matrix.crossNumVec2(temp, wA, vcp1.rA));
-
-            matrix.zeroVec2(dv2);
-            matrix.plusVec2(dv2, vB);
-            matrix.plusVec2(dv2, matrix.crossNumVec2(temp, wB, vcp2.rB));
-            matrix.minusVec2(dv2, vA);
-            matrix.minusVec2(dv2, matrix.crossNumVec2(temp, wA, vcp2.rA));
-
-            // Compute normal velocity
-            vn1 = matrix.dotVec2(dv1, normal);
-            vn2 = matrix.dotVec2(dv2, normal);
-
-            _ASSERT && console.assert(math_abs(vn1 - vcp1.velocityBias) < k_errorTol);
-            _ASSERT && console.assert(math_abs(vn2 - vcp2.velocityBias) < k_errorTol);
-          }
-          break;
-        }
+      matrix.zeroVec2(dv);
+      matrix.plusVec2(dv, vB);
+      matrix.plusVec2(dv, matrix.crossNumVec2(temp, wB, vcp.rB));
+      matrix.minusVec2(dv, vA);
+      matrix.minusVec2(dv, matrix.crossNumVec2(temp, wA, vcp.rA));
 
-        //
-        // Case 2: vn1 = 0 and x2 = 0
-        //
-        // 0 = a11 * x1 + a12 * 0 + b1'
-        // vn2 = a21 * x1 + a22 * 0 + b2'
-        //
-        x[0] = -vcp1.normalMass * b[0];
-        x[1] = 0.0;
-        vn1 = 0.0;
-        vn2 = this.v_K.ex[1] * x[0] + b[1];
-
-        if (x[0] >= 0.0 && vn2 >= 0.0) {
-          // Get the incremental impulse
-          matrix.subVec2(d, x, a);
-
-          // Apply incremental impulse
-          matrix.scaleVec2(P1, d[0], normal);
-          matrix.scaleVec2(P2, d[1], normal);
-
-          // vA.subCombine(mA, P1, mA, P2);
-          matrix.combine3Vec2(vA, -mA, P1, -mA, P2, 1, vA);
-          wA -= iA * (matrix.crossVec2Vec2(vcp1.rA, P1) + matrix.crossVec2Vec2(vcp2.rA, P2));
-
-          // vB.addCombine(mB, P1, mB, P2);
-          matrix.combine3Vec2(vB, mB, P1, mB, P2, 1, vB);
-          wB += iB * (matrix.crossVec2Vec2(vcp1.rB, P1) + matrix.crossVec2Vec2(vcp2.rB, P2));
-
-          // Accumulate
-          vcp1.normalImpulse = x[0];
-          vcp2.normalImpulse = x[1];
-
-          if (DEBUG_SOLVER) {
-            // Postconditions
-            matrix.zeroVec2(dv1);
-            matrix.plusVec2(dv1, vB);
-            matrix.plusVec2(dv1, matrix.crossNumVec2(temp, wB, vcp1.rB));
-            matrix.minusVec2(dv1, vA);
-            matrix.minusVec2(dv1, matrix.crossNumVec2(temp, wA, vcp1.rA));
-
-            // Compute normal velocity
-            vn1 = matrix.dotVec2(dv1, normal);
-
-            _ASSERT && console.assert(math_abs(vn1 - vcp1.velocityBias) < k_errorTol);
-          }
-          break;
-        }
+      // Compute normal impulse
+      const vn = matrix.dotVec2(dv, normal);
+      let lambda = -vcp.normalMass * (vn + this.v_restitution * vcp.relativeVelocity);
 
-        //
-        // Case 3: vn2 = 0 and x1 = 0
-        //
-        // vn1 = a11 * 0 + a12 * x2 + b1'
-        // 0 = a21 * 0 + a22 * x2 + b2'
-        //
-        x[0] = 0.0;
-        x[1] = -vcp2.normalMass * b[1];
-        vn1 = this.v_K.ey[0] * x[1] + b[0];
-        vn2 = 0.0;
-
-        if (x[1] >= 0.0 && vn1 >= 0.0) {
-          // Resubstitute for the incremental impulse
-          matrix.subVec2(d, x, a);
-
-          // Apply incremental impulse
-          matrix.scaleVec2(P1, d[0], normal);
-          matrix.scaleVec2(P2, d[1], normal);
-
-          // vA.subCombine(mA, P1, mA, P2);
-          matrix.combine3Vec2(vA, -mA, P1, -mA, P2, 1, vA);
-          wA -= iA * (matrix.crossVec2Vec2(vcp1.rA, P1) + matrix.crossVec2Vec2(vcp2.rA, P2));
-
-          // vB.addCombine(mB, P1, mB, P2);
-          matrix.combine3Vec2(vB, mB, P1, mB, P2, 1, vB);
-          wB += iB * (matrix.crossVec2Vec2(vcp1.rB, P1) + matrix.crossVec2Vec2(vcp2.rB, P2));
-
-          // Accumulate
-          vcp1.normalImpulse = x[0];
-          vcp2.normalImpulse = x[1];
-
-          if (DEBUG_SOLVER) {
-            // Postconditions
-            matrix.zeroVec2(dv2);
-            matrix.plusVec2(dv2, vB);
-            matrix.plusVec2(dv2, matrix.crossNumVec2(temp, wB, vcp2.rB));
-            matrix.minusVec2(dv2, vA);
-            matrix.minusVec2(dv2, matrix.crossNumVec2(temp, wA, vcp2.rA));
-
-            // Compute normal velocity
-            vn2 = matrix.dotVec2(dv2, normal);
-
-            _ASSERT && console.assert(math_abs(vn2 - vcp2.velocityBias) < k_errorTol);
-          }
-          break;
-        }
+      // Clamp the accumulated impulse
+      const newImpulse = math_max(vcp.normalImpulse + lambda, 0.0);
+      lambda = newImpulse - vcp.normalImpulse;
+      vcp.normalImpulse = newImpulse;
+      vcp.maxNormalImpulse = math_max(vcp.maxNormalImpulse, lambda);
 
-        //
-        // Case 4: x1 = 0 and x2 = 0
-        //
-        // vn1 = b1
-        // vn2 = b2;
-        //
-        x[0] = 0.0;
-        x[1] = 0.0;
-        vn1 = b[0];
-        vn2 = b[1];
-
-        if (vn1 >= 0.0 && vn2 >= 0.0) {
-          // Resubstitute for the incremental impulse
-          matrix.subVec2(d, x, a);
-
-          // Apply incremental impulse
-          matrix.scaleVec2(P1, d[0], normal);
-          matrix.scaleVec2(P2, d[1], normal);
-
-          // vA.subCombine(mA, P1, mA, P2);
-          matrix.combine3Vec2(vA, -mA, P1, -mA, P2, 1, vA);
-          wA -= iA * (matrix.crossVec2Vec2(vcp1.rA, P1) + matrix.crossVec2Vec2(vcp2.rA, P2));
-
-          // vB.addCombine(mB, P1, mB, P2);
-          matrix.combine3Vec2(vB, mB, P1, mB, P2, 1, vB);
-          wB += iB * (matrix.crossVec2Vec2(vcp1.rB, P1) + matrix.crossVec2Vec2(vcp2.rB, P2));
-
-          // Accumulate
-          vcp1.normalImpulse = x[0];
-          vcp2.normalImpulse = x[1];
-
-          break;
-        }
+      // Apply contact impulse
+      matrix.scaleVec2(P, lambda, normal);
 
-        // No solution, give up. This is hit sometimes, but it doesn't seem to
-        // matter.
-        break;
-      }
+      matrix.minusScaleVec2(vA, mA, P);
+      wA -= iA * matrix.crossVec2Vec2(vcp.rA, P);
+
+      matrix.plusScaleVec2(vB, mB, P);
+      wB += iB * matrix.crossVec2Vec2(vcp.rB, P);
     }
 
     matrix.copyVec2(velocityA.v, vA);
     velocityA.w = wA;
-
     matrix.copyVec2(velocityB.v, vB);
     velocityB.w = wB;
   }
 
+  solveVelocityConstraint(step: TimeStep): void {
+    const fixtureA = this.m_fixtureA;
+    const fixtureB = this.m_fixtureB;
+    if (fixtureA === null || fixtureB === null) return;
+    const bodyA = fixtureA.m_body;
+    const bodyB = fixtureB.m_body;
+    if (bodyA === null || bodyB === null) return;
+
+    solveContactVelocity(this.m_storage, bodyA.m_storage, this.m_storageId, step.blockSolve);
+  }
+
   /** @internal */
   static addType(type1: ShapeType, type2: ShapeType, callback: EvaluateFunction): void {
     s_registers[type1] = s_registers[type1] || {};
@@ -1313,11 +1296,18 @@ export class Contact {
   }
 
   /** @internal */
-  static create(fixtureA: Fixture, indexA: number, fixtureB: Fixture, indexB: number): Contact | null {
+  static getEvaluateFunction(typeA: ShapeType, typeB: ShapeType): EvaluateFunction | null {
+    return s_registers[typeA] && s_registers[typeA][typeB] || null;
+  }
+
+  /** @internal */
+  static create<BodyData, FixtureData, JointData>(
+    fixtureA: Fixture<BodyData, FixtureData, JointData>, indexA: number, fixtureB: Fixture<BodyData, FixtureData, JointData>, indexB: number
+  ): Contact<BodyData, FixtureData, JointData> | null {
     const typeA = fixtureA.m_shape.m_type;
     const typeB = fixtureB.m_shape.m_type;
 
-    const contact = contactPool.allocate();
+    const contact = contactPool.allocate() as Contact<BodyData, FixtureData, JointData>;
     let evaluateFcn;
     if (evaluateFcn = s_registers[typeA] && s_registers[typeA][typeB]) {
       contact.initialize(fixtureA, indexA, fixtureB, indexB, evaluateFcn);
@@ -1330,42 +1320,111 @@ export class Contact {
     // Contact creation may swap fixtures.
     fixtureA = contact.m_fixtureA;
     fixtureB = contact.m_fixtureB;
-    indexA = contact.getChildIndexA();
-    indexB = contact.getChildIndexB();
     const bodyA = fixtureA.m_body;
     const bodyB = fixtureB.m_body;
 
+    contact.connect();
+
+    // Wake up the bodies
+    if (fixtureA.isSensor() == false && fixtureB.isSensor() == false) {
+      bodyA.setAwake(true);
+      bodyB.setAwake(true);
+    }
+
+    return contact;
+  }
+
+  /** @internal Connect to the contact lists of both bodies. */
+  connect(): void {
+    const bodyA = this.m_fixtureA.m_body;
+    const bodyB = this.m_fixtureB.m_body;
+
     // Connect to body A
-    contact.m_nodeA.contact = contact;
-    contact.m_nodeA.other = bodyB;
+    this.m_nodeA.contact = this;
+    this.m_nodeA.other = bodyB;
 
-    contact.m_nodeA.prev = null;
-    contact.m_nodeA.next = bodyA.m_contactList;
+    this.m_nodeA.prev = null;
+    this.m_nodeA.next = bodyA.m_contactList;
     if (bodyA.m_contactList != null) {
-      bodyA.m_contactList.prev = contact.m_nodeA;
+      bodyA.m_contactList.prev = this.m_nodeA;
     }
-    bodyA.m_contactList = contact.m_nodeA;
+    bodyA.m_contactList = this.m_nodeA;
 
     // Connect to body B
-    contact.m_nodeB.contact = contact;
-    contact.m_nodeB.other = bodyA;
+    this.m_nodeB.contact = this;
+    this.m_nodeB.other = bodyA;
 
-    contact.m_nodeB.prev = null;
-    contact.m_nodeB.next = bodyB.m_contactList;
+    this.m_nodeB.prev = null;
+    this.m_nodeB.next = bodyB.m_contactList;
     if (bodyB.m_contactList != null) {
-      bodyB.m_contactList.prev = contact.m_nodeB;
+      bodyB.m_contactList.prev = this.m_nodeB;
     }
-    bodyB.m_contactList = contact.m_nodeB;
+    bodyB.m_contactList = this.m_nodeB;
+  }
 
-    // Wake up the bodies
-    if (fixtureA.isSensor() == false && fixtureB.isSensor() == false) {
-      bodyA.setAwake(true);
-      bodyB.setAwake(true);
-    }
+  /** @internal */
+  _saveState(fixtureA: number, fixtureB: number): ContactState {
+    return {
+      fixtureA,
+      indexA: this.m_indexA,
+      fixtureB,
+      indexB: this.m_indexB,
+      manifold: this.m_manifold._saveState(),
+      toi: this.m_toi,
+      toiCount: this.m_toiCount,
+      toiFlag: this.m_toiFlag,
+      friction: this.m_friction,
+      restitution: this.m_restitution,
+      tangentSpeed: this.m_tangentSpeed,
+      enabled: this.m_enabledFlag,
+      island: this.m_islandFlag,
+      touching: this.m_touchingFlag,
+      filter: this.m_filterFlag,
+      bulletHit: this.m_bulletHitFlag,
+    };
+  }
 
+  /**
+   * @internal
+   * Recreate a saved contact. Unlike {@link Contact.create} fixtures are not
+   * swapped, bodies are not woken up and no callbacks are called.
+   */
+  static _restoreState<BodyData, FixtureData, JointData>(
+    state: ContactState, fixtureA: Fixture<BodyData, FixtureData, JointData>, fixtureB: Fixture<BodyData, FixtureData, JointData>
+  ): Contact<BodyData, FixtureData, JointData> {
+    const typeA = fixtureA.m_shape.m_type;
+    const typeB = fixtureB.m_shape.m_type;
+    const evaluateFcn = s_registers[typeA] && s_registers[typeA][typeB];
+    _ASSERT && console.assert(!!evaluateFcn);
+
+    const contact = contactPool.allocate() as Contact<BodyData, FixtureData, JointData>;
+    contact.initialize(fixtureA, state.indexA, fixtureB, state.indexB, evaluateFcn);
+    contact.connect();
+
+    contact.m_manifold._restoreState(state.manifold);
+    contact.m_toi = state.toi;
+    contact.m_toiCount = state.toiCount;
+    contact.m_toiFlag = state.toiFlag;
+    contact.m_friction = state.friction;
+    contact.m_restitution = state.restitution;
+    contact.m_tangentSpeed = state.tangentSpeed;
+    contact.m_enabledFlag = state.enabled;
+    contact.m_islandFlag = state.island;
+    contact.m_touchingFlag = state.touching;
+    contact.m_filterFlag = state.filter;
+    contact.m_bulletHitFlag = state.bulletHit;
     return contact;
   }
 
+  /**
+   * @internal
+   * Return a contact to the pool without calling listeners or waking bodies.
+   * Body contact lists must be reset by the caller.
+   */
+  static _discard(contact: Contact): void {
+    contactPool.release(contact);
+  }
+
   /** @internal */
   static destroy(contact: Contact, listener: { endContact: (contact: Contact) => void }): void {
     const fixtureA = contact.m_fixtureA;
@@ -0,0 +1,188 @@
+/*
+ * Planck.js
+ * The MIT License
+ * Copyright (c) 2021 Erin Catto, Ali Shakiba
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type { Fixture } from './Fixture';
+import type { Vec2Value } from '../common/Vec2';
+import type { WorldManifold } from '../collision/Manifold';
+
+
+/**
+ * Contact events of one kind collected during a time step, see
+ * {@link World.getContactEvents}.
+ *
+ * Event `i` is between `fixtureA[i]` and `fixtureB[i]`. Its world normal, which
+ * points from A to B, is `normal[2 * i]`, `normal[2 * i + 1]`, and its world
+ * contact points are `points[4 * i]` to `points[4 * i + 3]`, of which the first
+ * `pointCount[i]` are valid.
+ *
+ * Typed arrays may be larger than `count` and are reused in the next step.
+ */
+export class ContactEventBuffer {
+  /** Number of events */
+  count: number = 0;
+  fixtureA: Fixture[] = [];
+  fixtureB: Fixture[] = [];
+  normal: Float64Array = new Float64Array(2 * 16);
+  points: Float64Array = new Float64Array(4 * 16);
+  pointCount: Uint8Array = new Uint8Array(16);
+
+  /** @internal */
+  push(fixtureA: Fixture, fixtureB: Fixture, manifold: WorldManifold | null): void {
+    const i = this.count;
+    if (i >= this.pointCount.length) {
+      this.grow(2 * this.pointCount.length);
+    }
+    this.fixtureA[i] = fixtureA;
+    this.fixtureB[i] = fixtureB;
+
+    const pointCount = manifold ? manifold.pointCount : 0;
+    this.pointCount[i] = pointCount;
+    this.normal[2 * i] = pointCount ? manifold.normal[0] : 0;
+    this.normal[2 * i + 1] = pointCount ? manifold.normal[1] : 0;
+    for (let j = 0; j < 2; ++j) {
+      this.points[4 * i + 2 * j] = j < pointCount ? manifold.points[j][0] : 0;
+      this.points[4 * i + 2 * j + 1] = j < pointCount ? manifold.points[j][1] : 0;
+    }
+    this.count++;
+  }
+
+  /** @internal */
+  grow(capacity: number): void {
+    const normal = new Float64Array(2 * capacity);
+    normal.set(this.normal);
+    this.normal = normal;
+
+    const points = new Float64Array(4 * capacity);
+    points.set(this.points);
+    this.points = points;
+
+    const pointCount = new Uint8Array(capacity);
+    pointCount.set(this.pointCount);
+    this.pointCount = pointCount;
+  }
+
+  /** @internal */
+  clear(): void {
+    this.count = 0;
+    this.fixtureA.length = 0;
+    this.fixtureB.length = 0;
+  }
+}
+
+/**
+ * Hit events collected during a time step, see {@link ContactEvents.hit}.
+ *
+ * Event `i` is between `fixtureA[i]` and `fixtureB[i]`. Its world point is
+ * `point[2 * i]`, `point[2 * i + 1]`, its world normal, which points from A to
+ * B, is `normal[2 * i]`, `normal[2 * i + 1]`, and the approach speed of the
+ * fixtures at the point is `approachSpeed[i]`.
+ *
+ * Typed arrays may be larger than `count` and are reused in the next step.
+ */
+export class ContactHitEventBuffer {
+  /** Number of events */
+  count: number = 0;
+  fixtureA: Fixture[] = [];
+  fixtureB: Fixture[] = [];
+  point: Float64Array = new Float64Array(2 * 16);
+  normal: Float64Array = new Float64Array(2 * 16);
+  approachSpeed: Float64Array = new Float64Array(16);
+
+  /** @internal */
+  push(fixtureA: Fixture, fixtureB: Fixture, point: Vec2Value, normal: Vec2Value, approachSpeed: number): void {
+    const i = this.count;
+    if (i >= this.approachSpeed.length) {
+      this.grow(2 * this.approachSpeed.length);
+    }
+    this.fixtureA[i] = fixtureA;
+    this.fixtureB[i] = fixtureB;
+    this.point[2 * i] = point[0];
+    this.point[2 * i + 1] = point[1];
+    this.normal[2 * i] = normal[0];
+    this.normal[2 * i + 1] = normal[1];
+    this.approachSpeed[i] = approachSpeed;
+    this.count++;
+  }
+
+  /** @internal */
+  grow(capacity: number): void {
+    const point = new Float64Array(2 * capacity);
+    point.set(this.point);
+    this.point = point;
+
+    const normal = new Float64Array(2 * capacity);
+    normal.set(this.normal);
+    this.normal = normal;
+
+    const approachSpeed = new Float64Array(capacity);
+    approachSpeed.set(this.approachSpeed);
+    this.approachSpeed = approachSpeed;
+  }
+
+  /** @internal */
+  clear(): void {
+    this.count = 0;
+    this.fixtureA.length = 0;
+    this.fixtureB.length = 0;
+  }
+}
+
+/**
+ * Contact events collected during the last time step, see
+ * {@link World.getContactEvents}.
+ */
+export class ContactEvents {
+  /** Solid fixtures which started touching */
+  begin = new ContactEventBuffer();
+  /**
+   * Solid fixtures which stopped touching, with the last manifold in which they
+   * were touching. Contacts which are destroyed while touching during the step
+   * are included.
+   */
+  end = new ContactEventBuffer();
+  /**
+   * A fixture `fixtureB` started overlapping a sensor fixture `fixtureA`, no
+   * contact points, see {@link Fixture.getSensorOverlaps}.
+   */
+  sensorBegin = new ContactEventBuffer();
+  /**
+   * A fixture `fixtureB` stopped overlapping a sensor fixture `fixtureA`, no
+   * contact points.
+   */
+  sensorEnd = new ContactEventBuffer();
+  /**
+   * Solid fixtures which started touching with a normal approach speed above
+   * the hit event threshold of either fixture, reported by the contact solver.
+   */
+  hit = new ContactHitEventBuffer();
+
+  /** @internal */
+  clear(): void {
+    this.begin.clear();
+    this.end.clear();
+    this.sensorBegin.clear();
+    this.sensorEnd.clear();
+    this.hit.clear();
+  }
+}
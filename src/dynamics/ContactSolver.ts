@@ -0,0 +1,682 @@
+/*
+ * Planck.js
+ * The MIT License
+ * Copyright (c) 2021 Erin Catto, Ali Shakiba
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/*
+ * Contact solver of the default solver, on the arrays of a BodyStorage and a
+ * ContactStorage. Contact and Solver call these functions on the main thread,
+ * and worker threads of an IslandWorkerPool run the same functions.
+ *
+ * The source of these functions is evaluated in the workers, see
+ * getIslandWorkerSource, so they may only use their arguments, each other and
+ * globals. Temporaries are local variables, so each thread has its own.
+ */
+
+
+/** Arrays of a {@link BodyStorage} which are used by the contact solver. */
+export interface ContactSolverBodies {
+  position: Float64Array;
+  velocity: Float64Array;
+}
+
+/** Arrays of a {@link ContactStorage} which are used by the contact solver. */
+export interface ContactSolverContacts {
+  bodies: Int32Array;
+  pointCount: Int32Array;
+  normal: Float64Array;
+  normalMass: Float64Array;
+  K: Float64Array;
+  mass: Float64Array;
+  material: Float64Array;
+  points: Float64Array;
+  manifold: Float64Array;
+  type: Int32Array;
+  pointStride: number;
+  manifoldStride: number;
+}
+
+/**
+ * The `parentPort` of the `worker_threads` module in a worker thread of an
+ * {@link IslandWorkerPool}.
+ */
+export interface IslandWorkerPort {
+  on(event: 'message', listener: (job: IslandWorkerJob) => void): void;
+}
+
+/** A message from an {@link IslandWorkerPool} to one of its workers. */
+export interface IslandWorkerJob {
+  bodies: ContactSolverBodies;
+  contacts: ContactSolverContacts;
+  /**
+   * Island count, then for each island the result index, body count, contact
+   * count, body storage ids and contact storage ids.
+   */
+  islands: Int32Array;
+  /** Time step, see {@link solveContactIsland}. */
+  step: Float64Array;
+  /** Position solved flags by result index. */
+  results: Int32Array;
+  /** Number of finished jobs, and an error flag. */
+  control: Int32Array;
+}
+
+/**
+ * @internal
+ * Apply the accumulated impulses of a contact to the velocities of its bodies.
+ */
+export function warmStartContact(contacts: ContactSolverContacts, bodies: ContactSolverBodies, id: number): void {
+  const velocity = bodies.velocity;
+  const points = contacts.points;
+  const pointStride = contacts.pointStride;
+
+  const a3 = 3 * contacts.bodies[2 * id];
+  const b3 = 3 * contacts.bodies[2 * id + 1];
+  const mA = contacts.mass[4 * id];
+  const iA = contacts.mass[4 * id + 1];
+  const mB = contacts.mass[4 * id + 2];
+  const iB = contacts.mass[4 * id + 3];
+
+  let vAx = velocity[a3];
+  let vAy = velocity[a3 + 1];
+  let wA = velocity[a3 + 2];
+  let vBx = velocity[b3];
+  let vBy = velocity[b3 + 1];
+  let wB = velocity[b3 + 2];
+
+  const nx = contacts.normal[2 * id];
+  const ny = contacts.normal[2 * id + 1];
+  const tx = ny;
+  const ty = -nx;
+
+  for (let j = 0; j < contacts.pointCount[2 * id]; ++j) {
+    const p = (2 * id + j) * pointStride;
+    const Px = points[p + 4] * nx + points[p + 5] * tx;
+    const Py = points[p + 4] * ny + points[p + 5] * ty;
+
+    wA -= iA * (points[p] * Py - points[p + 1] * Px);
+    vAx -= mA * Px;
+    vAy -= mA * Py;
+    wB += iB * (points[p + 2] * Py - points[p + 3] * Px);
+    vBx += mB * Px;
+    vBy += mB * Py;
+  }
+
+  // Bodies without mass are not written, static bodies are shared by islands.
+  if (mA !== 0.0 || iA !== 0.0) {
+    velocity[a3] = vAx;
+    velocity[a3 + 1] = vAy;
+    velocity[a3 + 2] = wA;
+  }
+  if (mB !== 0.0 || iB !== 0.0) {
+    velocity[b3] = vBx;
+    velocity[b3 + 1] = vBy;
+    velocity[b3 + 2] = wB;
+  }
+}
+
+/**
+ * @internal
+ * Solve the friction and normal velocity constraints of a contact.
+ */
+export function solveContactVelocity(contacts: ContactSolverContacts, bodies: ContactSolverBodies, id: number, blockSolve: boolean): void {
+  const velocity = bodies.velocity;
+  const points = contacts.points;
+  const pointStride = contacts.pointStride;
+  const K = contacts.K;
+  const normalMass = contacts.normalMass;
+
+  const a3 = 3 * contacts.bodies[2 * id];
+  const b3 = 3 * contacts.bodies[2 * id + 1];
+  const mA = contacts.mass[4 * id];
+  const iA = contacts.mass[4 * id + 1];
+  const mB = contacts.mass[4 * id + 2];
+  const iB = contacts.mass[4 * id + 3];
+
+  let vAx = velocity[a3];
+  let vAy = velocity[a3 + 1];
+  let wA = velocity[a3 + 2];
+  let vBx = velocity[b3];
+  let vBy = velocity[b3 + 1];
+  let wB = velocity[b3 + 2];
+
+  const nx = contacts.normal[2 * id];
+  const ny = contacts.normal[2 * id + 1];
+  const tx = ny;
+  const ty = -nx;
+  const friction = contacts.material[3 * id];
+  const tangentSpeed = contacts.material[3 * id + 2];
+  const count = contacts.pointCount[2 * id];
+
+  // Solve tangent constraints first because non-penetration is more important
+  // than friction.
+  for (let j = 0; j < count; ++j) {
+    const p = (2 * id + j) * pointStride;
+
+    // Relative velocity at contact
+    const dvx = vBx + -wB * points[p + 3] - vAx - -wA * points[p + 1];
+    const dvy = vBy + wB * points[p + 2] - vAy - wA * points[p];
+
+    // Compute tangent force
+    const vt = dvx * tx + dvy * ty - tangentSpeed;
+    let lambda = points[p + 7] * (-vt);
+
+    // Clamp the accumulated force
+    const maxFriction = friction * points[p + 4];
+    let newImpulse = points[p + 5] + lambda;
+    newImpulse = newImpulse < -maxFriction ? -maxFriction : newImpulse > maxFriction ? maxFriction : newImpulse;
+    lambda = newImpulse - points[p + 5];
+    points[p + 5] = newImpulse;
+
+    // Apply contact impulse
+    const Px = lambda * tx;
+    const Py = lambda * ty;
+
+    vAx -= mA * Px;
+    vAy -= mA * Py;
+    wA -= iA * (points[p] * Py - points[p + 1] * Px);
+
+    vBx += mB * Px;
+    vBy += mB * Py;
+    wB += iB * (points[p + 2] * Py - points[p + 3] * Px);
+  }
+
+  // Solve normal constraints
+  if (count == 1 || !blockSolve) {
+    for (let j = 0; j < count; ++j) {
+      const p = (2 * id + j) * pointStride;
+
+      // Relative velocity at contact
+      const dvx = vBx + -wB * points[p + 3] - vAx - -wA * points[p + 1];
+      const dvy = vBy + wB * points[p + 2] - vAy - wA * points[p];
+
+      // Compute normal impulse
+      const vn = dvx * nx + dvy * ny;
+      let lambda = -points[p + 6] * (vn - points[p + 8]);
+
+      // Clamp the accumulated impulse
+      const newImpulse = Math.max(points[p + 4] + lambda, 0.0);
+      lambda = newImpulse - points[p + 4];
+      points[p + 4] = newImpulse;
+
+      // Apply contact impulse
+      const Px = lambda * nx;
+      const Py = lambda * ny;
+
+      vAx -= mA * Px;
+      vAy -= mA * Py;
+      wA -= iA * (points[p] * Py - points[p + 1] * Px);
+
+      vBx += mB * Px;
+      vBy += mB * Py;
+      wB += iB * (points[p + 2] * Py - points[p + 3] * Px);
+    }
+  } else {
+    // Block solver developed in collaboration with Dirk Gregorius (back in
+    // 01/07 on Box2D_Lite).
+    // Build the mini LCP for this contact patch
+    //
+    // vn = A * x + b, vn >= 0, x >= 0 and vn_i * x_i = 0 with i = 1..2
+    //
+    // A = J * W * JT and J = ( -n, -r1 x n, n, r2 x n )
+    // b = vn0 - velocityBias
+    //
+    // The system is solved using the "Total enumeration method" (s. Murty).
+    // The complementary constraint vn_i * x_i
+    // implies that we must have in any solution either vn_i = 0 or x_i = 0.
+    // So for the 2D contact problem the cases
+    // vn1 = 0 and vn2 = 0, x1 = 0 and x2 = 0, x1 = 0 and vn2 = 0, x2 = 0 and
+    // vn1 = 0 need to be tested. The first valid
+    // solution that satisfies the problem is chosen.
+    //
+    // In order to account of the accumulated impulse 'a' (because of the
+    // iterative nature of the solver which only requires
+    // that the accumulated impulse is clamped and not the incremental
+    // impulse) we change the impulse variable (x_i).
+    //
+    // Substitute:
+    //
+    // x = a + d
+    //
+    // a := old total impulse
+    // x := new total impulse
+    // d := incremental impulse
+    //
+    // For the current iteration we extend the formula for the incremental
+    // impulse
+    // to compute the new total impulse:
+    //
+    // vn = A * d + b
+    // = A * (x - a) + b
+    // = A * x + b - A * a
+    // = A * x + b'
+    // b' = b - A * a;
+
+    const p1 = 2 * id * pointStride;
+    const p2 = p1 + pointStride;
+
+    const ax = points[p1 + 4];
+    const ay = points[p2 + 4];
+
+    // Relative velocity at contact
+    const dv1x = vBx + -wB * points[p1 + 3] - vAx - -wA * points[p1 + 1];
+    const dv1y = vBy + wB * points[p1 + 2] - vAy - wA * points[p1];
+    const dv2x = vBx + -wB * points[p2 + 3] - vAx - -wA * points[p2 + 1];
+    const dv2y = vBy + wB * points[p2 + 2] - vAy - wA * points[p2];
+
+    // Compute normal velocity
+    let vn1 = dv1x * nx + dv1y * ny;
+    let vn2 = dv2x * nx + dv2y * ny;
+
+    let bx = vn1 - points[p1 + 8];
+    let by = vn2 - points[p2 + 8];
+
+    // Compute b'
+    bx -= K[4 * id] * ax + K[4 * id + 2] * ay;
+    by -= K[4 * id + 1] * ax + K[4 * id + 3] * ay;
+
+    let solved = true;
+
+    // Case 1: vn = 0
+    //
+    // 0 = A * x + b'
+    //
+    // Solve for x:
+    //
+    // x = - inv(A) * b'
+    let xx = -(normalMass[4 * id] * bx + normalMass[4 * id + 2] * by);
+    let xy = -(normalMass[4 * id + 1] * bx + normalMass[4 * id + 3] * by);
+    if (!(xx >= 0.0 && xy >= 0.0)) {
+      // Case 2: vn1 = 0 and x2 = 0
+      //
+      // 0 = a11 * x1 + a12 * 0 + b1'
+      // vn2 = a21 * x1 + a22 * 0 + b2'
+      xx = -points[p1 + 6] * bx;
+      xy = 0.0;
+      vn1 = 0.0;
+      vn2 = K[4 * id + 1] * xx + by;
+      if (!(xx >= 0.0 && vn2 >= 0.0)) {
+        // Case 3: vn2 = 0 and x1 = 0
+        //
+        // vn1 = a11 * 0 + a12 * x2 + b1'
+        // 0 = a21 * 0 + a22 * x2 + b2'
+        xx = 0.0;
+        xy = -points[p2 + 6] * by;
+        vn1 = K[4 * id + 2] * xy + bx;
+        vn2 = 0.0;
+        if (!(xy >= 0.0 && vn1 >= 0.0)) {
+          // Case 4: x1 = 0 and x2 = 0
+          //
+          // vn1 = b1
+          // vn2 = b2;
+          xx = 0.0;
+          xy = 0.0;
+          vn1 = bx;
+          vn2 = by;
+          // No solution, give up. This is hit sometimes, but it doesn't seem
+          // to matter.
+          solved = vn1 >= 0.0 && vn2 >= 0.0;
+        }
+      }
+    }
+
+    if (solved) {
+      // Get the incremental impulse
+      const dx = xx - ax;
+      const dy = xy - ay;
+
+      // Apply incremental impulse
+      const P1x = dx * nx;
+      const P1y = dx * ny;
+      const P2x = dy * nx;
+      const P2y = dy * ny;
+
+      vAx = -mA * P1x + -mA * P2x + vAx;
+      vAy = -mA * P1y + -mA * P2y + vAy;
+      wA -= iA * ((points[p1] * P1y - points[p1 + 1] * P1x) + (points[p2] * P2y - points[p2 + 1] * P2x));
+
+      vBx = mB * P1x + mB * P2x + vBx;
+      vBy = mB * P1y + mB * P2y + vBy;
+      wB += iB * ((points[p1 + 2] * P1y - points[p1 + 3] * P1x) + (points[p2 + 2] * P2y - points[p2 + 3] * P2x));
+
+      // Accumulate
+      points[p1 + 4] = xx;
+      points[p2 + 4] = xy;
+    }
+  }
+
+  if (mA !== 0.0 || iA !== 0.0) {
+    velocity[a3] = vAx;
+    velocity[a3 + 1] = vAy;
+    velocity[a3 + 2] = wA;
+  }
+  if (mB !== 0.0 || iB !== 0.0) {
+    velocity[b3] = vBx;
+    velocity[b3 + 1] = vBy;
+    velocity[b3 + 2] = wB;
+  }
+}
+
+/**
+ * @internal
+ * Solve the position constraint of a contact. Bodies which are not movable
+ * are treated as static, as in time of impact sub-steps.
+ *
+ * @returns the minimum separation of the contact points.
+ */
+export function solveContactPosition(
+  contacts: ContactSolverContacts,
+  bodies: ContactSolverBodies,
+  id: number,
+  baumgarte: number,
+  linearSlop: number,
+  maxLinearCorrection: number,
+  movableA: boolean,
+  movableB: boolean
+): number {
+  const position = bodies.position;
+  const manifold = contacts.manifold;
+
+  const a3 = 3 * contacts.bodies[2 * id];
+  const b3 = 3 * contacts.bodies[2 * id + 1];
+  const mA = movableA ? contacts.mass[4 * id] : 0.0;
+  const iA = movableA ? contacts.mass[4 * id + 1] : 0.0;
+  const mB = movableB ? contacts.mass[4 * id + 2] : 0.0;
+  const iB = movableB ? contacts.mass[4 * id + 3] : 0.0;
+
+  const m = id * contacts.manifoldStride;
+  const localCenterAx = manifold[m + 8];
+  const localCenterAy = manifold[m + 9];
+  const localCenterBx = manifold[m + 10];
+  const localCenterBy = manifold[m + 11];
+  const radiusA = manifold[m + 12];
+  const radiusB = manifold[m + 13];
+  const type = contacts.type[id];
+
+  let cAx = position[a3];
+  let cAy = position[a3 + 1];
+  let aA = position[a3 + 2];
+  let cBx = position[b3];
+  let cBy = position[b3 + 1];
+  let aB = position[b3 + 2];
+
+  let minSeparation = 0.0;
+
+  // Solve normal constraints
+  for (let j = 0; j < contacts.pointCount[2 * id + 1]; ++j) {
+    const qAc = Math.cos(aA);
+    const qAs = Math.sin(aA);
+    const pAx = cAx - (qAc * localCenterAx - qAs * localCenterAy);
+    const pAy = cAy - (qAs * localCenterAx + qAc * localCenterAy);
+
+    const qBc = Math.cos(aB);
+    const qBs = Math.sin(aB);
+    const pBx = cBx - (qBc * localCenterBx - qBs * localCenterBy);
+    const pBy = cBy - (qBs * localCenterBx + qBc * localCenterBy);
+
+    // PositionSolverManifold
+    let nx: number;
+    let ny: number;
+    let px: number;
+    let py: number;
+    let separation: number;
+    if (type == 0) {
+      // ManifoldType.e_circles
+      const pointAx = qAc * manifold[m + 6] - qAs * manifold[m + 7] + pAx;
+      const pointAy = qAs * manifold[m + 6] + qAc * manifold[m + 7] + pAy;
+      const pointBx = qBc * manifold[m] - qBs * manifold[m + 1] + pBx;
+      const pointBy = qBs * manifold[m] + qBc * manifold[m + 1] + pBy;
+      nx = pointBx - pointAx;
+      ny = pointBy - pointAy;
+      const length = Math.sqrt(nx * nx + ny * ny);
+      if (length > 0) {
+        const invLength = 1 / length;
+        nx *= invLength;
+        ny *= invLength;
+      }
+
+      px = 0.5 * pointAx + 0.5 * pointBx;
+      py = 0.5 * pointAy + 0.5 * pointBy;
+      separation = (pointBx * nx + pointBy * ny) - (pointAx * nx + pointAy * ny) - radiusA - radiusB;
+
+    } else if (type == 1) {
+      // ManifoldType.e_faceA
+      nx = qAc * manifold[m + 4] - qAs * manifold[m + 5];
+      ny = qAs * manifold[m + 4] + qAc * manifold[m + 5];
+      const planePointx = qAc * manifold[m + 6] - qAs * manifold[m + 7] + pAx;
+      const planePointy = qAs * manifold[m + 6] + qAc * manifold[m + 7] + pAy;
+      const clipPointx = qBc * manifold[m + 2 * j] - qBs * manifold[m + 2 * j + 1] + pBx;
+      const clipPointy = qBs * manifold[m + 2 * j] + qBc * manifold[m + 2 * j + 1] + pBy;
+      separation = (clipPointx * nx + clipPointy * ny) - (planePointx * nx + planePointy * ny) - radiusA - radiusB;
+      px = clipPointx;
+      py = clipPointy;
+
+    } else if (type == 2) {
+      // ManifoldType.e_faceB
+      nx = qBc * manifold[m + 4] - qBs * manifold[m + 5];
+      ny = qBs * manifold[m + 4] + qBc * manifold[m + 5];
+      const planePointx = qBc * manifold[m + 6] - qBs * manifold[m + 7] + pBx;
+      const planePointy = qBs * manifold[m + 6] + qBc * manifold[m + 7] + pBy;
+      const clipPointx = qAc * manifold[m + 2 * j] - qAs * manifold[m + 2 * j + 1] + pAx;
+      const clipPointy = qAs * manifold[m + 2 * j] + qAc * manifold[m + 2 * j + 1] + pAy;
+      separation = (clipPointx * nx + clipPointy * ny) - (planePointx * nx + planePointy * ny) - radiusA - radiusB;
+      px = clipPointx;
+      py = clipPointy;
+
+      // Ensure normal points from A to B
+      nx = -nx;
+      ny = -ny;
+
+    } else {
+      // todo: what should we do here?
+      return minSeparation;
+    }
+
+    const rAx = px - cAx;
+    const rAy = py - cAy;
+    const rBx = px - cBx;
+    const rBy = py - cBy;
+
+    // Track max constraint error.
+    minSeparation = Math.min(minSeparation, separation);
+
+    // Prevent large corrections and allow slop.
+    let C = baumgarte * (separation + linearSlop);
+    C = C < -maxLinearCorrection ? -maxLinearCorrection : C > 0.0 ? 0.0 : C;
+
+    // Compute the effective mass.
+    const rnA = rAx * ny - rAy * nx;
+    const rnB = rBx * ny - rBy * nx;
+    const k = mA + mB + iA * rnA * rnA + iB * rnB * rnB;
+
+    // Compute normal impulse
+    const impulse = k > 0.0 ? -C / k : 0.0;
+
+    const Px = impulse * nx;
+    const Py = impulse * ny;
+
+    cAx -= mA * Px;
+    cAy -= mA * Py;
+    aA -= iA * (rAx * Py - rAy * Px);
+
+    cBx += mB * Px;
+    cBy += mB * Py;
+    aB += iB * (rBx * Py - rBy * Px);
+  }
+
+  if (mA !== 0.0 || iA !== 0.0) {
+    position[a3] = cAx;
+    position[a3 + 1] = cAy;
+    position[a3 + 2] = aA;
+  }
+  if (mB !== 0.0 || iB !== 0.0) {
+    position[b3] = cBx;
+    position[b3 + 1] = cBy;
+    position[b3 + 2] = aB;
+  }
+
+  return minSeparation;
+}
+
+/**
+ * @internal
+ * Integrate the position of a body with its solver velocity. Large velocities
+ * are clamped to the maximum translation and rotation of a step.
+ */
+export function integratePosition(
+  bodies: ContactSolverBodies,
+  id: number,
+  h: number,
+  maxTranslation: number,
+  maxTranslationSquared: number,
+  maxRotation: number,
+  maxRotationSquared: number
+): void {
+  const position = bodies.position;
+  const velocity = bodies.velocity;
+  const i3 = 3 * id;
+
+  let vx = velocity[i3];
+  let vy = velocity[i3 + 1];
+  let w = velocity[i3 + 2];
+
+  // Check for large velocities
+  const translationx = h * vx;
+  const translationy = h * vy;
+  const translationLengthSqr = translationx * translationx + translationy * translationy;
+  if (translationLengthSqr > maxTranslationSquared) {
+    const ratio = maxTranslation / Math.sqrt(translationLengthSqr);
+    vx *= ratio;
+    vy *= ratio;
+  }
+
+  const rotation = h * w;
+  if (rotation * rotation > maxRotationSquared) {
+    const ratio = maxRotation / Math.abs(rotation);
+    w *= ratio;
+  }
+
+  // Integrate
+  position[i3] += h * vx;
+  position[i3 + 1] += h * vy;
+  position[i3 + 2] += h * w;
+
+  velocity[i3] = vx;
+  velocity[i3 + 1] = vy;
+  velocity[i3 + 2] = w;
+}
+
+/**
+ * @internal
+ * Solve an island without joints after its contact constraints are set up,
+ * in the same order as Solver.solveIslandConstraints: warm start, velocity
+ * iterations, integrate positions and position iterations.
+ *
+ * `step` holds dt, velocity iterations, position iterations, warm starting,
+ * block solve, linear slop, baumgarte, max linear correction, max
+ * translation and its square, max rotation and its square.
+ *
+ * @returns true if position errors are small.
+ */
+export function solveContactIsland(
+  contacts: ContactSolverContacts,
+  bodies: ContactSolverBodies,
+  island: Int32Array,
+  offset: number,
+  bodyCount: number,
+  contactCount: number,
+  step: Float64Array
+): boolean {
+  const contactOffset = offset + bodyCount;
+
+  if (step[3] !== 0) {
+    for (let i = 0; i < contactCount; ++i) {
+      warmStartContact(contacts, bodies, island[contactOffset + i]);
+    }
+  }
+
+  for (let i = 0; i < step[1]; ++i) {
+    for (let j = 0; j < contactCount; ++j) {
+      solveContactVelocity(contacts, bodies, island[contactOffset + j], step[4] !== 0);
+    }
+  }
+
+  for (let i = 0; i < bodyCount; ++i) {
+    integratePosition(bodies, island[offset + i], step[0], step[8], step[9], step[10], step[11]);
+  }
+
+  for (let i = 0; i < step[2]; ++i) {
+    let minSeparation = 0.0;
+    for (let j = 0; j < contactCount; ++j) {
+      const separation = solveContactPosition(contacts, bodies, island[contactOffset + j], step[6], step[5], step[7], true, true);
+      minSeparation = Math.min(minSeparation, separation);
+    }
+    // Exit early if the position errors are small.
+    if (minSeparation >= -3.0 * step[5]) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * @internal
+ * Entry point of worker threads. Each job is answered through its control
+ * array, the error flag is set if an island could not be solved.
+ */
+export function islandWorker(port: IslandWorkerPort): void {
+  port.on('message', function(job: IslandWorkerJob): void {
+    const control = job.control;
+    try {
+      const islands = job.islands;
+      let k = 1;
+      for (let i = 0; i < islands[0]; ++i) {
+        const bodyCount = islands[k + 1];
+        const contactCount = islands[k + 2];
+        const solved = solveContactIsland(job.contacts, job.bodies, islands, k + 3, bodyCount, contactCount, job.step);
+        job.results[islands[k]] = solved ? 1 : 0;
+        k += 3 + bodyCount + contactCount;
+      }
+    } catch (error) {
+      Atomics.store(control, 1, 1);
+    }
+    Atomics.add(control, 0, 1);
+    Atomics.notify(control, 0);
+  });
+}
+
+/**
+ * @internal
+ * Source code of worker threads of an {@link IslandWorkerPool}, made of the
+ * functions of this module.
+ */
+export function getIslandWorkerSource(): string {
+  const functions = [
+    warmStartContact,
+    solveContactVelocity,
+    solveContactPosition,
+    integratePosition,
+    solveContactIsland,
+    islandWorker,
+  ];
+  return functions.join('\n') + '\n(' + islandWorker + ')(require("worker_threads").parentPort);\n';
+}
@@ -0,0 +1,218 @@
+/*
+ * Planck.js
+ * The MIT License
+ * Copyright (c) 2021 Erin Catto, Ali Shakiba
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+
+import type { Vec2Value } from '../common/Vec2';
+import { ManifoldType } from '../collision/Manifold';
+import type { Contact } from './Contact';
+import { growFloat64, growInt32 } from './BodyStorage';
+
+
+/** Numbers of a velocity constraint point in {@link ContactStorage.points}. */
+export const CONTACT_POINT_STRIDE = 12;
+
+/** Numbers of a contact in {@link ContactStorage.manifold}. */
+export const CONTACT_MANIFOLD_STRIDE = 14;
+
+
+/**
+ * Constraint data of the contacts of a world in typed arrays, see
+ * {@link World.getContactStorage}. Each contact has a storage id, see
+ * {@link Contact.getStorageId}, and reads and writes its velocity and position
+ * constraints through handles into these arrays. Bodies are referenced by
+ * their id in the {@link BodyStorage} of the world.
+ *
+ * Entries are set up when contacts are solved, and are only meaningful for
+ * touching contacts in awake islands. Arrays are replaced when the storage
+ * grows, and when a worker pool is set, see {@link World.setWorkerPool}. Ids
+ * of destroyed contacts are reused.
+ */
+export class ContactStorage {
+  /** Number of ids in use or free, entries at larger ids are unused. */
+  count: number = 0;
+  /** Storage ids of body A and body B, `2 * id` and `2 * id + 1` */
+  bodies: Int32Array;
+  /** Number of velocity and position constraint points, `2 * id` and `2 * id + 1` */
+  pointCount: Int32Array;
+  /** World normal x, y, `2 * id` to `2 * id + 1` */
+  normal: Float64Array;
+  /** Inverse of K of the block solver ex.x, ex.y, ey.x, ey.y, `4 * id` to `4 * id + 3` */
+  normalMass: Float64Array;
+  /** Effective mass of the block solver ex.x, ex.y, ey.x, ey.y, `4 * id` to `4 * id + 3` */
+  K: Float64Array;
+  /** Inverse mass and inertia of body A, then of body B, `4 * id` to `4 * id + 3` */
+  mass: Float64Array;
+  /** Friction, restitution and tangent speed, `3 * id` to `3 * id + 2` */
+  material: Float64Array;
+  /**
+   * Bias rate, mass scale, impulse scale and maximum push velocity of the
+   * 'soft-step' solver, `4 * id` to `4 * id + 3`
+   */
+  softness: Float64Array;
+  /**
+   * Velocity constraint points, {@link CONTACT_POINT_STRIDE} numbers for each
+   * point `j` from `(2 * id + j) * CONTACT_POINT_STRIDE`: rA x, y, rB x, y,
+   * normal impulse, tangent impulse, normal mass, tangent mass, velocity
+   * bias, relative velocity, separation and max normal impulse.
+   */
+  points: Float64Array;
+  /**
+   * Position constraint, {@link CONTACT_MANIFOLD_STRIDE} numbers from
+   * `id * CONTACT_MANIFOLD_STRIDE`: local points x, y of two points, local
+   * normal x, y, local point x, y, local centers x, y of body A and body B,
+   * radius of shape A and shape B.
+   */
+  manifold: Float64Array;
+  /** Manifold type, see {@link ManifoldType}, `id` */
+  type: Int32Array;
+  /** {@link CONTACT_POINT_STRIDE} */
+  readonly pointStride: number = CONTACT_POINT_STRIDE;
+  /** {@link CONTACT_MANIFOLD_STRIDE} */
+  readonly manifoldStride: number = CONTACT_MANIFOLD_STRIDE;
+
+  /** @internal Contacts by id, null for free ids. */
+  m_contacts: (Contact | null)[] = [];
+  /** @internal */ m_free: number[] = [];
+  /** @internal */ m_shared: boolean = false;
+
+  constructor(capacity: number = 16) {
+    this.bodies = new Int32Array(2 * capacity);
+    this.pointCount = new Int32Array(2 * capacity);
+    this.normal = new Float64Array(2 * capacity);
+    this.normalMass = new Float64Array(4 * capacity);
+    this.K = new Float64Array(4 * capacity);
+    this.mass = new Float64Array(4 * capacity);
+    this.material = new Float64Array(3 * capacity);
+    this.softness = new Float64Array(4 * capacity);
+    this.points = new Float64Array(2 * CONTACT_POINT_STRIDE * capacity);
+    this.manifold = new Float64Array(CONTACT_MANIFOLD_STRIDE * capacity);
+    this.type = new Int32Array(capacity);
+  }
+
+  /**
+   * @internal
+   * Give a contact an id and bind its handles to it, the entries are reset as
+   * in a recycled contact.
+   */
+  allocate(contact: Contact): void {
+    let id: number;
+    if (this.m_free.length) {
+      id = this.m_free.pop();
+    } else {
+      if (this.count == this.type.length) {
+        this.grow(2 * this.type.length);
+      }
+      id = this.count++;
+    }
+
+    this.bodies.fill(0, 2 * id, 2 * id + 2);
+    this.pointCount.fill(0, 2 * id, 2 * id + 2);
+    this.normal.fill(0, 2 * id, 2 * id + 2);
+    this.normalMass.fill(0, 4 * id, 4 * id + 4);
+    this.K.fill(0, 4 * id, 4 * id + 4);
+    this.mass.fill(0, 4 * id, 4 * id + 4);
+    this.material.fill(0, 3 * id, 3 * id + 3);
+    this.softness.fill(0, 4 * id, 4 * id + 4);
+    this.softness[4 * id + 1] = 1.0;
+    this.points.fill(0, 2 * CONTACT_POINT_STRIDE * id, 2 * CONTACT_POINT_STRIDE * (id + 1));
+    this.manifold.fill(0, CONTACT_MANIFOLD_STRIDE * id, CONTACT_MANIFOLD_STRIDE * (id + 1));
+    this.type[id] = ManifoldType.e_unset;
+
+    this.m_contacts[id] = contact;
+    contact.m_storage = this;
+    contact.m_storageId = id;
+    this.bind(contact);
+  }
+
+  /**
+   * @internal
+   * Move a contact out of this storage, back to the storage of its own, so
+   * that its id can be reused.
+   */
+  release(contact: Contact): void {
+    const id = contact.m_storageId;
+    contact.m_storage = contact.m_ownStorage;
+    contact.m_storageId = 0;
+    contact.m_ownStorage.bind(contact);
+
+    this.m_contacts[id] = null;
+    this.m_free.push(id);
+  }
+
+  /** @internal */
+  grow(capacity: number): void {
+    this.bodies = growInt32(this.bodies, 2 * capacity, this.m_shared);
+    this.pointCount = growInt32(this.pointCount, 2 * capacity, this.m_shared);
+    this.normal = growFloat64(this.normal, 2 * capacity, this.m_shared);
+    this.normalMass = growFloat64(this.normalMass, 4 * capacity, this.m_shared);
+    this.K = growFloat64(this.K, 4 * capacity, this.m_shared);
+    this.mass = growFloat64(this.mass, 4 * capacity, this.m_shared);
+    this.material = growFloat64(this.material, 3 * capacity, this.m_shared);
+    this.softness = growFloat64(this.softness, 4 * capacity, this.m_shared);
+    this.points = growFloat64(this.points, 2 * CONTACT_POINT_STRIDE * capacity, this.m_shared);
+    this.manifold = growFloat64(this.manifold, CONTACT_MANIFOLD_STRIDE * capacity, this.m_shared);
+    this.type = growInt32(this.type, capacity, this.m_shared);
+
+    for (let i = 0; i < this.count; ++i) {
+      const contact = this.m_contacts[i];
+      if (contact) {
+        this.bind(contact);
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Move the arrays to SharedArrayBuffers, or back, so that they can be read
+   * and written by worker threads, see {@link IslandWorkerPool}.
+   */
+  setShared(shared: boolean): void {
+    if (this.m_shared == shared) {
+      return;
+    }
+    this.m_shared = shared;
+    this.grow(this.type.length);
+  }
+
+  /** @internal */
+  bind(contact: Contact): void {
+    const id = contact.m_storageId;
+    contact.v_normal = this.normal.subarray(2 * id, 2 * id + 2) as unknown as Vec2Value;
+    contact.v_normalMass.ex = this.normalMass.subarray(4 * id, 4 * id + 2) as unknown as Vec2Value;
+    contact.v_normalMass.ey = this.normalMass.subarray(4 * id + 2, 4 * id + 4) as unknown as Vec2Value;
+    contact.v_K.ex = this.K.subarray(4 * id, 4 * id + 2) as unknown as Vec2Value;
+    contact.v_K.ey = this.K.subarray(4 * id + 2, 4 * id + 4) as unknown as Vec2Value;
+    for (let j = 0; j < 2; ++j) {
+      contact.v_points[j].bind(this.points, (2 * id + j) * CONTACT_POINT_STRIDE);
+    }
+
+    const offset = id * CONTACT_MANIFOLD_STRIDE;
+    contact.p_localPoints[0] = this.manifold.subarray(offset, offset + 2) as unknown as Vec2Value;
+    contact.p_localPoints[1] = this.manifold.subarray(offset + 2, offset + 4) as unknown as Vec2Value;
+    contact.p_localNormal = this.manifold.subarray(offset + 4, offset + 6) as unknown as Vec2Value;
+    contact.p_localPoint = this.manifold.subarray(offset + 6, offset + 8) as unknown as Vec2Value;
+    contact.p_localCenterA = this.manifold.subarray(offset + 8, offset + 10) as unknown as Vec2Value;
+    contact.p_localCenterB = this.manifold.subarray(offset + 10, offset + 12) as unknown as Vec2Value;
+  }
+}
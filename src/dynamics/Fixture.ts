@@ -31,6 +31,7 @@ import { Body, MassData } from "./Body";
 import { BroadPhase } from "../collision/BroadPhase";
 import { TransformValue } from "../common/Transform";
 import { Style } from '../util/Testbed';
+import type { QueryFilter } from './World';
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
@@ -43,8 +44,8 @@ import { Style } from '../util/Testbed';
  * A fixture definition is used to create a fixture. This class defines an
  * abstract fixture definition. You can reuse fixture definitions safely.
  */
-export interface FixtureOpt {
-  userData?: unknown;
+export interface FixtureOpt<FixtureData = unknown> {
+  userData?: FixtureData;
   /**
    * The friction coefficient, usually in the range [0,1]
    */
@@ -75,9 +76,16 @@ export interface FixtureOpt {
    * Collision category bit or bits that this fixture accept for collision.
    */
   filterMaskBits?: number;
+  /**
+   * Minimum approach speed to report hit events for this fixture, see
+   * {@link ContactEvents.hit}. Defaults to the hitEventThreshold setting of the
+   * world, use Infinity to disable hit events. In meters per second, scaled by
+   * the lengthUnitsPerMeter setting of the world like the world threshold.
+   */
+  hitEventThreshold?: number;
 }
 
-export interface FixtureDef extends FixtureOpt {
+export interface FixtureDef<FixtureData = unknown> extends FixtureOpt<FixtureData> {
   shape: Shape;
 }
 
@@ -90,9 +98,24 @@ export interface FixtureDef extends FixtureOpt {
 
   filterGroupIndex : 0,
   filterCategoryBits : 0x0001,
-  filterMaskBits : 0xFFFF
+  filterMaskBits : 0xFFFF,
+
+  hitEventThreshold : null
 };
 
+/** Saved broad-phase state of a {@link FixtureProxy}, see {@link World.saveState}. */
+export interface FixtureProxyState {
+  proxyId: number;
+  lowerBound: Vec2Value;
+  upperBound: Vec2Value;
+}
+
+/** Saved state of a {@link Fixture}, see {@link World.saveState}. */
+export interface FixtureState {
+  proxyCount: number;
+  proxies: FixtureProxyState[];
+}
+
 /**
  * This proxy is used internally to connect shape children to the broad-phase.
  */
@@ -116,8 +139,8 @@ export class FixtureProxy {
  *
  * To create a new Fixture use {@link Body.createFixture}.
  */
-export class Fixture {
-  /** @internal */ m_body: Body;
+export class Fixture<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** @internal */ m_body: Body<BodyData, FixtureData, JointData>;
   /** @internal */ m_friction: number;
   /** @internal */ m_restitution: number;
   /** @internal */ m_density: number;
@@ -125,12 +148,14 @@ export class Fixture {
   /** @internal */ m_filterGroupIndex: number;
   /** @internal */ m_filterCategoryBits: number;
   /** @internal */ m_filterMaskBits: number;
+  /** @internal */ m_hitEventThreshold: number | null;
   /** @internal */ m_shape: Shape;
-  /** @internal */ m_next: Fixture | null;
+  /** @internal */ m_next: Fixture<BodyData, FixtureData, JointData> | null;
   /** @internal */ m_proxies: FixtureProxy[];
   // 0 indicates inactive state, this is not the same as m_proxies.length
   /** @internal */ m_proxyCount: number;
-  /** @internal */ m_userData: unknown;
+  /** @internal */ m_sensorOverlaps: Fixture<BodyData, FixtureData, JointData>[];
+  /** @internal */ m_userData: FixtureData;
 
   /** Styling for dev-tools. */
   style: Style = {};
@@ -138,11 +163,11 @@ export class Fixture {
   /** @hidden @experimental Similar to userData, but used by dev-tools or runtime environment. */
   appData: Record<string, any> = {};
 
-  constructor(body: Body, def: FixtureDef);
-  constructor(body: Body, shape: Shape, def?: FixtureOpt);
-  constructor(body: Body, shape: Shape, density?: number);
+  constructor(body: Body<BodyData, FixtureData, JointData>, def: FixtureDef<FixtureData>);
+  constructor(body: Body<BodyData, FixtureData, JointData>, shape: Shape, def?: FixtureOpt<FixtureData>);
+  constructor(body: Body<BodyData, FixtureData, JointData>, shape: Shape, density?: number);
   /** @internal */
-  constructor(body: Body, shape?, def?) {
+  constructor(body: Body<BodyData, FixtureData, JointData>, shape?, def?) {
     if (shape.shape) {
       def = shape;
       shape = shape.shape;
@@ -164,6 +189,8 @@ export class Fixture {
     this.m_filterCategoryBits = def.filterCategoryBits;
     this.m_filterMaskBits = def.filterMaskBits;
 
+    this.m_hitEventThreshold = def.hitEventThreshold;
+
     // TODO validate shape
     this.m_shape = shape; // .clone();
 
@@ -172,6 +199,8 @@ export class Fixture {
     this.m_proxies = [];
     this.m_proxyCount = 0;
 
+    this.m_sensorOverlaps = [];
+
     // fixture proxies are created here,
     // but they are activate in when a fixture is added to body
     const childCount = this.m_shape.getChildCount();
@@ -210,6 +239,8 @@ export class Fixture {
       filterCategoryBits: this.m_filterCategoryBits,
       filterMaskBits: this.m_filterMaskBits,
 
+      hitEventThreshold: this.m_hitEventThreshold,
+
       shape: this.m_shape,
     };
   }
@@ -221,6 +252,35 @@ export class Fixture {
     return fixture;
   }
 
+  /** @internal */
+  _saveState(): FixtureState {
+    const proxies: FixtureProxyState[] = [];
+    for (let i = 0; i < this.m_proxies.length; ++i) {
+      const proxy = this.m_proxies[i];
+      proxies.push({
+        proxyId: proxy.proxyId,
+        lowerBound: matrix.vec2(proxy.aabb.lowerBound[0], proxy.aabb.lowerBound[1]),
+        upperBound: matrix.vec2(proxy.aabb.upperBound[0], proxy.aabb.upperBound[1]),
+      });
+    }
+    return {
+      proxyCount: this.m_proxyCount,
+      proxies,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: FixtureState): void {
+    _ASSERT && console.assert(state.proxies.length === this.m_proxies.length);
+    this.m_proxyCount = state.proxyCount;
+    for (let i = 0; i < this.m_proxies.length; ++i) {
+      const proxy = this.m_proxies[i];
+      proxy.proxyId = state.proxies[i].proxyId;
+      matrix.copyVec2(proxy.aabb.lowerBound, state.proxies[i].lowerBound);
+      matrix.copyVec2(proxy.aabb.upperBound, state.proxies[i].upperBound);
+    }
+  }
+
   /**
    * Get the type of the child shape. You can use this to down cast to the
    * concrete shape.
@@ -239,8 +299,8 @@ export class Fixture {
   }
 
   /**
-   * A sensor shape collects contact information but never generates a collision
-   * response.
+   * A sensor shape detects overlapping fixtures but never generates a collision
+   * response. Sensors do not create contacts, see {@link Fixture.getSensorOverlaps}.
    */
   isSensor(): boolean {
     return this.m_isSensor;
@@ -253,9 +313,41 @@ export class Fixture {
     if (sensor != this.m_isSensor) {
       this.m_body.setAwake(true);
       this.m_isSensor = sensor;
+      if (sensor) {
+        this.m_body.m_world.addSensorFixture(this);
+      }
+      this.refilter();
     }
   }
 
+  /**
+   * Get the non-sensor fixtures on other bodies which overlap this sensor
+   * fixture. Overlaps are updated at the end of each step, and are reported with
+   * "sensor-begin" and "sensor-end" world events. Empty if this fixture is not a
+   * sensor.
+   *
+   * Do not modify the returned array.
+   */
+  getSensorOverlaps(): readonly Fixture<BodyData, FixtureData, JointData>[] {
+    return this.m_sensorOverlaps;
+  }
+
+  /**
+   * Get the minimum approach speed for hit events, or null if the world setting
+   * is used.
+   */
+  getHitEventThreshold(): number | null {
+    return this.m_hitEventThreshold;
+  }
+
+  /**
+   * Set the minimum approach speed for hit events, or null to use the world
+   * setting. Use Infinity to disable hit events for this fixture.
+   */
+  setHitEventThreshold(threshold: number | null): void {
+    this.m_hitEventThreshold = threshold;
+  }
+
   // /**
   //  * Get the contact filtering data.
   //  */
@@ -267,14 +359,14 @@ export class Fixture {
    * Get the user data that was assigned in the fixture definition. Use this to
    * store your application specific data.
    */
-  getUserData(): unknown {
+  getUserData(): FixtureData {
     return this.m_userData;
   }
 
   /**
    * Set the user data. Use this to store your application specific data.
    */
-  setUserData(data: unknown): void {
+  setUserData(data: FixtureData): void {
     this.m_userData = data;
   }
 
@@ -282,14 +374,14 @@ export class Fixture {
    * Get the parent body of this fixture. This is null if the fixture is not
    * attached.
    */
-  getBody(): Body {
+  getBody(): Body<BodyData, FixtureData, JointData> {
     return this.m_body;
   }
 
   /**
    * Get the next fixture in the parent body's fixture list.
    */
-  getNext(): Fixture | null {
+  getNext(): Fixture<BodyData, FixtureData, JointData> | null {
     return this.m_next;
   }
 
@@ -513,4 +605,27 @@ export class Fixture {
     const collide = collideA && collideB;
     return collide;
   }
+
+  /**
+   * Test if this fixture is found by world queries with the given filter, see
+   * {@link QueryFilter}. Without a filter all fixtures except sensors are found.
+   */
+  testQueryFilter(filter?: QueryFilter<BodyData, FixtureData, JointData>): boolean {
+    if (!filter) {
+      return !this.m_isSensor;
+    }
+    if (this.m_isSensor && !filter.includeSensors) {
+      return false;
+    }
+    if (filter.ignoreBodies && filter.ignoreBodies.indexOf(this.m_body) !== -1) {
+      return false;
+    }
+    const groupIndex = filter.groupIndex || 0;
+    if (groupIndex !== 0 && groupIndex === this.m_filterGroupIndex) {
+      return groupIndex > 0;
+    }
+    const categoryBits = typeof filter.categoryBits === 'number' ? filter.categoryBits : 0x0001;
+    const maskBits = typeof filter.maskBits === 'number' ? filter.maskBits : 0xFFFF;
+    return (maskBits & this.m_filterCategoryBits) !== 0 && (categoryBits & this.m_filterMaskBits) !== 0;
+  }
 }
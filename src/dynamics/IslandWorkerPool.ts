@@ -0,0 +1,292 @@
+/*
+ * Planck.js
+ * The MIT License
+ * Copyright (c) 2021 Erin Catto, Ali Shakiba
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { options } from '../util/options';
+import type { BodyStorage } from './BodyStorage';
+import type { ContactStorage } from './ContactStorage';
+import type { Island, TimeStep } from './Solver';
+import { getIslandWorkerSource, IslandWorkerJob } from './ContactSolver';
+
+
+/** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
+
+
+/**
+ * The parts of the Node.js `worker_threads` module used by
+ * {@link IslandWorkerPool}.
+ */
+export interface WorkerThreadsModule {
+  Worker: new (source: string, options: { eval: boolean }) => IslandWorker;
+}
+
+/** A worker thread of the `worker_threads` module. */
+export interface IslandWorker {
+  postMessage(message: unknown): void;
+  terminate(): unknown;
+  unref(): void;
+}
+
+export interface IslandWorkerPoolDef {
+  /** [default: 2] Number of worker threads. */
+  workerCount?: number;
+  /**
+   * [default: 64] Islands with fewer bodies are solved on the main thread,
+   * where they do not wait for a worker.
+   */
+  minBodyCount?: number;
+  /**
+   * [default: 30000] Milliseconds to wait for the workers in a step before
+   * throwing an error.
+   */
+  timeout?: number;
+}
+
+/** @internal */ const DEFAULTS: IslandWorkerPoolDef = {
+  workerCount : 2,
+  minBodyCount : 64,
+  timeout : 30000,
+};
+
+/**
+ * A pool of Node.js worker threads, which solve large islands of a world in
+ * parallel, see {@link WorldDef.workerPool}. This is for headless simulations
+ * in Node.js, the `worker_threads` module is passed in by the caller:
+ *
+ * ```js
+ * const workerThreads = require('worker_threads');
+ * const pool = new IslandWorkerPool(workerThreads, { workerCount: 4 });
+ * const world = new World({ gravity: Vec2.create(0, -10), workerPool: pool });
+ * ```
+ *
+ * Islands are solved on the workers when they have at least
+ * {@link IslandWorkerPoolDef.minBodyCount} bodies and no joints, and the
+ * world uses the default solver. Bodies and contact constraints are read and
+ * written in the {@link BodyStorage} and {@link ContactStorage} of the world,
+ * which are moved to SharedArrayBuffers. The main thread solves the other
+ * islands meanwhile, and blocks until the workers are done.
+ *
+ * Constraints are set up, and events and sleep are handled, on the main
+ * thread in island order, and each island is solved on its own, so results
+ * do not depend on the number of workers.
+ *
+ * Call {@link IslandWorkerPool.terminate} to stop the workers.
+ */
+export class IslandWorkerPool {
+  /** @internal */ m_workers: IslandWorker[] = [];
+  /** @internal */ m_minBodyCount: number;
+  /** @internal */ m_timeout: number;
+  /** @internal Number of finished jobs, and an error flag. */
+  m_control: Int32Array;
+  /** @internal Position solved flags of the islands of the current step. */
+  m_results: Int32Array;
+  /** @internal Islands of the current step. */
+  m_islands: Island[] = [];
+  /** @internal Number of jobs of the current step. */
+  m_jobCount: number = 0;
+
+  constructor(workerThreads: WorkerThreadsModule, def?: IslandWorkerPoolDef) {
+    def = options(def, DEFAULTS);
+    _ASSERT && console.assert(def.workerCount >= 1);
+
+    this.m_minBodyCount = def.minBodyCount;
+    this.m_timeout = def.timeout;
+    this.m_control = new Int32Array(new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT));
+    this.m_results = new Int32Array(new SharedArrayBuffer(16 * Int32Array.BYTES_PER_ELEMENT));
+
+    const source = getIslandWorkerSource();
+    for (let i = 0; i < def.workerCount; ++i) {
+      const worker = new workerThreads.Worker(source, { eval: true });
+      // Do not keep the process alive for idle workers.
+      worker.unref();
+      this.m_workers.push(worker);
+    }
+  }
+
+  /** Get the number of worker threads. */
+  getWorkerCount(): number {
+    return this.m_workers.length;
+  }
+
+  /** Stop the worker threads. The pool can not be used afterwards. */
+  terminate(): void {
+    for (let i = 0; i < this.m_workers.length; ++i) {
+      this.m_workers[i].terminate();
+    }
+    this.m_workers.length = 0;
+  }
+
+  /** @internal Islands which are solved on a worker. */
+  accepts(island: Island): boolean {
+    return this.m_workers.length > 0
+      && island.joints.length == 0
+      && island.contacts.length > 0
+      && island.bodies.length >= this.m_minBodyCount;
+  }
+
+  /**
+   * @internal
+   * Start solving the islands on the workers, after their constraints are set
+   * up. Islands are assigned to the worker with the fewest contacts, in order.
+   */
+  start(step: TimeStep, bodyStorage: BodyStorage, contactStorage: ContactStorage, islands: Island[]): void {
+    _ASSERT && console.assert(bodyStorage.m_shared && contactStorage.m_shared);
+
+    const workerCount = this.m_workers.length;
+    const loads: number[] = [];
+    const sizes: number[] = [];
+    const assigned: number[] = [];
+    for (let i = 0; i < workerCount; ++i) {
+      loads[i] = 0;
+      sizes[i] = 1;
+    }
+    for (let i = 0; i < islands.length; ++i) {
+      const island = islands[i];
+      let worker = 0;
+      for (let w = 1; w < workerCount; ++w) {
+        if (loads[w] < loads[worker]) {
+          worker = w;
+        }
+      }
+      assigned[i] = worker;
+      loads[worker] += island.contacts.length;
+      sizes[worker] += 3 + island.bodies.length + island.contacts.length;
+    }
+
+    // Jobs list islands as result index, body count, contact count, body
+    // storage ids, contact storage ids. Static bodies are not written.
+    const jobs: Int32Array[] = [];
+    const offsets: number[] = [];
+    for (let i = 0; i < workerCount; ++i) {
+      jobs[i] = new Int32Array(sizes[i]);
+      offsets[i] = 1;
+    }
+    for (let i = 0; i < islands.length; ++i) {
+      const island = islands[i];
+      const job = jobs[assigned[i]];
+      let k = offsets[assigned[i]];
+      job[0]++;
+      job[k++] = i;
+      const countIndex = k++;
+      job[k++] = island.contacts.length;
+      let bodyCount = 0;
+      for (let j = 0; j < island.bodies.length; ++j) {
+        const body = island.bodies[j];
+        if (!body.isStatic()) {
+          job[k++] = body.m_storageId;
+          bodyCount++;
+        }
+      }
+      job[countIndex] = bodyCount;
+      for (let j = 0; j < island.contacts.length; ++j) {
+        job[k++] = island.contacts[j].m_storageId;
+      }
+      offsets[assigned[i]] = k;
+    }
+
+    if (this.m_results.length < islands.length) {
+      this.m_results = new Int32Array(new SharedArrayBuffer(2 * islands.length * Int32Array.BYTES_PER_ELEMENT));
+    }
+
+    const settings = step.settings;
+    const stepData = new Float64Array([
+      step.dt,
+      step.velocityIterations,
+      step.positionIterations,
+      step.warmStarting ? 1 : 0,
+      step.blockSolve ? 1 : 0,
+      settings.linearSlop,
+      settings.baumgarte,
+      settings.maxLinearCorrection,
+      settings.maxTranslation,
+      settings.maxTranslationSquared,
+      settings.maxRotation,
+      settings.maxRotationSquared,
+    ]);
+
+    // Only the arrays are sent, the storages themselves hold bodies and contacts.
+    const bodies = {
+      position: bodyStorage.position,
+      velocity: bodyStorage.velocity,
+    };
+    const contacts = {
+      bodies: contactStorage.bodies,
+      pointCount: contactStorage.pointCount,
+      normal: contactStorage.normal,
+      normalMass: contactStorage.normalMass,
+      K: contactStorage.K,
+      mass: contactStorage.mass,
+      material: contactStorage.material,
+      points: contactStorage.points,
+      manifold: contactStorage.manifold,
+      type: contactStorage.type,
+      pointStride: contactStorage.pointStride,
+      manifoldStride: contactStorage.manifoldStride,
+    };
+
+    Atomics.store(this.m_control, 0, 0);
+    Atomics.store(this.m_control, 1, 0);
+    this.m_islands = islands;
+    this.m_jobCount = 0;
+    for (let i = 0; i < workerCount; ++i) {
+      if (jobs[i][0] == 0) {
+        continue;
+      }
+      const job: IslandWorkerJob = {
+        bodies,
+        contacts,
+        islands: jobs[i],
+        step: stepData,
+        results: this.m_results,
+        control: this.m_control,
+      };
+      this.m_workers[i].postMessage(job);
+      this.m_jobCount++;
+    }
+  }
+
+  /**
+   * @internal
+   * Block until the workers are done, and set the position solved flags of
+   * the islands.
+   */
+  wait(): void {
+    const control = this.m_control;
+    let done: number;
+    while ((done = Atomics.load(control, 0)) < this.m_jobCount) {
+      if (Atomics.wait(control, 0, done, this.m_timeout) === 'timed-out') {
+        throw new Error('Island workers did not finish in ' + this.m_timeout + 'ms');
+      }
+    }
+    if (Atomics.load(control, 1) !== 0) {
+      throw new Error('Island worker failed to solve an island');
+    }
+
+    const islands = this.m_islands;
+    for (let i = 0; i < islands.length; ++i) {
+      islands[i].positionSolved = this.m_results[i] !== 0;
+    }
+    this.m_islands = [];
+    this.m_jobCount = 0;
+  }
+}
@@ -25,7 +25,7 @@
 import type { Vec2Value }  from '../common/Vec2';
 import * as Vec2 from '../common/Vec2';
 import type { Body }  from './Body';
-import { TimeStep } from "./Solver";
+import { Softness, TimeStep } from "./Solver";
 import { Style } from '../util/Testbed';
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
@@ -36,23 +36,23 @@ import { Style } from '../util/Testbed';
  * a doubly linked list maintained in each attached body. Each joint has two
  * joint nodes, one for each attached body.
  */
-export class JointEdge {
+export class JointEdge<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
   /**
    * provides quick access to the other body attached.
    */
-  other: Body | null = null;
+  other: Body<BodyData, FixtureData, JointData> | null = null;
   /**
    * the joint
    */
-  joint: Joint | null = null;
+  joint: Joint<BodyData, FixtureData, JointData> | null = null;
   /**
    * prev the previous joint edge in the body's joint list
    */
-  prev: JointEdge | null = null;
+  prev: JointEdge<BodyData, FixtureData, JointData> | null = null;
   /**
    * the next joint edge in the body's joint list
    */
-  next: JointEdge | null = null;
+  next: JointEdge<BodyData, FixtureData, JointData> | null = null;
 }
 
 /**
@@ -88,27 +88,36 @@ export interface JointDef extends JointOpt {
   collideConnected : false
 };
 
+/**
+ * Simulation state of a joint, see {@link World.saveState}. Joint types extend
+ * it with their accumulated impulses and limit states.
+ */
+export interface JointState {
+  island: boolean;
+}
+
 /**
  * The base joint class. Joints are used to constraint two bodies together in
  * various fashions. Some joints also feature limits and motors.
  */
-export abstract class Joint {
+export abstract class Joint<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
 
   /** @internal */ m_type: string = 'unknown-joint';
 
-  /** @internal */ m_bodyA: Body;
-  /** @internal */ m_bodyB: Body;
+  /** @internal */ m_bodyA: Body<BodyData, FixtureData, JointData>;
+  /** @internal */ m_bodyB: Body<BodyData, FixtureData, JointData>;
 
   /** @internal */ m_collideConnected: boolean;
 
-  /** @internal */ m_prev: Joint | null = null;
-  /** @internal */ m_next: Joint | null = null;
+  /** @internal */ m_prev: Joint<BodyData, FixtureData, JointData> | null = null;
+  /** @internal */ m_next: Joint<BodyData, FixtureData, JointData> | null = null;
 
-  /** @internal */ m_edgeA: JointEdge = new JointEdge();
-  /** @internal */ m_edgeB: JointEdge = new JointEdge();
+  /** @internal */ m_edgeA: JointEdge<BodyData, FixtureData, JointData> = new JointEdge();
+  /** @internal */ m_edgeB: JointEdge<BodyData, FixtureData, JointData> = new JointEdge();
 
   /** @internal */ m_islandFlag: boolean = false;
-  /** @internal */ m_userData: unknown;
+  /** @internal */ m_destroyed: boolean = false;
+  /** @internal */ m_userData: JointData;
 
   /** Styling for dev-tools. */
   style: Style = {};
@@ -117,10 +126,10 @@ export abstract class Joint {
   appData: Record<string, any> = {};
 
   constructor(def: JointDef);
-  constructor(def: JointOpt, bodyA: Body, bodyB: Body);
-  constructor(def: JointDef | JointOpt, bodyA?: Body, bodyB?: Body) {
-    bodyA = 'bodyA' in def ? def.bodyA : bodyA;
-    bodyB = 'bodyB' in def ? def.bodyB : bodyB;
+  constructor(def: JointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>);
+  constructor(def: JointDef | JointOpt, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>) {
+    bodyA = 'bodyA' in def ? def.bodyA as Body<BodyData, FixtureData, JointData> : bodyA;
+    bodyB = 'bodyB' in def ? def.bodyB as Body<BodyData, FixtureData, JointData> : bodyB;
 
     _ASSERT && console.assert(!!bodyA);
     _ASSERT && console.assert(!!bodyB);
@@ -150,29 +159,29 @@ export abstract class Joint {
   /**
    * Get the first body attached to this joint.
    */
-  getBodyA(): Body {
+  getBodyA(): Body<BodyData, FixtureData, JointData> {
     return this.m_bodyA;
   }
 
   /**
    * Get the second body attached to this joint.
    */
-  getBodyB(): Body {
+  getBodyB(): Body<BodyData, FixtureData, JointData> {
     return this.m_bodyB;
   }
 
   /**
    * Get the next joint the world joint list.
    */
-  getNext(): Joint {
+  getNext(): Joint<BodyData, FixtureData, JointData> {
     return this.m_next;
   }
 
-  getUserData(): unknown {
+  getUserData(): JointData {
     return this.m_userData;
   }
 
-  setUserData(data: unknown): void {
+  setUserData(data: JointData): void {
     this.m_userData = data;
   }
 
@@ -219,6 +228,32 @@ export abstract class Joint {
    */
   abstract solvePositionConstraints(step: TimeStep): boolean;
 
+  /**
+   * Solve velocity constraints in a sub-step of the 'soft-step' solver, which
+   * does not solve position constraints. With bias, position errors are
+   * corrected by a soft spring given by softness. Without bias (relax), the
+   * velocity added by the correction is removed.
+   *
+   * Joints without position errors solve their velocity constraints. These
+   * are friction, motor and mouse joints, where the motor and mouse joints
+   * correct their offset with their own correction factor and spring.
+   */
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    this.solveVelocityConstraints(step);
+  }
+
+  /** @internal */
+  _saveState(): JointState {
+    return {
+      island: this.m_islandFlag,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: JointState): void {
+    this.m_islandFlag = state.island;
+  }
+
   /**
    * @hidden @experimental
    * Update joint with new props.
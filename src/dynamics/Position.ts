@@ -23,7 +23,6 @@
  */
 
 import { Vec2Value } from '../common/Vec2';
-import * as Vec2 from '../common/Vec2';
 import { TransformValue } from '../common/Transform';
 
 
@@ -31,12 +30,44 @@ import { TransformValue } from '../common/Transform';
 /** @internal */ const math_cos = Math.cos;
 
 
+/**
+ * Solver position of a body, a handle into three numbers of a typed array,
+ * see {@link BodyStorage}.
+ */
 export class Position {
+  /** @internal */ m_data: Float64Array;
+  /** @internal */ m_offset: number;
+  /** @internal */ m_c: Vec2Value;
+
+  constructor(data: Float64Array = new Float64Array(3), offset: number = 0) {
+    this.bind(data, offset);
+  }
+
+  /** @internal */
+  bind(data: Float64Array, offset: number): void {
+    this.m_data = data;
+    this.m_offset = offset;
+    this.m_c = data.subarray(offset, offset + 2) as unknown as Vec2Value;
+  }
+
   /** location */
-  c = Vec2.zero();
+  get c(): Vec2Value {
+    return this.m_c;
+  }
+
+  set c(c: Vec2Value) {
+    this.m_c[0] = c[0];
+    this.m_c[1] = c[1];
+  }
 
   /** angle */
-  a = 0;
+  get a(): number {
+    return this.m_data[this.m_offset + 2];
+  }
+
+  set a(a: number) {
+    this.m_data[this.m_offset + 2] = a;
+  }
 
   // todo: cache sin/cos
   getTransform(xf: TransformValue, p: Vec2Value): TransformValue {
@@ -23,7 +23,7 @@
  */
 
 import * as matrix from '../common/Matrix';
-import { SettingsInternal as Settings } from '../Settings';
+import { SettingsInternal } from '../Settings';
 import { EPSILON } from '../common/Math';
 import { Body } from './Body';
 import type { Contact } from './Contact';
@@ -31,13 +31,15 @@ import { Joint } from './Joint';
 import { TimeOfImpact, TOIInput, TOIOutput, TOIOutputState } from '../collision/TimeOfImpact';
 import { Distance, DistanceInput, DistanceOutput, SimplexCache } from '../collision/Distance';
 import { World } from "./World";
-import { Sweep } from '../common/Sweep';
+import * as Sweep from '../common/Sweep';
+import * as Transform from '../common/Transform';
+import type { IslandWorkerPool } from './IslandWorkerPool';
+import { integratePosition } from './ContactSolver';
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
-/** @internal */ const math_abs = Math.abs;
-/** @internal */ const math_sqrt = Math.sqrt;
 /** @internal */ const math_min = Math.min;
+/** @internal */ const math_pi = Math.PI;
 
 
 export class TimeStep {
@@ -55,6 +57,9 @@ export class TimeStep {
   /** dt * inv_dt0 */
   dtRatio: number = 1;
 
+  /** @internal Settings of the world being stepped. */
+  settings: SettingsInternal = SettingsInternal.global;
+
   reset(dt: number): void {
     if (this.dt > 0.0) {
       this.inv_dt0 = this.inv_dt;
@@ -65,16 +70,46 @@ export class TimeStep {
   }
 }
 
+/**
+ * Coefficients of a soft constraint, which behaves like a damped spring with
+ * the given stiffness in hertz and damping ratio, for a time step of `h`.
+ */
+export class Softness {
+  biasRate: number = 0;
+  massScale: number = 1;
+  impulseScale: number = 0;
+
+  set(hertz: number, dampingRatio: number, h: number): void {
+    if (hertz == 0.0) {
+      this.biasRate = 0.0;
+      this.massScale = 1.0;
+      this.impulseScale = 0.0;
+      return;
+    }
+    const omega = 2.0 * math_pi * hertz;
+    const a1 = 2.0 * dampingRatio + h * omega;
+    const a2 = h * omega * a1;
+    const a3 = 1.0 / (1.0 + a2);
+    this.biasRate = omega / a1;
+    this.massScale = a2 * a3;
+    this.impulseScale = a3;
+  }
+}
+
 // reuse
 /** @internal */ const s_subStep = new TimeStep();
+/** @internal */ const s_softStep = new TimeStep();
+/** @internal */ const contactSoftness = new Softness();
+/** @internal */ const staticSoftness = new Softness();
+/** @internal */ const jointSoftness = new Softness();
 /** @internal */ const c = matrix.vec2(0, 0);
 /** @internal */ const v = matrix.vec2(0, 0);
-/** @internal */ const translation = matrix.vec2(0, 0);
+/** @internal */ const hitPoint = matrix.vec2(0, 0);
 /** @internal */ const input = new TOIInput();
 /** @internal */ const output = new TOIOutput();
-/** @internal */ const backup = new Sweep();
-/** @internal */ const backup1 = new Sweep();
-/** @internal */ const backup2 = new Sweep();
+/** @internal */ const backup = Sweep.create();
+/** @internal */ const backup1 = Sweep.create();
+/** @internal */ const backup2 = Sweep.create();
 
 /**
  * Contact impulses for reporting. Impulses are used instead of forces because
@@ -120,6 +155,26 @@ export class ContactImpulse {
   }
 }
 
+/**
+ * @internal
+ * Bodies, contacts and joints of an island, kept until all islands of a step
+ * are solved, see {@link IslandWorkerPool}.
+ */
+export class Island {
+  bodies: Body[] = [];
+  contacts: Contact[] = [];
+  joints: Joint[] = [];
+  /** Solved by a worker thread. */
+  worker: boolean = false;
+  positionSolved: boolean = false;
+
+  clear(): void {
+    this.bodies.length = 0;
+    this.contacts.length = 0;
+    this.joints.length = 0;
+  }
+}
+
 /**
  * Finds and solves islands. An island is a connected subset of the world.
  */
@@ -129,6 +184,16 @@ export class Solver {
   m_bodies: Body[];
   m_contacts: Contact[];
   m_joints: Joint[];
+  /** Non-static bodies solved in islands of the current step. */
+  m_stepBodies: Body[];
+  /** Bodies advanced by the time of impact solver in the current step. */
+  m_toiBodies: Body[];
+  /** Awake bodies at the start of the step, used as island seeds. */
+  m_seeds: Body[];
+  /** Islands of the current step, when islands are solved by a worker pool. */
+  m_islands: Island[];
+  /** Islands of the current step which are solved by a worker pool. */
+  m_workerIslands: Island[];
 
   constructor(world: World) {
     this.m_world = world;
@@ -136,6 +201,11 @@ export class Solver {
     this.m_bodies = [];
     this.m_contacts = [];
     this.m_joints = [];
+    this.m_stepBodies = [];
+    this.m_toiBodies = [];
+    this.m_seeds = [];
+    this.m_islands = [];
+    this.m_workerIslands = [];
   }
 
   clear(): void {
@@ -168,22 +238,23 @@ export class Solver {
   solveWorld(step: TimeStep): void {
     const world = this.m_world;
 
-    // Clear all the island flags.
-    for (let b = world.m_bodyList; b; b = b.m_next) {
-      b.m_islandFlag = false;
-    }
-    for (let c = world.m_contactList; c; c = c.m_next) {
-      c.m_islandFlag = false;
-    }
-    for (let j = world.m_jointList; j; j = j.m_next) {
-      j.m_islandFlag = false;
+    // Islands are solved one by one, unless a worker pool is set. Then all
+    // islands are built first, and solved on the workers and on this thread.
+    const pool = world.m_softStep ? null : world.m_workerPool;
+    let islandCount = 0;
+
+    // Island flags are cleared after each island, so only awake bodies need to
+    // be visited. Bodies can fall asleep while solving, so seed from a copy.
+    const seeds = this.m_seeds;
+    for (let i = 0; i < world.m_awakeBodies.length; ++i) {
+      seeds[i] = world.m_awakeBodies[i];
     }
+    seeds.length = world.m_awakeBodies.length;
 
     // Build and simulate all awake islands.
     const stack = this.m_stack;
-    let loop = -1;
-    for (let seed = world.m_bodyList; seed; seed = seed.m_next) {
-      loop++;
+    for (let k = 0; k < seeds.length; ++k) {
+      const seed = seeds[k];
       if (seed.m_islandFlag) {
         continue;
       }
@@ -212,7 +283,10 @@ export class Solver {
         this.addBody(b);
 
         // Make sure the body is awake (without resetting sleep timer).
-        b.m_awakeFlag = true;
+        if (b.m_awakeFlag == false) {
+          b.m_awakeFlag = true;
+          world.updateAwakeBody(b);
+        }
 
         // To keep islands as small as possible, we don't
         // propagate islands across static bodies.
@@ -282,25 +356,156 @@ export class Solver {
         }
       }
 
+      if (pool !== null) {
+        // Keep the island, flags are reset now since contacts and joints are
+        // not shared by islands, and static bodies are not propagated.
+        if (islandCount == this.m_islands.length) {
+          this.m_islands.push(new Island());
+        }
+        const island = this.m_islands[islandCount++];
+        for (let i = 0; i < this.m_bodies.length; ++i) {
+          island.bodies.push(this.m_bodies[i]);
+        }
+        for (let i = 0; i < this.m_contacts.length; ++i) {
+          island.contacts.push(this.m_contacts[i]);
+        }
+        for (let i = 0; i < this.m_joints.length; ++i) {
+          island.joints.push(this.m_joints[i]);
+        }
+        this.cleanupIsland();
+        continue;
+      }
+
       this.solveIsland(step);
+      this.addMoveEvents();
+      this.cleanupIsland();
+    }
+    seeds.length = 0;
 
-      // Post solve cleanup.
-      for (let i = 0; i < this.m_bodies.length; ++i) {
-        // Allow static bodies to participate in other islands.
-        // TODO: are they added at all?
-        const b = this.m_bodies[i];
-        if (b.isStatic()) {
-          b.m_islandFlag = false;
+    if (pool !== null) {
+      this.solveIslands(step, pool, islandCount);
+    }
+
+    // Non-static bodies keep their island flag until all islands are solved.
+    for (let i = 0; i < this.m_stepBodies.length; ++i) {
+      this.m_stepBodies[i].m_islandFlag = false;
+    }
+  }
+
+  /** Post solve cleanup of the island flags. */
+  cleanupIsland(): void {
+    for (let i = 0; i < this.m_bodies.length; ++i) {
+      // Allow static bodies to participate in other islands.
+      // TODO: are they added at all?
+      const b = this.m_bodies[i];
+      if (b.isStatic()) {
+        b.m_islandFlag = false;
+      } else {
+        this.m_stepBodies.push(b);
+      }
+    }
+    for (let i = 0; i < this.m_contacts.length; ++i) {
+      this.m_contacts[i].m_islandFlag = false;
+    }
+    for (let i = 0; i < this.m_joints.length; ++i) {
+      this.m_joints[i].m_islandFlag = false;
+    }
+  }
+
+  /**
+   * Solve the islands of a step with a worker pool. Constraints are set up,
+   * and the islands are finished, in island order on this thread, so that
+   * events are reported in the same order as without a pool. Post-solve
+   * callbacks are called after all islands are solved.
+   */
+  solveIslands(step: TimeStep, pool: IslandWorkerPool, islandCount: number): void {
+    const world = this.m_world;
+    const islands = this.m_islands;
+    const workerIslands = this.m_workerIslands;
+
+    const bodies = this.m_bodies;
+    const contacts = this.m_contacts;
+    const joints = this.m_joints;
+
+    try {
+      for (let i = 0; i < islandCount; ++i) {
+        const island = islands[i];
+        this.setIsland(island);
+        this.prepareIsland(step);
+        island.worker = pool.accepts(island);
+        if (island.worker) {
+          workerIslands.push(island);
         }
       }
+
+      if (workerIslands.length > 0) {
+        pool.start(step, world.m_bodyStorage, world.m_contactStorage, workerIslands);
+      }
+
+      // Solve small islands and islands with joints while the workers run.
+      for (let i = 0; i < islandCount; ++i) {
+        const island = islands[i];
+        if (!island.worker) {
+          this.setIsland(island);
+          island.positionSolved = this.solveIslandConstraints(step);
+        }
+      }
+
+      if (workerIslands.length > 0) {
+        pool.wait();
+      }
+
+      for (let i = 0; i < islandCount; ++i) {
+        const island = islands[i];
+        this.setIsland(island);
+        if (island.worker) {
+          // Store impulses for warm starting
+          for (let j = 0; j < island.contacts.length; ++j) {
+            island.contacts[j].storeConstraintImpulses(step);
+          }
+        }
+        this.finishIsland(step, island.positionSolved);
+        this.addMoveEvents();
+      }
+    } finally {
+      this.m_bodies = bodies;
+      this.m_contacts = contacts;
+      this.m_joints = joints;
+      for (let i = 0; i < islandCount; ++i) {
+        islands[i].clear();
+      }
+      workerIslands.length = 0;
     }
   }
 
+  /** Make an island the current island of the solver. */
+  setIsland(island: Island): void {
+    this.m_bodies = island.bodies;
+    this.m_contacts = island.contacts;
+    this.m_joints = island.joints;
+  }
+
   solveIsland(step: TimeStep): void {
+    if (this.m_world.m_softStep) {
+      this.solveIslandSoftStep(step);
+      return;
+    }
+
     // B2: Island Solve
+    this.prepareIsland(step);
+    const positionSolved = this.solveIslandConstraints(step);
+    this.finishIsland(step, positionSolved);
+  }
+
+  /**
+   * Integrate velocities of the island, initialize the body state and set up
+   * contact constraints. Hit events are reported here, with the relative
+   * velocities before solving.
+   */
+  prepareIsland(step: TimeStep): void {
     const world = this.m_world;
+    const settings = step.settings;
     const gravity = world.m_gravity;
-    const allowSleep = world.m_allowSleep;
 
     const h = step.dt;
 
@@ -353,6 +558,19 @@ export class Solver {
       contact.initVelocityConstraint(step);
     }
 
+    this.addHitEvents(settings);
+  }
+
+  /**
+   * Solve velocity constraints, integrate positions and solve position
+   * constraints of the island, after prepareIsland.
+   *
+   * @returns true if position errors are small.
+   */
+  solveIslandConstraints(step: TimeStep): boolean {
+    const settings = step.settings;
+    const h = step.dt;
+
     if (step.warmStarting) {
       // Warm start.
       for (let i = 0; i < this.m_contacts.length; ++i) {
@@ -388,34 +606,7 @@ export class Solver {
     // Integrate positions
     for (let i = 0; i < this.m_bodies.length; ++i) {
       const body = this.m_bodies[i];
-
-      matrix.copyVec2(c, body.c_position.c);
-      let a = body.c_position.a;
-      matrix.copyVec2(v, body.c_velocity.v);
-      let w = body.c_velocity.w;
-
-      // Check for large velocities
-      matrix.scaleVec2(translation, h, v);
-      const translationLengthSqr = matrix.lengthSqrVec2(translation);
-      if (translationLengthSqr > Settings.maxTranslationSquared) {
-        const ratio = Settings.maxTranslation / math_sqrt(translationLengthSqr);
-        matrix.mulVec2(v, ratio);
-      }
-
-      const rotation = h * w;
-      if (rotation * rotation > Settings.maxRotationSquared) {
-        const ratio = Settings.maxRotation / math_abs(rotation);
-        w *= ratio;
-      }
-
-      // Integrate
-      matrix.plusScaleVec2(c, h, v);
-      a += h * w;
-
-      matrix.copyVec2(body.c_position.c, c);
-      body.c_position.a = a;
-      matrix.copyVec2(body.c_velocity.v, v);
-      body.c_velocity.w = w;
+      integratePosition(body.m_storage, body.m_storageId, h, settings.maxTranslation, settings.maxTranslationSquared, settings.maxRotation, settings.maxRotationSquared);
     }
 
     // Solve position constraints
@@ -429,7 +620,7 @@ export class Solver {
       }
       // We can't expect minSpeparation >= -Settings.linearSlop because we don't
       // push the separation above -Settings.linearSlop.
-      const contactsOkay = minSeparation >= -3.0 * Settings.linearSlop;
+      const contactsOkay = minSeparation >= -3.0 * settings.linearSlop;
 
       let jointsOkay = true;
       for (let j = 0; j < this.m_joints.length; ++j) {
@@ -445,6 +636,141 @@ export class Solver {
       }
     }
 
+    return positionSolved;
+  }
+
+  /**
+   * Solve an island with soft contact constraints in sub-steps. Each sub-step
+   * integrates velocities, warm starts, solves constraints with bias,
+   * integrates positions, and relaxes constraints without bias. Restitution is
+   * applied once after the sub-steps. There are no separate position
+   * iterations for contacts, joints correct their positions once per sub-step.
+   */
+  solveIslandSoftStep(step: TimeStep): void {
+    const world = this.m_world;
+    const settings = step.settings;
+    const gravity = world.m_gravity;
+
+    const subStepCount = world.m_subStepCount;
+    const h = step.dt / subStepCount;
+
+    const subStep = s_softStep;
+    subStep.dt = h;
+    subStep.inv_dt = step.inv_dt * subStepCount;
+    subStep.velocityIterations = 1;
+    subStep.positionIterations = 1;
+    subStep.blockSolve = false;
+    subStep.settings = settings;
+
+    // Initialize the body state, and store positions for continuous collision
+    // and for the separation of soft contacts.
+    for (let i = 0; i < this.m_bodies.length; ++i) {
+      const body = this.m_bodies[i];
+
+      matrix.copyVec2(body.m_sweep.c0, body.m_sweep.c);
+      body.m_sweep.a0 = body.m_sweep.a;
+
+      matrix.copyVec2(body.c_position.c, body.m_sweep.c);
+      body.c_position.a = body.m_sweep.a;
+      matrix.copyVec2(body.c_velocity.v, body.m_linearVelocity);
+      body.c_velocity.w = body.m_angularVelocity;
+    }
+
+    // Contacts should not be stiffer than a quarter of the sub-step rate.
+    const contactHertz = math_min(world.m_contactHertz, 0.25 * subStep.inv_dt);
+    contactSoftness.set(contactHertz, world.m_contactDampingRatio, h);
+    staticSoftness.set(2.0 * contactHertz, world.m_contactDampingRatio, h);
+    const jointHertz = math_min(world.m_jointHertz, 0.25 * subStep.inv_dt);
+    jointSoftness.set(jointHertz, world.m_jointDampingRatio, h);
+
+    subStep.warmStarting = step.warmStarting;
+    subStep.dtRatio = step.dtRatio;
+
+    for (let i = 0; i < this.m_contacts.length; ++i) {
+      const contact = this.m_contacts[i];
+      contact.initConstraint(subStep);
+      contact.initVelocityConstraint(subStep);
+      contact.initSoftConstraint(contactSoftness, staticSoftness, world.m_contactPushVelocity);
+    }
+
+    this.addHitEvents(settings);
+
+    for (let n = 0; n < subStepCount; ++n) {
+      // Integrate velocities and apply damping.
+      for (let i = 0; i < this.m_bodies.length; ++i) {
+        const body = this.m_bodies[i];
+        if (!body.isDynamic()) {
+          continue;
+        }
+        matrix.copyVec2(v, body.c_velocity.v);
+        let w = body.c_velocity.w;
+
+        matrix.plusScaleVec2(v, h * body.m_gravityScale, gravity);
+        matrix.plusScaleVec2(v, h * body.m_invMass, body.m_force);
+        w += h * body.m_invI * body.m_torque;
+
+        matrix.scaleVec2(v, 1.0 / (1.0 + h * body.m_linearDamping), v);
+        w *= 1.0 / (1.0 + h * body.m_angularDamping);
+
+        matrix.copyVec2(body.c_velocity.v, v);
+        body.c_velocity.w = w;
+      }
+
+      // Warm start with the impulses of the previous sub-step. Joints are
+      // initialized at the current positions in each sub-step.
+      for (let i = 0; i < this.m_joints.length; ++i) {
+        this.m_joints[i].initVelocityConstraints(subStep);
+      }
+      for (let i = 0; i < this.m_contacts.length; ++i) {
+        this.m_contacts[i].warmStartConstraint(subStep);
+      }
+      subStep.warmStarting = true;
+      subStep.dtRatio = 1.0;
+
+      // Solve with bias.
+      for (let i = 0; i < this.m_joints.length; ++i) {
+        this.m_joints[i].solveSoftVelocityConstraints(subStep, jointSoftness, true);
+      }
+      for (let i = 0; i < this.m_contacts.length; ++i) {
+        this.m_contacts[i].solveSoftVelocityConstraint(subStep, true);
+      }
+
+      // Integrate positions
+      for (let i = 0; i < this.m_bodies.length; ++i) {
+        const body = this.m_bodies[i];
+        integratePosition(body.m_storage, body.m_storageId, h, settings.maxTranslation, settings.maxTranslationSquared, settings.maxRotation, settings.maxRotationSquared);
+      }
+
+      // Relax, remove the velocity added by pushing.
+      for (let i = 0; i < this.m_joints.length; ++i) {
+        this.m_joints[i].solveSoftVelocityConstraints(subStep, jointSoftness, false);
+      }
+      for (let i = 0; i < this.m_contacts.length; ++i) {
+        this.m_contacts[i].solveSoftVelocityConstraint(subStep, false);
+      }
+    }
+
+    for (let i = 0; i < this.m_contacts.length; ++i) {
+      this.m_contacts[i].applySoftRestitution(subStep);
+    }
+
+    // Store impulses for warm starting
+    for (let i = 0; i < this.m_contacts.length; ++i) {
+      this.m_contacts[i].storeConstraintImpulses(subStep);
+    }
+
+    this.finishIsland(step, true);
+  }
+
+  /**
+   * Copy the solved state back to the bodies of the island, report impulses,
+   * and put the island to sleep if it has been resting long enough.
+   */
+  finishIsland(step: TimeStep, positionSolved: boolean): void {
+    const settings = step.settings;
+    const allowSleep = this.m_world.m_allowSleep;
+    const h = step.dt;
+
     // Copy state buffers back to the bodies
     for (let i = 0; i < this.m_bodies.length; ++i) {
       const body = this.m_bodies[i];
@@ -461,8 +787,8 @@ export class Solver {
     if (allowSleep) {
       let minSleepTime = Infinity;
 
-      const linTolSqr = Settings.linearSleepToleranceSqr;
-      const angTolSqr = Settings.angularSleepToleranceSqr;
+      const linTolSqr = settings.linearSleepToleranceSqr;
+      const angTolSqr = settings.angularSleepToleranceSqr;
 
       for (let i = 0; i < this.m_bodies.length; ++i) {
         const body = this.m_bodies[i];
@@ -481,7 +807,7 @@ export class Solver {
         }
       }
 
-      if (minSleepTime >= Settings.timeToSleep && positionSolved) {
+      if (minSleepTime >= settings.timeToSleep && positionSolved) {
         for (let i = 0; i < this.m_bodies.length; ++i) {
           const body = this.m_bodies[i];
           body.setAwake(false);
@@ -495,14 +821,18 @@ export class Solver {
    */
   solveWorldTOI(step: TimeStep): void {
     const world = this.m_world;
+    const settings = step.settings;
 
     if (world.m_stepComplete) {
-      for (let b = world.m_bodyList; b; b = b.m_next) {
-        b.m_islandFlag = false;
-        b.m_sweep.alpha0 = 0.0;
+      // Only bodies advanced in the last step have a sweep to reset.
+      for (let i = 0; i < this.m_toiBodies.length; ++i) {
+        this.m_toiBodies[i].m_sweep.alpha0 = 0.0;
       }
+      this.m_toiBodies.length = 0;
 
-      for (let c = world.m_contactList; c; c = c.m_next) {
+      // Sleeping contacts are invalidated when they fall asleep.
+      for (let i = 0; i < world.m_awakeContacts.length; ++i) {
+        const c = world.m_awakeContacts[i];
         // Invalidate TOI
         c.m_toiFlag = false;
         c.m_islandFlag = false;
@@ -517,14 +847,15 @@ export class Solver {
       let minContact: Contact | null = null;
       let minAlpha = 1.0;
 
-      for (let c = world.m_contactList; c; c = c.m_next) {
+      for (let k = 0; k < world.m_awakeContacts.length; ++k) {
+        const c = world.m_awakeContacts[k];
         // Is this contact disabled?
         if (c.isEnabled() == false) {
           continue;
         }
 
         // Prevent excessive sub-stepping.
-        if (c.m_toiCount > Settings.maxSubSteps) {
+        if (c.m_toiCount > settings.maxSubSteps) {
           continue;
         }
 
@@ -541,6 +872,12 @@ export class Solver {
             continue;
           }
 
+          // Soft contacts may overlap more than the polygon skin, touching
+          // contacts are left to the soft-step solver.
+          if (world.m_softStep && c.isTouching()) {
+            continue;
+          }
+
           const bA = fA.getBody();
           const bB = fB.getBody();
 
@@ -568,10 +905,12 @@ export class Solver {
 
           if (bA.m_sweep.alpha0 < bB.m_sweep.alpha0) {
             alpha0 = bB.m_sweep.alpha0;
-            bA.m_sweep.advance(alpha0);
+            this.addToiBody(bA);
+            Sweep.advance(alpha0, bA.m_sweep);
           } else if (bB.m_sweep.alpha0 < bA.m_sweep.alpha0) {
             alpha0 = bA.m_sweep.alpha0;
-            bB.m_sweep.advance(alpha0);
+            this.addToiBody(bB);
+            Sweep.advance(alpha0, bB.m_sweep);
           }
 
           _ASSERT && console.assert(alpha0 < 1.0);
@@ -585,9 +924,10 @@ export class Solver {
           // Compute the time of impact in interval [0, minTOI]
           input.proxyA.set(fA.getShape(), indexA);
           input.proxyB.set(fB.getShape(), indexB);
-          input.sweepA.set(bA.m_sweep);
-          input.sweepB.set(bB.m_sweep);
+          Sweep.copy(bA.m_sweep, input.sweepA);
+          Sweep.copy(bB.m_sweep, input.sweepB);
           input.tMax = 1.0;
+          input.settings = settings;
 
           TimeOfImpact(output, input);
 
@@ -622,14 +962,16 @@ export class Solver {
       const bA = fA.getBody();
       const bB = fB.getBody();
 
-      backup1.set(bA.m_sweep);
-      backup2.set(bB.m_sweep);
+      Sweep.copy(bA.m_sweep, backup1);
+      Sweep.copy(bB.m_sweep, backup2);
 
+      this.addToiBody(bA);
+      this.addToiBody(bB);
       bA.advance(minAlpha);
       bB.advance(minAlpha);
 
       // The TOI contact likely has some new contact points.
-      minContact.update(world);
+      minContact.update(world, world.m_settings);
       minContact.m_toiFlag = false;
       ++minContact.m_toiCount;
 
@@ -637,8 +979,8 @@ export class Solver {
       if (minContact.isEnabled() == false || minContact.isTouching() == false) {
         // Restore the sweeps.
         minContact.setEnabled(false);
-        bA.m_sweep.set(backup1);
-        bB.m_sweep.set(backup2);
+        Sweep.copy(backup1, bA.m_sweep);
+        Sweep.copy(backup2, bB.m_sweep);
         bA.synchronizeTransform();
         bB.synchronizeTransform();
         continue;
@@ -687,18 +1029,19 @@ export class Solver {
             }
 
             // Tentatively advance the body to the TOI.
-            backup.set(other.m_sweep);
+            Sweep.copy(other.m_sweep, backup);
             if (other.m_islandFlag == false) {
+              this.addToiBody(other);
               other.advance(minAlpha);
             }
 
             // Update the contact points
-            contact.update(world);
+            contact.update(world, world.m_settings);
 
             // Was the contact disabled by the user?
             // Are there contact points?
             if (contact.isEnabled() == false || contact.isTouching() == false) {
-              other.m_sweep.set(backup);
+              Sweep.copy(backup, other.m_sweep);
               other.synchronizeTransform();
               continue;
             }
@@ -729,8 +1072,10 @@ export class Solver {
       s_subStep.positionIterations = 20;
       s_subStep.velocityIterations = step.velocityIterations;
       s_subStep.warmStarting = false;
+      s_subStep.settings = settings;
 
       this.solveIslandTOI(s_subStep, bA, bB);
+      this.addMoveEvents();
 
       // Reset island flags and synchronize broad-phase proxies.
       for (let i = 0; i < this.m_bodies.length; ++i) {
@@ -762,7 +1107,74 @@ export class Solver {
     }
   }
 
+  /**
+   * Keep track of a body before its sweep is advanced, to reset it when the
+   * step is complete.
+   */
+  addToiBody(body: Body): void {
+    if (body.m_sweep.alpha0 == 0.0) {
+      this.m_toiBodies.push(body);
+    }
+  }
+
+  /**
+   * Report the bodies of the island which were moved by the solver.
+   */
+  addMoveEvents(): void {
+    const events = this.m_world.m_bodyMoveEvents;
+    for (let i = 0; i < this.m_bodies.length; ++i) {
+      const body = this.m_bodies[i];
+      if (body.isStatic()) {
+        continue;
+      }
+      events.push(body, !body.m_awakeFlag);
+    }
+  }
+
+  /**
+   * Report hit events for contacts which started touching, using the relative
+   * normal velocities found when initializing velocity constraints.
+   */
+  addHitEvents(settings: SettingsInternal): void {
+    const events = this.m_world.m_contactEvents;
+    const lengthUnitsPerMeter = settings.value('lengthUnitsPerMeter');
+
+    for (let i = 0; i < this.m_contacts.length; ++i) {
+      const contact = this.m_contacts[i];
+      if (!contact.m_hitFlag) {
+        continue;
+      }
+      // Reset the flag even if events are disabled, so it does not report later.
+      contact.m_hitFlag = false;
+      if (!events) {
+        continue;
+      }
+
+      const fixtureA = contact.m_fixtureA;
+      const fixtureB = contact.m_fixtureB;
+      const thresholdA = fixtureA.m_hitEventThreshold != null ? fixtureA.m_hitEventThreshold * lengthUnitsPerMeter : settings.hitEventThreshold;
+      const thresholdB = fixtureB.m_hitEventThreshold != null ? fixtureB.m_hitEventThreshold * lengthUnitsPerMeter : settings.hitEventThreshold;
+
+      // Use the point with the largest approach speed.
+      let approachSpeed = math_min(thresholdA, thresholdB);
+      let index = -1;
+      for (let j = 0; j < contact.v_pointCount; ++j) {
+        const speed = -contact.v_points[j].relativeVelocity;
+        if (speed > approachSpeed) {
+          approachSpeed = speed;
+          index = j;
+        }
+      }
+
+      if (index >= 0) {
+        matrix.addVec2(hitPoint, fixtureA.m_body.c_position.c, contact.v_points[index].rA);
+        events.hit.push(fixtureA, fixtureB, hitPoint, contact.v_normal, approachSpeed);
+      }
+    }
+  }
+
   solveIslandTOI(subStep: TimeStep, toiA: Body, toiB: Body): void {
+    const settings = subStep.settings;
 
     // Initialize the body state.
     for (let i = 0; i < this.m_bodies.length; ++i) {
@@ -788,7 +1200,7 @@ export class Solver {
       }
       // We can't expect minSpeparation >= -Settings.linearSlop because we don't
       // push the separation above -Settings.linearSlop.
-      const contactsOkay = minSeparation >= -1.5 * Settings.linearSlop;
+      const contactsOkay = minSeparation >= -1.5 * settings.linearSlop;
       if (contactsOkay) {
         break;
       }
@@ -810,8 +1222,8 @@ export class Solver {
         const input = new DistanceInput();
         input.proxyA.set(fA.getShape(), indexA);
         input.proxyB.set(fB.getShape(), indexB);
-        input.transformA.set(bA.getTransform());
-        input.transformB.set(bB.getTransform());
+        Transform.copy(bA.getTransform(), input.transformA);
+        Transform.copy(bB.getTransform(), input.transformB);
         input.useRadii = false;
 
         const output = new DistanceOutput();
@@ -837,6 +1249,8 @@ export class Solver {
       contact.initVelocityConstraint(subStep);
     }
 
+    this.addHitEvents(settings);
+
     // Solve velocity constraints.
     for (let i = 0; i < subStep.velocityIterations; ++i) {
       for (let j = 0; j < this.m_contacts.length; ++j) {
@@ -853,40 +1267,13 @@ export class Solver {
     // Integrate positions
     for (let i = 0; i < this.m_bodies.length; ++i) {
       const body = this.m_bodies[i];
-
-      matrix.copyVec2(c, body.c_position.c);
-      let a = body.c_position.a;
-      matrix.copyVec2(v, body.c_velocity.v);
-      let w = body.c_velocity.w;
-
-      // Check for large velocities
-      matrix.scaleVec2(translation, h, v);
-      const translationLengthSqr = matrix.lengthSqrVec2(translation);
-      if (translationLengthSqr > Settings.maxTranslationSquared) {
-        const ratio = Settings.maxTranslation / math_sqrt(translationLengthSqr);
-        matrix.mulVec2(v, ratio);
-      }
-
-      const rotation = h * w;
-      if (rotation * rotation > Settings.maxRotationSquared) {
-        const ratio = Settings.maxRotation / math_abs(rotation);
-        w *= ratio;
-      }
-
-      // Integrate
-      matrix.plusScaleVec2(c, h, v);
-      a += h * w;
-
-      matrix.copyVec2(body.c_position.c, c);
-      body.c_position.a = a;
-      matrix.copyVec2(body.c_velocity.v, v);
-      body.c_velocity.w = w;
+      integratePosition(body.m_storage, body.m_storageId, h, settings.maxTranslation, settings.maxTranslationSquared, settings.maxRotation, settings.maxRotationSquared);
 
       // Sync bodies
-      matrix.copyVec2(body.m_sweep.c, c);
-      body.m_sweep.a = a;
-      matrix.copyVec2(body.m_linearVelocity, v);
-      body.m_angularVelocity = w;
+      matrix.copyVec2(body.m_sweep.c, body.c_position.c);
+      body.m_sweep.a = body.c_position.a;
+      matrix.copyVec2(body.m_linearVelocity, body.c_velocity.v);
+      body.m_angularVelocity = body.c_velocity.w;
       body.synchronizeTransform();
     }
 
@@ -22,12 +22,44 @@
  * SOFTWARE.
  */
 
-import * as Vec2 from '../common/Vec2';
+import { Vec2Value } from '../common/Vec2';
 
+/**
+ * Solver velocity of a body, a handle into three numbers of a typed array,
+ * see {@link BodyStorage}.
+ */
 export class Velocity {
+  /** @internal */ m_data: Float64Array;
+  /** @internal */ m_offset: number;
+  /** @internal */ m_v: Vec2Value;
+
+  constructor(data: Float64Array = new Float64Array(3), offset: number = 0) {
+    this.bind(data, offset);
+  }
+
+  /** @internal */
+  bind(data: Float64Array, offset: number): void {
+    this.m_data = data;
+    this.m_offset = offset;
+    this.m_v = data.subarray(offset, offset + 2) as unknown as Vec2Value;
+  }
+
   /** linear */
-  v = Vec2.zero();
+  get v(): Vec2Value {
+    return this.m_v;
+  }
+
+  set v(v: Vec2Value) {
+    this.m_v[0] = v[0];
+    this.m_v[1] = v[1];
+  }
 
   /** angular */
-  w = 0;
+  get w(): number {
+    return this.m_data[this.m_offset + 2];
+  }
+
+  set w(w: number) {
+    this.m_data[this.m_offset + 2] = w;
+  }
 }
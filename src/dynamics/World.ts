@@ -23,19 +23,49 @@
  */
 
 import { options } from '../util/options';
+import { SettingsDef, SettingsInternal } from '../Settings';
 import { Vec2Value } from '../common/Vec2';
 import * as Vec2 from '../common/Vec2';
-import { BroadPhase } from '../collision/BroadPhase';
+import { BroadPhase, BroadPhaseState } from '../collision/BroadPhase';
 import { Solver, ContactImpulse, TimeStep } from './Solver';
-import { Body, BodyDef } from './Body';
-import { Joint } from './Joint';
-import { Contact } from './Contact';
-import { AABBValue, RayCastInput, RayCastOutput } from "../collision/AABB";
+import { Body, BodyDef, BodyState } from './Body';
+import { Joint, JointState } from './Joint';
+import { Contact, ContactState } from './Contact';
+import { AABB, AABBValue, RayCastInput, RayCastOutput } from "../collision/AABB";
 import { Fixture, FixtureProxy } from "./Fixture";
-import { Manifold } from "../collision/Manifold";
+import { Manifold, WorldManifold } from "../collision/Manifold";
+import { ContactEventBuffer, ContactEvents } from './ContactEvents';
+import { BodyMoveEvents } from './BodyEvents';
+import { BodyStorage } from './BodyStorage';
+import { ContactStorage } from './ContactStorage';
+import type { IslandWorkerPool } from './IslandWorkerPool';
+import { testOverlap, Distance, DistanceInput, DistanceOutput, SimplexCache, ShapeCast, ShapeCastInput, ShapeCastOutput } from '../collision/Distance';
+import { Shape } from '../collision/Shape';
+import { TransformValue } from '../common/Transform';
+import * as Transform from '../common/Transform';
+import { DistanceJoint, DistanceJointDef } from './joint/DistanceJoint';
+import { FrictionJoint, FrictionJointDef } from './joint/FrictionJoint';
+import { GearJoint, GearJointDef } from './joint/GearJoint';
+import { MotorJoint, MotorJointDef } from './joint/MotorJoint';
+import { MouseJoint, MouseJointDef } from './joint/MouseJoint';
+import { PrismaticJoint, PrismaticJointDef } from './joint/PrismaticJoint';
+import { PulleyJoint, PulleyJointDef } from './joint/PulleyJoint';
+import { RevoluteJoint, RevoluteJointDef } from './joint/RevoluteJoint';
+import { RopeJoint, RopeJointDef } from './joint/RopeJoint';
+import { WeldJoint, WeldJointDef } from './joint/WeldJoint';
+import { WheelJoint, WheelJointDef } from './joint/WheelJoint';
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
+/** @internal */ const math_min = Math.min;
+/** @internal */ const math_max = Math.max;
+
+/** @internal */ const worldManifold = new WorldManifold();
+/** @internal */ const shapeCastInput = new ShapeCastInput();
+/** @internal */ const shapeCastOutput = new ShapeCastOutput();
+/** @internal */ const distanceInput = new DistanceInput();
+/** @internal */ const distanceOutput = new DistanceOutput();
+/** @internal */ const simplexCache = new SimplexCache();
 
 
 export interface WorldDef {
@@ -57,11 +87,66 @@ export interface WorldDef {
   /** [default: true] */
   blockSolve?: boolean;
 
+  /**
+   * [default: false] Collect contact events during each step into typed arrays,
+   * see {@link World.getContactEvents}.
+   */
+  contactEvents?: boolean;
+
   /** @internal [8] For the velocity constraint solver. */
   velocityIterations?: number;
 
   /** @internal [3] For the position constraint solver. */
   positionIterations?: number;
+
+  /**
+   * [default: 'default'] Constraint solver. The default solver uses Baumgarte
+   * correction and position iterations, see {@link Settings.baumgarte}.
+   * 'soft-step' solves soft contact constraints in sub-steps instead, which
+   * is more stable for tall stacks and large mass ratios. Joints are solved
+   * with soft constraints too, see {@link WorldDef.jointHertz}, except for
+   * friction, motor and mouse joints which use their default velocity
+   * constraints. Time of impact events use the default solver.
+   */
+  solver?: 'default' | 'soft-step';
+
+  /** [default: 4] Number of sub-steps in each step of the 'soft-step' solver. */
+  subStepCount?: number;
+
+  /** [default: 30] Stiffness of contacts of the 'soft-step' solver, in hertz. */
+  contactHertz?: number;
+
+  /** [default: 10] Damping ratio of contacts of the 'soft-step' solver. */
+  contactDampingRatio?: number;
+
+  /**
+   * [default: 60] Stiffness of joints of the 'soft-step' solver, in hertz.
+   * Joint springs, such as {@link DistanceJointDef.frequencyHz}, and motors are
+   * not affected.
+   */
+  jointHertz?: number;
+
+  /** [default: 2] Damping ratio of joints of the 'soft-step' solver. */
+  jointDampingRatio?: number;
+
+  /**
+   * [default: 3] Maximum speed at which the 'soft-step' solver pushes
+   * overlapping bodies apart, in meters per second.
+   */
+  contactPushVelocity?: number;
+
+  /**
+   * [default: null] Solve large islands on Node.js worker threads, see
+   * {@link IslandWorkerPool}. Only the default solver uses the pool.
+   */
+  workerPool?: IslandWorkerPool | null;
+
+  /**
+   * Tuning constants of this world, values which are not set are read from the
+   * global {@link Settings}. Use this to simulate worlds with different length
+   * scales side by side.
+   */
+  settings?: SettingsDef;
 }
 
 /** @internal */ const DEFAULTS: WorldDef = {
@@ -71,8 +156,118 @@ export interface WorldDef {
   continuousPhysics : true,
   subStepping : false,
   blockSolve : true,
+  contactEvents : false,
   velocityIterations : 8,
-  positionIterations : 3
+  positionIterations : 3,
+  solver : 'default',
+  subStepCount : 4,
+  contactHertz : 30,
+  contactDampingRatio : 10,
+  jointHertz : 60,
+  jointDampingRatio : 2,
+  contactPushVelocity : 3,
+  workerPool : null
+};
+
+/**
+ * Options of {@link World.update}.
+ */
+export interface WorldUpdateOpt {
+  /** [default: 1/60] Time step of each call to {@link World.step}. */
+  fixedDt?: number;
+  /**
+   * [default: 8] Maximum number of steps in one update. Time which would take
+   * more steps is dropped, so that the simulation slows down instead of falling
+   * further behind.
+   */
+  maxSubSteps?: number;
+}
+
+/**
+ * Options of {@link World.writeTransforms}.
+ */
+export interface WriteTransformsOpt<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** Only bodies for which this returns true are written. */
+  filter?: (body: Body<BodyData, FixtureData, JointData>) => boolean;
+  /** [default: false] Write all bodies, instead of awake bodies and bodies which moved in the last step. */
+  all?: boolean;
+  /** [default: 'angle'] Write the angle, or the cosine and sine of the angle. */
+  rotation?: 'angle' | 'cos-sin';
+  /**
+   * [default: false] Write the storage id of the body after the rotation, see
+   * {@link Body.getStorageId}, which does not change while the body exists.
+   */
+  index?: boolean;
+  /** Number of floats from one body to the next, defaults to the number of floats written per body. */
+  stride?: number;
+  /** Array to write the bodies to, a new array is used otherwise. */
+  bodies?: Body<BodyData, FixtureData, JointData>[];
+}
+
+/**
+ * Result of {@link World.writeTransforms}.
+ */
+export interface WriteTransformsResult<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** Number of bodies written. */
+  count: number;
+  /** Body of each entry. */
+  bodies: Body<BodyData, FixtureData, JointData>[];
+}
+
+/**
+ * Joint classes by joint type, see {@link World.createJoint}.
+ */
+export interface JointTypes<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  'distance-joint': DistanceJoint<BodyData, FixtureData, JointData>;
+  'friction-joint': FrictionJoint<BodyData, FixtureData, JointData>;
+  'gear-joint': GearJoint<BodyData, FixtureData, JointData>;
+  'motor-joint': MotorJoint<BodyData, FixtureData, JointData>;
+  'mouse-joint': MouseJoint<BodyData, FixtureData, JointData>;
+  'prismatic-joint': PrismaticJoint<BodyData, FixtureData, JointData>;
+  'pulley-joint': PulleyJoint<BodyData, FixtureData, JointData>;
+  'revolute-joint': RevoluteJoint<BodyData, FixtureData, JointData>;
+  'rope-joint': RopeJoint<BodyData, FixtureData, JointData>;
+  'weld-joint': WeldJoint<BodyData, FixtureData, JointData>;
+  'wheel-joint': WheelJoint<BodyData, FixtureData, JointData>;
+}
+
+/**
+ * Joint definitions by joint type, see {@link World.createJoint}.
+ */
+export interface JointDefTypes {
+  'distance-joint': DistanceJointDef;
+  'friction-joint': FrictionJointDef;
+  'gear-joint': GearJointDef;
+  'motor-joint': MotorJointDef;
+  'mouse-joint': MouseJointDef;
+  'prismatic-joint': PrismaticJointDef;
+  'pulley-joint': PulleyJointDef;
+  'revolute-joint': RevoluteJointDef;
+  'rope-joint': RopeJointDef;
+  'weld-joint': WeldJointDef;
+  'wheel-joint': WheelJointDef;
+}
+
+/**
+ * Joint definition with a `type` field which selects the joint class, for
+ * {@link World.createJoint}. Without a type argument this is the union of all
+ * joint definitions, which can be used to store joints in level data.
+ */
+export type WorldJointDef<K extends keyof JointDefTypes = keyof JointDefTypes> =
+  K extends keyof JointDefTypes ? JointDefTypes[K] & { type: K } : never;
+
+/** @internal */ const JOINT_CLASSES = {
+  [DistanceJoint.TYPE]: DistanceJoint,
+  [FrictionJoint.TYPE]: FrictionJoint,
+  [GearJoint.TYPE]: GearJoint,
+  [MotorJoint.TYPE]: MotorJoint,
+  [MouseJoint.TYPE]: MouseJoint,
+  [PrismaticJoint.TYPE]: PrismaticJoint,
+  [PulleyJoint.TYPE]: PulleyJoint,
+  [RevoluteJoint.TYPE]: RevoluteJoint,
+  [RopeJoint.TYPE]: RopeJoint,
+  [WeldJoint.TYPE]: WeldJoint,
+  [WheelJoint.TYPE]: WheelJoint,
 };
 
 /**
@@ -94,21 +289,131 @@ export interface WorldDef {
  *
  * @returns A number to update the maxFraction
  */
-export type WorldRayCastCallback = (fixture: Fixture, point: Vec2Value, normal: Vec2Value, fraction: number) => number;
+export type WorldRayCastCallback<BodyData = unknown, FixtureData = unknown, JointData = unknown> = (fixture: Fixture<BodyData, FixtureData, JointData>, point: Vec2Value, normal: Vec2Value, fraction: number) => number;
+
+/**
+ * A fixture hit by a ray, see {@link World.rayCastClosest} and
+ * {@link World.rayCastAll}.
+ */
+export interface RayCastHit<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** The fixture hit by the ray */
+  fixture: Fixture<BodyData, FixtureData, JointData>;
+  /** The point of initial intersection */
+  point: Vec2Value;
+  /** The normal vector at the point of intersection */
+  normal: Vec2Value;
+  /** The fraction along the ray at the point of intersection */
+  fraction: number;
+}
+
+/**
+ * A fixture found by {@link World.queryNearest}.
+ */
+export interface NearestHit<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** The fixture */
+  fixture: Fixture<BodyData, FixtureData, JointData>;
+  /** The closest point of the fixture to the query point or shape */
+  point: Vec2Value;
+  /** The distance between the fixture and the query point or shape, zero if they overlap */
+  distance: number;
+}
+
+/**
+ * Called for each fixture hit by a shape cast, see {@link World.shapeCast}.
+ * Return -1 to ignore the fixture and continue, 0 to terminate the cast,
+ * `fraction` to clip the cast to this hit, or 1 to continue without clipping.
+ *
+ * @param fixture The fixture hit by the shape
+ * @param point The point where the shape first touches the fixture
+ * @param normal The normal of the fixture surface at the point
+ * @param fraction The fraction of the translation at which the shape first touches the fixture
+ *
+ * @returns A number to update the maxFraction
+ */
+export type WorldShapeCastCallback<BodyData = unknown, FixtureData = unknown, JointData = unknown> = (fixture: Fixture<BodyData, FixtureData, JointData>, point: Vec2Value, normal: Vec2Value, fraction: number) => number;
+
+/**
+ * Called to decide if two fixtures, which pass {@link Fixture.shouldCollide}
+ * and {@link Body.shouldCollide}, collide. Return `false` to disable their
+ * contact, see {@link World.setContactFilter}.
+ */
+export type WorldContactFilter<BodyData = unknown, FixtureData = unknown, JointData = unknown> = (fixtureA: Fixture<BodyData, FixtureData, JointData>, fixtureB: Fixture<BodyData, FixtureData, JointData>) => boolean;
 
 /**
  * Called for each fixture found in the query AABB. It may return `false` to terminate the query.
  */
-export type WorldAABBQueryCallback = (fixture: Fixture) => boolean;
+export type WorldAABBQueryCallback<BodyData = unknown, FixtureData = unknown, JointData = unknown> = (fixture: Fixture<BodyData, FixtureData, JointData>) => boolean;
 
-export class World {
+/**
+ * Filter of world queries such as {@link World.queryShape}. A fixture is found
+ * if its filter data would let it collide with a fixture having the filter data
+ * of the query, see {@link Fixture.shouldCollide}.
+ */
+export interface QueryFilter<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** [default: 0x0001] Collision category bits of the query. */
+  categoryBits?: number;
+  /** [default: 0xFFFF] Categories of fixtures the query finds. */
+  maskBits?: number;
+  /** [default: 0] Collision group of the query. */
+  groupIndex?: number;
+  /** Fixtures of these bodies are not found. */
+  ignoreBodies?: Body<BodyData, FixtureData, JointData>[];
+  /** [default: false] Find sensor fixtures. */
+  includeSensors?: boolean;
+}
+
+/**
+ * @internal
+ * Result of a call made while the world is locked, which is not available
+ * until the end of the step.
+ */
+function deferredResult(name: string): any {
+  const error = function(): never {
+    throw new Error(
+      name + '() was called during a world callback and is deferred until the end of World.step(), '
+      + 'its result can not be used before then. Use the "post-step" event or make the call after the step.'
+    );
+  };
+  return new Proxy({}, { get: error, set: error, has: error, apply: error });
+}
+
+/**
+ * Simulation state of a world, see {@link World.saveState}. It is plain data
+ * and can be copied with `structuredClone` or `JSON`.
+ */
+export interface WorldState {
+  /** Time step of the last step, `dt`, `inv_dt`, `inv_dt0` and `dtRatio`. */
+  step: [number, number, number, number];
+  stepComplete: boolean;
+  newFixture: boolean;
+  bodies: BodyState[];
+  joints: JointState[];
+  /** Contacts in world contact list order. */
+  contacts: ContactState[];
+  /** Sensor fixtures and their overlaps, as fixture indices in world order. */
+  sensors: { fixture: number, overlaps: number[] }[];
+  /** Awake bodies, as body indices in world order. */
+  awakeBodies: number[];
+  /** Awake contacts, as indices in `contacts`. */
+  awakeContacts: number[];
+  broadPhase: BroadPhaseState;
+}
+
+/**
+ * The world manages bodies, joints and contacts, and steps the simulation.
+ *
+ * Type parameters are the types of user data of bodies, fixtures and joints in
+ * the world, see {@link Body.getUserData}.
+ */
+export class World<BodyData = unknown, FixtureData = unknown, JointData = unknown> {
+  /** @internal */ m_settings: SettingsInternal;
   /** @internal */ m_solver: Solver;
   /** @internal */ m_broadPhase: BroadPhase;
-  /** @internal */ m_contactList: Contact | null;
+  /** @internal */ m_contactList: Contact<BodyData, FixtureData, JointData> | null;
   /** @internal */ m_contactCount: number;
-  /** @internal */ m_bodyList: Body | null;
+  /** @internal */ m_bodyList: Body<BodyData, FixtureData, JointData> | null;
   /** @internal */ m_bodyCount: number;
-  /** @internal */ m_jointList: Joint | null;
+  /** @internal */ m_jointList: Joint<BodyData, FixtureData, JointData> | null;
   /** @internal */ m_jointCount: number;
   /** @internal */ m_stepComplete: boolean;
   /** @internal */ m_allowSleep: boolean;
@@ -121,8 +426,43 @@ export class World {
   /** @internal */ m_subStepping: boolean;
   /** @internal */ m_blockSolve: boolean;
   /** @internal */ m_velocityIterations: number;
+  /** @internal */ m_softStep: boolean;
+  /** @internal */ m_subStepCount: number;
+  /** @internal */ m_contactHertz: number;
+  /** @internal */ m_contactDampingRatio: number;
+  /** @internal */ m_jointHertz: number;
+  /** @internal */ m_jointDampingRatio: number;
+  /** @internal */ m_contactPushVelocity: number;
   /** @internal */ m_positionIterations: number;
   /** @internal */ m_t: number;
+  /** @internal Time which is not stepped yet, see update. */
+  m_accumulator: number;
+  /** @internal */ m_contactEvents: ContactEvents | null;
+  /** @internal */ m_bodyMoveEvents: BodyMoveEvents<BodyData, FixtureData, JointData>;
+  /** @internal Solver state of bodies, see getBodyStorage. */
+  m_bodyStorage: BodyStorage;
+  /** @internal Constraint data of contacts, see getContactStorage. */
+  m_contactStorage: ContactStorage;
+  /** @internal */ m_workerPool: IslandWorkerPool | null;
+  /** @internal */ m_contactFilter: WorldContactFilter<BodyData, FixtureData, JointData> | null;
+  /**
+   * @internal Non-static bodies which are awake and active. Only these bodies
+   * are visited by the solver in each step, sleeping bodies cost nothing.
+   */
+  m_awakeBodies: Body<BodyData, FixtureData, JointData>[];
+  /** @internal Contacts with an awake non-static body, which are updated in each step. */
+  m_awakeContacts: Contact<BodyData, FixtureData, JointData>[];
+  /** @internal Set when a contact is flagged for filtering, all contacts are updated in the next step. */
+  m_filterPending: boolean;
+  /** @internal Sensor fixtures, and fixtures which stopped being sensors until their overlaps end. */
+  m_sensorFixtures: Fixture<BodyData, FixtureData, JointData>[];
+  /** @internal Pairs of bodies which do not collide, see setCollisionIgnored. */
+  m_collisionIgnored: Map<Body<BodyData, FixtureData, JointData>, Set<Body<BodyData, FixtureData, JointData>>>;
+  /** @internal Calls made while locked, applied at the end of the step. */
+  m_deferred: (() => void)[];
+  /** @internal */ m_sensorQueryFixture: Fixture<BodyData, FixtureData, JointData> | null;
+  /** @internal */ m_sensorQueryChild: number;
+  /** @internal */ m_sensorQueryResult: Fixture<BodyData, FixtureData, JointData>[];
 
   // TODO
   /** @internal */ _listeners: {
@@ -144,9 +484,13 @@ export class World {
 
     def = options(def, DEFAULTS) as WorldDef;
 
+    this.m_settings = new SettingsInternal(def.settings);
+    this.s_step.settings = this.m_settings;
+
     this.m_solver = new Solver(this);
 
     this.m_broadPhase = new BroadPhase();
+    this.m_broadPhase.m_tree.m_settings = this.m_settings;
 
     this.m_contactList = null;
     this.m_contactCount = 0;
@@ -175,7 +519,35 @@ export class World {
     this.m_velocityIterations = def.velocityIterations;
     this.m_positionIterations = def.positionIterations;
 
+    this.m_softStep = def.solver === 'soft-step';
+    this.m_subStepCount = def.subStepCount;
+    this.m_contactHertz = def.contactHertz;
+    this.m_contactDampingRatio = def.contactDampingRatio;
+    this.m_jointHertz = def.jointHertz;
+    this.m_jointDampingRatio = def.jointDampingRatio;
+    this.m_contactPushVelocity = def.contactPushVelocity;
+
     this.m_t = 0;
+    this.m_accumulator = 0;
+
+    this.m_contactEvents = def.contactEvents ? new ContactEvents() : null;
+    this.m_bodyMoveEvents = new BodyMoveEvents();
+    this.m_bodyStorage = new BodyStorage();
+    this.m_contactStorage = new ContactStorage();
+    this.m_workerPool = null;
+    this.setWorkerPool(def.workerPool);
+    this.m_contactFilter = null;
+    this.m_collisionIgnored = new Map();
+    this.m_awakeBodies = [];
+    this.m_awakeContacts = [];
+    this.m_filterPending = false;
+    this.m_sensorFixtures = [];
+
+    this.m_deferred = [];
+
+    this.m_sensorQueryFixture = null;
+    this.m_sensorQueryChild = 0;
+    this.m_sensorQueryResult = [];
   }
 
   /** @internal */
@@ -196,6 +568,7 @@ export class World {
 
     return {
       gravity: this.m_gravity,
+      settings: this.m_settings.m_def,
       bodies,
       joints,
     };
@@ -207,7 +580,10 @@ export class World {
       return new World();
     }
 
-    const world = new World(data.gravity);
+    const world = new World({
+      gravity: data.gravity,
+      settings: data.settings,
+    });
 
     if (data.bodies) {
       for (let i = data.bodies.length - 1; i >= 0; i -= 1) {
@@ -224,13 +600,203 @@ export class World {
     return world;
   }
 
+  /**
+   * Save the simulation state of the world, including bodies, contacts with
+   * their warm-starting impulses, joints and the broad-phase. The state can be
+   * passed to {@link World.restoreState} to rewind the world, for example for
+   * rollback networking. Stepping after a restore gives exactly the same results
+   * as stepping after the save.
+   *
+   * Bodies, fixtures and joints are not saved, the world must have the same
+   * bodies, fixtures and joints when the state is restored.
+   */
+  saveState(): WorldState {
+    _ASSERT && console.assert(this.isLocked() == false);
+
+    const fixtureIndex = new Map<Fixture, number>();
+    const bodies: BodyState[] = [];
+    for (let b = this.m_bodyList; b; b = b.m_next) {
+      for (let f = b.m_fixtureList; f; f = f.m_next) {
+        fixtureIndex.set(f, fixtureIndex.size);
+      }
+      bodies.push(b._saveState());
+    }
+
+    const joints: JointState[] = [];
+    for (let j = this.m_jointList; j; j = j.m_next) {
+      joints.push(j._saveState());
+    }
+
+    const contactIndex = new Map<Contact, number>();
+    const contacts: ContactState[] = [];
+    for (let c = this.m_contactList; c; c = c.m_next) {
+      contactIndex.set(c, contacts.length);
+      contacts.push(c._saveState(fixtureIndex.get(c.m_fixtureA), fixtureIndex.get(c.m_fixtureB)));
+    }
+
+    const sensors: { fixture: number, overlaps: number[] }[] = [];
+    for (let k = 0; k < this.m_sensorFixtures.length; ++k) {
+      const f = this.m_sensorFixtures[k];
+      const overlaps: number[] = [];
+      for (let i = 0; i < f.m_sensorOverlaps.length; ++i) {
+        overlaps.push(fixtureIndex.get(f.m_sensorOverlaps[i]));
+      }
+      sensors.push({ fixture: fixtureIndex.get(f), overlaps });
+    }
+
+    const bodyIndex = new Map<Body, number>();
+    for (let b = this.m_bodyList; b; b = b.m_next) {
+      bodyIndex.set(b, bodyIndex.size);
+    }
+    const awakeBodies: number[] = [];
+    for (let i = 0; i < this.m_awakeBodies.length; ++i) {
+      awakeBodies.push(bodyIndex.get(this.m_awakeBodies[i]));
+    }
+    const awakeContacts: number[] = [];
+    for (let i = 0; i < this.m_awakeContacts.length; ++i) {
+      awakeContacts.push(contactIndex.get(this.m_awakeContacts[i]));
+    }
+
+    return {
+      step: [this.s_step.dt, this.s_step.inv_dt, this.s_step.inv_dt0, this.s_step.dtRatio],
+      stepComplete: this.m_stepComplete,
+      newFixture: this.m_newFixture,
+      bodies,
+      joints,
+      contacts,
+      sensors,
+      awakeBodies,
+      awakeContacts,
+      broadPhase: this.m_broadPhase._saveState(),
+    };
+  }
+
+  /**
+   * Restore a state saved with {@link World.saveState}. Existing contacts are
+   * replaced by the saved contacts without calling contact listeners.
+   *
+   * Throws an error if the world does not have the same number of bodies,
+   * fixtures and joints as when the state was saved.
+   */
+  restoreState(state: WorldState): void {
+    _ASSERT && console.assert(this.isLocked() == false);
+    if (this.isLocked()) {
+      return;
+    }
+
+    const fixtures: Fixture<BodyData, FixtureData, JointData>[] = [];
+    for (let b = this.m_bodyList; b; b = b.m_next) {
+      for (let f = b.m_fixtureList; f; f = f.m_next) {
+        fixtures.push(f);
+      }
+    }
+    let fixtureCount = 0;
+    for (let i = 0; i < state.bodies.length; ++i) {
+      fixtureCount += state.bodies[i].fixtures.length;
+    }
+    if (state.bodies.length !== this.m_bodyCount || fixtureCount !== fixtures.length || state.joints.length !== this.m_jointCount) {
+      throw new Error('World state does not match the bodies, fixtures and joints of this world');
+    }
+
+    // Discard current contacts, listeners are not called and bodies are not woken up.
+    let c = this.m_contactList;
+    while (c) {
+      const next = c.m_next;
+      Contact._discard(c);
+      c = next;
+    }
+    this.m_contactList = null;
+    this.m_contactCount = 0;
+    this.m_awakeContacts.length = 0;
+    this.m_awakeBodies.length = 0;
+
+    const bodies: Body<BodyData, FixtureData, JointData>[] = [];
+    const proxies = new Map<number, FixtureProxy>();
+    let i = 0;
+    for (let b = this.m_bodyList; b; b = b.m_next) {
+      bodies.push(b);
+      b.m_contactList = null;
+      b.m_awakeIndex = -1;
+      b._restoreState(state.bodies[i++]);
+      for (let f = b.m_fixtureList; f; f = f.m_next) {
+        for (let k = 0; k < f.m_proxyCount; ++k) {
+          proxies.set(f.m_proxies[k].proxyId, f.m_proxies[k]);
+        }
+      }
+    }
+
+    i = 0;
+    for (let j = this.m_jointList; j; j = j.m_next) {
+      j._restoreState(state.joints[i++]);
+    }
+
+    // Contacts are prepended to the world and body lists, so recreate them
+    // oldest first to get the same order.
+    const contacts: Contact<BodyData, FixtureData, JointData>[] = [];
+    this.m_filterPending = false;
+    for (let k = state.contacts.length - 1; k >= 0; --k) {
+      const data = state.contacts[k];
+      const contact = Contact._restoreState(data, fixtures[data.fixtureA], fixtures[data.fixtureB]);
+      contacts[k] = contact;
+      this.m_filterPending = this.m_filterPending || data.filter;
+      contact.m_prev = null;
+      contact.m_next = this.m_contactList;
+      if (this.m_contactList != null) {
+        this.m_contactList.m_prev = contact;
+      }
+      this.m_contactList = contact;
+      ++this.m_contactCount;
+    }
+
+    for (let k = 0; k < state.awakeBodies.length; ++k) {
+      const body = bodies[state.awakeBodies[k]];
+      body.m_awakeIndex = this.m_awakeBodies.length;
+      this.m_awakeBodies.push(body);
+    }
+    for (let k = 0; k < state.awakeContacts.length; ++k) {
+      const contact = contacts[state.awakeContacts[k]];
+      contact.m_awakeIndex = this.m_awakeContacts.length;
+      this.m_awakeContacts.push(contact);
+    }
+
+    for (let k = 0; k < fixtures.length; ++k) {
+      fixtures[k].m_sensorOverlaps.length = 0;
+    }
+    this.m_sensorFixtures.length = 0;
+    for (let k = 0; k < state.sensors.length; ++k) {
+      const sensor = fixtures[state.sensors[k].fixture];
+      this.m_sensorFixtures.push(sensor);
+      for (let n = 0; n < state.sensors[k].overlaps.length; ++n) {
+        sensor.m_sensorOverlaps.push(fixtures[state.sensors[k].overlaps[n]]);
+      }
+    }
+
+    this.m_broadPhase._restoreState(state.broadPhase, (proxyId: number) => proxies.get(proxyId));
+
+    this.s_step.dt = state.step[0];
+    this.s_step.inv_dt = state.step[1];
+    this.s_step.inv_dt0 = state.step[2];
+    this.s_step.dtRatio = state.step[3];
+    this.m_stepComplete = state.stepComplete;
+    this.m_newFixture = state.newFixture;
+
+    this.m_solver.m_toiBodies.length = 0;
+    for (let k = 0; k < bodies.length; ++k) {
+      if (bodies[k].m_sweep.alpha0 != 0.0) {
+        this.m_solver.m_toiBodies.push(bodies[k]);
+      }
+      // Sleeping bodies are not visited in the next step.
+      bodies[k].storePreviousTransform();
+    }
+  }
+
   /**
    * Get the world body list. With the returned body, use Body.getNext to get the
    * next body in the world list. A null body indicates the end of the list.
    *
    * @return the head of the world body list.
    */
-  getBodyList(): Body | null {
+  getBodyList(): Body<BodyData, FixtureData, JointData> | null {
     return this.m_bodyList;
   }
 
@@ -240,7 +806,7 @@ export class World {
    *
    * @return the head of the world joint list.
    */
-  getJointList(): Joint | null {
+  getJointList(): Joint<BodyData, FixtureData, JointData> | null {
     return this.m_jointList;
   }
 
@@ -254,7 +820,7 @@ export class World {
    *
    * @return the head of the world contact list.
    */
-  getContactList(): Contact | null {
+  getContactList(): Contact<BodyData, FixtureData, JointData> | null {
     return this.m_contactList;
   }
 
@@ -347,6 +913,172 @@ export class World {
     return this.m_subStepping;
   }
 
+  /**
+   * Enable/disable collecting contact events during each step, see
+   * {@link World.getContactEvents}.
+   */
+  setContactEvents(flag: boolean): void {
+    if (flag && !this.m_contactEvents) {
+      this.m_contactEvents = new ContactEvents();
+    } else if (!flag) {
+      this.m_contactEvents = null;
+    }
+  }
+
+  /**
+   * Get contact events collected during the last step, or null if collecting
+   * contact events is not enabled. Unlike contact listeners, which are called
+   * while the world is locked, the events can be used to create and destroy
+   * bodies and joints after the step. Events are cleared at the start of the
+   * next step.
+   */
+  getContactEvents(): ContactEvents | null {
+    return this.m_contactEvents;
+  }
+
+  /**
+   * Get the bodies which were moved by the solver in the last step, to update
+   * rendering or game state without visiting sleeping bodies. Events are
+   * cleared at the start of the next step.
+   */
+  getBodyMoveEvents(): BodyMoveEvents<BodyData, FixtureData, JointData> {
+    return this.m_bodyMoveEvents;
+  }
+
+  /**
+   * Get the solver state of bodies in typed arrays, indexed by
+   * {@link Body.getStorageId}, to read positions and velocities of many bodies
+   * without copying. Entries are the position and velocity of the center of
+   * mass, use body getters for the body origin. Arrays are replaced when bodies are
+   * added, do not keep references across body creation.
+   */
+  getBodyStorage(): BodyStorage {
+    return this.m_bodyStorage;
+  }
+
+  /**
+   * Get the constraint data of contacts in typed arrays, indexed by
+   * {@link Contact.getStorageId}. Bodies of contacts are referenced by their
+   * storage id, see {@link World.getBodyStorage}. Arrays are replaced when
+   * contacts are added, do not keep references across steps.
+   */
+  getContactStorage(): ContactStorage {
+    return this.m_contactStorage;
+  }
+
+  /**
+   * Set a pool of worker threads to solve large islands, see
+   * {@link IslandWorkerPool}. Body and contact storage arrays are moved to
+   * SharedArrayBuffers while a pool is set. The pool can be shared by worlds
+   * which are stepped one after another.
+   *
+   * @param pool The pool, or null to solve all islands on this thread.
+   */
+  setWorkerPool(pool: IslandWorkerPool | null): void {
+    _ASSERT && console.assert(this.isLocked() == false);
+    if (this.isLocked()) {
+      return;
+    }
+    this.m_workerPool = pool || null;
+    this.m_bodyStorage.setShared(this.m_workerPool !== null);
+    this.m_contactStorage.setShared(this.m_workerPool !== null);
+  }
+
+  /**
+   * Get the pool set by {@link World.setWorkerPool}, or null.
+   */
+  getWorkerPool(): IslandWorkerPool | null {
+    return this.m_workerPool;
+  }
+
+  /**
+   * Set a filter to decide which fixtures collide, in addition to the filter
+   * data of fixtures and joints which disable collision. It is called when
+   * contacts would be created, for contacts flagged by
+   * {@link Fixture.refilter}, and for sensor overlaps. Existing contacts are
+   * filtered again in the next step.
+   *
+   * @param filter The filter, or null to remove the filter.
+   */
+  setContactFilter(filter: WorldContactFilter<BodyData, FixtureData, JointData> | null): void {
+    this.m_contactFilter = filter;
+    for (let c = this.m_contactList; c; c = c.m_next) {
+      c.flagForFiltering();
+    }
+  }
+
+  /**
+   * Get the filter set by {@link World.setContactFilter}, or null.
+   */
+  getContactFilter(): WorldContactFilter<BodyData, FixtureData, JointData> | null {
+    return this.m_contactFilter;
+  }
+
+  /**
+   * Ignore or restore collision between two bodies, for example between a
+   * projectile and the body which fired it. Existing contacts between the
+   * bodies are destroyed in the next step. The pair is forgotten when either
+   * body is destroyed.
+   */
+  setCollisionIgnored(bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, flag: boolean): void {
+    _ASSERT && console.assert(bodyA != bodyB);
+    if (flag == this.isCollisionIgnored(bodyA, bodyB)) {
+      return;
+    }
+
+    if (flag) {
+      this.addIgnoredBody(bodyA, bodyB);
+      this.addIgnoredBody(bodyB, bodyA);
+
+      // Flag contacts between the bodies for filtering.
+      for (let edge = bodyA.m_contactList; edge; edge = edge.next) {
+        if (edge.other == bodyB) {
+          edge.contact.flagForFiltering();
+        }
+      }
+    } else {
+      this.removeIgnoredBody(bodyA, bodyB);
+      this.removeIgnoredBody(bodyB, bodyA);
+
+      // Touch proxies so that new pairs may be created.
+      for (let f = bodyA.m_fixtureList; f; f = f.m_next) {
+        for (let i = 0; i < f.m_proxyCount; ++i) {
+          this.m_broadPhase.touchProxy(f.m_proxies[i].proxyId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns true if collision between two bodies is ignored, see
+   * {@link World.setCollisionIgnored}.
+   */
+  isCollisionIgnored(bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>): boolean {
+    const ignored = this.m_collisionIgnored.get(bodyA);
+    return !!ignored && ignored.has(bodyB);
+  }
+
+  /** @internal */
+  addIgnoredBody(body: Body<BodyData, FixtureData, JointData>, other: Body<BodyData, FixtureData, JointData>): void {
+    let ignored = this.m_collisionIgnored.get(body);
+    if (!ignored) {
+      ignored = new Set();
+      this.m_collisionIgnored.set(body, ignored);
+    }
+    ignored.add(other);
+  }
+
+  /** @internal */
+  removeIgnoredBody(body: Body<BodyData, FixtureData, JointData>, other: Body<BodyData, FixtureData, JointData>): void {
+    const ignored = this.m_collisionIgnored.get(body);
+    if (ignored) {
+      ignored.delete(other);
+      if (ignored.size == 0) {
+        this.m_collisionIgnored.delete(body);
+      }
+    }
+  }
+
   /**
    * Set flag to control automatic clearing of forces after each time step.
    */
@@ -355,42 +1087,288 @@ export class World {
   }
 
   /**
-   * Get the flag that controls automatic clearing of forces after each time step.
+   * Get the flag that controls automatic clearing of forces after each time step.
+   */
+  getAutoClearForces(): boolean {
+    return this.m_clearForces;
+  }
+
+  /**
+   * Manually clear the force buffer on all bodies. By default, forces are cleared
+   * automatically after each call to step. The default behavior is modified by
+   * calling setAutoClearForces. The purpose of this function is to support
+   * sub-stepping. Sub-stepping is often used to maintain a fixed sized time step
+   * under a variable frame-rate. When you perform sub-stepping you will disable
+   * auto clearing of forces and instead call clearForces after all sub-steps are
+   * complete in one pass of your game loop.
+   *
+   * See {@link World.setAutoClearForces}
+   */
+  clearForces(): void {
+    // Sleeping bodies have no forces, see Body.setAwake. Bodies which fell
+    // asleep in this step are still in the step bodies of the solver.
+    const awakeBodies = this.m_awakeBodies;
+    for (let i = 0; i < awakeBodies.length; ++i) {
+      Vec2.setZero(awakeBodies[i].m_force);
+      awakeBodies[i].m_torque = 0.0;
+    }
+    const stepBodies = this.m_solver.m_stepBodies;
+    for (let i = 0; i < stepBodies.length; ++i) {
+      Vec2.setZero(stepBodies[i].m_force);
+      stepBodies[i].m_torque = 0.0;
+    }
+  }
+
+  /**
+   * Query the world for all fixtures that potentially overlap the provided AABB.
+   *
+   * @param aabb The query box.
+   * @param callback Called for each fixture found in the query AABB. It may return `false` to terminate the query.
+   */
+  queryAABB(aabb: AABBValue, callback: WorldAABBQueryCallback<BodyData, FixtureData, JointData>): void {
+    _ASSERT && console.assert(typeof callback === 'function');
+    const broadPhase = this.m_broadPhase;
+    this.m_broadPhase.query(aabb, function(proxyId: number): boolean { // TODO GC
+      const proxy = broadPhase.getUserData(proxyId);
+      return callback(proxy.fixture as Fixture<BodyData, FixtureData, JointData>);
+    });
+  }
+
+  /**
+   * Query the world for all fixtures that overlap the provided shape. Unlike
+   * {@link World.queryAABB} the fixtures are tested with their exact shape, and
+   * each fixture is reported once.
+   *
+   * @param shape The query shape.
+   * @param transform The transform of the query shape in the world.
+   * @param callback Called for each fixture which overlaps the shape. It may return `false` to terminate the query.
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   */
+  queryShape(shape: Shape, transform: TransformValue, callback: WorldAABBQueryCallback<BodyData, FixtureData, JointData>, filter?: QueryFilter<BodyData, FixtureData, JointData>): void {
+    _ASSERT && console.assert(typeof callback === 'function');
+    const broadPhase = this.m_broadPhase;
+    const found = new Set<Fixture>();
+    let terminated = false;
+    const aabb = new AABB(); // TODO GC
+    const childCount = shape.getChildCount();
+    for (let childIndex = 0; childIndex < childCount && !terminated; ++childIndex) {
+      shape.computeAABB(aabb, transform, childIndex);
+      broadPhase.query(aabb, function(proxyId: number): boolean { // TODO GC
+        const proxy = broadPhase.getUserData(proxyId);
+        const fixture = proxy.fixture as Fixture<BodyData, FixtureData, JointData>;
+        if (found.has(fixture) || !fixture.testQueryFilter(filter)) {
+          return true;
+        }
+        if (!testOverlap(shape, childIndex, fixture.m_shape, proxy.childIndex, transform, fixture.m_body.m_xf)) {
+          return true;
+        }
+        found.add(fixture);
+        if (callback(fixture) === false) {
+          terminated = true;
+          return false;
+        }
+        return true;
+      });
+    }
+  }
+
+  /**
+   * Cast a shape through the world, moving it from `transform` by `translation`
+   * without rotation, and report the fixtures it hits. Like
+   * {@link World.rayCast}, your callback controls whether you get the closest
+   * hit, any hit, or all hits. Fixtures which overlap the shape at the start
+   * are not reported.
+   *
+   * @param shape The cast shape.
+   * @param transform The transform of the shape at the start of the cast.
+   * @param translation The translation of the shape in the cast.
+   * @param callback Called for each fixture hit by the shape. You control how the cast proceeds by returning a numeric/float value.
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   */
+  shapeCast(shape: Shape, transform: TransformValue, translation: Vec2Value, callback: WorldShapeCastCallback<BodyData, FixtureData, JointData>, filter?: QueryFilter<BodyData, FixtureData, JointData>): void {
+    _ASSERT && console.assert(typeof callback === 'function');
+    const broadPhase = this.m_broadPhase;
+    const settings = this.m_settings;
+    let maxFraction = 1.0;
+    const aabb = new AABB(); // TODO GC
+    const childCount = shape.getChildCount();
+    for (let childIndex = 0; childIndex < childCount && maxFraction > 0.0; ++childIndex) {
+      shape.computeAABB(aabb, transform, childIndex);
+      aabb.lowerBound[0] += math_min(0.0, translation[0]);
+      aabb.lowerBound[1] += math_min(0.0, translation[1]);
+      aabb.upperBound[0] += math_max(0.0, translation[0]);
+      aabb.upperBound[1] += math_max(0.0, translation[1]);
+
+      broadPhase.query(aabb, function(proxyId: number): boolean { // TODO GC
+        const proxy = broadPhase.getUserData(proxyId);
+        const fixture = proxy.fixture as Fixture<BodyData, FixtureData, JointData>;
+        if (!fixture.testQueryFilter(filter)) {
+          return true;
+        }
+
+        const input = shapeCastInput;
+        input.recycle();
+        input.proxyA.set(fixture.m_shape, proxy.childIndex);
+        input.proxyB.set(shape, childIndex);
+        Transform.copy(fixture.m_body.m_xf, input.transformA);
+        Transform.copy(transform, input.transformB);
+        input.translationB[0] = maxFraction * translation[0];
+        input.translationB[1] = maxFraction * translation[1];
+        input.settings = settings;
+
+        const output = shapeCastOutput;
+        if (!ShapeCast(output, input)) {
+          return true;
+        }
+
+        const fraction = output.lambda * maxFraction;
+        const point = Vec2.clone(output.point); // TODO GC
+        const normal = Vec2.clone(output.normal); // TODO GC
+        const value = callback(fixture, point, normal, fraction);
+        if (value === 0.0) {
+          maxFraction = 0.0;
+          return false;
+        }
+        if (value > 0.0 && value < maxFraction) {
+          maxFraction = value;
+        }
+        return true;
+      });
+    }
+  }
+
+  /**
+   * Find the fixtures nearest to a point, within a maximum distance. Returns up
+   * to `count` fixtures, sorted by distance.
+   *
+   * @param point The query point.
+   * @param maxDistance Fixtures farther from the point are not found.
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   * @param count [default: 1] Maximum number of fixtures to find.
    */
-  getAutoClearForces(): boolean {
-    return this.m_clearForces;
-  }
-
+  queryNearest(point: Vec2Value, maxDistance: number, filter?: QueryFilter<BodyData, FixtureData, JointData>, count?: number): NearestHit<BodyData, FixtureData, JointData>[];
   /**
-   * Manually clear the force buffer on all bodies. By default, forces are cleared
-   * automatically after each call to step. The default behavior is modified by
-   * calling setAutoClearForces. The purpose of this function is to support
-   * sub-stepping. Sub-stepping is often used to maintain a fixed sized time step
-   * under a variable frame-rate. When you perform sub-stepping you will disable
-   * auto clearing of forces and instead call clearForces after all sub-steps are
-   * complete in one pass of your game loop.
+   * Find the fixtures nearest to a shape, within a maximum distance. Returns up
+   * to `count` fixtures, sorted by distance.
    *
-   * See {@link World.setAutoClearForces}
+   * @param shape The query shape.
+   * @param transform The transform of the query shape in the world.
+   * @param maxDistance Fixtures farther from the shape are not found.
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   * @param count [default: 1] Maximum number of fixtures to find.
    */
-  clearForces(): void {
-    for (let body = this.m_bodyList; body; body = body.getNext()) {
-      Vec2.setZero(body.m_force);
-      body.m_torque = 0.0;
+  queryNearest(shape: Shape, transform: TransformValue, maxDistance: number, filter?: QueryFilter<BodyData, FixtureData, JointData>, count?: number): NearestHit<BodyData, FixtureData, JointData>[];
+  queryNearest(arg1: Vec2Value | Shape, arg2: any, arg3?: any, arg4?: any, arg5?: any): NearestHit<BodyData, FixtureData, JointData>[] {
+    let shape: Shape | null;
+    let transform: TransformValue | null;
+    let point: Vec2Value | null;
+    let maxDistance: number;
+    let filter: QueryFilter<BodyData, FixtureData, JointData> | undefined;
+    let count: number | undefined;
+    if (arg1 instanceof Shape) {
+      shape = arg1;
+      transform = arg2;
+      maxDistance = arg3;
+      filter = arg4;
+      count = arg5;
+    } else {
+      point = arg1;
+      maxDistance = arg2;
+      filter = arg3;
+      count = arg4;
+    }
+    count = typeof count === 'number' ? count : 1;
+
+    const hits: NearestHit<BodyData, FixtureData, JointData>[] = [];
+    if (count <= 0) {
+      return hits;
+    }
+
+    const broadPhase = this.m_broadPhase;
+    const settings = this.m_settings;
+    const childCount = shape ? shape.getChildCount() : 1;
+    const aabb = new AABB(); // TODO GC
+    for (let childIndex = 0; childIndex < childCount; ++childIndex) {
+      if (shape) {
+        shape.computeAABB(aabb, transform, childIndex);
+      } else {
+        aabb.combinePoints(point, point);
+      }
+
+      const queryDistance = hits.length < count ? maxDistance : hits[count - 1].distance;
+      broadPhase.queryDistance(aabb, queryDistance, function(proxyId: number, bound: number): number { // TODO GC
+        const proxy = broadPhase.getUserData(proxyId);
+        const fixture = proxy.fixture as Fixture<BodyData, FixtureData, JointData>;
+        if (!fixture.testQueryFilter(filter)) {
+          return bound;
+        }
+
+        const input = distanceInput;
+        input.recycle();
+        input.proxyA.set(fixture.m_shape, proxy.childIndex);
+        Transform.copy(fixture.m_body.m_xf, input.transformA);
+        if (shape) {
+          input.proxyB.set(shape, childIndex);
+          Transform.copy(transform, input.transformB);
+        } else {
+          input.proxyB.setVertices([point], 1, 0.0);
+        }
+        input.useRadii = true;
+        input.settings = settings;
+        simplexCache.recycle();
+        Distance(distanceOutput, simplexCache, input);
+
+        const distance = distanceOutput.distance;
+        if (distance > bound) {
+          return bound;
+        }
+
+        // a fixture with several children is found once, at its nearest child
+        let i = 0;
+        while (i < hits.length && hits[i].fixture !== fixture) {
+          ++i;
+        }
+        if (i < hits.length) {
+          if (hits[i].distance <= distance) {
+            return bound;
+          }
+          hits.splice(i, 1);
+        }
+
+        i = hits.length;
+        while (i > 0 && hits[i - 1].distance > distance) {
+          --i;
+        }
+        hits.splice(i, 0, { fixture, point: Vec2.clone(distanceOutput.pointA), distance });
+        if (hits.length > count) {
+          hits.length = count;
+        }
+        return hits.length < count ? maxDistance : hits[count - 1].distance;
+      });
     }
+    return hits;
   }
 
   /**
-   * Query the world for all fixtures that potentially overlap the provided AABB.
+   * Query the world for all fixtures that contain the provided point.
    *
-   * @param aabb The query box.
-   * @param callback Called for each fixture found in the query AABB. It may return `false` to terminate the query.
+   * @param point The query point.
+   * @param callback Called for each fixture which contains the point. It may return `false` to terminate the query.
+   * @param filter Fixtures to find, by default all fixtures except sensors.
    */
-  queryAABB(aabb: AABBValue, callback: WorldAABBQueryCallback): void {
+  queryPoint(point: Vec2Value, callback: WorldAABBQueryCallback<BodyData, FixtureData, JointData>, filter?: QueryFilter<BodyData, FixtureData, JointData>): void {
     _ASSERT && console.assert(typeof callback === 'function');
     const broadPhase = this.m_broadPhase;
-    this.m_broadPhase.query(aabb, function(proxyId: number): boolean { // TODO GC
+    const found = new Set<Fixture>();
+    const aabb = new AABB(point, point); // TODO GC
+    broadPhase.query(aabb, function(proxyId: number): boolean { // TODO GC
       const proxy = broadPhase.getUserData(proxyId);
-      return callback(proxy.fixture);
+      const fixture = proxy.fixture as Fixture<BodyData, FixtureData, JointData>;
+      if (found.has(fixture) || !fixture.testQueryFilter(filter) || !fixture.testPoint(point)) {
+        return true;
+      }
+      found.add(fixture);
+      return callback(fixture) !== false;
     });
   }
 
@@ -403,7 +1381,7 @@ export class World {
    * @param point2 The ray ending point
    * @param callback A function that is called for each fixture that is hit by the ray. You control how the ray cast proceeds by returning a numeric/float value.
    */
-  rayCast(point1: Vec2Value, point2: Vec2Value, callback: WorldRayCastCallback): void {
+  rayCast(point1: Vec2Value, point2: Vec2Value, callback: WorldRayCastCallback<BodyData, FixtureData, JointData>): void {
     _ASSERT && console.assert(typeof callback === 'function');
     const broadPhase = this.m_broadPhase;
 
@@ -413,7 +1391,7 @@ export class World {
       p2 : point2
     }, function(input: RayCastInput, proxyId: number): number { // TODO GC
       const proxy = broadPhase.getUserData(proxyId);
-      const fixture = proxy.fixture;
+      const fixture = proxy.fixture as Fixture<BodyData, FixtureData, JointData>;
       const index = proxy.childIndex;
       // @ts-ignore
       const output: RayCastOutput = {}; // TODO GC
@@ -427,6 +1405,122 @@ export class World {
     });
   }
 
+  /**
+   * Ray-cast the world and return the closest fixture hit by the ray, or null
+   * if no fixture is hit.
+   *
+   * @param point1 The ray starting point
+   * @param point2 The ray ending point
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   */
+  rayCastClosest(point1: Vec2Value, point2: Vec2Value, filter?: QueryFilter<BodyData, FixtureData, JointData>): RayCastHit<BodyData, FixtureData, JointData> | null {
+    let closest: RayCastHit<BodyData, FixtureData, JointData> | null = null;
+    this.rayCast(point1, point2, function(fixture: Fixture<BodyData, FixtureData, JointData>, point: Vec2Value, normal: Vec2Value, fraction: number): number {
+      if (!fixture.testQueryFilter(filter)) {
+        return -1;
+      }
+      closest = { fixture, point, normal, fraction };
+      return fraction;
+    });
+    return closest;
+  }
+
+  /**
+   * Ray-cast the world and return all fixtures hit by the ray, sorted by
+   * fraction along the ray.
+   *
+   * @param point1 The ray starting point
+   * @param point2 The ray ending point
+   * @param filter Fixtures to find, by default all fixtures except sensors.
+   */
+  rayCastAll(point1: Vec2Value, point2: Vec2Value, filter?: QueryFilter<BodyData, FixtureData, JointData>): RayCastHit<BodyData, FixtureData, JointData>[] {
+    const hits: RayCastHit<BodyData, FixtureData, JointData>[] = [];
+    this.rayCast(point1, point2, function(fixture: Fixture<BodyData, FixtureData, JointData>, point: Vec2Value, normal: Vec2Value, fraction: number): number {
+      if (fixture.testQueryFilter(filter)) {
+        hits.push({ fixture, point, normal, fraction });
+      }
+      return 1.0;
+    });
+    hits.sort(function(a: RayCastHit<BodyData, FixtureData, JointData>, b: RayCastHit<BodyData, FixtureData, JointData>): number {
+      return a.fraction - b.fraction;
+    });
+    return hits;
+  }
+
+  /**
+   * Write the transforms of bodies to an array in one pass over the world, for
+   * example to upload them for instanced rendering.
+   *
+   * For each body the position of its origin `x`, `y` is written, followed by
+   * the angle or its cosine and sine, followed by the storage id of the body if
+   * enabled, until the target is full.
+   *
+   * By default only the awake bodies, and the bodies which fell asleep in the
+   * last step, are visited. They are written in the order of the awake bodies
+   * of the world, which changes when bodies wake up or fall asleep, so use the
+   * storage id or the returned bodies to identify them. With the `all` option
+   * all bodies are written in world body list order, including static bodies
+   * moved with {@link Body.setTransform}.
+   */
+  writeTransforms(target: Float32Array, opt?: WriteTransformsOpt<BodyData, FixtureData, JointData>): WriteTransformsResult<BodyData, FixtureData, JointData> {
+    const filter = opt && opt.filter;
+    const all = !!(opt && opt.all);
+    const cosSin = !!(opt && opt.rotation === 'cos-sin');
+    const withIndex = !!(opt && opt.index);
+    const size = (cosSin ? 4 : 3) + (withIndex ? 1 : 0);
+    const stride = opt && opt.stride || size;
+    if (stride < size) {
+      throw new Error('Stride of ' + stride + ' is less than the ' + size + ' floats written per body');
+    }
+    const bodies = opt && opt.bodies || [];
+
+    let count = 0;
+    if (all) {
+      for (let b = this.m_bodyList; b && count * stride + size <= target.length; b = b.m_next) {
+        if (!filter || filter(b)) {
+          this.writeTransform(target, count * stride, b, cosSin, withIndex);
+          bodies[count++] = b;
+        }
+      }
+    } else {
+      const awake = this.m_awakeBodies;
+      for (let i = 0; i < awake.length && count * stride + size <= target.length; ++i) {
+        const b = awake[i];
+        if (!filter || filter(b)) {
+          this.writeTransform(target, count * stride, b, cosSin, withIndex);
+          bodies[count++] = b;
+        }
+      }
+      // Bodies which fell asleep, or were put to sleep, after they moved.
+      const moved = this.m_bodyMoveEvents;
+      for (let i = 0; i < moved.count && count * stride + size <= target.length; ++i) {
+        const b = moved.bodies[i];
+        if (b.m_awakeIndex < 0 && !b.m_destroyed && b.hasMoved() && (!filter || filter(b))) {
+          this.writeTransform(target, count * stride, b, cosSin, withIndex);
+          bodies[count++] = b;
+        }
+      }
+    }
+    bodies.length = count;
+
+    return { count, bodies };
+  }
+
+  /** @internal Write the transform of a body from offset i, see writeTransforms. */
+  writeTransform(target: Float32Array, i: number, b: Body<BodyData, FixtureData, JointData>, cosSin: boolean, withIndex: boolean): void {
+    target[i++] = b.m_xf.p[0];
+    target[i++] = b.m_xf.p[1];
+    if (cosSin) {
+      target[i++] = b.m_xf.q.c;
+      target[i++] = b.m_xf.q.s;
+    } else {
+      target[i++] = b.m_sweep.a;
+    }
+    if (withIndex) {
+      target[i++] = b.m_storageId;
+    }
+  }
+
   /**
    * Get the number of broad-phase proxies.
    */
@@ -472,6 +1566,7 @@ export class World {
       Vec2.sub(b.m_xf.p, newOrigin, b.m_xf.p);
       Vec2.sub(b.m_sweep.c0, newOrigin, b.m_sweep.c0);
       Vec2.sub(b.m_sweep.c, newOrigin, b.m_sweep.c);
+      b.synchronizeStorage();
     }
 
     for (let j = this.m_jointList; j; j = j.m_next) {
@@ -482,7 +1577,7 @@ export class World {
   }
 
   /** @internal Used for deserialize. */
-  _addBody(body: Body): void {
+  _addBody(body: Body<BodyData, FixtureData, JointData>): void {
     _ASSERT && console.assert(this.isLocked() === false);
     if (this.isLocked()) {
       return;
@@ -496,24 +1591,26 @@ export class World {
     }
     this.m_bodyList = body;
     ++this.m_bodyCount;
+
+    this.updateAwakeBody(body);
   }
 
   /**
    * Create a rigid body given a definition. No reference to the definition is
    * retained.
    *
-   * Warning: This function is locked during callbacks.
+   * Calls made during callbacks are deferred until the end of the step, and
+   * return a placeholder which throws an error when used.
    */
-  createBody(def?: BodyDef): Body;
-  createBody(position: Vec2Value, angle?: number): Body;
+  createBody(def?: BodyDef<BodyData>): Body<BodyData, FixtureData, JointData>;
+  createBody(position: Vec2Value, angle?: number): Body<BodyData, FixtureData, JointData>;
   // tslint:disable-next-line:typedef
   createBody(arg1?, arg2?) {
-    _ASSERT && console.assert(this.isLocked() == false);
     if (this.isLocked()) {
-      return null;
+      return this.defer('createBody', () => this.createBody(arg1, arg2));
     }
 
-    let def: BodyDef = {};
+    let def: BodyDef<BodyData> = {};
     if (!arg1) {
     } else if (Vec2.isValid(arg1)) {
       def = { position : arg1, angle: arg2 };
@@ -526,11 +1623,11 @@ export class World {
     return body;
   }
 
-  createDynamicBody(def?: BodyDef): Body;
-  createDynamicBody(position: Vec2Value, angle?: number): Body;
+  createDynamicBody(def?: BodyDef<BodyData>): Body<BodyData, FixtureData, JointData>;
+  createDynamicBody(position: Vec2Value, angle?: number): Body<BodyData, FixtureData, JointData>;
   // tslint:disable-next-line:typedef
   createDynamicBody(arg1?, arg2?) {
-    let def: BodyDef = {};
+    let def: BodyDef<BodyData> = {};
     if (!arg1) {
     } else if (Vec2.isValid(arg1)) {
       def = { position : arg1, angle: arg2 };
@@ -541,11 +1638,11 @@ export class World {
     return this.createBody(def);
   }
 
-  createKinematicBody(def?: BodyDef): Body;
-  createKinematicBody(position: Vec2Value, angle?: number): Body;
+  createKinematicBody(def?: BodyDef<BodyData>): Body<BodyData, FixtureData, JointData>;
+  createKinematicBody(position: Vec2Value, angle?: number): Body<BodyData, FixtureData, JointData>;
   // tslint:disable-next-line:typedef
   createKinematicBody(arg1?, arg2?) {
-    let def: BodyDef = {};
+    let def: BodyDef<BodyData> = {};
     if (!arg1) {
     } else if (Vec2.isValid(arg1)) {
       def = { position : arg1, angle: arg2 };
@@ -562,13 +1659,16 @@ export class World {
    *
    * Warning: This automatically deletes all associated shapes and joints.
    *
-   * Warning: This function is locked during callbacks.
+   * Calls made during callbacks are deferred until the end of the step, and
+   * return false since the body is not destroyed yet.
+   *
+   * @returns true if the body was destroyed.
    */
-  destroyBody(b: Body): boolean {
+  destroyBody(b: Body<BodyData, FixtureData, JointData>): boolean {
     _ASSERT && console.assert(this.m_bodyCount > 0);
-    _ASSERT && console.assert(this.isLocked() == false);
     if (this.isLocked()) {
-      return;
+      this.defer('destroyBody', () => this.destroyBody(b));
+      return false;
     }
 
     if (b.m_destroyed) {
@@ -608,11 +1708,21 @@ export class World {
 
       this.publish('remove-fixture', f0);
       f0.destroyProxies(this.m_broadPhase);
+      this.removeSensorOverlaps(f0);
 
       b.m_fixtureList = f;
     }
     b.m_fixtureList = null;
 
+    // Forget pairs with ignored collision.
+    const ignored = this.m_collisionIgnored.get(b);
+    if (ignored) {
+      ignored.forEach((other: Body<BodyData, FixtureData, JointData>): void => {
+        this.removeIgnoredBody(other, b);
+      });
+      this.m_collisionIgnored.delete(b);
+    }
+
     // Remove world body list.
     if (b.m_prev) {
       b.m_prev.m_next = b.m_next;
@@ -627,6 +1737,9 @@ export class World {
     }
 
     b.m_destroyed = true;
+    this.updateAwakeBody(b);
+    this.m_bodyMoveEvents.remove(b);
+    this.m_bodyStorage.release(b);
 
     --this.m_bodyCount;
 
@@ -639,16 +1752,34 @@ export class World {
    * Create a joint to constrain bodies together. No reference to the definition
    * is retained. This may cause the connected bodies to cease colliding.
    *
-   * Warning: This function is locked during callbacks.
+   * The joint is either a joint instance, or a joint definition with a `type`
+   * field, such as `{ type: 'revolute-joint', bodyA, bodyB, ... }`, see
+   * {@link WorldJointDef}.
+   *
+   * Calls made during callbacks are deferred until the end of the step, and
+   * return a placeholder which throws an error when used.
    */
-  createJoint<T extends Joint>(joint: T): T | null {
-    _ASSERT && console.assert(!!joint.m_bodyA);
-    _ASSERT && console.assert(!!joint.m_bodyB);
-    _ASSERT && console.assert(this.isLocked() == false);
+  createJoint<K extends keyof JointDefTypes>(def: JointDefTypes[K] & { type: K }): JointTypes<BodyData, FixtureData, JointData>[K] | null;
+  createJoint<T extends Joint<BodyData, FixtureData, JointData>>(joint: T): T | null;
+  // tslint:disable-next-line:typedef
+  createJoint(joint) {
+    const JointClass = joint instanceof Joint ? null : JOINT_CLASSES[joint.type];
+    if (!(joint instanceof Joint) && !JointClass) {
+      throw new Error('Unknown joint type: ' + joint.type);
+    }
+
     if (this.isLocked()) {
-      return null;
+      // Joints are built from definitions when the command is applied.
+      return this.defer('createJoint', () => this.createJoint(joint));
+    }
+
+    if (JointClass) {
+      joint = new JointClass(joint);
     }
 
+    _ASSERT && console.assert(!!joint.m_bodyA);
+    _ASSERT && console.assert(!!joint.m_bodyB);
+
     // Connect to the world list.
     joint.m_prev = null;
     joint.m_next = this.m_jointList;
@@ -693,11 +1824,16 @@ export class World {
 
   /**
    * Destroy a joint. This may cause the connected bodies to begin colliding.
-   * Warning: This function is locked during callbacks.
+   * Calls made during callbacks are deferred until the end of the step. Joints
+   * which are already destroyed, also with one of their bodies, are ignored.
    */
-  destroyJoint(joint: Joint): void {
-    _ASSERT && console.assert(this.isLocked() == false);
+  destroyJoint(joint: Joint<BodyData, FixtureData, JointData>): void {
     if (this.isLocked()) {
+      this.defer('destroyJoint', () => this.destroyJoint(joint));
+      return;
+    }
+
+    if (joint.m_destroyed) {
       return;
     }
 
@@ -754,6 +1890,8 @@ export class World {
     joint.m_edgeB.prev = null;
     joint.m_edgeB.next = null;
 
+    joint.m_destroyed = true;
+
     _ASSERT && console.assert(this.m_jointCount > 0);
     --this.m_jointCount;
 
@@ -777,6 +1915,29 @@ export class World {
   /** @internal */
   s_step: TimeStep; // reuse
 
+  /**
+   * Advance the world by the elapsed time of a frame using fixed time steps.
+   * Time which is less than a step is carried over to the next update.
+   *
+   * Returns the fraction of a step which is carried over, from 0 to 1, which can
+   * be passed to {@link Body.getInterpolatedTransform} to render bodies between
+   * the last two steps.
+   *
+   * @param frameDt Elapsed time since the last update, in seconds.
+   */
+  update(frameDt: number, opt?: WorldUpdateOpt): number {
+    _ASSERT && console.assert(this.isLocked() == false);
+    const fixedDt = opt && opt.fixedDt || 1 / 60;
+    const maxSubSteps = opt && opt.maxSubSteps || 8;
+
+    this.m_accumulator = math_min(this.m_accumulator + frameDt, maxSubSteps * fixedDt);
+    for (let i = 0; i < maxSubSteps && this.m_accumulator >= fixedDt; ++i) {
+      this.step(fixedDt);
+      this.m_accumulator -= fixedDt;
+    }
+    return math_min(this.m_accumulator / fixedDt, 1);
+  }
+
   /**
    * Take a time step. This performs collision detection, integration, and
    * constraint solution.
@@ -788,6 +1949,21 @@ export class World {
   step(timeStep: number, velocityIterations?: number, positionIterations?: number): void {
     this.publish('pre-step', timeStep);
 
+    // Keep transforms before this step for interpolation. Other bodies did
+    // not move since the last step, except the ones which fell asleep in it.
+    for (let i = 0; i < this.m_awakeBodies.length; ++i) {
+      this.m_awakeBodies[i].storePreviousTransform();
+    }
+    const moved = this.m_bodyMoveEvents;
+    for (let i = 0; i < moved.count; ++i) {
+      moved.bodies[i].storePreviousTransform();
+    }
+
+    if (this.m_contactEvents) {
+      this.m_contactEvents.clear();
+    }
+    this.m_bodyMoveEvents.clear();
+
     if ((velocityIterations | 0) !== velocityIterations) {
       // TODO: remove this in future
       velocityIterations = 0;
@@ -817,19 +1993,12 @@ export class World {
     if (this.m_stepComplete && timeStep > 0.0) {
       this.m_solver.solveWorld(this.s_step);
 
-      // Synchronize fixtures, check for out of range bodies.
-      for (let b = this.m_bodyList; b; b = b.getNext()) {
-        // If a body was not in an island then it did not move.
-        if (b.m_islandFlag == false) {
-          continue;
-        }
-
-        if (b.isStatic()) {
-          continue;
-        }
-
+      // Synchronize fixtures of the bodies which were in an island, others
+      // did not move.
+      const stepBodies = this.m_solver.m_stepBodies;
+      for (let i = 0; i < stepBodies.length; ++i) {
         // Update fixtures (for broad-phase).
-        b.synchronizeFixtures();
+        stepBodies[i].synchronizeFixtures();
       }
       // Look for new contacts.
       this.findNewContacts();
@@ -840,15 +2009,38 @@ export class World {
       this.m_solver.solveWorldTOI(this.s_step);
     }
 
+    // Find sensor overlaps at the final positions.
+    this.updateSensors();
+
     if (this.m_clearForces) {
       this.clearForces();
     }
+    this.m_solver.m_stepBodies.length = 0;
 
     this.m_locked = false;
 
+    // Apply calls made during callbacks, in order. The queue is emptied first,
+    // so commands are not applied again if one of them throws.
+    if (this.m_deferred.length) {
+      const deferred = this.m_deferred.splice(0);
+      for (let i = 0; i < deferred.length; ++i) {
+        deferred[i]();
+      }
+    }
+
     this.publish('post-step', timeStep);
   }
 
+  /**
+   * @internal
+   * Record a call made while the world is locked, it is applied at the end of
+   * the step. Returns a placeholder for the result of the call.
+   */
+  defer(name: string, command: () => void): any {
+    this.m_deferred.push(command);
+    return deferredResult(name);
+  }
+
   /**
    * @internal
    * Call this method to find new contacts.
@@ -864,8 +2056,8 @@ export class World {
    * Callback for broad-phase.
    */
   createContact(proxyA: FixtureProxy, proxyB: FixtureProxy): void {
-    const fixtureA = proxyA.fixture;
-    const fixtureB = proxyB.fixture;
+    const fixtureA = proxyA.fixture as Fixture<BodyData, FixtureData, JointData>;
+    const fixtureB = proxyB.fixture as Fixture<BodyData, FixtureData, JointData>;
 
     const indexA = proxyA.childIndex;
     const indexB = proxyB.childIndex;
@@ -878,6 +2070,11 @@ export class World {
       return;
     }
 
+    // Sensors do not have contacts, see updateSensors.
+    if (fixtureA.m_isSensor || fixtureB.m_isSensor) {
+      return;
+    }
+
     // TODO_ERIN use a hash table to remove a potential bottleneck when both
     // bodies have a lot of contacts.
     // Does a contact already exist?
@@ -906,9 +2103,15 @@ export class World {
     if (bodyB.shouldCollide(bodyA) == false) {
       return;
     }
+    if (this.isCollisionIgnored(bodyA, bodyB)) {
+      return;
+    }
     if (fixtureB.shouldCollide(fixtureA) == false) {
       return;
     }
+    if (this.m_contactFilter && this.m_contactFilter(fixtureA, fixtureB) == false) {
+      return;
+    }
 
     // Call the factory.
     const contact = Contact.create(fixtureA, indexA, fixtureB, indexB);
@@ -925,6 +2128,8 @@ export class World {
     this.m_contactList = contact;
 
     ++this.m_contactCount;
+
+    this.updateAwakeContact(contact);
   }
 
   /**
@@ -932,59 +2137,210 @@ export class World {
    * Removes old non-overlapping contacts, applies filters and updates contacts.
    */
   updateContacts(): void {
-    // Update awake contacts.
-    let c: Contact;
-    let next_c = this.m_contactList;
-    while (c = next_c) {
-      next_c = c.getNext();
-      const fixtureA = c.getFixtureA();
-      const fixtureB = c.getFixtureB();
-      const indexA = c.getChildIndexA();
-      const indexB = c.getChildIndexB();
-      const bodyA = fixtureA.getBody();
-      const bodyB = fixtureB.getBody();
-
-      // Is this contact flagged for filtering?
-      if (c.m_filterFlag) {
-        if (bodyB.shouldCollide(bodyA) == false) {
-          this.destroyContact(c);
-          continue;
-        }
+    if (this.m_filterPending) {
+      // Contacts of sleeping bodies may be flagged for filtering.
+      this.m_filterPending = false;
+      let c: Contact<BodyData, FixtureData, JointData>;
+      let next_c = this.m_contactList;
+      while (c = next_c) {
+        next_c = c.getNext();
+        this.updateContact(c);
+      }
+      return;
+    }
 
-        if (fixtureB.shouldCollide(fixtureA) == false) {
-          this.destroyContact(c);
-          continue;
-        }
+    // Update awake contacts. Destroyed contacts are swapped with the last one.
+    const contacts = this.m_awakeContacts;
+    let i = 0;
+    while (i < contacts.length) {
+      const c = contacts[i];
+      if (this.updateContact(c)) {
+        ++i;
+      }
+    }
+  }
 
-        // Clear the filtering flag.
-        c.m_filterFlag = false;
+  /**
+   * @internal
+   * Filter and update a contact. Returns false if the contact is destroyed.
+   */
+  updateContact(c: Contact<BodyData, FixtureData, JointData>): boolean {
+    const fixtureA = c.getFixtureA();
+    const fixtureB = c.getFixtureB();
+    const indexA = c.getChildIndexA();
+    const indexB = c.getChildIndexB();
+    const bodyA = fixtureA.getBody();
+    const bodyB = fixtureB.getBody();
+
+    // Is this contact flagged for filtering?
+    if (c.m_filterFlag) {
+      if (fixtureA.m_isSensor || fixtureB.m_isSensor) {
+        this.destroyContact(c);
+        return false;
       }
 
-      const activeA = bodyA.isAwake() && !bodyA.isStatic();
-      const activeB = bodyB.isAwake() && !bodyB.isStatic();
+      if (bodyB.shouldCollide(bodyA) == false) {
+        this.destroyContact(c);
+        return false;
+      }
 
-      // At least one body must be awake and it must be dynamic or kinematic.
-      if (activeA == false && activeB == false) {
-        continue;
+      if (this.isCollisionIgnored(bodyA, bodyB)) {
+        this.destroyContact(c);
+        return false;
       }
 
-      const proxyIdA = fixtureA.m_proxies[indexA].proxyId;
-      const proxyIdB = fixtureB.m_proxies[indexB].proxyId;
-      const overlap = this.m_broadPhase.testOverlap(proxyIdA, proxyIdB);
+      if (fixtureB.shouldCollide(fixtureA) == false) {
+        this.destroyContact(c);
+        return false;
+      }
 
-      // Here we destroy contacts that cease to overlap in the broad-phase.
-      if (overlap == false) {
+      if (this.m_contactFilter && this.m_contactFilter(fixtureA, fixtureB) == false) {
         this.destroyContact(c);
-        continue;
+        return false;
+      }
+
+      // Clear the filtering flag.
+      c.m_filterFlag = false;
+    }
+
+    const activeA = bodyA.isAwake() && !bodyA.isStatic();
+    const activeB = bodyB.isAwake() && !bodyB.isStatic();
+
+    // At least one body must be awake and it must be dynamic or kinematic.
+    if (activeA == false && activeB == false) {
+      return true;
+    }
+
+    const proxyIdA = fixtureA.m_proxies[indexA].proxyId;
+    const proxyIdB = fixtureB.m_proxies[indexB].proxyId;
+    const overlap = this.m_broadPhase.testOverlap(proxyIdA, proxyIdB);
+
+    // Here we destroy contacts that cease to overlap in the broad-phase.
+    if (overlap == false) {
+      this.destroyContact(c);
+      return false;
+    }
+
+    // The contact persists.
+    c.update(this, this.m_settings);
+    return true;
+  }
+
+  /**
+   * @internal
+   * Find the fixtures overlapping each sensor, and report overlaps which began
+   * or ended since the last step.
+   */
+  updateSensors(): void {
+    const sensors = this.m_sensorFixtures;
+    for (let i = 0; i < sensors.length; ++i) {
+      this.updateSensor(sensors[i]);
+    }
+    // Fixtures which stopped being sensors are kept until their overlaps end.
+    for (let i = sensors.length - 1; i >= 0; --i) {
+      if (!sensors[i].m_isSensor && !sensors[i].m_sensorOverlaps.length) {
+        sensors.splice(i, 1);
+      }
+    }
+  }
+
+  /** @internal Start updating the overlaps of a fixture which became a sensor. */
+  addSensorFixture(fixture: Fixture<BodyData, FixtureData, JointData>): void {
+    if (this.m_sensorFixtures.indexOf(fixture) < 0) {
+      this.m_sensorFixtures.push(fixture);
+    }
+  }
+
+  /** @internal */
+  updateSensor(sensor: Fixture<BodyData, FixtureData, JointData>): void {
+    const overlaps = this.m_sensorQueryResult;
+    overlaps.length = 0;
+
+    if (sensor.m_isSensor && sensor.m_body.isActive()) {
+      this.m_sensorQueryFixture = sensor;
+      for (let i = 0; i < sensor.m_proxyCount; ++i) {
+        this.m_sensorQueryChild = i;
+        this.m_broadPhase.query(sensor.m_proxies[i].aabb, this.sensorQueryCallback);
+      }
+      this.m_sensorQueryFixture = null;
+    }
+
+    const previous = sensor.m_sensorOverlaps;
+    for (let i = previous.length - 1; i >= 0; --i) {
+      const other = previous[i];
+      if (overlaps.indexOf(other) < 0) {
+        previous.splice(i, 1);
+        this.sensorEnd(sensor, other);
+      }
+    }
+    for (let i = 0; i < overlaps.length; ++i) {
+      const other = overlaps[i];
+      if (previous.indexOf(other) < 0) {
+        previous.push(other);
+        this.sensorBegin(sensor, other);
       }
+    }
+    overlaps.length = 0;
+  }
+
+  /** @internal */
+  sensorQueryCallback = (proxyId: number): boolean => {
+    const sensor = this.m_sensorQueryFixture;
+    const proxy = this.m_broadPhase.getUserData(proxyId);
+    const fixture = proxy.fixture as Fixture<BodyData, FixtureData, JointData>;
+    if (fixture.m_body == sensor.m_body || fixture.m_isSensor) {
+      return true;
+    }
+    if (this.isCollisionIgnored(sensor.m_body, fixture.m_body)) {
+      return true;
+    }
+    if (this.m_sensorQueryResult.indexOf(fixture) >= 0) {
+      return true;
+    }
+    if (sensor.shouldCollide(fixture) == false) {
+      return true;
+    }
+    if (this.m_contactFilter && this.m_contactFilter(sensor, fixture) == false) {
+      return true;
+    }
+    const overlap = testOverlap(
+      sensor.m_shape, this.m_sensorQueryChild, fixture.m_shape, proxy.childIndex,
+      sensor.m_body.m_xf, fixture.m_body.m_xf
+    );
+    if (overlap) {
+      this.m_sensorQueryResult.push(fixture);
+    }
+    return true;
+  }
 
-      // The contact persists.
-      c.update(this);
+  /**
+   * @internal
+   * End the overlaps of a fixture which is removed from the world, as a sensor
+   * or as a fixture overlapping sensors.
+   */
+  removeSensorOverlaps(fixture: Fixture<BodyData, FixtureData, JointData>): void {
+    const overlaps = fixture.m_sensorOverlaps;
+    while (overlaps.length) {
+      this.sensorEnd(fixture, overlaps.pop());
+    }
+    const sensors = this.m_sensorFixtures;
+    const sensorIndex = sensors.indexOf(fixture);
+    if (sensorIndex >= 0) {
+      sensors.splice(sensorIndex, 1);
+    }
+    for (let i = 0; i < sensors.length; ++i) {
+      const f = sensors[i];
+      const index = f.m_sensorOverlaps.indexOf(fixture);
+      if (index >= 0) {
+        f.m_sensorOverlaps.splice(index, 1);
+        this.sensorEnd(f, fixture);
+      }
     }
   }
 
+
   /** @internal */
-  destroyContact(contact: Contact): void {
+  destroyContact(contact: Contact<BodyData, FixtureData, JointData>): void {
     // Remove from the world.
     if (contact.m_prev) {
       contact.m_prev.m_next = contact.m_next;
@@ -996,11 +2352,81 @@ export class World {
       this.m_contactList = contact.m_next;
     }
 
+    if (contact.m_awakeIndex >= 0) {
+      this.removeAwakeContact(contact);
+    }
+
     Contact.destroy(contact, this);
 
     --this.m_contactCount;
   }
 
+  /**
+   * @internal
+   * Add or remove a body from the awake bodies after its awake, active, type or
+   * destroyed state changed, and update the awake contacts of the body.
+   */
+  updateAwakeBody(body: Body<BodyData, FixtureData, JointData>): void {
+    const awake = body.m_awakeFlag && body.m_activeFlag && !body.isStatic() && !body.m_destroyed;
+    if (awake == (body.m_awakeIndex >= 0)) {
+      return;
+    }
+
+    const bodies = this.m_awakeBodies;
+    if (awake) {
+      body.m_awakeIndex = bodies.length;
+      bodies.push(body);
+    } else {
+      const last = bodies.pop();
+      if (last !== body) {
+        bodies[body.m_awakeIndex] = last;
+        last.m_awakeIndex = body.m_awakeIndex;
+      }
+      body.m_awakeIndex = -1;
+    }
+
+    for (let ce = body.m_contactList; ce; ce = ce.next) {
+      this.updateAwakeContact(ce.contact);
+    }
+  }
+
+  /**
+   * @internal
+   * Add or remove a contact from the awake contacts, a contact is awake if
+   * either body is awake and not static.
+   */
+  updateAwakeContact(contact: Contact<BodyData, FixtureData, JointData>): void {
+    const bodyA = contact.m_fixtureA.m_body;
+    const bodyB = contact.m_fixtureB.m_body;
+    const awake = (bodyA.m_awakeFlag && !bodyA.isStatic()) || (bodyB.m_awakeFlag && !bodyB.isStatic());
+    if (awake == (contact.m_awakeIndex >= 0)) {
+      return;
+    }
+
+    if (awake) {
+      contact.m_awakeIndex = this.m_awakeContacts.length;
+      this.m_awakeContacts.push(contact);
+    } else {
+      this.removeAwakeContact(contact);
+      // Sleeping contacts are skipped by the time of impact solver, so reset
+      // their cached time of impact.
+      contact.m_toiFlag = false;
+      contact.m_toiCount = 0;
+      contact.m_toi = 1.0;
+    }
+  }
+
+  /** @internal */
+  removeAwakeContact(contact: Contact<BodyData, FixtureData, JointData>): void {
+    const contacts = this.m_awakeContacts;
+    const last = contacts.pop();
+    if (last !== contact) {
+      contacts[contact.m_awakeIndex] = last;
+      last.m_awakeIndex = contact.m_awakeIndex;
+    }
+    contact.m_awakeIndex = -1;
+  }
+
 
   /**
    * Called when two fixtures begin to touch.
@@ -1013,9 +2439,12 @@ export class World {
    * single time step. You should strive to make your callbacks efficient because
    * there may be many callbacks per time step.
    *
-   * Warning: You cannot create/destroy world entities inside these callbacks.
+   * Sensors do not have contacts, see the 'sensor-begin' event.
+   *
+   * Creating or destroying world entities inside these callbacks is deferred
+   * until the end of the step.
    */
-  on(name: 'begin-contact', listener: (contact: Contact) => void): World;
+  on(name: 'begin-contact', listener: (contact: Contact<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
   /**
    * Called when two fixtures cease to touch.
    *
@@ -1027,9 +2456,12 @@ export class World {
    * single time step. You should strive to make your callbacks efficient because
    * there may be many callbacks per time step.
    *
-   * Warning: You cannot create/destroy world entities inside these callbacks.
+   * Sensors do not have contacts, see the 'sensor-end' event.
+   *
+   * Creating or destroying world entities inside these callbacks is deferred
+   * until the end of the step.
    */
-  on(name: 'end-contact', listener: (contact: Contact) => void): World;
+  on(name: 'end-contact', listener: (contact: Contact<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
   /**
    * This is called after a contact is updated. This allows you to inspect a
    * contact before it goes to the solver. If you are careful, you can modify the
@@ -1040,9 +2472,10 @@ export class World {
    * points to zero, you will not get an end-contact callback. However, you may get
    * a begin-contact callback the next step.
    *
-   * Warning: You cannot create/destroy world entities inside these callbacks.
+   * Creating or destroying world entities inside these callbacks is deferred
+   * until the end of the step.
    */
-  on(name: 'pre-solve', listener: (contact: Contact, oldManifold: Manifold) => void): World;
+  on(name: 'pre-solve', listener: (contact: Contact<BodyData, FixtureData, JointData>, oldManifold: Manifold) => void): World<BodyData, FixtureData, JointData>;
   /**
    * This lets you inspect a contact after the solver is finished. This is useful
    * for inspecting impulses. Note: the contact manifold does not include time of
@@ -1050,15 +2483,33 @@ export class World {
    * Hence the impulse is provided explicitly in a separate data structure. Note:
    * this is only called for contacts that are touching, solid, and awake.
    *
-   * Warning: You cannot create/destroy world entities inside these callbacks.
+   * Creating or destroying world entities inside these callbacks is deferred
+   * until the end of the step.
+   */
+  on(name: 'post-solve', listener: (contact: Contact<BodyData, FixtureData, JointData>, impulse: ContactImpulse) => void): World<BodyData, FixtureData, JointData>;
+  /** Listener is called at the start of each step, with the time step. */
+  on(name: 'pre-step', listener: (timeStep: number) => void): World<BodyData, FixtureData, JointData>;
+  /**
+   * Listener is called at the end of each step, with the time step, after
+   * changes made during callbacks are applied.
+   */
+  on(name: 'post-step', listener: (timeStep: number) => void): World<BodyData, FixtureData, JointData>;
+  /**
+   * Listener is called at the end of a step when a non-sensor fixture starts
+   * overlapping a sensor fixture.
    */
-  on(name: 'post-solve', listener: (contact: Contact, impulse: ContactImpulse) => void): World;
+  on(name: 'sensor-begin', listener: (sensor: Fixture<BodyData, FixtureData, JointData>, other: Fixture<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
+  /**
+   * Listener is called when a fixture stops overlapping a sensor fixture, at
+   * the end of a step or when one of the fixtures is removed.
+   */
+  on(name: 'sensor-end', listener: (sensor: Fixture<BodyData, FixtureData, JointData>, other: Fixture<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
   /** Listener is called whenever a body is removed. */
-  on(name: 'remove-body', listener: (body: Body) => void): World;
+  on(name: 'remove-body', listener: (body: Body<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
   /** Listener is called whenever a joint is removed implicitly or explicitly. */
-  on(name: 'remove-joint', listener: (joint: Joint) => void): World;
+  on(name: 'remove-joint', listener: (joint: Joint<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
   /** Listener is called whenever a fixture is removed implicitly or explicitly. */
-  on(name: 'remove-fixture', listener: (fixture: Fixture) => void): World;
+  on(name: 'remove-fixture', listener: (fixture: Fixture<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
   /**
    * Register an event listener.
    */
@@ -1077,13 +2528,17 @@ export class World {
     return this;
   }
 
-  off(name: 'begin-contact', listener: (contact: Contact) => void): World;
-  off(name: 'end-contact', listener: (contact: Contact) => void): World;
-  off(name: 'pre-solve', listener: (contact: Contact, oldManifold: Manifold) => void): World;
-  off(name: 'post-solve', listener: (contact: Contact, impulse: ContactImpulse) => void): World;
-  off(name: 'remove-body', listener: (body: Body) => void): World;
-  off(name: 'remove-joint', listener: (joint: Joint) => void): World;
-  off(name: 'remove-fixture', listener: (fixture: Fixture) => void): World;
+  off(name: 'begin-contact', listener: (contact: Contact<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'end-contact', listener: (contact: Contact<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'pre-solve', listener: (contact: Contact<BodyData, FixtureData, JointData>, oldManifold: Manifold) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'post-solve', listener: (contact: Contact<BodyData, FixtureData, JointData>, impulse: ContactImpulse) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'pre-step', listener: (timeStep: number) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'post-step', listener: (timeStep: number) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'sensor-begin', listener: (sensor: Fixture<BodyData, FixtureData, JointData>, other: Fixture<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'sensor-end', listener: (sensor: Fixture<BodyData, FixtureData, JointData>, other: Fixture<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'remove-body', listener: (body: Body<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'remove-joint', listener: (joint: Joint<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
+  off(name: 'remove-fixture', listener: (fixture: Fixture<BodyData, FixtureData, JointData>) => void): World<BodyData, FixtureData, JointData>;
   /**
    * Remove an event listener.
    */
@@ -1116,14 +2571,49 @@ export class World {
 
   /** @internal */
   beginContact(contact: Contact): void {
+    if (this.m_contactEvents && this.m_locked) {
+      this.recordContactEvent(this.m_contactEvents.begin, contact, contact.m_manifold);
+    }
     this.publish('begin-contact', contact);
   }
 
   /** @internal */
-  endContact(contact: Contact): void {
+  endContact(contact: Contact, manifold?: Manifold | null): void {
+    if (this.m_contactEvents && this.m_locked) {
+      this.recordContactEvent(this.m_contactEvents.end, contact, manifold || contact.m_manifold);
+    }
     this.publish('end-contact', contact);
   }
 
+  /** @internal */
+  sensorBegin(sensor: Fixture, other: Fixture): void {
+    if (this.m_contactEvents && this.m_locked) {
+      this.m_contactEvents.sensorBegin.push(sensor, other, null);
+    }
+    this.publish('sensor-begin', sensor, other);
+  }
+
+  /** @internal */
+  sensorEnd(sensor: Fixture, other: Fixture): void {
+    if (this.m_contactEvents && this.m_locked) {
+      this.m_contactEvents.sensorEnd.push(sensor, other, null);
+    }
+    this.publish('sensor-end', sensor, other);
+  }
+
+  /** @internal */
+  recordContactEvent(buffer: ContactEventBuffer, contact: Contact, manifold: Manifold): void {
+    const fixtureA = contact.m_fixtureA;
+    const fixtureB = contact.m_fixtureB;
+    worldManifold.recycle();
+    manifold.getWorldManifold(
+      worldManifold,
+      fixtureA.m_body.m_xf, fixtureA.m_shape.m_radius,
+      fixtureB.m_body.m_xf, fixtureB.m_shape.m_radius
+    );
+    buffer.push(fixtureA, fixtureB, worldManifold);
+  }
+
   /** @internal */
   preSolve(contact: Contact, oldManifold: Manifold): void {
     this.publish('pre-solve', contact, oldManifold);
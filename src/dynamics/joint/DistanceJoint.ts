@@ -23,14 +23,13 @@
  */
 
 import { options } from '../../util/options';
-import { SettingsInternal as Settings } from '../../Settings';
 import { clamp } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const math_abs = Math.abs;
@@ -84,11 +83,16 @@ export interface DistanceJointDef extends JointDef, DistanceJointOpt {
   dampingRatio : 0.0
 };
 
+/** Simulation state of a {@link DistanceJoint}, see {@link World.saveState}. */
+export interface DistanceJointState extends JointState {
+  impulse: number;
+}
+
 /**
  * A distance joint constrains two points on two bodies to remain at a fixed
  * distance from each other. You can view this as a massless, rigid rod.
  */
-export class DistanceJoint extends Joint {
+export class DistanceJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'distance-joint' as const;
 
   // Solver shared
@@ -121,12 +125,12 @@ export class DistanceJoint extends Joint {
    * @param anchorA Anchor A in global coordination.
    * @param anchorB Anchor B in global coordination.
    */
-  constructor(def: DistanceJointOpt, bodyA: Body, bodyB: Body, anchorA: Vec2Value, anchorB: Vec2Value);
-  constructor(def: DistanceJointDef, bodyA?: Body, bodyB?: Body, anchorA?: Vec2Value, anchorB?: Vec2Value) {
+  constructor(def: DistanceJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, anchorA: Vec2Value, anchorB: Vec2Value);
+  constructor(def: DistanceJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, anchorA?: Vec2Value, anchorB?: Vec2Value) {
     // order of constructor arguments is changed in v0.2
     if (bodyB && anchorA && ('m_type' in anchorA) && ('x' in bodyB) && ('y' in bodyB)) {
       const temp = bodyB;
-      bodyB = anchorA as any as Body;
+      bodyB = anchorA as any as Body<BodyData, FixtureData, JointData>;
       anchorA = temp as any as Vec2Value;
     }
 
@@ -299,6 +303,20 @@ export class DistanceJoint extends Joint {
     return 0.0;
   }
 
+  /** @internal */
+  _saveState(): DistanceJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: this.m_impulse,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: DistanceJointState): void {
+    super._restoreState(state);
+    this.m_impulse = state.impulse;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -317,8 +335,8 @@ export class DistanceJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     this.m_rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
     this.m_rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
@@ -326,7 +344,7 @@ export class DistanceJoint extends Joint {
 
     // Handle singularity.
     const length = Vec2.length(this.m_u);
-    if (length > Settings.linearSlop) {
+    if (length > step.settings.linearSlop) {
       Vec2.scale(this.m_u, 1.0 / length, this.m_u);
     } else {
       Vec2.set(0.0, 0.0, this.m_u);
@@ -411,6 +429,52 @@ export class DistanceJoint extends Joint {
     this.m_bodyB.c_velocity.w = wB;
   }
 
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    if (this.m_frequencyHz > 0.0) {
+      // The spring is also applied without bias.
+      this.solveVelocityConstraints(step);
+      return;
+    }
+
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+
+    let bias = 0.0;
+    let massScale = 1.0;
+    let impulseScale = 0.0;
+    if (useBias) {
+      const cA = this.m_bodyA.c_position.c;
+      const cB = this.m_bodyB.c_position.c;
+      const rA = Rot.mulSub(Rot.create(this.m_bodyA.c_position.a), this.m_localAnchorA, this.m_localCenterA);
+      const rB = Rot.mulSub(Rot.create(this.m_bodyB.c_position.a), this.m_localAnchorB, this.m_localCenterB);
+      const length = Vec2.length(Vec2.sub(Vec2.add(cB, rB), Vec2.add(cA, rA)));
+      bias = softness.biasRate * (length - this.m_length);
+      massScale = softness.massScale;
+      impulseScale = softness.impulseScale;
+    }
+
+    // Cdot = dot(u, v + cross(w, r))
+    const vpA = Vec2.add(vA, Vec2.crossNumVec2(wA, this.m_rA));
+    const vpB = Vec2.add(vB, Vec2.crossNumVec2(wB, this.m_rB));
+    const Cdot = Vec2.dot(this.m_u, vpB) - Vec2.dot(this.m_u, vpA);
+
+    const impulse = -massScale * this.m_mass * (Cdot + bias) - impulseScale * this.m_impulse;
+    this.m_impulse += impulse;
+
+    const P = Vec2.mulNumVec2(impulse, this.m_u);
+    Vec2.subMul(vA, this.m_invMassA, P, vA);
+    wA -= this.m_invIA * Vec2.crossVec2Vec2(this.m_rA, P);
+    Vec2.addMul(vB, this.m_invMassB, P, vB);
+    wB += this.m_invIB * Vec2.crossVec2Vec2(this.m_rB, P);
+
+    Vec2.copy(vA, this.m_bodyA.c_velocity.v);
+    this.m_bodyA.c_velocity.w = wA;
+    Vec2.copy(vB, this.m_bodyB.c_velocity.v);
+    this.m_bodyB.c_velocity.w = wB;
+  }
+
   /**
    * This returns true if the position errors are within tolerance.
    */
@@ -425,15 +489,15 @@ export class DistanceJoint extends Joint {
     const cB = this.m_bodyB.c_position.c;
     let aB = this.m_bodyB.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     const rA = Rot.mulSub(qA, this.m_localAnchorA, this.m_localCenterA);
     const rB = Rot.mulSub(qB, this.m_localAnchorB, this.m_localCenterB);
     const u = Vec2.sub(Vec2.add(cB, rB), Vec2.add(cA, rA));
 
     const length = Vec2.normalize(u, u);
-    const C = clamp(length - this.m_length, -Settings.maxLinearCorrection, Settings.maxLinearCorrection);
+    const C = clamp(length - this.m_length, -step.settings.maxLinearCorrection, step.settings.maxLinearCorrection);
 
     const impulse = -this.m_mass * C;
     const P = Vec2.mulNumVec2(impulse, u);
@@ -448,7 +512,7 @@ export class DistanceJoint extends Joint {
     Vec2.copy(cB, this.m_bodyB.c_position.c);
     this.m_bodyB.c_position.a = aB;
 
-    return math_abs(C) < Settings.linearSlop;
+    return math_abs(C) < step.settings.linearSlop;
   }
 
 }
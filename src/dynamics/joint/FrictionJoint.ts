@@ -26,9 +26,10 @@ import { options } from '../../util/options';
 import { clamp } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Mat22 } from '../../common/Mat22';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import { Mat22Value } from '../../common/Mat22';
+import * as Mat22 from '../../common/Mat22';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
 import { TimeStep } from "../Solver";
 
@@ -72,11 +73,17 @@ export interface FrictionJointDef extends JointDef, FrictionJointOpt {
   maxTorque : 0.0,
 };
 
+/** Simulation state of a {@link FrictionJoint}, see {@link World.saveState}. */
+export interface FrictionJointState extends JointState {
+  linearImpulse: Vec2Value;
+  angularImpulse: number;
+}
+
 /**
  * Friction joint. This is used for top-down friction. It provides 2D
  * translational friction and angular friction.
  */
-export class FrictionJoint extends Joint {
+export class FrictionJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'friction-joint' as const;
 
   /** @internal */ m_type: 'friction-joint';
@@ -99,15 +106,15 @@ export class FrictionJoint extends Joint {
   /** @internal */ m_invMassB: number;
   /** @internal */ m_invIA: number;
   /** @internal */ m_invIB: number;
-  /** @internal */ m_linearMass: Mat22;
+  /** @internal */ m_linearMass: Mat22Value;
   /** @internal */ m_angularMass: number;
 
   constructor(def: FrictionJointDef);
   /**
    * @param anchor Anchor in global coordination.
    */
-  constructor(def: FrictionJointOpt, bodyA: Body, bodyB: Body, anchor: Vec2Value);
-  constructor(def: FrictionJointDef, bodyA?: Body, bodyB?: Body, anchor?: Vec2Value) {
+  constructor(def: FrictionJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, anchor: Vec2Value);
+  constructor(def: FrictionJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, anchor?: Vec2Value) {
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
     bodyA = this.m_bodyA;
@@ -254,6 +261,22 @@ export class FrictionJoint extends Joint {
     return inv_dt * this.m_angularImpulse;
   }
 
+  /** @internal */
+  _saveState(): FrictionJointState {
+    return {
+      island: this.m_islandFlag,
+      linearImpulse: Vec2.clone(this.m_linearImpulse),
+      angularImpulse: this.m_angularImpulse,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: FrictionJointState): void {
+    super._restoreState(state);
+    Vec2.copy(state.linearImpulse, this.m_linearImpulse);
+    this.m_angularImpulse = state.angularImpulse;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -270,8 +293,8 @@ export class FrictionJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     // Compute the effective mass matrix.
     this.m_rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
@@ -291,7 +314,7 @@ export class FrictionJoint extends Joint {
     const iA = this.m_invIA;
     const iB = this.m_invIB;
 
-    const K = new Mat22();
+    const K = Mat22.create();
     K.ex[0] = mA + mB + iA * this.m_rA[1] * this.m_rA[1] + iB * this.m_rB[1]
         * this.m_rB[1];
     K.ex[1] = -iA * this.m_rA[0] * this.m_rA[1] - iB * this.m_rB[0] * this.m_rB[1];
@@ -299,7 +322,7 @@ export class FrictionJoint extends Joint {
     K.ey[1] = mA + mB + iA * this.m_rA[0] * this.m_rA[0] + iB * this.m_rB[0]
         * this.m_rB[0];
 
-    this.m_linearMass = K.getInverse();
+    this.m_linearMass = Mat22.getInverse(K);
 
     this.m_angularMass = iA + iB;
     if (this.m_angularMass > 0.0) {
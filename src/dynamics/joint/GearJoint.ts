@@ -23,16 +23,15 @@
  */
 
 import { options } from '../../util/options';
-import { SettingsInternal as Settings } from '../../Settings';
 import { } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
 import { RevoluteJoint } from './RevoluteJoint';
 import { PrismaticJoint } from './PrismaticJoint';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
@@ -66,6 +65,11 @@ export interface GearJointDef extends JointDef, GearJointOpt {
   ratio : 1.0
 };
 
+/** Simulation state of a {@link GearJoint}, see {@link World.saveState}. */
+export interface GearJointState extends JointState {
+  impulse: number;
+}
+
 /**
  * A gear joint is used to connect two joints together. Either joint can be a
  * revolute or prismatic joint. You specify a gear ratio to bind the motions
@@ -79,20 +83,20 @@ export interface GearJointDef extends JointDef, GearJointOpt {
  * This definition requires two existing revolute or prismatic joints (any
  * combination will work).
  */
-export class GearJoint extends Joint {
+export class GearJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'gear-joint' as const;
 
   /** @internal */ m_type: 'gear-joint';
-  /** @internal */ m_joint1: RevoluteJoint | PrismaticJoint;
-  /** @internal */ m_joint2: RevoluteJoint | PrismaticJoint;
+  /** @internal */ m_joint1: RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>;
+  /** @internal */ m_joint2: RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>;
   /** @internal */ m_type1: 'revolute-joint' | 'prismatic-joint';
   /** @internal */ m_type2: 'revolute-joint' | 'prismatic-joint';
-  /** @internal */ m_bodyC: Body;
+  /** @internal */ m_bodyC: Body<BodyData, FixtureData, JointData>;
   /** @internal */ m_localAnchorC: Vec2Value;
   /** @internal */ m_localAnchorA: Vec2Value;
   /** @internal */ m_referenceAngleA: number;
   /** @internal */ m_localAxisC: Vec2Value;
-  /** @internal */ m_bodyD: Body;
+  /** @internal */ m_bodyD: Body<BodyData, FixtureData, JointData>;
   /** @internal */ m_localAnchorD: Vec2Value;
   /** @internal */ m_localAnchorB: Vec2Value;
   /** @internal */ m_referenceAngleB: number;
@@ -123,8 +127,8 @@ export class GearJoint extends Joint {
   /** @internal */ m_mass: number;
 
   constructor(def: GearJointDef);
-  constructor(def: GearJointOpt, bodyA: Body, bodyB: Body, joint1: RevoluteJoint | PrismaticJoint, joint2: RevoluteJoint | PrismaticJoint, ratio?: number);
-  constructor(def: GearJointDef, bodyA?: Body, bodyB?: Body, joint1?: RevoluteJoint | PrismaticJoint, joint2?: RevoluteJoint | PrismaticJoint, ratio?: number) {
+  constructor(def: GearJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, joint1: RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>, joint2: RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>, ratio?: number);
+  constructor(def: GearJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, joint1?: RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>, joint2?: RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>, ratio?: number) {
   
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
@@ -136,8 +140,8 @@ export class GearJoint extends Joint {
     _ASSERT && console.assert(joint1.m_type === RevoluteJoint.TYPE || joint1.m_type === PrismaticJoint.TYPE);
     _ASSERT && console.assert(joint2.m_type === RevoluteJoint.TYPE || joint2.m_type === PrismaticJoint.TYPE);
 
-    this.m_joint1 = joint1 ? joint1 : def.joint1;
-    this.m_joint2 = joint2 ? joint2 : def.joint2;
+    this.m_joint1 = joint1 ? joint1 : def.joint1 as RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>;
+    this.m_joint2 = joint2 ? joint2 : def.joint2 as RevoluteJoint<BodyData, FixtureData, JointData> | PrismaticJoint<BodyData, FixtureData, JointData>;
     this.m_ratio = Number.isFinite(ratio) ? ratio : def.ratio;
 
     this.m_type1 = this.m_joint1.getType() as 'revolute-joint' | 'prismatic-joint';
@@ -328,6 +332,20 @@ export class GearJoint extends Joint {
     return inv_dt * L;
   }
 
+  /** @internal */
+  _saveState(): GearJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: this.m_impulse,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: GearJointState): void {
+    super._restoreState(state);
+    this.m_impulse = state.impulse;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_lcA = this.m_bodyA.m_sweep.localCenter;
     this.m_lcB = this.m_bodyB.m_sweep.localCenter;
@@ -358,10 +376,10 @@ export class GearJoint extends Joint {
     const vD = this.m_bodyD.c_velocity.v;
     let wD = this.m_bodyD.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
-    const qC = Rot.neo(aC);
-    const qD = Rot.neo(aD);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
+    const qC = Rot.create(aC);
+    const qD = Rot.create(aD);
 
     this.m_mass = 0.0;
 
@@ -460,6 +478,94 @@ export class GearJoint extends Joint {
     this.m_bodyD.c_velocity.w = wD;
   }
 
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+    const vC = this.m_bodyC.c_velocity.v;
+    let wC = this.m_bodyC.c_velocity.w;
+    const vD = this.m_bodyD.c_velocity.v;
+    let wD = this.m_bodyD.c_velocity.w;
+
+    let bias = 0.0;
+    let massScale = 1.0;
+    let impulseScale = 0.0;
+    if (useBias) {
+      bias = softness.biasRate * this.getPositionError();
+      massScale = softness.massScale;
+      impulseScale = softness.impulseScale;
+    }
+
+    let Cdot = Vec2.dot(this.m_JvAC, vA) - Vec2.dot(this.m_JvAC, vC) + Vec2.dot(this.m_JvBD, vB) - Vec2.dot(this.m_JvBD, vD);
+    Cdot += (this.m_JwA * wA - this.m_JwC * wC) + (this.m_JwB * wB - this.m_JwD * wD);
+
+    const impulse = -massScale * this.m_mass * (Cdot + bias) - impulseScale * this.m_impulse;
+    this.m_impulse += impulse;
+
+    Vec2.addMul(vA, this.m_mA * impulse, this.m_JvAC, vA);
+    wA += this.m_iA * impulse * this.m_JwA;
+    Vec2.addMul(vB, this.m_mB * impulse, this.m_JvBD, vB);
+    wB += this.m_iB * impulse * this.m_JwB;
+    Vec2.subMul(vC, this.m_mC * impulse, this.m_JvAC, vC);
+    wC -= this.m_iC * impulse * this.m_JwC;
+    Vec2.subMul(vD, this.m_mD * impulse, this.m_JvBD, vD);
+    wD -= this.m_iD * impulse * this.m_JwD;
+
+    Vec2.copy(vA, this.m_bodyA.c_velocity.v);
+    this.m_bodyA.c_velocity.w = wA;
+    Vec2.copy(vB, this.m_bodyB.c_velocity.v);
+    this.m_bodyB.c_velocity.w = wB;
+    Vec2.copy(vC, this.m_bodyC.c_velocity.v);
+    this.m_bodyC.c_velocity.w = wC;
+    Vec2.copy(vD, this.m_bodyD.c_velocity.v);
+    this.m_bodyD.c_velocity.w = wD;
+  }
+
+  /**
+   * Position error of the gear, C = coordinateA + ratio * coordinateB - constant,
+   * from the current solver positions.
+   *
+   * @internal
+   */
+  getPositionError(): number {
+    const cA = this.m_bodyA.c_position.c;
+    const cB = this.m_bodyB.c_position.c;
+    const cC = this.m_bodyC.c_position.c;
+    const cD = this.m_bodyD.c_position.c;
+    const aA = this.m_bodyA.c_position.a;
+    const aB = this.m_bodyB.c_position.a;
+    const aC = this.m_bodyC.c_position.a;
+    const aD = this.m_bodyD.c_position.a;
+
+    let coordinateA: number;
+    let coordinateB: number;
+
+    if (this.m_type1 == RevoluteJoint.TYPE) {
+      coordinateA = aA - aC - this.m_referenceAngleA;
+    } else {
+      const qA = Rot.create(aA);
+      const qC = Rot.create(aC);
+      const rA = Rot.mulSub(qA, this.m_localAnchorA, this.m_lcA);
+      const pC = Vec2.sub(this.m_localAnchorC, this.m_lcC);
+      const pA = Rot.mulTVec2(qC, Vec2.add(rA, Vec2.sub(cA, cC)));
+      coordinateA = Vec2.dot(Vec2.sub(pA, pC), this.m_localAxisC);
+    }
+
+    if (this.m_type2 == RevoluteJoint.TYPE) {
+      coordinateB = aB - aD - this.m_referenceAngleB;
+    } else {
+      const qB = Rot.create(aB);
+      const qD = Rot.create(aD);
+      const rB = Rot.mulSub(qB, this.m_localAnchorB, this.m_lcB);
+      const pD = Vec2.sub(this.m_localAnchorD, this.m_lcD);
+      const pB = Rot.mulTVec2(qD, Vec2.add(rB, Vec2.sub(cB, cD)));
+      coordinateB = Vec2.dot(Vec2.sub(pB, pD), this.m_localAxisD);
+    }
+
+    return (coordinateA + this.m_ratio * coordinateB) - this.m_constant;
+  }
+
   /**
    * This returns true if the position errors are within tolerance.
    */
@@ -473,10 +579,10 @@ export class GearJoint extends Joint {
     const cD = this.m_bodyD.c_position.c;
     let aD = this.m_bodyD.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
-    const qC = Rot.neo(aC);
-    const qD = Rot.neo(aD);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
+    const qC = Rot.create(aC);
+    const qD = Rot.create(aD);
 
     const linearError = 0.0;
 
@@ -559,7 +665,7 @@ export class GearJoint extends Joint {
     this.m_bodyD.c_position.a = aD;
 
     // TODO_ERIN not implemented
-    return linearError < Settings.linearSlop;
+    return linearError < step.settings.linearSlop;
   }
 
 }
@@ -26,9 +26,10 @@ import { options } from '../../util/options';
 import { clamp } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Mat22 } from '../../common/Mat22';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import { Mat22Value } from '../../common/Mat22';
+import * as Mat22 from '../../common/Mat22';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
 import { TimeStep } from "../Solver";
 
@@ -74,12 +75,18 @@ export interface MotorJointDef extends JointDef, MotorJointOpt {
   correctionFactor : 0.3
 };
 
+/** Simulation state of a {@link MotorJoint}, see {@link World.saveState}. */
+export interface MotorJointState extends JointState {
+  linearImpulse: Vec2Value;
+  angularImpulse: number;
+}
+
 /**
  * A motor joint is used to control the relative motion between two bodies. A
  * typical usage is to control the movement of a dynamic body with respect to
  * the ground.
  */
-export class MotorJoint extends Joint {
+export class MotorJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'motor-joint' as const;
 
   /** @internal */ m_type: 'motor-joint';
@@ -102,12 +109,12 @@ export class MotorJoint extends Joint {
   /** @internal */ m_invMassB: number;
   /** @internal */ m_invIA: number;
   /** @internal */ m_invIB: number;
-  /** @internal */ m_linearMass: Mat22;
+  /** @internal */ m_linearMass: Mat22Value;
   /** @internal */ m_angularMass: number;
 
   constructor(def: MotorJointDef);
-  constructor(def: MotorJointOpt, bodyA: Body, bodyB: Body);
-  constructor(def: MotorJointDef | MotorJointOpt, bodyA?: Body, bodyB?: Body) {
+  constructor(def: MotorJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>);
+  constructor(def: MotorJointDef | MotorJointOpt, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>) {
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
     bodyA = this.m_bodyA;
@@ -289,6 +296,22 @@ export class MotorJoint extends Joint {
     return inv_dt * this.m_angularImpulse;
   }
 
+  /** @internal */
+  _saveState(): MotorJointState {
+    return {
+      island: this.m_islandFlag,
+      linearImpulse: Vec2.clone(this.m_linearImpulse),
+      angularImpulse: this.m_angularImpulse,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: MotorJointState): void {
+    super._restoreState(state);
+    Vec2.copy(state.linearImpulse, this.m_linearImpulse);
+    this.m_angularImpulse = state.angularImpulse;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -307,8 +330,8 @@ export class MotorJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     // Compute the effective mass matrix.
     this.m_rA = Rot.mulVec2(qA, Vec2.sub(this.m_linearOffset, this.m_localCenterA));
@@ -328,13 +351,13 @@ export class MotorJoint extends Joint {
     const iB = this.m_invIB;
 
     // Upper 2 by 2 of K for point to point
-    const K = new Mat22();
+    const K = Mat22.create();
     K.ex[0] = mA + mB + iA * this.m_rA[1] * this.m_rA[1] + iB * this.m_rB[1] * this.m_rB[1];
     K.ex[1] = -iA * this.m_rA[0] * this.m_rA[1] - iB * this.m_rB[0] * this.m_rB[1];
     K.ey[0] = K.ex[1];
     K.ey[1] = mA + mB + iA * this.m_rA[0] * this.m_rA[0] + iB * this.m_rB[0] * this.m_rB[0];
 
-    this.m_linearMass = K.getInverse();
+    this.m_linearMass = Mat22.getInverse(K);
 
     this.m_angularMass = iA + iB;
     if (this.m_angularMass > 0.0) {
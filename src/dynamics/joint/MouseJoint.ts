@@ -26,10 +26,11 @@ import { options } from '../../util/options';
 import { EPSILON } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Mat22 } from '../../common/Mat22';
-import { Rot } from '../../common/Rot';
-import { Transform } from '../../common/Transform';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import { Mat22Value } from '../../common/Mat22';
+import * as Mat22 from '../../common/Mat22';
+import * as Rot from '../../common/Rot';
+import * as Transform from '../../common/Transform';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
 import { TimeStep } from "../Solver";
 
@@ -78,6 +79,11 @@ export interface MouseJointDef extends JointDef, MouseJointOpt {
   dampingRatio : 0.7
 };
 
+/** Simulation state of a {@link MouseJoint}, see {@link World.saveState}. */
+export interface MouseJointState extends JointState {
+  impulse: Vec2Value;
+}
+
 /**
  * A mouse joint is used to make a point on a body track a specified world
  * point. This a soft constraint with a maximum force. This allows the
@@ -90,7 +96,7 @@ export interface MouseJointDef extends JointDef, MouseJointOpt {
  * be used in the testbed. If you want to learn how to use the mouse joint, look
  * at the testbed.
  */
-export class MouseJoint extends Joint {
+export class MouseJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'mouse-joint' as const;
 
   /** @internal */ m_type: 'mouse-joint';
@@ -107,12 +113,12 @@ export class MouseJoint extends Joint {
   /** @internal */ m_localCenterB: Vec2Value;
   /** @internal */ m_invMassB: number;
   /** @internal */ m_invIB: number;
-  /** @internal */ m_mass: Mat22;
+  /** @internal */ m_mass: Mat22Value;
   /** @internal */ m_C: Vec2Value;
 
   constructor(def: MouseJointDef);
-  constructor(def: MouseJointOpt, bodyA: Body, bodyB: Body, target: Vec2Value);
-  constructor(def: MouseJointDef, bodyA?: Body, bodyB?: Body, target?: Vec2Value) {
+  constructor(def: MouseJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, target: Vec2Value);
+  constructor(def: MouseJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, target?: Vec2Value) {
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
     bodyA = this.m_bodyA;
@@ -148,7 +154,7 @@ export class MouseJoint extends Joint {
     this.m_localCenterB = Vec2.zero();
     this.m_invMassB = 0.0;
     this.m_invIB = 0.0;
-    this.m_mass = new Mat22();
+    this.m_mass = Mat22.create();
     this.m_C = Vec2.zero();
 
     // p = attached point, m = mouse point
@@ -293,6 +299,20 @@ export class MouseJoint extends Joint {
     Vec2.sub(this.m_targetA, newOrigin, this.m_targetA);
   }
 
+  /** @internal */
+  _saveState(): MouseJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: Vec2.clone(this.m_impulse),
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: MouseJointState): void {
+    super._restoreState(state);
+    Vec2.copy(state.impulse, this.m_impulse);
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
     this.m_invMassB = this.m_bodyB.m_invMass;
@@ -306,7 +326,7 @@ export class MouseJoint extends Joint {
     const vB = velocity.v;
     let wB = velocity.w;
 
-    const qB = Rot.neo(aB);
+    const qB = Rot.create(aB);
 
     const mass = this.m_bodyB.getMass();
 
@@ -338,7 +358,7 @@ export class MouseJoint extends Joint {
     // = [1/m1+1/m2 0 ] + invI1 * [r1.y*r1.y -r1.x*r1.y] + invI2 * [r1.y*r1.y
     // -r1.x*r1.y]
     // [ 0 1/m1+1/m2] [-r1.x*r1.y r1.x*r1.x] [-r1.x*r1.y r1.x*r1.x]
-    const K = new Mat22();
+    const K = Mat22.create();
     K.ex[0] = this.m_invMassB + this.m_invIB * this.m_rB[1] * this.m_rB[1]
         + this.m_gamma;
     K.ex[1] = -this.m_invIB * this.m_rB[0] * this.m_rB[1];
@@ -346,7 +366,7 @@ export class MouseJoint extends Joint {
     K.ey[1] = this.m_invMassB + this.m_invIB * this.m_rB[0] * this.m_rB[0]
         + this.m_gamma;
 
-    this.m_mass = K.getInverse();
+    this.m_mass = Mat22.getInverse(K);
 
     Vec2.copy(cB, this.m_C);
 
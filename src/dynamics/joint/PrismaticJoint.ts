@@ -23,18 +23,18 @@
  */
 
 import { options } from '../../util/options';
-import { SettingsInternal as Settings } from '../../Settings';
 import { clamp } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
 import { Vec3Value } from '../../common/Vec3';
 import * as Vec3 from '../../common/Vec3';
-import { Mat22 } from '../../common/Mat22';
-import { Mat33 } from '../../common/Mat33';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import * as Mat22 from '../../common/Mat22';
+import { Mat33Value } from '../../common/Mat33';
+import * as Mat33 from '../../common/Mat33';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
@@ -125,13 +125,20 @@ export interface PrismaticJointDef extends JointDef, PrismaticJointOpt {
   motorSpeed : 0.0
 };
 
+/** Simulation state of a {@link PrismaticJoint}, see {@link World.saveState}. */
+export interface PrismaticJointState extends JointState {
+  impulse: Vec3Value;
+  motorImpulse: number;
+  limitState: number;
+}
+
 /**
  * A prismatic joint. This joint provides one degree of freedom: translation
  * along an axis fixed in bodyA. Relative rotation is prevented. You can use a
  * joint limit to restrict the range of motion and a joint motor to drive the
  * motion or to model joint friction.
  */
-export class PrismaticJoint extends Joint {
+export class PrismaticJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'prismatic-joint' as const;
 
   /** @internal */ m_type: 'prismatic-joint';
@@ -163,11 +170,11 @@ export class PrismaticJoint extends Joint {
   /** @internal */ m_s2: number;
   /** @internal */ m_a1: number;
   /** @internal */ m_a2: number;
-  /** @internal */ m_K: Mat33;
+  /** @internal */ m_K: Mat33Value;
 
   constructor(def: PrismaticJointDef);
-  constructor(def: PrismaticJointOpt, bodyA: Body, bodyB: Body, anchor: Vec2Value, axis: Vec2Value);
-  constructor(def: PrismaticJointDef, bodyA?: Body, bodyB?: Body, anchor?: Vec2Value, axis?: Vec2Value) {
+  constructor(def: PrismaticJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, anchor: Vec2Value, axis: Vec2Value);
+  constructor(def: PrismaticJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, anchor?: Vec2Value, axis?: Vec2Value) {
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
     bodyA = this.m_bodyA;
@@ -197,7 +204,7 @@ export class PrismaticJoint extends Joint {
     this.m_axis = Vec2.zero();
     this.m_perp = Vec2.zero();
 
-    this.m_K = new Mat33();
+    this.m_K = Mat33.create();
 
     // Linear constraint (point-to-line)
     // d = p2 - p1 = x2 + r2 - x1 - r1
@@ -539,6 +546,24 @@ export class PrismaticJoint extends Joint {
     return inv_dt * this.m_impulse[1];
   }
 
+  /** @internal */
+  _saveState(): PrismaticJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: Vec3.clone(this.m_impulse),
+      motorImpulse: this.m_motorImpulse,
+      limitState: this.m_limitState,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: PrismaticJointState): void {
+    super._restoreState(state);
+    Vec3.set(state.impulse[0], state.impulse[1], state.impulse[2], this.m_impulse);
+    this.m_motorImpulse = state.motorImpulse;
+    this.m_limitState = state.limitState;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -557,8 +582,8 @@ export class PrismaticJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     // Compute the effective masses.
     const rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
@@ -615,7 +640,7 @@ export class PrismaticJoint extends Joint {
     if (this.m_enableLimit) {
 
       const jointTranslation = Vec2.dot(this.m_axis, d);
-      if (math_abs(this.m_upperTranslation - this.m_lowerTranslation) < 2.0 * Settings.linearSlop) {
+      if (math_abs(this.m_upperTranslation - this.m_lowerTranslation) < 2.0 * step.settings.linearSlop) {
         this.m_limitState = LimitState.equalLimits;
 
       } else if (jointTranslation <= this.m_lowerTranslation) {
@@ -720,7 +745,7 @@ export class PrismaticJoint extends Joint {
       const Cdot = Vec3.create(Cdot1[0], Cdot1[1], Cdot2);
 
       const f1 = Vec3.clone(this.m_impulse);
-      let df = this.m_K.solve33(Vec3.neg(Cdot));
+      let df = Mat33.solve33(this.m_K, Vec3.neg(Cdot));
       Vec3.add(this.m_impulse, df, this.m_impulse);
 
       if (this.m_limitState == LimitState.atLowerLimit) {
@@ -732,7 +757,7 @@ export class PrismaticJoint extends Joint {
       // f2(1:2) = invK(1:2,1:2) * (-Cdot(1:2) - K(1:2,3) * (f2(3) - f1(3))) +
       // f1(1:2)
       const b = Vec2.combine(-1, Cdot1, -(this.m_impulse[2] - f1[2]), Vec2.create(this.m_K.ez[0], this.m_K.ez[1]));
-      const f2r = Vec2.add(this.m_K.solve22(b), Vec2.create(f1[0], f1[1]));
+      const f2r = Vec2.add(Mat33.solve22(this.m_K, b), Vec2.create(f1[0], f1[1]));
       this.m_impulse[0] = f2r[0];
       this.m_impulse[1] = f2r[1];
 
@@ -749,7 +774,131 @@ export class PrismaticJoint extends Joint {
       wB += iB * LB;
     } else {
       // Limit is inactive, just solve the prismatic constraint in block form.
-      const df = this.m_K.solve22(Vec2.neg(Cdot1));
+      const df = Mat33.solve22(this.m_K, Vec2.neg(Cdot1));
+      this.m_impulse[0] += df[0];
+      this.m_impulse[1] += df[1];
+
+      const P = Vec2.mulNumVec2(df[0], this.m_perp);
+      const LA = df[0] * this.m_s1 + df[1];
+      const LB = df[0] * this.m_s2 + df[1];
+
+      Vec2.subMul(vA, mA, P, vA);
+      wA -= iA * LA;
+
+      Vec2.addMul(vB, mB, P, vB);
+      wB += iB * LB;
+    }
+
+    this.m_bodyA.c_velocity.v = vA;
+    this.m_bodyA.c_velocity.w = wA;
+    this.m_bodyB.c_velocity.v = vB;
+    this.m_bodyB.c_velocity.w = wB;
+  }
+
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    const cA = this.m_bodyA.c_position.c;
+    const aA = this.m_bodyA.c_position.a;
+    const cB = this.m_bodyB.c_position.c;
+    const aB = this.m_bodyB.c_position.a;
+
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+
+    const mA = this.m_invMassA;
+    const mB = this.m_invMassB;
+    const iA = this.m_invIA;
+    const iB = this.m_invIB;
+
+    // Current separation of the anchors.
+    const qA = Rot.create(aA);
+    const rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
+    const rB = Rot.mulVec2(Rot.create(aB), Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
+    const d = Vec2.sub(Vec2.add(cB, rB), Vec2.add(cA, rA));
+
+    // Solve linear motor constraint.
+    if (this.m_enableMotor && this.m_limitState != LimitState.equalLimits) {
+      const Cdot = Vec2.dot(this.m_axis, Vec2.sub(vB, vA)) + this.m_a2 * wB
+          - this.m_a1 * wA;
+      let impulse = this.m_motorMass * (this.m_motorSpeed - Cdot);
+      const oldImpulse = this.m_motorImpulse;
+      const maxImpulse = step.dt * this.m_maxMotorForce;
+      this.m_motorImpulse = clamp(this.m_motorImpulse + impulse,
+          -maxImpulse, maxImpulse);
+      impulse = this.m_motorImpulse - oldImpulse;
+
+      const P = Vec2.mulNumVec2(impulse, this.m_axis);
+      const LA = impulse * this.m_a1;
+      const LB = impulse * this.m_a2;
+
+      Vec2.subMul(vA, mA, P, vA);
+      wA -= iA * LA;
+
+      Vec2.addMul(vB, mB, P, vB);
+      wB += iB * LB;
+    }
+
+    // Solve limit constraint, it may be approached until it is reached.
+    if (this.m_enableLimit && this.m_limitState != LimitState.inactiveLimit) {
+      const translation = Vec2.dot(Rot.mulVec2(qA, this.m_localXAxisA), d);
+      const C = translation - (this.m_limitState == LimitState.atUpperLimit ? this.m_upperTranslation : this.m_lowerTranslation);
+
+      let bias = 0.0;
+      let massScale = 1.0;
+      let impulseScale = 0.0;
+      if (this.m_limitState == LimitState.atLowerLimit && C > 0.0 || this.m_limitState == LimitState.atUpperLimit && C < 0.0) {
+        bias = C * step.inv_dt;
+      } else if (useBias) {
+        bias = softness.biasRate * C;
+        massScale = softness.massScale;
+        impulseScale = softness.impulseScale;
+      }
+
+      const Cdot = Vec2.dot(this.m_axis, Vec2.sub(vB, vA)) + this.m_a2 * wB - this.m_a1 * wA;
+      let impulse = -this.m_motorMass * massScale * (Cdot + bias) - impulseScale * this.m_impulse[2];
+      const oldImpulse = this.m_impulse[2];
+      if (this.m_limitState == LimitState.atLowerLimit) {
+        this.m_impulse[2] = math_max(oldImpulse + impulse, 0.0);
+      } else if (this.m_limitState == LimitState.atUpperLimit) {
+        this.m_impulse[2] = math_min(oldImpulse + impulse, 0.0);
+      } else {
+        this.m_impulse[2] = oldImpulse + impulse;
+      }
+      impulse = this.m_impulse[2] - oldImpulse;
+
+      const P = Vec2.mulNumVec2(impulse, this.m_axis);
+      const LA = impulse * this.m_a1;
+      const LB = impulse * this.m_a2;
+
+      Vec2.subMul(vA, mA, P, vA);
+      wA -= iA * LA;
+
+      Vec2.addMul(vB, mB, P, vB);
+      wB += iB * LB;
+    }
+
+    // Solve the prismatic constraint in block form.
+    {
+      const Cdot = Vec2.zero();
+      Cdot[0] += Vec2.dot(this.m_perp, vB) + this.m_s2 * wB;
+      Cdot[0] -= Vec2.dot(this.m_perp, vA) + this.m_s1 * wA;
+      Cdot[1] = wB - wA;
+
+      let massScale = 1.0;
+      let impulseScale = 0.0;
+      if (useBias) {
+        const C = Vec2.zero();
+        C[0] = Vec2.dot(Rot.mulVec2(qA, this.m_localYAxisA), d);
+        C[1] = aB - aA - this.m_referenceAngle;
+        Vec2.addMul(Cdot, softness.biasRate, C, Cdot);
+        massScale = softness.massScale;
+        impulseScale = softness.impulseScale;
+      }
+
+      const df = Mat33.solve22(this.m_K, Cdot);
+      df[0] = -massScale * df[0] - impulseScale * this.m_impulse[0];
+      df[1] = -massScale * df[1] - impulseScale * this.m_impulse[1];
       this.m_impulse[0] += df[0];
       this.m_impulse[1] += df[1];
 
@@ -779,8 +928,8 @@ export class PrismaticJoint extends Joint {
     const cB = this.m_bodyB.c_position.c;
     let aB = this.m_bodyB.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     const mA = this.m_invMassA;
     const mB = this.m_invMassB;
@@ -808,8 +957,8 @@ export class PrismaticJoint extends Joint {
     let linearError = math_abs(C1[0]);
     const angularError = math_abs(C1[1]);
 
-    const linearSlop = Settings.linearSlop;
-    const maxLinearCorrection = Settings.maxLinearCorrection;
+    const linearSlop = step.settings.linearSlop;
+    const maxLinearCorrection = step.settings.maxLinearCorrection;
 
     let active = false; // bool
     let C2 = 0.0;
@@ -852,7 +1001,7 @@ export class PrismaticJoint extends Joint {
       const k23 = iA * a1 + iB * a2;
       const k33 = mA + mB + iA * a1 * a1 + iB * a2 * a2;
 
-      const K = new Mat33();
+      const K = Mat33.create();
       Vec3.set(k11, k12, k13, K.ex);
       Vec3.set(k12, k22, k23, K.ey);
       Vec3.set(k13, k23, k33, K.ez);
@@ -862,7 +1011,7 @@ export class PrismaticJoint extends Joint {
       C[1] = C1[1];
       C[2] = C2;
 
-      impulse = K.solve33(Vec3.neg(C));
+      impulse = Mat33.solve33(K, Vec3.neg(C));
     } else {
       const k11 = mA + mB + iA * s1 * s1 + iB * s2 * s2;
       const k12 = iA * s1 + iB * s2;
@@ -871,11 +1020,11 @@ export class PrismaticJoint extends Joint {
         k22 = 1.0;
       }
 
-      const K = new Mat22();
+      const K = Mat22.create();
       Vec2.set(k11, k12, K.ex);
       Vec2.set(k12, k22, K.ey);
 
-      const impulse1 = K.solve(Vec2.neg(C1));
+      const impulse1 = Mat22.solve(K, Vec2.neg(C1));
       impulse[0] = impulse1[0];
       impulse[1] = impulse1[1];
       impulse[2] = 0.0;
@@ -895,8 +1044,8 @@ export class PrismaticJoint extends Joint {
     this.m_bodyB.c_position.c = cB;
     this.m_bodyB.c_position.a = aB;
 
-    return linearError <= Settings.linearSlop
-        && angularError <= Settings.angularSlop;
+    return linearError <= step.settings.linearSlop
+        && angularError <= step.settings.angularSlop;
   }
 
 }
@@ -23,14 +23,13 @@
  */
 
 import { options } from '../../util/options';
-import { SettingsInternal as Settings } from '../../Settings';
 import { EPSILON } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
@@ -87,6 +86,11 @@ export interface PulleyJointDef extends JointDef, PulleyJointOpt {
   collideConnected : true
 };
 
+/** Simulation state of a {@link PulleyJoint}, see {@link World.saveState}. */
+export interface PulleyJointState extends JointState {
+  impulse: number;
+}
+
 /**
  * The pulley joint is connected to two bodies and two fixed ground points. The
  * pulley supports a ratio such that: length1 + ratio * length2 <= constant
@@ -98,7 +102,7 @@ export interface PulleyJointDef extends JointDef, PulleyJointOpt {
  * anchor points with static shapes to prevent one side from going to zero
  * length.
  */
-export class PulleyJoint extends Joint {
+export class PulleyJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'pulley-joint' as const;
   // static MIN_PULLEY_LENGTH: number = 2.0; // TODO where this is used?
 
@@ -127,8 +131,8 @@ export class PulleyJoint extends Joint {
   /** @internal */ m_mass: number;
 
   constructor(def: PulleyJointDef);
-  constructor(def: PulleyJointOpt, bodyA: Body, bodyB: Body, groundA: Vec2Value, groundB: Vec2Value, anchorA: Vec2Value, anchorB: Vec2Value, ratio: number);
-  constructor(def: PulleyJointDef, bodyA?: Body, bodyB?: Body, groundA?: Vec2Value, groundB?: Vec2Value, anchorA?: Vec2Value, anchorB?: Vec2Value, ratio?: number) {
+  constructor(def: PulleyJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, groundA: Vec2Value, groundB: Vec2Value, anchorA: Vec2Value, anchorB: Vec2Value, ratio: number);
+  constructor(def: PulleyJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, groundA?: Vec2Value, groundB?: Vec2Value, anchorA?: Vec2Value, anchorB?: Vec2Value, ratio?: number) {
   
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
@@ -312,6 +316,20 @@ export class PulleyJoint extends Joint {
     return 0.0;
   }
 
+  /** @internal */
+  _saveState(): PulleyJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: this.m_impulse,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: PulleyJointState): void {
+    super._restoreState(state);
+    this.m_impulse = state.impulse;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -330,8 +348,8 @@ export class PulleyJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     this.m_rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
     this.m_rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
@@ -343,13 +361,13 @@ export class PulleyJoint extends Joint {
     const lengthA = Vec2.length(this.m_uA);
     const lengthB = Vec2.length(this.m_uB);
 
-    if (lengthA > 10.0 * Settings.linearSlop) {
+    if (lengthA > 10.0 * step.settings.linearSlop) {
       Vec2.scale(this.m_uA, 1.0 / lengthA, this.m_uA);
     } else {
       Vec2.setZero(this.m_uA);
     }
 
-    if (lengthB > 10.0 * Settings.linearSlop) {
+    if (lengthB > 10.0 * step.settings.linearSlop) {
       Vec2.scale(this.m_uB, 1.0 / lengthB, this.m_uB);
     } else {
       Vec2.setZero(this.m_uB);
@@ -418,6 +436,48 @@ export class PulleyJoint extends Joint {
     this.m_bodyB.c_velocity.w = wB;
   }
 
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+
+    let bias = 0.0;
+    let massScale = 1.0;
+    let impulseScale = 0.0;
+    if (useBias) {
+      const cA = this.m_bodyA.c_position.c;
+      const cB = this.m_bodyB.c_position.c;
+      const rA = Rot.mulSub(Rot.create(this.m_bodyA.c_position.a), this.m_localAnchorA, this.m_localCenterA);
+      const rB = Rot.mulSub(Rot.create(this.m_bodyB.c_position.a), this.m_localAnchorB, this.m_localCenterB);
+      const lengthA = Vec2.length(Vec2.sub(Vec2.add(cA, rA), this.m_groundAnchorA));
+      const lengthB = Vec2.length(Vec2.sub(Vec2.add(cB, rB), this.m_groundAnchorB));
+      const C = this.m_constant - lengthA - this.m_ratio * lengthB;
+      bias = softness.biasRate * C;
+      massScale = softness.massScale;
+      impulseScale = softness.impulseScale;
+    }
+
+    const vpA = Vec2.add(vA, Vec2.crossNumVec2(wA, this.m_rA));
+    const vpB = Vec2.add(vB, Vec2.crossNumVec2(wB, this.m_rB));
+
+    const Cdot = -Vec2.dot(this.m_uA, vpA) - this.m_ratio * Vec2.dot(this.m_uB, vpB);
+    const impulse = -massScale * this.m_mass * (Cdot + bias) - impulseScale * this.m_impulse;
+    this.m_impulse += impulse;
+
+    const PA = Vec2.mulNumVec2(-impulse, this.m_uA);
+    const PB = Vec2.mulNumVec2(-this.m_ratio * impulse, this.m_uB);
+    Vec2.addMul(vA, this.m_invMassA, PA, vA);
+    wA += this.m_invIA * Vec2.crossVec2Vec2(this.m_rA, PA);
+    Vec2.addMul(vB, this.m_invMassB, PB, vB);
+    wB += this.m_invIB * Vec2.crossVec2Vec2(this.m_rB, PB);
+
+    this.m_bodyA.c_velocity.v = vA;
+    this.m_bodyA.c_velocity.w = wA;
+    this.m_bodyB.c_velocity.v = vB;
+    this.m_bodyB.c_velocity.w = wB;
+  }
+
   /**
    * This returns true if the position errors are within tolerance.
    */
@@ -427,8 +487,8 @@ export class PulleyJoint extends Joint {
     const cB = this.m_bodyB.c_position.c;
     let aB = this.m_bodyB.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     const rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
     const rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
@@ -440,13 +500,13 @@ export class PulleyJoint extends Joint {
     const lengthA = Vec2.length(uA);
     const lengthB = Vec2.length(uB);
 
-    if (lengthA > 10.0 * Settings.linearSlop) {
+    if (lengthA > 10.0 * step.settings.linearSlop) {
       Vec2.scale(uA, 1.0 / lengthA, uA);
     } else {
       Vec2.setZero(uA);
     }
 
-    if (lengthB > 10.0 * Settings.linearSlop) {
+    if (lengthB > 10.0 * step.settings.linearSlop) {
       Vec2.scale(uB, 1.0 / lengthB, uB);
     } else {
       Vec2.setZero(uB);
@@ -483,7 +543,7 @@ export class PulleyJoint extends Joint {
     this.m_bodyB.c_position.c = cB;
     this.m_bodyB.c_position.a = aB;
 
-    return linearError < Settings.linearSlop;
+    return linearError < step.settings.linearSlop;
   }
 
 }
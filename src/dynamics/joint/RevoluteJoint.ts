@@ -22,22 +22,24 @@
  * SOFTWARE.
  */
 
-import { SettingsInternal as Settings } from '../../Settings';
 import { clamp } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
 import { Vec3Value } from '../../common/Vec3';
 import * as Vec3 from '../../common/Vec3';
-import { Mat22 } from '../../common/Mat22';
-import { Mat33 } from '../../common/Mat33';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import * as Mat22 from '../../common/Mat22';
+import { Mat33Value } from '../../common/Mat33';
+import * as Mat33 from '../../common/Mat33';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const _ASSERT = typeof ASSERT === 'undefined' ? false : ASSERT;
 /** @internal */ const math_abs = Math.abs;
+/** @internal */ const math_max = Math.max;
+/** @internal */ const math_min = Math.min;
 
 
 // todo: use string?
@@ -127,6 +129,13 @@ export interface RevoluteJointDef extends JointDef, RevoluteJointOpt {
   enableMotor : false
 };
 
+/** Simulation state of a {@link RevoluteJoint}, see {@link World.saveState}. */
+export interface RevoluteJointState extends JointState {
+  impulse: Vec3Value;
+  motorImpulse: number;
+  limitState: number;
+}
+
 /**
  * A revolute joint constrains two bodies to share a common point while they are
  * free to rotate about the point. The relative rotation about the shared point
@@ -135,7 +144,7 @@ export interface RevoluteJointDef extends JointDef, RevoluteJointOpt {
  * relative rotation about the shared point. A maximum motor torque is provided
  * so that infinite forces are not generated.
  */
-export class RevoluteJoint extends Joint {
+export class RevoluteJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'revolute-joint' as const;
 
   /** @internal */ m_type: 'revolute-joint';
@@ -161,21 +170,21 @@ export class RevoluteJoint extends Joint {
   /** @internal */ m_invIA: number;
   /** @internal */ m_invIB: number;
   // effective mass for point-to-point constraint.
-  /** @internal */ m_mass: Mat33;
+  /** @internal */ m_mass: Mat33Value;
   // effective mass for motor/limit angular constraint.
   /** @internal */ m_motorMass: number;
   /** @internal */ m_limitState: number;
 
   constructor(def: RevoluteJointDef);
-  constructor(def: RevoluteJointOpt, bodyA: Body, bodyB: Body, anchor: Vec2Value);
-  constructor(def: RevoluteJointDef, bodyA?: Body, bodyB?: Body, anchor?: Vec2Value) {
+  constructor(def: RevoluteJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, anchor: Vec2Value);
+  constructor(def: RevoluteJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, anchor?: Vec2Value) {
 
     def = def ?? {} as RevoluteJointDef;
     super(def, bodyA, bodyB);
     bodyA = this.m_bodyA;
     bodyB = this.m_bodyB;
 
-    this.m_mass = new Mat33();
+    this.m_mass = Mat33.create();
     this.m_limitState = LimitState.inactiveLimit
 
     this.m_type = RevoluteJoint.TYPE;
@@ -462,6 +471,24 @@ export class RevoluteJoint extends Joint {
     return inv_dt * this.m_impulse[2];
   }
 
+  /** @internal */
+  _saveState(): RevoluteJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: Vec3.clone(this.m_impulse),
+      motorImpulse: this.m_motorImpulse,
+      limitState: this.m_limitState,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: RevoluteJointState): void {
+    super._restoreState(state);
+    Vec3.set(state.impulse[0], state.impulse[1], state.impulse[2], this.m_impulse);
+    this.m_motorImpulse = state.motorImpulse;
+    this.m_limitState = state.limitState;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -478,8 +505,8 @@ export class RevoluteJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     this.m_rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
     this.m_rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
@@ -522,7 +549,7 @@ export class RevoluteJoint extends Joint {
     if (this.m_enableLimit && fixedRotation == false) {
       const jointAngle = aB - aA - this.m_referenceAngle;
 
-      if (math_abs(this.m_upperAngle - this.m_lowerAngle) < 2.0 * Settings.angularSlop) {
+      if (math_abs(this.m_upperAngle - this.m_lowerAngle) < 2.0 * step.settings.angularSlop) {
         this.m_limitState = LimitState.equalLimits;
 
       } else if (jointAngle <= this.m_lowerAngle) {
@@ -606,7 +633,7 @@ export class RevoluteJoint extends Joint {
       const Cdot2 = wB - wA;
       const Cdot = Vec3.create(Cdot1[0], Cdot1[1], Cdot2);
 
-      const impulse = Vec3.neg(this.m_mass.solve33(Cdot));
+      const impulse = Vec3.neg(Mat33.solve33(this.m_mass, Cdot));
 
       if (this.m_limitState == LimitState.equalLimits) {
         Vec3.add(this.m_impulse, impulse, this.m_impulse);
@@ -616,7 +643,7 @@ export class RevoluteJoint extends Joint {
 
         if (newImpulse < 0.0) {
           const rhs = Vec2.combine(-1, Cdot1, this.m_impulse[2], Vec2.create(this.m_mass.ez[0], this.m_mass.ez[1]));
-          const reduced = this.m_mass.solve22(rhs);
+          const reduced = Mat33.solve22(this.m_mass, rhs);
           impulse[0] = reduced[0];
           impulse[1] = reduced[1];
           impulse[2] = -this.m_impulse[2];
@@ -633,7 +660,7 @@ export class RevoluteJoint extends Joint {
 
         if (newImpulse > 0.0) {
           const rhs = Vec2.combine(-1, Cdot1, this.m_impulse[2], Vec2.create(this.m_mass.ez[0], this.m_mass.ez[1]));
-          const reduced = this.m_mass.solve22(rhs);
+          const reduced = Mat33.solve22(this.m_mass, rhs);
           impulse[0] = reduced[0];
           impulse[1] = reduced[1];
           impulse[2] = -this.m_impulse[2];
@@ -660,7 +687,110 @@ export class RevoluteJoint extends Joint {
       Vec2.addCombine(Cdot, 1, vB, 1, Vec2.crossNumVec2(wB, this.m_rB), Cdot);
       Vec2.subCombine(Cdot, 1, vA, 1, Vec2.crossNumVec2(wA, this.m_rA), Cdot);
 
-      const impulse = this.m_mass.solve22(Vec2.neg(Cdot));
+      const impulse = Mat33.solve22(this.m_mass, Vec2.neg(Cdot));
+
+      this.m_impulse[0] += impulse[0];
+      this.m_impulse[1] += impulse[1];
+
+      Vec2.subMul(vA, mA, impulse, vA);
+      wA -= iA * Vec2.crossVec2Vec2(this.m_rA, impulse);
+
+      Vec2.addMul(vB, mB, impulse, vB);
+      wB += iB * Vec2.crossVec2Vec2(this.m_rB, impulse);
+    }
+
+    this.m_bodyA.c_velocity.v = vA;
+    this.m_bodyA.c_velocity.w = wA;
+    this.m_bodyB.c_velocity.v = vB;
+    this.m_bodyB.c_velocity.w = wB;
+  }
+
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    const cA = this.m_bodyA.c_position.c;
+    const aA = this.m_bodyA.c_position.a;
+    const cB = this.m_bodyB.c_position.c;
+    const aB = this.m_bodyB.c_position.a;
+
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+
+    const mA = this.m_invMassA;
+    const mB = this.m_invMassB;
+    const iA = this.m_invIA;
+    const iB = this.m_invIB;
+
+    const fixedRotation = (iA + iB === 0.0);
+
+    // Solve motor constraint.
+    if (this.m_enableMotor && this.m_limitState != LimitState.equalLimits && fixedRotation == false) {
+      const Cdot = wB - wA - this.m_motorSpeed;
+      let impulse = -this.m_motorMass * Cdot;
+      const oldImpulse = this.m_motorImpulse;
+      const maxImpulse = step.dt * this.m_maxMotorTorque;
+      this.m_motorImpulse = clamp(this.m_motorImpulse + impulse, -maxImpulse, maxImpulse);
+      impulse = this.m_motorImpulse - oldImpulse;
+
+      wA -= iA * impulse;
+      wB += iB * impulse;
+    }
+
+    // Solve limit constraint, it may be approached until it is reached.
+    if (this.m_enableLimit && this.m_limitState != LimitState.inactiveLimit && fixedRotation == false) {
+      const angle = aB - aA - this.m_referenceAngle;
+      const C = angle - (this.m_limitState == LimitState.atUpperLimit ? this.m_upperAngle : this.m_lowerAngle);
+
+      let bias = 0.0;
+      let massScale = 1.0;
+      let impulseScale = 0.0;
+      if (this.m_limitState == LimitState.atLowerLimit && C > 0.0 || this.m_limitState == LimitState.atUpperLimit && C < 0.0) {
+        bias = C * step.inv_dt;
+      } else if (useBias) {
+        bias = softness.biasRate * C;
+        massScale = softness.massScale;
+        impulseScale = softness.impulseScale;
+      }
+
+      const Cdot = wB - wA;
+      let impulse = -this.m_motorMass * massScale * (Cdot + bias) - impulseScale * this.m_impulse[2];
+      const oldImpulse = this.m_impulse[2];
+      if (this.m_limitState == LimitState.atLowerLimit) {
+        this.m_impulse[2] = math_max(oldImpulse + impulse, 0.0);
+      } else if (this.m_limitState == LimitState.atUpperLimit) {
+        this.m_impulse[2] = math_min(oldImpulse + impulse, 0.0);
+      } else {
+        this.m_impulse[2] = oldImpulse + impulse;
+      }
+      impulse = this.m_impulse[2] - oldImpulse;
+
+      wA -= iA * impulse;
+      wB += iB * impulse;
+    }
+
+    // Solve point-to-point constraint.
+    {
+      const rA = Rot.mulVec2(Rot.create(aA), Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
+      const rB = Rot.mulVec2(Rot.create(aB), Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
+
+      const Cdot = Vec2.zero();
+      Vec2.addCombine(Cdot, 1, vB, 1, Vec2.crossNumVec2(wB, this.m_rB), Cdot);
+      Vec2.subCombine(Cdot, 1, vA, 1, Vec2.crossNumVec2(wA, this.m_rA), Cdot);
+
+      let massScale = 1.0;
+      let impulseScale = 0.0;
+      if (useBias) {
+        const C = Vec2.zero();
+        Vec2.addCombine(C, 1, cB, 1, rB, C);
+        Vec2.subCombine(C, 1, cA, 1, rA, C);
+        Vec2.addMul(Cdot, softness.biasRate, C, Cdot);
+        massScale = softness.massScale;
+        impulseScale = softness.impulseScale;
+      }
+
+      const impulse = Mat33.solve22(this.m_mass, Cdot);
+      impulse[0] = -massScale * impulse[0] - impulseScale * this.m_impulse[0];
+      impulse[1] = -massScale * impulse[1] - impulseScale * this.m_impulse[1];
 
       this.m_impulse[0] += impulse[0];
       this.m_impulse[1] += impulse[1];
@@ -687,8 +817,8 @@ export class RevoluteJoint extends Joint {
     const cB = this.m_bodyB.c_position.c;
     let aB = this.m_bodyB.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     let angularError = 0.0;
     let positionError = 0.0;
@@ -702,7 +832,7 @@ export class RevoluteJoint extends Joint {
 
       if (this.m_limitState == LimitState.equalLimits) {
         // Prevent large angular corrections
-        const C = clamp(angle - this.m_lowerAngle, -Settings.maxAngularCorrection, Settings.maxAngularCorrection);
+        const C = clamp(angle - this.m_lowerAngle, -step.settings.maxAngularCorrection, step.settings.maxAngularCorrection);
         limitImpulse = -this.m_motorMass * C;
         angularError = math_abs(C);
 
@@ -711,7 +841,7 @@ export class RevoluteJoint extends Joint {
         angularError = -C;
 
         // Prevent large angular corrections and allow some slop.
-        C = clamp(C + Settings.angularSlop, -Settings.maxAngularCorrection, 0.0);
+        C = clamp(C + step.settings.angularSlop, -step.settings.maxAngularCorrection, 0.0);
         limitImpulse = -this.m_motorMass * C;
 
       } else if (this.m_limitState == LimitState.atUpperLimit) {
@@ -719,7 +849,7 @@ export class RevoluteJoint extends Joint {
         angularError = C;
 
         // Prevent large angular corrections and allow some slop.
-        C = clamp(C - Settings.angularSlop, 0.0, Settings.maxAngularCorrection);
+        C = clamp(C - step.settings.angularSlop, 0.0, step.settings.maxAngularCorrection);
         limitImpulse = -this.m_motorMass * C;
       }
 
@@ -729,8 +859,8 @@ export class RevoluteJoint extends Joint {
 
     // Solve point-to-point constraint.
     {
-      qA.setAngle(aA);
-      qB.setAngle(aB);
+      Rot.setAngle(aA, qA);
+      Rot.setAngle(aB, qB);
       const rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
       const rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
 
@@ -745,13 +875,13 @@ export class RevoluteJoint extends Joint {
       const iA = this.m_invIA;
       const iB = this.m_invIB;
 
-      const K = new Mat22();
+      const K = Mat22.create();
       K.ex[0] = mA + mB + iA * rA[1] * rA[1] + iB * rB[1] * rB[1];
       K.ex[1] = -iA * rA[0] * rA[1] - iB * rB[0] * rB[1];
       K.ey[0] = K.ex[1];
       K.ey[1] = mA + mB + iA * rA[0] * rA[0] + iB * rB[0] * rB[0];
 
-      const impulse = Vec2.neg(K.solve(C));
+      const impulse = Vec2.neg(Mat22.solve(K, C));
 
       Vec2.subMul(cA, mA, impulse, cA);
       aA -= iA * Vec2.crossVec2Vec2(rA, impulse);
@@ -765,7 +895,7 @@ export class RevoluteJoint extends Joint {
     Vec2.copy(cB, this.m_bodyB.c_position.c);
     this.m_bodyB.c_position.a = aB;
 
-    return positionError <= Settings.linearSlop && angularError <= Settings.angularSlop;
+    return positionError <= step.settings.linearSlop && angularError <= step.settings.angularSlop;
   }
 
 }
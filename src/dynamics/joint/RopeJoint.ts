@@ -23,14 +23,13 @@
  */
 
 import { options } from '../../util/options';
-import { SettingsInternal as Settings } from '../../Settings';
 import { clamp } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const math_min = Math.min;
@@ -75,6 +74,12 @@ export interface RopeJointDef extends JointDef, RopeJointOpt {
   maxLength : 0.0,
 };
 
+/** Simulation state of a {@link RopeJoint}, see {@link World.saveState}. */
+export interface RopeJointState extends JointState {
+  impulse: number;
+  limitState: number;
+}
+
 /**
  * A rope joint enforces a maximum distance between two points on two bodies. It
  * has no other effect.
@@ -86,7 +91,7 @@ export interface RopeJointDef extends JointDef, RopeJointOpt {
  * sponginess, so I chose not to implement it that way. See {@link DistanceJoint} if you
  * want to dynamically control length.
  */
-export class RopeJoint extends Joint {
+export class RopeJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'rope-joint' as const;
 
   /** @internal */ m_type: 'rope-joint';
@@ -112,8 +117,8 @@ export class RopeJoint extends Joint {
   /** @internal */ m_invIB: number;
 
   constructor(def: RopeJointDef);
-  constructor(def: RopeJointOpt, bodyA: Body, bodyB: Body, anchor: Vec2Value);
-  constructor(def: RopeJointDef, bodyA?: Body, bodyB?: Body, anchor?: Vec2Value) {
+  constructor(def: RopeJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, anchor: Vec2Value);
+  constructor(def: RopeJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, anchor?: Vec2Value) {
 
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
@@ -232,6 +237,22 @@ export class RopeJoint extends Joint {
     return 0.0;
   }
 
+  /** @internal */
+  _saveState(): RopeJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: this.m_impulse,
+      limitState: this.m_state,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: RopeJointState): void {
+    super._restoreState(state);
+    this.m_impulse = state.impulse;
+    this.m_state = state.limitState;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -250,8 +271,8 @@ export class RopeJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     this.m_rA = Rot.mulSub(qA, this.m_localAnchorA, this.m_localCenterA);
     this.m_rB = Rot.mulSub(qB, this.m_localAnchorB, this.m_localCenterB);
@@ -268,7 +289,7 @@ export class RopeJoint extends Joint {
       this.m_state = LimitState.inactiveLimit;
     }
 
-    if (this.m_length > Settings.linearSlop) {
+    if (this.m_length > step.settings.linearSlop) {
       Vec2.scale(this.m_u, 1.0 / this.m_length, this.m_u);
     } else {
       Vec2.setZero(this.m_u);
@@ -340,6 +361,52 @@ export class RopeJoint extends Joint {
     this.m_bodyB.c_velocity.w = wB;
   }
 
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    const cA = this.m_bodyA.c_position.c;
+    const cB = this.m_bodyB.c_position.c;
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+
+    const rA = Rot.mulSub(Rot.create(this.m_bodyA.c_position.a), this.m_localAnchorA, this.m_localCenterA);
+    const rB = Rot.mulSub(Rot.create(this.m_bodyB.c_position.a), this.m_localAnchorB, this.m_localCenterB);
+    const C = Vec2.length(Vec2.sub(Vec2.add(cB, rB), Vec2.add(cA, rA))) - this.m_maxLength;
+
+    let bias = 0.0;
+    let massScale = 1.0;
+    let impulseScale = 0.0;
+    if (C < 0.0) {
+      // Predictive constraint.
+      bias = C * step.inv_dt;
+    } else if (useBias) {
+      bias = softness.biasRate * C;
+      massScale = softness.massScale;
+      impulseScale = softness.impulseScale;
+    }
+
+    // Cdot = dot(u, v + cross(w, r))
+    const vpA = Vec2.addCrossNumVec2(vA, wA, this.m_rA);
+    const vpB = Vec2.addCrossNumVec2(vB, wB, this.m_rB);
+    const Cdot = Vec2.dot(this.m_u, Vec2.sub(vpB, vpA));
+
+    let impulse = -massScale * this.m_mass * (Cdot + bias) - impulseScale * this.m_impulse;
+    const oldImpulse = this.m_impulse;
+    this.m_impulse = math_min(0.0, this.m_impulse + impulse);
+    impulse = this.m_impulse - oldImpulse;
+
+    const P = Vec2.mulNumVec2(impulse, this.m_u);
+    Vec2.subMul(vA, this.m_invMassA, P, vA);
+    wA -= this.m_invIA * Vec2.crossVec2Vec2(this.m_rA, P);
+    Vec2.addMul(vB, this.m_invMassB, P, vB);
+    wB += this.m_invIB * Vec2.crossVec2Vec2(this.m_rB, P);
+
+    this.m_bodyA.c_velocity.v = vA;
+    this.m_bodyA.c_velocity.w = wA;
+    this.m_bodyB.c_velocity.v = vB;
+    this.m_bodyB.c_velocity.w = wB;
+  }
+
   /**
    * This returns true if the position errors are within tolerance.
    */
@@ -349,8 +416,8 @@ export class RopeJoint extends Joint {
     const cB = this.m_bodyB.c_position.c;
     let aB = this.m_bodyB.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     const rA = Rot.mulSub(qA, this.m_localAnchorA, this.m_localCenterA);
     const rB = Rot.mulSub(qB, this.m_localAnchorB, this.m_localCenterB);
@@ -361,7 +428,7 @@ export class RopeJoint extends Joint {
     const length = Vec2.normalize(u, u);
     let C = length - this.m_maxLength;
 
-    C = clamp(C, 0.0, Settings.maxLinearCorrection);
+    C = clamp(C, 0.0, step.settings.maxLinearCorrection);
 
     const impulse = -this.m_mass * C;
     const P = Vec2.mulNumVec2(impulse, u);
@@ -376,7 +443,7 @@ export class RopeJoint extends Joint {
     Vec2.copy(cB, this.m_bodyB.c_position.c);
     this.m_bodyB.c_position.a = aB;
 
-    return length - this.m_maxLength < Settings.linearSlop;
+    return length - this.m_maxLength < step.settings.linearSlop;
   }
 
 }
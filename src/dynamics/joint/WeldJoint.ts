@@ -23,16 +23,16 @@
  */
 
 import { options } from '../../util/options';
-import { SettingsInternal as Settings } from '../../Settings';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
 import * as Vec3 from '../../common/Vec3';
 import { Vec3Value } from '../../common/Vec3';
-import { Mat33 } from '../../common/Mat33';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import { Mat33Value } from '../../common/Mat33';
+import * as Mat33 from '../../common/Mat33';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const math_abs = Math.abs;
@@ -84,11 +84,16 @@ export interface WeldJointDef extends JointDef, WeldJointOpt {
   dampingRatio : 0.0,
 };
 
+/** Simulation state of a {@link WeldJoint}, see {@link World.saveState}. */
+export interface WeldJointState extends JointState {
+  impulse: Vec3Value;
+}
+
 /**
  * A weld joint essentially glues two bodies together. A weld joint may distort
  * somewhat because the island constraint solver is approximate.
  */
-export class WeldJoint extends Joint {
+export class WeldJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'weld-joint' as const
 
   /** @internal */ m_type: 'weld-joint';
@@ -113,11 +118,11 @@ export class WeldJoint extends Joint {
   /** @internal */ m_invMassB: number;
   /** @internal */ m_invIA: number;
   /** @internal */ m_invIB: number;
-  /** @internal */ m_mass: Mat33;
+  /** @internal */ m_mass: Mat33Value;
 
   constructor(def: WeldJointDef);
-  constructor(def: WeldJointOpt, bodyA: Body, bodyB: Body, anchor: Vec2Value);
-  constructor(def: WeldJointDef, bodyA?: Body, bodyB?: Body, anchor?: Vec2Value) {
+  constructor(def: WeldJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, anchor: Vec2Value);
+  constructor(def: WeldJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, anchor?: Vec2Value) {
 
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
@@ -147,7 +152,7 @@ export class WeldJoint extends Joint {
     this.m_invMassB;
     this.m_invIA;
     this.m_invIB;
-    this.m_mass = new Mat33();
+    this.m_mass = Mat33.create();
 
     // Point-to-point constraint
     // C = p2 - p1
@@ -287,6 +292,20 @@ export class WeldJoint extends Joint {
     return inv_dt * this.m_impulse[2];
   }
 
+  /** @internal */
+  _saveState(): WeldJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: Vec3.clone(this.m_impulse),
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: WeldJointState): void {
+    super._restoreState(state);
+    Vec3.set(state.impulse[0], state.impulse[1], state.impulse[2], this.m_impulse);
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -303,8 +322,8 @@ export class WeldJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     this.m_rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
     this.m_rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
@@ -323,7 +342,7 @@ export class WeldJoint extends Joint {
     const iA = this.m_invIA;
     const iB = this.m_invIB;
 
-    const K = new Mat33();
+    const K = Mat33.create();
     K.ex[0] = mA + mB + this.m_rA[1] * this.m_rA[1] * iA + this.m_rB[1] * this.m_rB[1]
         * iB;
     K.ey[0] = -this.m_rA[1] * this.m_rA[0] * iA - this.m_rB[1] * this.m_rB[0] * iB;
@@ -337,7 +356,7 @@ export class WeldJoint extends Joint {
     K.ez[2] = iA + iB;
 
     if (this.m_frequencyHz > 0.0) {
-      K.getInverse22(this.m_mass);
+      Mat33.getInverse22(K, this.m_mass);
 
       let invM = iA + iB;
       const m = invM > 0.0 ? 1.0 / invM : 0.0;
@@ -362,11 +381,11 @@ export class WeldJoint extends Joint {
       invM += this.m_gamma;
       this.m_mass.ez[2] = invM != 0.0 ? 1.0 / invM : 0.0;
     } else if (K.ez[2] == 0.0) {
-      K.getInverse22(this.m_mass);
+      Mat33.getInverse22(K, this.m_mass);
       this.m_gamma = 0.0;
       this.m_bias = 0.0;
     } else {
-      K.getSymInverse33(this.m_mass);
+      Mat33.getSymInverse33(K, this.m_mass);
       this.m_gamma = 0.0;
       this.m_bias = 0.0;
     }
@@ -454,6 +473,96 @@ export class WeldJoint extends Joint {
     this.m_bodyB.c_velocity.w = wB;
   }
 
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    const cA = this.m_bodyA.c_position.c;
+    const aA = this.m_bodyA.c_position.a;
+    const cB = this.m_bodyB.c_position.c;
+    const aB = this.m_bodyB.c_position.a;
+
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+
+    const mA = this.m_invMassA;
+    const mB = this.m_invMassB;
+    const iA = this.m_invIA;
+    const iB = this.m_invIB;
+
+    let massScale = 1.0;
+    let impulseScale = 0.0;
+    const C = Vec3.create();
+    if (useBias) {
+      const rA = Rot.mulVec2(Rot.create(aA), Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
+      const rB = Rot.mulVec2(Rot.create(aB), Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
+      C[0] = cB[0] + rB[0] - cA[0] - rA[0];
+      C[1] = cB[1] + rB[1] - cA[1] - rA[1];
+      C[2] = aB - aA - this.m_referenceAngle;
+      massScale = softness.massScale;
+      impulseScale = softness.impulseScale;
+    }
+
+    if (this.m_frequencyHz > 0.0) {
+      // The angular spring is also applied without bias.
+      const Cdot2 = wB - wA;
+
+      const impulse2 = -this.m_mass.ez[2] * (Cdot2 + this.m_bias + this.m_gamma * this.m_impulse[2]);
+      this.m_impulse[2] += impulse2;
+
+      wA -= iA * impulse2;
+      wB += iB * impulse2;
+
+      const Cdot1 = Vec2.zero();
+      Vec2.addCombine(Cdot1, 1, vB, 1, Vec2.crossNumVec2(wB, this.m_rB), Cdot1);
+      Vec2.subCombine(Cdot1, 1, vA, 1, Vec2.crossNumVec2(wA, this.m_rA), Cdot1);
+      Cdot1[0] += softness.biasRate * C[0];
+      Cdot1[1] += softness.biasRate * C[1];
+
+      const impulse1 = Mat33.mulVec2(this.m_mass, Cdot1);
+      impulse1[0] = -massScale * impulse1[0] - impulseScale * this.m_impulse[0];
+      impulse1[1] = -massScale * impulse1[1] - impulseScale * this.m_impulse[1];
+      this.m_impulse[0] += impulse1[0];
+      this.m_impulse[1] += impulse1[1];
+
+      const P = Vec2.clone(impulse1);
+
+      Vec2.subMul(vA, mA, P, vA);
+      wA -= iA * Vec2.crossVec2Vec2(this.m_rA, P);
+
+      Vec2.addMul(vB, mB, P, vB);
+      wB += iB * Vec2.crossVec2Vec2(this.m_rB, P);
+    } else {
+      const Cdot1 = Vec2.zero();
+      Vec2.addCombine(Cdot1, 1, vB, 1, Vec2.crossNumVec2(wB, this.m_rB), Cdot1);
+      Vec2.subCombine(Cdot1, 1, vA, 1, Vec2.crossNumVec2(wA, this.m_rA), Cdot1);
+
+      const Cdot2 = wB - wA;
+      const Cdot = Vec3.create(Cdot1[0], Cdot1[1], Cdot2);
+      Cdot[0] += softness.biasRate * C[0];
+      Cdot[1] += softness.biasRate * C[1];
+      Cdot[2] += softness.biasRate * C[2];
+
+      const impulse = Mat33.mulVec3(this.m_mass, Cdot);
+      impulse[0] = -massScale * impulse[0] - impulseScale * this.m_impulse[0];
+      impulse[1] = -massScale * impulse[1] - impulseScale * this.m_impulse[1];
+      impulse[2] = -massScale * impulse[2] - impulseScale * this.m_impulse[2];
+      Vec3.add(this.m_impulse, impulse, this.m_impulse);
+
+      const P = Vec2.create(impulse[0], impulse[1]);
+
+      Vec2.subMul(vA, mA, P, vA);
+      wA -= iA * (Vec2.crossVec2Vec2(this.m_rA, P) + impulse[2]);
+
+      Vec2.addMul(vB, mB, P, vB);
+      wB += iB * (Vec2.crossVec2Vec2(this.m_rB, P) + impulse[2]);
+    }
+
+    this.m_bodyA.c_velocity.v = vA;
+    this.m_bodyA.c_velocity.w = wA;
+    this.m_bodyB.c_velocity.v = vB;
+    this.m_bodyB.c_velocity.w = wB;
+  }
+
   /**
    * This returns true if the position errors are within tolerance.
    */
@@ -463,8 +572,8 @@ export class WeldJoint extends Joint {
     const cB = this.m_bodyB.c_position.c;
     let aB = this.m_bodyB.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     const mA = this.m_invMassA;
     const mB = this.m_invMassB;
@@ -477,7 +586,7 @@ export class WeldJoint extends Joint {
     let positionError: number;
     let angularError: number;
 
-    const K = new Mat33();
+    const K = Mat33.create();
     K.ex[0] = mA + mB + rA[1] * rA[1] * iA + rB[1] * rB[1] * iB;
     K.ey[0] = -rA[1] * rA[0] * iA - rB[1] * rB[0] * iB;
     K.ez[0] = -rA[1] * iA - rB[1] * iB;
@@ -496,7 +605,7 @@ export class WeldJoint extends Joint {
       positionError = Vec2.length(C1);
       angularError = 0.0;
 
-      const P = Vec2.neg(K.solve22(C1));
+      const P = Vec2.neg(Mat33.solve22(K, C1));
 
       Vec2.subMul(cA, mA, P, cA);
       aA -= iA * Vec2.crossVec2Vec2(rA, P);
@@ -517,9 +626,9 @@ export class WeldJoint extends Joint {
 
       let impulse = Vec3.create();
       if (K.ez[2] > 0.0) {
-        impulse = Vec3.neg(K.solve33(C));
+        impulse = Vec3.neg(Mat33.solve33(K, C));
       } else {
-        const impulse2 = Vec2.neg(K.solve22(C1));
+        const impulse2 = Vec2.neg(Mat33.solve22(K, C1));
         Vec3.set(impulse2[0], impulse2[1], 0.0, impulse);
       }
 
@@ -537,7 +646,7 @@ export class WeldJoint extends Joint {
     this.m_bodyB.c_position.c = cB;
     this.m_bodyB.c_position.a = aB;
 
-    return positionError <= Settings.linearSlop && angularError <= Settings.angularSlop;
+    return positionError <= step.settings.linearSlop && angularError <= step.settings.angularSlop;
   }
 
 }
@@ -23,14 +23,13 @@
  */
 
 import { options } from '../../util/options';
-import { SettingsInternal as Settings } from '../../Settings';
 import { clamp } from '../../common/Math';
 import { Vec2Value } from '../../common/Vec2';
 import * as Vec2 from '../../common/Vec2';
-import { Rot } from '../../common/Rot';
-import { Joint, JointOpt, JointDef } from '../Joint';
+import * as Rot from '../../common/Rot';
+import { Joint, JointOpt, JointDef, JointState } from '../Joint';
 import { Body } from '../Body';
-import { TimeStep } from "../Solver";
+import { Softness, TimeStep } from "../Solver";
 
 
 /** @internal */ const math_abs = Math.abs;
@@ -105,13 +104,20 @@ export interface WheelJointDef extends JointDef, WheelJointOpt {
   dampingRatio : 0.7,
 };
 
+/** Simulation state of a {@link WheelJoint}, see {@link World.saveState}. */
+export interface WheelJointState extends JointState {
+  impulse: number;
+  motorImpulse: number;
+  springImpulse: number;
+}
+
 /**
  * A wheel joint. This joint provides two degrees of freedom: translation along
  * an axis fixed in bodyA and rotation in the plane. In other words, it is a
  * point to line constraint with a rotational motor and a linear spring/damper.
  * This joint is designed for vehicle suspensions.
  */
-export class WheelJoint extends Joint {
+export class WheelJoint<BodyData = unknown, FixtureData = unknown, JointData = unknown> extends Joint<BodyData, FixtureData, JointData> {
   static TYPE = 'wheel-joint' as const;
 
   /** @internal */ m_type: 'wheel-joint';
@@ -153,8 +159,8 @@ export class WheelJoint extends Joint {
   /** @internal */ m_sBy: number;
 
   constructor(def: WheelJointDef);
-  constructor(def: WheelJointOpt, bodyA: Body, bodyB: Body, anchor: Vec2Value, axis: Vec2Value);
-  constructor(def: WheelJointDef, bodyA?: Body, bodyB?: Body, anchor?: Vec2Value, axis?: Vec2Value) {
+  constructor(def: WheelJointOpt, bodyA: Body<BodyData, FixtureData, JointData>, bodyB: Body<BodyData, FixtureData, JointData>, anchor: Vec2Value, axis: Vec2Value);
+  constructor(def: WheelJointDef, bodyA?: Body<BodyData, FixtureData, JointData>, bodyB?: Body<BodyData, FixtureData, JointData>, anchor?: Vec2Value, axis?: Vec2Value) {
     def = options(def, DEFAULTS);
     super(def, bodyA, bodyB);
     bodyA = this.m_bodyA;
@@ -433,6 +439,24 @@ export class WheelJoint extends Joint {
     return inv_dt * this.m_motorImpulse;
   }
 
+  /** @internal */
+  _saveState(): WheelJointState {
+    return {
+      island: this.m_islandFlag,
+      impulse: this.m_impulse,
+      motorImpulse: this.m_motorImpulse,
+      springImpulse: this.m_springImpulse,
+    };
+  }
+
+  /** @internal */
+  _restoreState(state: WheelJointState): void {
+    super._restoreState(state);
+    this.m_impulse = state.impulse;
+    this.m_motorImpulse = state.motorImpulse;
+    this.m_springImpulse = state.springImpulse;
+  }
+
   initVelocityConstraints(step: TimeStep): void {
     this.m_localCenterA = this.m_bodyA.m_sweep.localCenter;
     this.m_localCenterB = this.m_bodyB.m_sweep.localCenter;
@@ -456,8 +480,8 @@ export class WheelJoint extends Joint {
     const vB = this.m_bodyB.c_velocity.v;
     let wB = this.m_bodyB.c_velocity.w;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     // Compute the effective masses.
     const rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
@@ -628,6 +652,90 @@ export class WheelJoint extends Joint {
     this.m_bodyB.c_velocity.w = wB;
   }
 
+  solveSoftVelocityConstraints(step: TimeStep, softness: Softness, useBias: boolean): void {
+    const mA = this.m_invMassA;
+    const mB = this.m_invMassB;
+    const iA = this.m_invIA;
+    const iB = this.m_invIB;
+
+    const vA = this.m_bodyA.c_velocity.v;
+    let wA = this.m_bodyA.c_velocity.w;
+    const vB = this.m_bodyB.c_velocity.v;
+    let wB = this.m_bodyB.c_velocity.w;
+
+    // Solve spring constraint, the spring is also applied without bias.
+    {
+      const Cdot = Vec2.dot(this.m_ax, vB) - Vec2.dot(this.m_ax, vA) + this.m_sBx * wB - this.m_sAx * wA;
+      const impulse = -this.m_springMass * (Cdot + this.m_bias + this.m_gamma * this.m_springImpulse);
+      this.m_springImpulse += impulse;
+
+      const P = Vec2.mulNumVec2(impulse, this.m_ax);
+      const LA = impulse * this.m_sAx;
+      const LB = impulse * this.m_sBx;
+
+      Vec2.subMul(vA, mA, P, vA);
+      wA -= iA * LA;
+
+      Vec2.addMul(vB, mB, P, vB);
+      wB += iB * LB;
+    }
+
+    // Solve rotational motor constraint
+    {
+      const Cdot = wB - wA - this.m_motorSpeed;
+      let impulse = -this.m_motorMass * Cdot;
+
+      const oldImpulse = this.m_motorImpulse;
+      const maxImpulse = step.dt * this.m_maxMotorTorque;
+      this.m_motorImpulse = clamp(this.m_motorImpulse + impulse, -maxImpulse, maxImpulse);
+      impulse = this.m_motorImpulse - oldImpulse;
+
+      wA -= iA * impulse;
+      wB += iB * impulse;
+    }
+
+    // Solve point to line constraint
+    {
+      let bias = 0.0;
+      let massScale = 1.0;
+      let impulseScale = 0.0;
+      if (useBias) {
+        const cA = this.m_bodyA.c_position.c;
+        const cB = this.m_bodyB.c_position.c;
+        const qA = Rot.create(this.m_bodyA.c_position.a);
+        const qB = Rot.create(this.m_bodyB.c_position.a);
+
+        const rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
+        const rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
+        const d = Vec2.sub(Vec2.add(cB, rB), Vec2.add(cA, rA));
+
+        const C = Vec2.dot(d, Rot.mulVec2(qA, this.m_localYAxisA));
+        bias = softness.biasRate * C;
+        massScale = softness.massScale;
+        impulseScale = softness.impulseScale;
+      }
+
+      const Cdot = Vec2.dot(this.m_ay, vB) - Vec2.dot(this.m_ay, vA) + this.m_sBy * wB - this.m_sAy * wA;
+      const impulse = -massScale * this.m_mass * (Cdot + bias) - impulseScale * this.m_impulse;
+      this.m_impulse += impulse;
+
+      const P = Vec2.mulNumVec2(impulse, this.m_ay);
+      const LA = impulse * this.m_sAy;
+      const LB = impulse * this.m_sBy;
+
+      Vec2.subMul(vA, mA, P, vA);
+      wA -= iA * LA;
+
+      Vec2.addMul(vB, mB, P, vB);
+      wB += iB * LB;
+    }
+
+    Vec2.copy(vA, this.m_bodyA.c_velocity.v);
+    this.m_bodyA.c_velocity.w = wA;
+    Vec2.copy(vB, this.m_bodyB.c_velocity.v);
+    this.m_bodyB.c_velocity.w = wB;
+  }
+
   /**
    * This returns true if the position errors are within tolerance.
    */
@@ -637,8 +745,8 @@ export class WheelJoint extends Joint {
     const cB = this.m_bodyB.c_position.c;
     let aB = this.m_bodyB.c_position.a;
 
-    const qA = Rot.neo(aA);
-    const qB = Rot.neo(aB);
+    const qA = Rot.create(aA);
+    const qB = Rot.create(aB);
 
     const rA = Rot.mulVec2(qA, Vec2.sub(this.m_localAnchorA, this.m_localCenterA));
     const rB = Rot.mulVec2(qB, Vec2.sub(this.m_localAnchorB, this.m_localCenterB));
@@ -671,7 +779,7 @@ export class WheelJoint extends Joint {
     Vec2.copy(cB, this.m_bodyB.c_position.c);
     this.m_bodyB.c_position.a = aB;
 
-    return math_abs(C) <= Settings.linearSlop;
+    return math_abs(C) <= step.settings.linearSlop;
   }
 
 }
@@ -1,4 +1,5 @@
-//export * from './serializer/index'; // MR: removed this
+export * from './serializer/index';
+export * from './serializer/BinarySerializer';
 export * from './util/Testbed';
 
 /** @deprecated */
@@ -6,10 +7,10 @@ export { math as Math } from './common/Math';
 
 export * as Vec2 from './common/Vec2';
 export * from './common/Vec3';
-export * from './common/Mat22';
-export * from './common/Mat33';
-export * from './common/Transform';
-export * from './common/Rot';
+export * as Mat22 from './common/Mat22';
+export * as Mat33 from './common/Mat33';
+export * as Transform from './common/Transform';
+export * as Rot from './common/Rot';
 
 export * from './collision/AABB';
 
@@ -17,6 +18,11 @@ export * from './collision/Shape';
 export * from './dynamics/Fixture';
 export * from './dynamics/Body';
 export * from './dynamics/Contact';
+export * from './dynamics/ContactEvents';
+export * from './dynamics/BodyEvents';
+export * from './dynamics/BodyStorage';
+export * from './dynamics/ContactStorage';
+export * from './dynamics/IslandWorkerPool';
 export * from './dynamics/Joint';
 export * from './dynamics/World';
 
@@ -46,10 +52,11 @@ export * from './dynamics/joint/WheelJoint';
 
 export * from './Settings';
 
-export * from './common/Sweep';
+export * as Sweep from './common/Sweep';
 export * from './collision/Manifold';
 export * from './collision/Distance';
 export * from './collision/TimeOfImpact';
+export * from './collision/Geometry';
 export * from './collision/DynamicTree';
 export * from './util/stats';
 
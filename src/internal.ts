@@ -1,6 +1,6 @@
 import { CollidePolygons } from './collision/shape/CollidePolygon';
 import { SettingsInternal as Settings } from './Settings';
-import { Sweep } from './common/Sweep';
+import * as Sweep from './common/Sweep';
 import { DynamicTree } from './collision/DynamicTree';
 import { Manifold } from './collision/Manifold';
 import { Distance } from './collision/Distance';
@@ -0,0 +1,354 @@
+import { World } from '../dynamics/World';
+import { Serializer, SerializedType } from './index';
+
+
+/** @internal */ const MAGIC = 0x4b4e4c50; // 'PLNK' in little-endian
+
+/** @internal */ const TAG_NULL = 0;
+/** @internal */ const TAG_FALSE = 1;
+/** @internal */ const TAG_TRUE = 2;
+/** @internal */ const TAG_INT = 3;
+/** @internal */ const TAG_FLOAT = 4;
+/** @internal */ const TAG_STRING = 5;
+/** @internal */ const TAG_ARRAY = 6;
+/** @internal */ const TAG_NUMBERS = 7;
+/** @internal */ const TAG_OBJECT = 8;
+
+/** @internal */ const textEncoder = new TextEncoder();
+/** @internal */ const textDecoder = new TextDecoder();
+
+/**
+ * Converts a world to and from a compact binary format, for sending over the
+ * network or storing in save files.
+ *
+ * The binary format encodes the same data as {@link Serializer}, which is
+ * produced by `_serialize` of the world, bodies, fixtures, shapes and joints.
+ * It starts with a header with a magic number and the format version, followed
+ * by a table of strings used as keys and values, followed by the data. Numbers
+ * are stored as 64-bit floats, so decoded worlds are exact copies.
+ */
+export class BinarySerializer {
+  /** Version of the binary format written by {@link BinarySerializer.toBinary}. */
+  static readonly VERSION = 1;
+
+  /**
+   * Encode a world to an ArrayBuffer.
+   */
+  static toBinary(world: World): ArrayBuffer {
+    return BinarySerializer.encode(Serializer.toJson(world));
+  }
+
+  /**
+   * Decode a world from an ArrayBuffer written by {@link BinarySerializer.toBinary}.
+   */
+  static fromBinary(buffer: ArrayBuffer): World {
+    return Serializer.fromJson(BinarySerializer.decode(buffer));
+  }
+
+  /**
+   * Encode serialized world data, see {@link Serializer.toJson}.
+   */
+  static encode(json: SerializedType): ArrayBuffer {
+    const strings: string[] = [];
+    const stringIndex = new Map<string, number>();
+    const data = new BinaryWriter();
+
+    function writeString(value: string): void {
+      let index = stringIndex.get(value);
+      if (index === undefined) {
+        index = strings.length;
+        strings.push(value);
+        stringIndex.set(value, index);
+      }
+      data.writeVarUint(index);
+    }
+
+    function writeValue(value: any): void {
+      if (value === null || value === undefined) {
+        data.writeUint8(TAG_NULL);
+      } else if (value === false) {
+        data.writeUint8(TAG_FALSE);
+      } else if (value === true) {
+        data.writeUint8(TAG_TRUE);
+      } else if (typeof value === 'number') {
+        if ((value | 0) === value && !Object.is(value, -0)) {
+          data.writeUint8(TAG_INT);
+          data.writeVarInt(value);
+        } else {
+          data.writeUint8(TAG_FLOAT);
+          data.writeFloat64(value);
+        }
+      } else if (typeof value === 'string') {
+        data.writeUint8(TAG_STRING);
+        writeString(value);
+      } else if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+        const array = value as ArrayLike<any>;
+        if (isNumberArray(array)) {
+          data.writeUint8(TAG_NUMBERS);
+          data.writeVarUint(array.length);
+          for (let i = 0; i < array.length; i++) {
+            data.writeFloat64(array[i]);
+          }
+        } else {
+          data.writeUint8(TAG_ARRAY);
+          data.writeVarUint(array.length);
+          for (let i = 0; i < array.length; i++) {
+            writeValue(array[i]);
+          }
+        }
+      } else if (typeof value === 'object') {
+        const keys = [];
+        // tslint:disable-next-line:no-for-in
+        for (const key in value) {
+          if (value.hasOwnProperty(key) && value[key] !== undefined && typeof value[key] !== 'function') {
+            keys.push(key);
+          }
+        }
+        data.writeUint8(TAG_OBJECT);
+        data.writeVarUint(keys.length);
+        for (let i = 0; i < keys.length; i++) {
+          writeString(keys[i]);
+          writeValue(value[keys[i]]);
+        }
+      } else {
+        throw new Error('Unsupported value in serialized data: ' + typeof value);
+      }
+    }
+
+    writeValue(json);
+
+    const header = new BinaryWriter();
+    header.writeUint32(MAGIC);
+    header.writeUint16(BinarySerializer.VERSION);
+    header.writeVarUint(strings.length);
+    for (let i = 0; i < strings.length; i++) {
+      const bytes = textEncoder.encode(strings[i]);
+      header.writeVarUint(bytes.length);
+      header.writeBytes(bytes);
+    }
+    header.writeBytes(data.toBytes());
+    return header.toBytes().slice().buffer;
+  }
+
+  /**
+   * Decode serialized world data, see {@link Serializer.fromJson}.
+   */
+  static decode(buffer: ArrayBuffer): SerializedType {
+    const reader = new BinaryReader(buffer);
+
+    if (reader.readUint32() !== MAGIC) {
+      throw new Error('Invalid binary world data');
+    }
+    const version = reader.readUint16();
+    if (version !== BinarySerializer.VERSION) {
+      throw new Error('Unsupported binary world data version: ' + version);
+    }
+
+    const strings: string[] = [];
+    const stringCount = reader.readVarUint();
+    for (let i = 0; i < stringCount; i++) {
+      const length = reader.readVarUint();
+      strings.push(textDecoder.decode(reader.readBytes(length)));
+    }
+
+    function readValue(): any {
+      const tag = reader.readUint8();
+      switch (tag) {
+        case TAG_NULL:
+          return null;
+        case TAG_FALSE:
+          return false;
+        case TAG_TRUE:
+          return true;
+        case TAG_INT:
+          return reader.readVarInt();
+        case TAG_FLOAT:
+          return reader.readFloat64();
+        case TAG_STRING:
+          return strings[reader.readVarUint()];
+        case TAG_NUMBERS: {
+          const length = reader.readVarUint();
+          const array = [];
+          for (let i = 0; i < length; i++) {
+            array.push(reader.readFloat64());
+          }
+          return array;
+        }
+        case TAG_ARRAY: {
+          const length = reader.readVarUint();
+          const array = [];
+          for (let i = 0; i < length; i++) {
+            array.push(readValue());
+          }
+          return array;
+        }
+        case TAG_OBJECT: {
+          const count = reader.readVarUint();
+          const object = {};
+          for (let i = 0; i < count; i++) {
+            const key = strings[reader.readVarUint()];
+            object[key] = readValue();
+          }
+          return object;
+        }
+        default:
+          throw new Error('Invalid binary world data, unknown tag: ' + tag);
+      }
+    }
+
+    return readValue();
+  }
+}
+
+/** @internal */
+function isNumberArray(array: ArrayLike<any>): boolean {
+  if (array.length === 0) {
+    return false;
+  }
+  for (let i = 0; i < array.length; i++) {
+    if (typeof array[i] !== 'number') {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** @internal Growable little-endian byte buffer. */
+class BinaryWriter {
+  bytes = new Uint8Array(256);
+  view = new DataView(this.bytes.buffer);
+  length = 0;
+
+  reserve(size: number): void {
+    if (this.length + size <= this.bytes.length) {
+      return;
+    }
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  writeUint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  writeUint16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value, true);
+    this.length += 2;
+  }
+
+  writeUint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  writeFloat64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  /** LEB128 variable length unsigned integer. */
+  writeVarUint(value: number): void {
+    do {
+      let byte = value & 0x7f;
+      value >>>= 7;
+      if (value !== 0) {
+        byte |= 0x80;
+      }
+      this.writeUint8(byte);
+    } while (value !== 0);
+  }
+
+  /** Zigzag encoded variable length signed integer. */
+  writeVarInt(value: number): void {
+    this.writeVarUint(((value << 1) ^ (value >> 31)) >>> 0);
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+}
+
+/** @internal */
+class BinaryReader {
+  bytes: Uint8Array;
+  view: DataView;
+  offset = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.bytes = new Uint8Array(buffer);
+    this.view = new DataView(buffer);
+  }
+
+  check(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error('Invalid binary world data, unexpected end of data');
+    }
+  }
+
+  readUint8(): number {
+    this.check(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  readUint16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  readUint32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  readFloat64(): number {
+    this.check(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  readVarUint(): number {
+    let value = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = this.readUint8();
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value >>> 0;
+  }
+
+  readVarInt(): number {
+    const value = this.readVarUint();
+    return (value >>> 1) ^ -(value & 1);
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.check(length);
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
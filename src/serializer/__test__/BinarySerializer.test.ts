@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+
+import * as Vec2 from '../../common/Vec2';
+import { BoxShape } from '../../collision/shape/BoxShape';
+import { CircleShape } from '../../collision/shape/CircleShape';
+import { EdgeShape } from '../../collision/shape/EdgeShape';
+import { World } from '../../dynamics/World';
+import { RevoluteJoint } from '../../dynamics/joint/RevoluteJoint';
+import { Serializer } from '..';
+import { BinarySerializer } from '../BinarySerializer';
+
+// registers collision functions
+import '../../collision/shape/CollidePolygon';
+import '../../collision/shape/CollideEdgePolygon';
+import '../../collision/shape/CollideEdgeCircle';
+
+describe('BinarySerializer', function(): void {
+
+  it('encodes and decodes a world', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new EdgeShape(Vec2.create(-40, 0), Vec2.create(40, 0)));
+
+    var wheel = world.createDynamicBody(Vec2.create(0, 2));
+    wheel.createFixture(new CircleShape(1), { density: 1, friction: 0.5 });
+
+    var box = world.createDynamicBody(Vec2.create(4, 3));
+    box.createFixture(new BoxShape(1, 0.5), { density: 2, isSensor: true });
+
+    world.createJoint(new RevoluteJoint({}, wheel, box, Vec2.create(2, 2)));
+
+    for (var i = 0; i < 30; ++i) {
+      world.step(1 / 60);
+    }
+
+    var json = Serializer.toJson(world);
+    var buffer = BinarySerializer.toBinary(world);
+
+    expect(buffer).instanceOf(ArrayBuffer);
+    expect(buffer.byteLength).lessThan(JSON.stringify(json).length);
+    expect(new DataView(buffer).getUint16(4, true)).equal(BinarySerializer.VERSION);
+
+    expect(BinarySerializer.decode(buffer)).deep.equal(json);
+
+    var copy = BinarySerializer.fromBinary(buffer);
+    expect(Serializer.toJson(copy)).deep.equal(json);
+    expect(copy.getBodyList().getPosition()).deep.equal(box.getPosition());
+    expect(copy.getBodyList().getLinearVelocity()).deep.equal(box.getLinearVelocity());
+  });
+
+  it('rejects invalid data', function(): void {
+    var buffer = BinarySerializer.toBinary(new World());
+
+    var version = buffer.slice(0);
+    new DataView(version).setUint16(4, BinarySerializer.VERSION + 1, true);
+    expect(function(): void {
+      BinarySerializer.fromBinary(version);
+    }).throws('version');
+
+    expect(function(): void {
+      BinarySerializer.fromBinary(new Uint8Array([1, 2, 3, 4, 5, 6]).buffer);
+    }).throws('Invalid');
+
+    expect(function(): void {
+      BinarySerializer.fromBinary(buffer.slice(0, buffer.byteLength - 1));
+    }).throws('end of data');
+  });
+
+});
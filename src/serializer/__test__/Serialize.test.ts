@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+
+import * as Vec2 from '../../common/Vec2';
+import { BoxShape } from '../../collision/shape/BoxShape';
+import { CircleShape } from '../../collision/shape/CircleShape';
+import { EdgeShape } from '../../collision/shape/EdgeShape';
+import { ChainShape } from '../../collision/shape/ChainShape';
+import { PolygonShape } from '../../collision/shape/PolygonShape';
+import { World } from '../../dynamics/World';
+import { RevoluteJoint } from '../../dynamics/joint/RevoluteJoint';
+import { PrismaticJoint } from '../../dynamics/joint/PrismaticJoint';
+import { GearJoint } from '../../dynamics/joint/GearJoint';
+import { Serializer } from '..';
+
+describe('Serializer', function(): void {
+
+  it('saves and loads a world', function(): void {
+    var world = new World(Vec2.create(0, -10));
+
+    var ground = world.createBody();
+    ground.createFixture(new EdgeShape(Vec2.create(-40, 0), Vec2.create(40, 0)));
+    ground.createFixture(new ChainShape([Vec2.create(-5, 5), Vec2.create(0, 6), Vec2.create(5, 5)]));
+
+    var wheel = world.createDynamicBody(Vec2.create(0, 2));
+    wheel.createFixture(new CircleShape(1), { density: 1, friction: 0.5 });
+
+    var slider = world.createDynamicBody(Vec2.create(4, 2));
+    slider.createFixture(new BoxShape(1, 0.5), 2);
+
+    var revolute = world.createJoint(new RevoluteJoint({}, ground, wheel, Vec2.create(0, 2)));
+    var prismatic = world.createJoint(new PrismaticJoint({}, ground, slider, Vec2.create(4, 2), Vec2.create(1, 0)));
+    world.createJoint(new GearJoint({}, wheel, slider, revolute, prismatic, 2));
+
+    var json = Serializer.toJson(world);
+    var text = JSON.stringify(json);
+
+    // vectors are stored as tuples
+    expect(json[0]['gravity']).deep.equal([0, -10]);
+    expect(text).not.contain('"x"');
+
+    var copy = Serializer.fromJson(JSON.parse(text));
+
+    expect(copy.getBodyCount()).equal(3);
+    expect(copy.getJointCount()).equal(3);
+    expect(copy.getGravity()).deep.equal([0, -10]);
+
+    // serializing the copy produces the same data
+    expect(Serializer.toJson(copy)).deep.equal(json);
+
+    // bodies are prepended to the world list: slider, wheel, ground
+    var bodies = [];
+    for (var b = copy.getBodyList(); b; b = b.getNext()) {
+      bodies.push(b);
+    }
+    expect(bodies[1].getPosition()).deep.equal([0, 2]);
+    expect(bodies[1].getFixtureList().getShape().getType()).equal('circle');
+    expect(bodies[1].getFixtureList().getFriction()).equal(0.5);
+    expect(bodies[0].getMass()).closeTo(slider.getMass(), 1e-12);
+
+    var gear = copy.getJointList() as GearJoint;
+    expect(gear.getType()).equal('gear-joint');
+    expect(gear.getJoint1().getType()).equal('revolute-joint');
+    expect(gear.getJoint2().getType()).equal('prismatic-joint');
+  });
+
+  it('loads upstream planck.js files with object vectors', function(): void {
+    var json = [
+      {
+        gravity: { x: 0, y: -10 },
+        bodies: [{ refIndex: 1, refType: 'Body' }],
+        joints: [],
+      },
+      {
+        type: 'dynamic',
+        bullet: false,
+        position: { x: 1, y: 2 },
+        angle: 0,
+        linearVelocity: { x: 3, y: 0 },
+        angularVelocity: 0,
+        fixtures: [{ refIndex: 2, refType: 'Fixture' }],
+      },
+      {
+        friction: 0.2,
+        restitution: 0,
+        density: 1,
+        isSensor: false,
+        filterGroupIndex: 0,
+        filterCategoryBits: 1,
+        filterMaskBits: 65535,
+        shape: { refIndex: 3, refType: 'Shape' },
+      },
+      {
+        type: 'polygon',
+        vertices: [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }],
+      },
+    ];
+
+    var world = Serializer.fromJson(json);
+    var body = world.getBodyList();
+
+    expect(world.getGravity()).deep.equal([0, -10]);
+    expect(body.getPosition()).deep.equal([1, 2]);
+    expect(body.getLinearVelocity()).deep.equal([3, 0]);
+
+    var shape = body.getFixtureList().getShape() as PolygonShape;
+    expect(shape.m_count).equal(4);
+    expect(body.getMass()).closeTo(4, 1e-12);
+  });
+
+});
@@ -0,0 +1,264 @@
+import { World } from '../dynamics/World';
+import { Body } from '../dynamics/Body';
+import { Joint } from '../dynamics/Joint';
+import { Fixture } from '../dynamics/Fixture';
+import { Shape } from '../collision/Shape';
+import * as Vec2 from '../common/Vec2';
+import { ChainShape } from "../collision/shape/ChainShape";
+import { BoxShape } from "../collision/shape/BoxShape";
+import { EdgeShape } from "../collision/shape/EdgeShape";
+import { PolygonShape } from "../collision/shape/PolygonShape";
+import { CircleShape } from "../collision/shape/CircleShape";
+import { DistanceJoint } from "../dynamics/joint/DistanceJoint";
+import { FrictionJoint } from "../dynamics/joint/FrictionJoint";
+import { GearJoint } from "../dynamics/joint/GearJoint";
+import { MotorJoint } from "../dynamics/joint/MotorJoint";
+import { MouseJoint } from "../dynamics/joint/MouseJoint";
+import { PrismaticJoint } from "../dynamics/joint/PrismaticJoint";
+import { PulleyJoint } from "../dynamics/joint/PulleyJoint";
+import { RevoluteJoint } from "../dynamics/joint/RevoluteJoint";
+import { RopeJoint } from "../dynamics/joint/RopeJoint";
+import { WeldJoint } from "../dynamics/joint/WeldJoint";
+import { WheelJoint } from "../dynamics/joint/WheelJoint";
+
+
+// Classes to be serialized as reference objects
+/** @internal */ const SERIALIZE_REF_TYPES = {
+  'World': World,
+  'Body': Body,
+  'Joint': Joint,
+  'Fixture': Fixture,
+  'Shape': Shape,
+};
+
+// For deserializing reference objects by reference type
+/** @internal */ const DESERIALIZE_BY_REF_TYPE = {
+  'Vec2': Vec2,
+  ...SERIALIZE_REF_TYPES
+};
+
+// For deserializing data objects by type field
+/** @internal */ const DESERIALIZE_BY_TYPE_FIELD = {
+  [Body.STATIC]: Body,
+  [Body.DYNAMIC]: Body,
+  [Body.KINEMATIC]: Body,
+  [ChainShape.TYPE]: ChainShape,
+  [BoxShape.TYPE]: BoxShape,
+  [EdgeShape.TYPE]: EdgeShape,
+  [PolygonShape.TYPE]: PolygonShape,
+  [CircleShape.TYPE]: CircleShape,
+  [DistanceJoint.TYPE]: DistanceJoint,
+  [FrictionJoint.TYPE]: FrictionJoint,
+  [GearJoint.TYPE]: GearJoint,
+  [MotorJoint.TYPE]: MotorJoint,
+  [MouseJoint.TYPE]: MouseJoint,
+  [PrismaticJoint.TYPE]: PrismaticJoint,
+  [PulleyJoint.TYPE]: PulleyJoint,
+  [RevoluteJoint.TYPE]: RevoluteJoint,
+  [RopeJoint.TYPE]: RopeJoint,
+  [WeldJoint.TYPE]: WeldJoint,
+  [WheelJoint.TYPE]: WheelJoint,
+};
+
+/** @internal */ const DEFAULT_OPTIONS: SerializerOptions = {
+  rootClass: World,
+  preSerialize: function(obj) { return obj; },
+  postSerialize: function(data, obj) { return data; },
+  preDeserialize: function(data) { return data; },
+  postDeserialize: function(obj, data) { return obj; },
+};
+
+/**
+ * Serialized world, an array of plain data objects. The first element is the
+ * root (world), other elements are referenced from it by `refIndex`.
+ */
+export type SerializedType = object[];
+
+export interface SerializerOptions {
+  rootClass: any;
+  preSerialize?: (obj: any) => any;
+  postSerialize?: (data: any, obj: any) => any;
+  preDeserialize?: (data: any) => any;
+  postDeserialize?: (obj: any, data: any) => any;
+}
+
+/**
+ * Converts a world to and from JSON-compatible data, using `_serialize` and
+ * `_deserialize` of the world, bodies, fixtures, shapes and joints.
+ *
+ * Vectors are written as `[x, y]` tuples. Files written by upstream planck.js,
+ * which stores vectors as `{ x, y }` objects, can be read as well.
+ */
+export class Serializer<T> {
+  toJson: (root: T) => SerializedType;
+  fromJson: (json: SerializedType) => T;
+
+  constructor(options: SerializerOptions) {
+    options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+    };
+
+    const rootClass = options.rootClass;
+    const preSerialize = options.preSerialize;
+    const postSerialize = options.postSerialize;
+    const preDeserialize = options.preDeserialize;
+    const postDeserialize = options.postDeserialize;
+
+    this.toJson = function(root: T): SerializedType {
+      const json = [];
+
+      const queue: any[] = [root];
+      const refMap = new Map<object, object>();
+
+      function storeRef(value: object, typeName: string): object {
+        if (!refMap.has(value)) {
+          queue.push(value);
+          const index = json.length + queue.length;
+          const ref = {
+            refIndex: index,
+            refType: typeName
+          };
+          refMap.set(value, ref);
+        }
+        return refMap.get(value);
+      }
+
+      function serialize(obj: any): any {
+        obj = preSerialize(obj);
+        let data = obj._serialize();
+        data = postSerialize(data, obj);
+        return data;
+      }
+
+      function toJson(value: any, top?: any): any {
+        if (typeof value !== 'object' || value === null) {
+          return value;
+        }
+        if (typeof value._serialize === 'function') {
+          if (value !== top) {
+            // tslint:disable-next-line:no-for-in
+            for (const typeName in SERIALIZE_REF_TYPES) {
+              if (value instanceof SERIALIZE_REF_TYPES[typeName]) {
+                return storeRef(value, typeName);
+              }
+            }
+          }
+          value = serialize(value);
+        }
+        if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+          // vectors may also be typed arrays, e.g. from gl-matrix
+          const newValue = [];
+          for (let key = 0; key < (value as ArrayLike<any>).length; key++) {
+            newValue[key] = toJson(value[key]);
+          }
+          value = newValue;
+
+        } else {
+          const newValue = {};
+          // tslint:disable-next-line:no-for-in
+          for (const key in value) {
+            if (value.hasOwnProperty(key)) {
+              newValue[key] = toJson(value[key]);
+            }
+          }
+          value = newValue;
+        }
+        return value;
+      }
+
+      while (queue.length) {
+        const obj = queue.shift();
+        const str = toJson(obj, obj);
+        json.push(str);
+      }
+
+      return json;
+    };
+
+    this.fromJson = function(json: SerializedType): T {
+      const refMap = {};
+
+      function findDeserilizer(data: any, cls: any): any {
+        if (!cls || !cls._deserialize) {
+          cls = DESERIALIZE_BY_TYPE_FIELD[data.type];
+        }
+        return cls && cls._deserialize;
+      }
+
+      function deserialize(cls: any, data: any, ctx: any): any {
+        const deserializer = findDeserilizer(data, cls);
+        if (!deserializer) {
+          return;
+        }
+        data = preDeserialize(toVec2Tuples(data));
+        let obj = deserializer(data, ctx, restoreRef);
+        obj = postDeserialize(obj, data);
+        return obj;
+      }
+
+      function restoreRef(cls: any, ref: any, ctx: any): any {
+        const isRefObject = ref.refIndex && ref.refType;
+        if (!isRefObject) {
+          return deserialize(cls, ref, ctx);
+        }
+        cls = DESERIALIZE_BY_REF_TYPE[ref.refType] || cls;
+        const index = ref.refIndex;
+        if (!refMap[index]) {
+          const data = json[index];
+          const obj = deserialize(cls, data, ctx);
+          refMap[index] = obj;
+        }
+        return refMap[index];
+      }
+
+      const root = rootClass._deserialize(toVec2Tuples(json[0]), null, restoreRef);
+      return root;
+    };
+  }
+
+  static toJson: (root: World) => SerializedType;
+  static fromJson: (json: SerializedType) => World;
+}
+
+/**
+ * @internal
+ * Upstream planck.js writes vectors as `{ x, y }`, convert them to `[x, y]`
+ * tuples so they can be passed to constructors and `_deserialize` methods.
+ */
+function toVec2Tuples(data: any): any {
+  if (typeof data !== 'object' || data === null) {
+    return data;
+  }
+  if (isLegacyVec2(data)) {
+    return Vec2.create(data.x, data.y);
+  }
+  if (Array.isArray(data)) {
+    const result = [];
+    for (let i = 0; i < data.length; i++) {
+      result[i] = toVec2Tuples(data[i]);
+    }
+    return result;
+  }
+  const result = {};
+  // tslint:disable-next-line:no-for-in
+  for (const key in data) {
+    if (data.hasOwnProperty(key)) {
+      result[key] = toVec2Tuples(data[key]);
+    }
+  }
+  return result;
+}
+
+/** @internal */
+function isLegacyVec2(data: any): boolean {
+  const keys = Object.keys(data);
+  return keys.length === 2 && typeof data.x === 'number' && typeof data.y === 'number';
+}
+
+/** @internal */ const worldSerializer = new Serializer<World>({
+  rootClass: World,
+});
+
+Serializer.fromJson = worldSerializer.fromJson;
+Serializer.toJson = worldSerializer.toJson;